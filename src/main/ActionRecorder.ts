@@ -6,18 +6,51 @@ import type {
   ActionType,
   ElementSelector,
   RecorderState,
+  RecorderStateListener,
+  TabEvent,
+  TabHost,
 } from "./types/RecorderTypes";
-import * as fs from "fs";
-import * as path from "path";
-import { app } from "electron";
-import { PlaywrightGenerator } from "./PlaywrightGenerator";
+import {
+  rankSelectorCandidates,
+  SELECTOR_ENGINE_JS,
+} from "./tools/selectorEngine";
+import { filePlaceholderName } from "./tools/fileUpload";
+import {
+  assertionChoices,
+  type AssertionChoice,
+  type PickedElement,
+} from "./tools/assertions";
+import { classifyNavigation, type HistoryState } from "./tools/navigation";
+import { isSensitiveField, redactSelector, secretName } from "./tools/secrets";
+import { mergeInputRuns } from "./tools/replaySteps";
+import type { SecretVault } from "./SecretVault";
+import type { RecordingStore } from "./RecordingStore";
+
+// A tab taking part in the recording
+interface RecordedTab {
+  tab: Tab;
+  page: string; // Its page variable in the script
+  history: HistoryState; // As of its last recorded navigation
+  pageInitiated: boolean; // Whether the page started the navigation under way
+  detach: () => void; // Removes the recorder's listeners from the tab
+}
 
 export class ActionRecorder {
   private state: RecorderState;
-  private recordingsDir: string;
-  private currentTab: Tab | null = null;
-
-  constructor() {
+  private store: RecordingStore;
+  private host: TabHost;
+  private vault: SecretVault;
+  private currentTab: Tab | null = null; // The recorded tab the user is on
+  private tabs: Map<string, RecordedTab> = new Map();
+  private pageCount: number = 0;
+  private removeTabListener: (() => void) | null = null;
+  // Typed secrets by vault name, held until the recording is stopped
+  private secrets: Map<string, string> = new Map();
+  private stateListeners: Set<RecorderStateListener> = new Set();
+
+  constructor(host: TabHost, vault: SecretVault, store: RecordingStore) {
+    this.host = host;
+    this.vault = vault;
     this.state = {
       isRecording: false,
       isPaused: false,
@@ -25,77 +58,16 @@ export class ActionRecorder {
       recordings: [],
     };
 
-    // Set up recordings directory
-    this.recordingsDir = path.join(app.getPath("userData"), "recordings");
-    this.ensureRecordingsDir();
-    this.loadRecordings();
-  }
-
-  private ensureRecordingsDir(): void {
-    if (!fs.existsSync(this.recordingsDir)) {
-      fs.mkdirSync(this.recordingsDir, { recursive: true });
+    this.store = store;
+    const migrated = this.store.migrateScriptRecordings();
+    if (migrated > 0) {
+      console.log(`📹 [RECORDER] Migrated ${migrated} script recording(s)`);
     }
+    this.loadRecordings();
   }
 
   private loadRecordings(): void {
-    try {
-      const files = fs.readdirSync(this.recordingsDir);
-      this.state.recordings = files
-        .filter((file) => file.endsWith(".spec.ts"))
-        .map((file) => {
-          const content = fs.readFileSync(
-            path.join(this.recordingsDir, file),
-            "utf-8",
-          );
-          return this.parsePlaywrightScript(file, content);
-        })
-        .sort((a, b) => b.updatedAt - a.updatedAt);
-    } catch (error) {
-      console.error("Error loading recordings:", error);
-      this.state.recordings = [];
-    }
-  }
-
-  /**
-   * Parse metadata from Playwright script comments
-   */
-  private parsePlaywrightScript(filename: string, content: string): Recording {
-    const lines = content.split("\n");
-    let id = filename.replace(".spec.ts", "");
-    let name = id;
-    let description: string | undefined;
-    let createdAt = 0;
-    let targetSite: string | undefined;
-
-    for (const line of lines) {
-      if (line.includes("// Recording ID:")) {
-        id = line.split("// Recording ID:")[1].trim();
-      } else if (line.includes("// Created:")) {
-        const dateStr = line.split("// Created:")[1].trim();
-        createdAt = new Date(dateStr).getTime();
-      } else if (line.includes("// Description:")) {
-        description = line.split("// Description:")[1].trim();
-      } else if (line.includes("test('")) {
-        const match = line.match(/test\('([^']+)'/);
-        if (match) name = match[1];
-      } else if (line.includes("await page.goto('")) {
-        const match = line.match(/goto\('([^']+)'\)/);
-        if (match) targetSite = match[1];
-      }
-    }
-
-    return {
-      id,
-      name,
-      description,
-      createdAt,
-      updatedAt: createdAt,
-      actions: [], // Actions are in the script, not needed here
-      metadata: {
-        targetSite,
-        manualSteps: (content.match(/\/\/ MANUAL STEP:/g) || []).length,
-      },
-    };
+    this.state.recordings = this.store.list();
   }
 
   public async startRecording(
@@ -117,6 +89,12 @@ export class ActionRecorder {
 
     console.log("📹 [RECORDER] Setting current tab:", tab.id);
     this.currentTab = tab;
+    this.pageCount = 0;
+    this.secrets.clear();
+    this.watchTab(tab);
+    this.removeTabListener = this.host.addTabListener((event) =>
+      this.onTabEvent(event),
+    );
 
     const recording: Recording = {
       id: uuidv4(),
@@ -149,10 +127,12 @@ export class ActionRecorder {
       this.state.isRecording = false;
       this.state.currentRecording = null;
       this.currentTab = null;
+      this.unwatchTabs();
       throw error;
     }
 
     console.log("📹 [RECORDER] Recording started successfully:", recording.id);
+    this.emitState();
     return recording;
   }
 
@@ -161,6 +141,7 @@ export class ActionRecorder {
       throw new Error("Not recording");
     }
     this.state.isPaused = true;
+    this.emitState();
   }
 
   public resumeRecording(): void {
@@ -168,6 +149,13 @@ export class ActionRecorder {
       throw new Error("Not recording");
     }
     this.state.isPaused = false;
+    this.emitState();
+
+    // Pick up from whichever tab the user went to while paused
+    const active = this.host.activeTab;
+    if (active && active !== this.currentTab) {
+      this.activateTab(active);
+    }
   }
 
   public async addManualStep(description: string): Promise<void> {
@@ -187,6 +175,7 @@ export class ActionRecorder {
       url: this.currentTab.url,
       description,
       screenshot: screenshot.toDataURL(),
+      tab: this.tabs.get(this.currentTab.id)?.page,
     };
 
     this.state.currentRecording.actions.push(action);
@@ -196,50 +185,304 @@ export class ActionRecorder {
     }
   }
 
+  /**
+   * Put the recorded tab in assert mode: its next click picks the element
+   * to check (reported back through "recorder-assert-target") instead of
+   * being recorded
+   */
+  public async pickAssertTarget(): Promise<void> {
+    if (!this.state.isRecording || !this.currentTab) {
+      throw new Error("Not recording");
+    }
+    if (this.state.isPaused) {
+      throw new Error("Recording is paused");
+    }
+    await this.currentTab.runJs("window.__blueberryPickAssertTarget?.()");
+  }
+
+  /**
+   * The assertions that can be recorded for a picked element, with the
+   * expected URL and title taken from the recorded tab. A secret field's
+   * value can't be checked, as it would end up in the script.
+   */
+  public getAssertionChoices(
+    picked: PickedElement,
+    selector: ElementSelector,
+  ): AssertionChoice[] {
+    if (!this.state.isRecording || !this.currentTab) {
+      throw new Error("Not recording");
+    }
+    if (isSensitiveField(selector)) {
+      picked = { ...picked, value: null };
+    }
+    return assertionChoices(picked, {
+      url: this.currentTab.url,
+      title: this.currentTab.title,
+    });
+  }
+
   public async recordAction(
     type: ActionType,
     selector: ElementSelector,
     value?: string,
     isContentField?: boolean,
     contentPlaceholder?: string,
+    tab?: Tab, // Where it happened; the current tab if not given
   ): Promise<void> {
+    const recorded = this.tabs.get((tab ?? this.currentTab)?.id ?? "");
     if (
       !this.state.isRecording ||
       this.state.isPaused ||
       !this.state.currentRecording ||
-      !this.currentTab
+      !recorded
     ) {
       return;
     }
 
+    // The file is picked again at replay time
+    if (type === "upload") {
+      isContentField = true;
+      contentPlaceholder = filePlaceholderName(selector);
+    }
+
+    // A double-click also fires two clicks; the dblclick stands for them
+    if (type === "dblclick") {
+      this.dropTrailingClicks(this.state.currentRecording.actions, selector);
+    }
+
+    // Secrets go to the vault, and the script gets a placeholder. A
+    // rich-text field's text selector would hold the secret too.
+    let secret: string | undefined;
+    if (isSensitiveField(selector)) {
+      if (type === "input") {
+        secret = secretName(selector, recorded.tab.url);
+        this.secrets.set(secret, value ?? "");
+        value = undefined;
+      }
+      selector = redactSelector(selector);
+    }
+
     const action: RecordedAction = {
       id: uuidv4(),
       type,
       timestamp: Date.now(),
-      url: this.currentTab.url,
-      selector,
+      url: recorded.tab.url,
+      selector: selector.candidates
+        ? {
+            ...selector,
+            candidates: rankSelectorCandidates(selector.candidates),
+          }
+        : selector,
       value,
       isContentField,
       contentPlaceholder,
+      tab: recorded.page,
+      secret,
     };
 
     this.state.currentRecording.actions.push(action);
   }
 
+  /**
+   * Start following a tab: give it the next page variable, record how it
+   * navigates, and put the recorder script back after each page load
+   */
+  private watchTab(tab: Tab): RecordedTab {
+    const webContents = tab.webContents;
+    const recorded: RecordedTab = {
+      tab,
+      page: this.pageCount === 0 ? "page" : `page${this.pageCount}`,
+      history: this.historyOf(tab),
+      pageInitiated: false,
+      detach: () => {
+        webContents.removeListener("did-start-navigation", onStart);
+        webContents.removeListener("did-navigate", onNavigate);
+        webContents.removeListener("did-navigate-in-page", onNavigateInPage);
+        webContents.removeListener("dom-ready", onDomReady);
+      },
+    };
+    this.pageCount++;
+
+    const onStart = (
+      details: Electron.Event<Electron.WebContentsDidStartNavigationEventParams>,
+    ): void => {
+      if (details.isMainFrame) recorded.pageInitiated = !!details.initiator;
+    };
+    const onNavigate = (): void => this.recordNavigation(recorded, false);
+    const onNavigateInPage = (
+      _: Electron.Event,
+      __: string,
+      isMainFrame: boolean,
+    ): void => {
+      if (isMainFrame) this.recordNavigation(recorded, true);
+    };
+    const onDomReady = (): void => {
+      this.injectRecorderScript(tab).catch((error) =>
+        console.error("📹 [RECORDER] Failed to re-inject script:", error),
+      );
+    };
+    webContents.on("did-start-navigation", onStart);
+    webContents.on("did-navigate", onNavigate);
+    webContents.on("did-navigate-in-page", onNavigateInPage);
+    webContents.on("dom-ready", onDomReady);
+
+    this.tabs.set(tab.id, recorded);
+    return recorded;
+  }
+
+  private unwatchTabs(): void {
+    this.removeTabListener?.();
+    this.removeTabListener = null;
+    this.tabs.forEach((recorded) => recorded.detach());
+    this.tabs.clear();
+  }
+
+  private historyOf(tab: Tab): HistoryState {
+    const history = tab.webContents.navigationHistory;
+    return {
+      index: history.getActiveIndex(),
+      urls: history.getAllEntries().map((entry) => entry.url),
+    };
+  }
+
+  private recordNavigation(recorded: RecordedTab, sameDocument: boolean): void {
+    const prev = recorded.history;
+    recorded.history = this.historyOf(recorded.tab);
+    const kind = classifyNavigation(prev, recorded.history, {
+      pageInitiated: recorded.pageInitiated,
+      sameDocument,
+    });
+    recorded.pageInitiated = false;
+    if (kind && !this.state.isPaused) {
+      this.recordTabAction("navigate", recorded, kind);
+    }
+  }
+
+  private onTabEvent(event: TabEvent): void {
+    if (!this.state.isRecording || this.state.isPaused) return;
+
+    switch (event.type) {
+      case "created": {
+        if (!event.opener) {
+          this.openTab(event.tab);
+          return;
+        }
+        // Popups from tabs that aren't recorded are picked up if the user
+        // switches to them
+        const opener = this.tabs.get(event.opener.id);
+        if (opener) {
+          const popup = this.watchTab(event.tab);
+          this.recordTabAction("popup", opener, popup.page, event.tab.url);
+        }
+        return;
+      }
+
+      case "activated":
+        this.activateTab(event.tab);
+        return;
+
+      case "closed": {
+        const recorded = this.tabs.get(event.tab.id);
+        if (!recorded) return;
+        recorded.detach();
+        this.tabs.delete(event.tab.id);
+        if (this.currentTab === event.tab) this.currentTab = null;
+        this.recordTabAction("close_tab", recorded);
+        return;
+      }
+    }
+  }
+
+  // A tab the page didn't open: a new one, or one open before recording
+  private openTab(tab: Tab): RecordedTab {
+    const from = this.tabs.get(this.currentTab?.id ?? "");
+    const recorded = this.watchTab(tab);
+    if (from) this.recordTabAction("new_tab", from, recorded.page, tab.url);
+    this.recordTabAction("navigate", recorded, "goto");
+    return recorded;
+  }
+
+  private activateTab(tab: Tab): void {
+    let recorded = this.tabs.get(tab.id);
+    if (!recorded) {
+      recorded = this.openTab(tab);
+      this.injectRecorderScript(tab).catch((error) =>
+        console.error("📹 [RECORDER] Failed to inject script:", error),
+      );
+    }
+    this.currentTab = tab;
+
+    // Opening a tab switches to it already
+    const last = this.state.currentRecording?.actions.at(-1);
+    const opened =
+      (last?.type === "popup" || last?.type === "new_tab") &&
+      last.value === recorded.page;
+    if (last?.tab !== recorded.page && !opened) {
+      this.recordTabAction("switch_tab", recorded);
+    }
+  }
+
+  private recordTabAction(
+    type: ActionType,
+    recorded: RecordedTab,
+    value?: string,
+    url: string = recorded.tab.url,
+  ): void {
+    this.state.currentRecording?.actions.push({
+      id: uuidv4(),
+      type,
+      timestamp: Date.now(),
+      url,
+      value,
+      tab: recorded.page,
+    });
+  }
+
+  private dropTrailingClicks(
+    actions: RecordedAction[],
+    selector: ElementSelector,
+  ): void {
+    const key = (s: ElementSelector | undefined): string =>
+      JSON.stringify([s?.css, s?.xpath, s?.framePath, s?.shadowHosts]);
+    for (let i = 0; i < 2; i++) {
+      const last = actions[actions.length - 1];
+      if (last?.type !== "click" || key(last.selector) !== key(selector)) {
+        return;
+      }
+      actions.pop();
+    }
+  }
+
   public async stopRecording(): Promise<Recording> {
     if (!this.state.isRecording || !this.state.currentRecording) {
       throw new Error("Not recording");
     }
 
+    // Keep the typed secrets for replay; the vault asks for its passphrase.
+    // Without them the recording couldn't be replayed, so it stays open.
+    if (this.secrets.size > 0) {
+      const stored = await this.vault.store(Object.fromEntries(this.secrets));
+      if (!stored) {
+        throw new Error(
+          "The passwords you typed weren't saved because the secrets vault stayed locked. Stop the recording again and unlock the vault to save it.",
+        );
+      }
+    }
+
     const recording = this.state.currentRecording;
+    recording.actions = mergeInputRuns(recording.actions);
     recording.updatedAt = Date.now();
 
-    // Save recording as Playwright script
-    await this.saveRecording(recording);
+    // Save the recording and its Playwright script
+    this.store.save(recording);
 
-    // Clean up recording script from tab
-    if (this.currentTab) {
-      await this.cleanupRecorderScript(this.currentTab);
+    // Clean up recording script from every recorded tab
+    const tabs = Array.from(this.tabs.values(), (recorded) => recorded.tab);
+    this.unwatchTabs();
+    for (const tab of tabs) {
+      if (!tab.webContents.isDestroyed()) {
+        await this.cleanupRecorderScript(tab);
+      }
     }
 
     // Reset state
@@ -247,41 +490,59 @@ export class ActionRecorder {
     this.state.isPaused = false;
     this.state.currentRecording = null;
     this.currentTab = null;
+    this.secrets.clear();
 
     // Reload recordings
     this.loadRecordings();
+    this.emitState();
 
     return recording;
   }
 
-  private async saveRecording(recording: Recording): Promise<void> {
-    // Generate Playwright script
-    const script = PlaywrightGenerator.generate(
-      {
-        id: recording.id,
-        name: recording.name,
-        description: recording.description,
-        createdAt: recording.createdAt,
-        targetSite: recording.metadata?.targetSite,
-      },
-      recording.actions,
-    );
+  /**
+   * Save a recording edited in the sidebar and regenerate its script. Only
+   * its name, description and actions can be changed.
+   * @throws Error if the recording doesn't exist
+   */
+  public updateRecording(edited: Recording): Recording {
+    const saved = this.store.get(edited.id);
+    if (!saved) {
+      throw new Error(`Recording not found: ${edited.id}`);
+    }
 
-    // Save as .spec.ts file
-    const filePath = path.join(this.recordingsDir, `${recording.id}.spec.ts`);
-    fs.writeFileSync(filePath, script, "utf-8");
+    const recording: Recording = {
+      ...saved,
+      name: edited.name.trim() || saved.name,
+      description: edited.description?.trim() || undefined,
+      actions: mergeInputRuns(edited.actions),
+      updatedAt: Date.now(),
+      metadata: {
+        ...saved.metadata,
+        manualSteps: edited.actions.filter((a) => a.type === "manual_step")
+          .length,
+      },
+    };
+    this.store.save(recording);
+    this.loadRecordings();
+    return recording;
   }
 
   public async deleteRecording(id: string): Promise<void> {
-    const filePath = path.join(this.recordingsDir, `${id}.spec.ts`);
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
+    if (this.store.delete(id)) {
       this.loadRecordings();
     }
   }
 
+  // Recordings saved before input runs were merged get them merged here,
+  // so the editor shows one step per field
   public getRecording(id: string): Recording | null {
-    return this.state.recordings.find((r) => r.id === id) || null;
+    const recording = this.store.get(id);
+    return (
+      recording && {
+        ...recording,
+        actions: mergeInputRuns(recording.actions),
+      }
+    );
   }
 
   public getAllRecordings(): Recording[] {
@@ -292,6 +553,21 @@ export class ActionRecorder {
     return { ...this.state };
   }
 
+  /**
+   * Listen for recording starting, stopping, pausing or resuming, however
+   * it was asked for (toolbar, slash command)
+   * @returns A function that removes the listener
+   */
+  public addStateListener(listener: RecorderStateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  private emitState(): void {
+    const state = this.getState();
+    for (const listener of this.stateListeners) listener(state);
+  }
+
   private async injectRecorderScript(tab: Tab): Promise<void> {
     console.log("📹 [RECORDER] injectRecorderScript starting for tab:", tab.id);
 
@@ -300,15 +576,37 @@ export class ActionRecorder {
       (function() {
         if (window.__blueberryRecorder) return; // Already injected
         window.__blueberryRecorder = true;
+${SELECTOR_ENGINE_JS}
+
+        // CSS selector relative to the document or shadow root holding the element
+        function cssSelector(element) {
+          if (element.id) return '#' + element.id;
+          const path = [];
+          let current = element;
+          while (current && current.nodeType === Node.ELEMENT_NODE) {
+            let selector = current.nodeName.toLowerCase();
+            if (current.id) {
+              selector += '#' + current.id;
+              path.unshift(selector);
+              break;
+            } else if (typeof current.className === 'string' && current.className.trim()) {
+              selector += '.' + current.className.trim().split(/\\s+/).join('.');
+            }
+            path.unshift(selector);
+            current = current.parentNode; // A shadow root ends the walk
+            if (path.length > 5) break; // Limit depth
+          }
+          return path.join(' > ');
+        }
 
-        // Helper function to generate selector
-        function generateSelector(element) {
+        // Helper function to generate selector. framePath lists the iframes
+        // the element's document is nested in, outermost first.
+        function generateSelector(element, framePath) {
           const selectors = {};
 
           // ID selector
           if (element.id) {
             selectors.id = element.id;
-            selectors.css = '#' + element.id;
           }
 
           // Name attribute
@@ -316,30 +614,13 @@ export class ActionRecorder {
             selectors.name = element.name;
           }
 
-          // Generate CSS selector
-          if (!selectors.css) {
-            const path = [];
-            let current = element;
-            while (current && current.nodeType === Node.ELEMENT_NODE) {
-              let selector = current.nodeName.toLowerCase();
-              if (current.id) {
-                selector += '#' + current.id;
-                path.unshift(selector);
-                break;
-              } else if (current.className) {
-                selector += '.' + current.className.trim().split(/\\s+/).join('.');
-              }
-              path.unshift(selector);
-              current = current.parentNode;
-              if (path.length > 5) break; // Limit depth
-            }
-            selectors.css = path.join(' > ');
-          }
+          selectors.css = cssSelector(element);
 
-          // Generate XPath
+          // Generate XPath (relative to the shadow root, if any)
           function getXPath(node) {
+            if (!node || node.nodeType !== Node.ELEMENT_NODE) return '';
             if (node.id) return '//*[@id="' + node.id + '"]';
-            if (node === document.body) return '/html/body';
+            if (node === node.ownerDocument.body) return '/html/body';
 
             let ix = 0;
             const siblings = node.parentNode?.childNodes || [];
@@ -360,34 +641,349 @@ export class ActionRecorder {
             selectors.text = element.textContent.trim();
           }
 
+          // Open shadow roots between the element and its document
+          const shadowHosts = [];
+          let root = element.getRootNode();
+          while (root.host) {
+            shadowHosts.unshift(cssSelector(root.host));
+            root = root.host.getRootNode();
+          }
+          if (shadowHosts.length) selectors.shadowHosts = shadowHosts;
+          if (framePath.length) selectors.framePath = framePath;
+
+          // Ranked by the recorder once it reaches the main process
+          selectors.candidates = selectorCandidates(element);
+
+          // For finding the element again if none of its selectors match
+          const hints = { tag: element.tagName.toLowerCase() };
+          const role = roleOf(element);
+          if (role) {
+            hints.role = role;
+            const name = accessibleName(element);
+            if (name && name.length <= 80) hints.name = name;
+          }
+          const attributes = {};
+          for (const key of ['name', 'type', 'autocomplete', 'aria-label', 'title', 'placeholder', 'alt', 'href']) {
+            const value = element.getAttribute(key);
+            if (value && value.length <= 200) attributes[key] = value;
+          }
+          if (Object.keys(attributes).length) hints.attributes = attributes;
+          const before = element.previousElementSibling;
+          const nearbyText = before ? normalizeText(before.textContent) : '';
+          if (nearbyText && nearbyText.length <= 50) hints.nearbyText = nearbyText;
+          selectors.hints = hints;
+
+          return selectors;
+        }
+
+        // Events from inside open shadow roots are retargeted to the host by
+        // the time they reach the document; the composed path still has the
+        // real target
+        function eventTarget(e) {
+          return e.composedPath()[0] || e.target;
+        }
+
+        const watched = new WeakSet();
+
+        // Assert mode: the next click picks the element to check instead of
+        // acting on it. Escape cancels.
+        let assertPicking = false;
+        const pickingStyle = document.createElement('style');
+        pickingStyle.textContent = '* { cursor: crosshair !important; }';
+        function setAssertPicking(on) {
+          assertPicking = on;
+          if (on) document.documentElement.appendChild(pickingStyle);
+          else pickingStyle.remove();
+        }
+        window.__blueberryPickAssertTarget = (on = true) => setAssertPicking(on);
+
+        function pickAssertTarget(target, framePath) {
+          setAssertPicking(false);
+          flushHovers(target);
+          const hasValue = ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName);
+          window.tabAPI?.pickAssertTarget?.(generateSelector(target, framePath), {
+            text: normalizeText(target.textContent),
+            value: hasValue ? target.value : null
+          });
+        }
+
+        // Checkboxes, radios and file inputs are recorded from their change
+        // event rather than the clicks and input events leading up to it
+        function isToggleOrFile(element) {
+          return element.tagName === 'INPUT' && ['checkbox', 'radio', 'file'].includes(element.type);
+        }
+        function togglesControl(element) {
+          if (isToggleOrFile(element)) return true;
+          const label = element.closest && element.closest('label');
+          return !!(label && label.control && isToggleOrFile(label.control));
+        }
+
+        // Hover-to-reveal: when resting the mouse on an element shows
+        // something else (a menu opened by a CSS :hover rule or a script),
+        // it's kept as a pending hover, recorded if the next click lands
+        // outside it
+        const HOVER_DWELL_MS = 500;
+        const HOVER_EXPIRY_MS = 5000;
+        let pendingHovers = []; // { element, selector, time }, oldest first
+        let hovering = null; // { element, framePath, since, revealed, timer }
+
+        // Selectors of :hover rules that show or move something other than
+        // the hovered element itself, e.g. ".menu:hover > ul"
+        const revealRules = new WeakMap();
+        function hoverRevealSelectors(doc) {
+          const cached = revealRules.get(doc);
+          if (cached && cached.sheets === doc.styleSheets.length) return cached.selectors;
+          const selectors = [];
+          const visit = (rules) => {
+            for (const rule of rules) {
+              if (!rule.selectorText) {
+                if (rule.cssRules) visit(rule.cssRules); // @media, @supports
+                continue;
+              }
+              const style = rule.style;
+              if (/:hover[^,]*[\\s>+~]/.test(rule.selectorText) &&
+                  (style.display || style.visibility || style.opacity || style.maxHeight || style.transform)) {
+                selectors.push(rule.selectorText);
+              }
+            }
+          };
+          for (const sheet of doc.styleSheets) {
+            try {
+              visit(sheet.cssRules);
+            } catch (e) {
+              // Cross-origin stylesheet
+            }
+          }
+          revealRules.set(doc, { sheets: doc.styleSheets.length, selectors });
           return selectors;
         }
 
-        // Click event listener
-        document.addEventListener('click', (e) => {
-          if (e.isTrusted) {
-            const selector = generateSelector(e.target);
-            window.tabAPI?.recordAction?.('click', selector);
+        function hoverRevealsSomething(element) {
+          const doc = element.ownerDocument;
+          for (const selector of hoverRevealSelectors(doc).slice(0, 100)) {
+            try {
+              for (const shown of doc.querySelectorAll(selector)) {
+                if (!shown.contains(element) && !element.contains(shown)) return true;
+              }
+            } catch (e) {
+              // Selector querySelectorAll doesn't accept, e.g. a pseudo-element
+            }
           }
-        }, true);
+          return false;
+        }
 
-        // Input event listener
-        document.addEventListener('input', (e) => {
-          if (e.isTrusted && e.target.tagName) {
-            const selector = generateSelector(e.target);
-            const value = e.target.value;
-            window.tabAPI?.recordAction?.('input', selector, value);
+        // Elements changed near the hovered one (or directly in <body>, where
+        // menus are often portaled) while it's hovered were revealed by it
+        function nearHovered(node) {
+          if (node.parentNode === node.ownerDocument.body) return true;
+          let ancestor = hovering.element;
+          for (let depth = 0; ancestor && depth < 4; depth++, ancestor = ancestor.parentElement) {
+            if (ancestor.contains(node)) return true;
           }
-        }, true);
+          return false;
+        }
+        function noteMutations(mutations) {
+          if (!hovering || hovering.revealed) return;
+          for (const mutation of mutations) {
+            const nodes = mutation.type === 'attributes'
+              ? [mutation.target].filter((node) =>
+                  node !== hovering.element || mutation.attributeName === 'aria-expanded')
+              : Array.from(mutation.addedNodes);
+            if (nodes.some((node) => node.nodeType === Node.ELEMENT_NODE && nearHovered(node))) {
+              hovering.revealed = true;
+              return;
+            }
+          }
+        }
 
-        // Select change listener
-        document.addEventListener('change', (e) => {
-          if (e.isTrusted && e.target.tagName === 'SELECT') {
-            const selector = generateSelector(e.target);
-            const value = e.target.value;
-            window.tabAPI?.recordAction?.('select', selector, value);
+        // Decide whether the current hover revealed something
+        function settleHover() {
+          if (!hovering) return;
+          clearTimeout(hovering.timer);
+          const { element, framePath, since, revealed } = hovering;
+          hovering = null;
+          if (Date.now() - since < 100 || !element.isConnected) return;
+          if (revealed || hoverRevealsSomething(element)) {
+            pendingHovers = pendingHovers.filter((hover) => hover.element !== element).slice(-2);
+            pendingHovers.push({ element, selector: generateSelector(element, framePath), time: Date.now() });
           }
-        }, true);
+        }
+
+        function noteHover(element, framePath) {
+          if (hovering && hovering.element === element) return;
+          settleHover();
+          hovering = { element, framePath, since: Date.now(), revealed: false };
+          hovering.timer = setTimeout(settleHover, HOVER_DWELL_MS);
+        }
+
+        // Record the pending hovers that may have revealed the target
+        function flushHovers(target) {
+          const now = Date.now();
+          for (const hover of pendingHovers) {
+            if (now - hover.time < HOVER_EXPIRY_MS && !hover.element.contains(target)) {
+              window.tabAPI?.recordAction?.('hover', hover.selector);
+            }
+          }
+          pendingHovers = [];
+        }
+
+        // Listen for user actions in a document (the page or a same-origin
+        // child frame) and in the frames inside it
+        function watchDocument(doc, framePath) {
+          if (watched.has(doc)) return;
+          watched.add(doc);
+
+          // Click event listener
+          doc.addEventListener('click', (e) => {
+            if (e.isTrusted && assertPicking) {
+              e.preventDefault();
+              e.stopImmediatePropagation();
+              pickAssertTarget(eventTarget(e), framePath);
+            } else if (e.isTrusted && !togglesControl(eventTarget(e))) {
+              const target = eventTarget(e);
+              flushHovers(target);
+              const selector = generateSelector(target, framePath);
+              window.tabAPI?.recordAction?.('click', selector);
+            }
+          }, true);
+
+          // Double-click (the recorder drops the two clicks before it)
+          doc.addEventListener('dblclick', (e) => {
+            if (e.isTrusted && !togglesControl(eventTarget(e))) {
+              const selector = generateSelector(eventTarget(e), framePath);
+              window.tabAPI?.recordAction?.('dblclick', selector);
+            }
+          }, true);
+
+          // Right-click
+          doc.addEventListener('contextmenu', (e) => {
+            if (e.isTrusted) {
+              const target = eventTarget(e);
+              flushHovers(target);
+              window.tabAPI?.recordAction?.('rightclick', generateSelector(target, framePath));
+            }
+          }, true);
+
+          // Hover-to-reveal (see noteHover)
+          doc.addEventListener('mouseover', (e) => {
+            if (e.isTrusted) noteHover(eventTarget(e), framePath);
+          }, true);
+          new MutationObserver(noteMutations).observe(doc, {
+            subtree: true,
+            childList: true,
+            attributes: true,
+            attributeFilter: ['style', 'class', 'hidden', 'open', 'aria-expanded']
+          });
+
+          // HTML5 drag-and-drop, recorded once something accepts the drop
+          let dragSource = null;
+          doc.addEventListener('dragstart', (e) => {
+            if (e.isTrusted) {
+              const source = eventTarget(e);
+              flushHovers(source);
+              dragSource = generateSelector(source, framePath);
+            }
+          }, true);
+          doc.addEventListener('drop', (e) => {
+            if (e.isTrusted && dragSource) {
+              const target = generateSelector(eventTarget(e), framePath);
+              window.tabAPI?.recordAction?.('drag', dragSource, JSON.stringify(target));
+              dragSource = null;
+            }
+          }, true);
+          doc.addEventListener('dragend', () => {
+            dragSource = null;
+          }, true);
+
+          // Input event listener
+          doc.addEventListener('input', (e) => {
+            const target = eventTarget(e);
+            if (e.isTrusted && target.tagName && !isToggleOrFile(target)) {
+              const selector = generateSelector(target, framePath);
+              // Rich-text (contenteditable) editors have no value
+              const value = target.isContentEditable ? target.innerText : target.value;
+              window.tabAPI?.recordAction?.('input', selector, value);
+            }
+          }, true);
+
+          // Select, checkbox, radio and file input change listener
+          const onChange = (e) => {
+            const target = eventTarget(e);
+            if (!e.isTrusted) return;
+            if (target.tagName === 'SELECT') {
+              const selector = generateSelector(target, framePath);
+              const value = target.value;
+              window.tabAPI?.recordAction?.('select', selector, value);
+            } else if (target.type === 'checkbox' || target.type === 'radio') {
+              flushHovers(target);
+              const selector = generateSelector(target, framePath);
+              window.tabAPI?.recordAction?.(target.checked ? 'check' : 'uncheck', selector);
+            } else if (target.type === 'file' && target.files.length) {
+              flushHovers(target);
+              const selector = generateSelector(target, framePath);
+              const names = Array.from(target.files).map((file) => file.name);
+              window.tabAPI?.recordAction?.('upload', selector, JSON.stringify(names));
+            }
+          };
+          doc.addEventListener('change', onChange, true);
+
+          // change events don't leave their shadow root, so listen on each
+          // root once something inside it gets focus
+          doc.addEventListener('focusin', (e) => {
+            for (const node of e.composedPath()) {
+              if (node.host && !watched.has(node)) {
+                watched.add(node);
+                node.addEventListener('change', onChange, true);
+              }
+            }
+          }, true);
+
+          // Keyboard event listener for important keys
+          doc.addEventListener('keydown', (e) => {
+            if (e.isTrusted && assertPicking && e.key === 'Escape') {
+              setAssertPicking(false);
+            } else if (e.isTrusted) {
+              // Only record important keys: Enter, Escape, Tab
+              const importantKeys = ['Enter', 'Escape', 'Tab'];
+              if (importantKeys.includes(e.key)) {
+                const selector = generateSelector(eventTarget(e), framePath);
+                const keyInfo = JSON.stringify({
+                  key: e.key,
+                  code: e.code,
+                  ctrlKey: e.ctrlKey,
+                  shiftKey: e.shiftKey,
+                  altKey: e.altKey,
+                  metaKey: e.metaKey
+                });
+                window.tabAPI?.recordAction?.('keypress', selector, keyInfo);
+              }
+            }
+          }, true);
+
+          // Same-origin child frames, including ones added or navigated later.
+          // Cross-origin frames have no contentDocument and are skipped.
+          function watchFrame(frame) {
+            const enter = () => {
+              if (frame.contentDocument) {
+                watchDocument(frame.contentDocument, framePath.concat(cssSelector(frame)));
+              }
+            };
+            enter();
+            frame.addEventListener('load', enter);
+          }
+          doc.querySelectorAll('iframe, frame').forEach(watchFrame);
+          new MutationObserver((mutations) => {
+            for (const mutation of mutations) {
+              for (const node of mutation.addedNodes) {
+                if (node.nodeType !== Node.ELEMENT_NODE) continue;
+                if (node.matches('iframe, frame')) watchFrame(node);
+                node.querySelectorAll('iframe, frame').forEach(watchFrame);
+              }
+            }
+          }).observe(doc, { childList: true, subtree: true });
+        }
+
+        watchDocument(document, []);
 
         // Scroll listener (debounced)
         let scrollTimeout;
@@ -401,26 +997,6 @@ export class ActionRecorder {
           }, 500);
         }, true);
 
-        // Keyboard event listener for important keys
-        document.addEventListener('keydown', (e) => {
-          if (e.isTrusted) {
-            // Only record important keys: Enter, Escape, Tab
-            const importantKeys = ['Enter', 'Escape', 'Tab'];
-            if (importantKeys.includes(e.key)) {
-              const selector = generateSelector(e.target);
-              const keyInfo = JSON.stringify({
-                key: e.key,
-                code: e.code,
-                ctrlKey: e.ctrlKey,
-                shiftKey: e.shiftKey,
-                altKey: e.altKey,
-                metaKey: e.metaKey
-              });
-              window.tabAPI?.recordAction?.('keypress', selector, keyInfo);
-            }
-          }
-        }, true);
-
         console.log('[Blueberry Recorder] Recording script injected');
       })();
     `;
@@ -438,6 +1014,8 @@ export class ActionRecorder {
   private async cleanupRecorderScript(tab: Tab): Promise<void> {
     const script = `
       delete window.__blueberryRecorder;
+      window.__blueberryPickAssertTarget?.(false);
+      delete window.__blueberryPickAssertTarget;
       console.log('[Blueberry Recorder] Recording script cleaned up');
     `;
     await tab.runJs(script);
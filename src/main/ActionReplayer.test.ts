@@ -0,0 +1,48 @@
+import { describe, test, expect, vi } from "vitest";
+import { ActionReplayer } from "./ActionReplayer";
+import { createMockTab } from "./tools/mockTab";
+import type { SessionManager } from "./SessionManager";
+import type { SecretVault } from "./SecretVault";
+import type { RecordingStore } from "./RecordingStore";
+import type { Recording, TabHost } from "./types/RecorderTypes";
+
+vi.mock("electron", () => ({ dialog: {} }));
+
+const recording: Recording = {
+  id: "rec-1",
+  name: "Post article",
+  createdAt: 1,
+  updatedAt: 1,
+  actions: [
+    { id: "a1", type: "wait", timestamp: 1, url: "", value: "20" },
+    { id: "a2", type: "wait", timestamp: 1, url: "", value: "20" },
+    {
+      id: "a3",
+      type: "click",
+      timestamp: 1,
+      url: "",
+      selector: { css: "#publish" },
+    },
+  ],
+};
+
+describe("ActionReplayer", () => {
+  test("stopping ends the replay before its next step", async () => {
+    const tab = createMockTab();
+    const replayer = new ActionReplayer(
+      {} as SessionManager,
+      {} as TabHost,
+      {} as SecretVault,
+      { get: () => recording } as unknown as RecordingStore,
+    );
+    const onStatusChange = vi.fn();
+
+    const replay = replayer.startReplay(tab, { recording }, onStatusChange);
+    replayer.stop();
+
+    await expect(replay).rejects.toThrow("Replay stopped");
+    expect(tab.runJs).not.toHaveBeenCalled();
+    expect(replayer.getStatus().state).toBe("idle");
+    expect(onStatusChange).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,10 +1,61 @@
 import type { Tab } from "./Tab";
-import type { Recording, ReplayOptions } from "./types/RecorderTypes";
+import type {
+  HealedStep,
+  RecordedAction,
+  Recording,
+  ReplayOptions,
+  SelectorCandidate,
+  TabHost,
+} from "./types/RecorderTypes";
 import { SessionManager } from "./SessionManager";
+import { PageActions, type UploadFile } from "./PageActions";
+import {
+  describeElementPath,
+  type ElementPath,
+  type LocatorAction,
+} from "./tools/elementPath";
+import {
+  candidateQuery,
+  queryCandidate,
+  rankSelectorCandidates,
+} from "./tools/selectorEngine";
+import {
+  fuzzyFindSnippet,
+  healSelector,
+  type SelectorFallbacks,
+} from "./tools/selectorHealing";
+import {
+  checkElementState,
+  checkPageState,
+  elementStateSnippet,
+  type Assertion,
+  type ElementState,
+} from "./tools/assertions";
+import { mimeTypeFor } from "./tools/fileUpload";
+import {
+  parseContentPlaceholder,
+  unescapeLiteral,
+} from "./tools/contentPlaceholders";
+import type { PageStep } from "./tools/navigation";
+import { replaySteps, type ReplayStep } from "./tools/replaySteps";
+import { parseSecretPlaceholder } from "./tools/secrets";
+import type { SecretVault } from "./SecretVault";
+import type { RecordingStore } from "./RecordingStore";
 import * as path from "path";
-import { app } from "electron";
+import { dialog } from "electron";
 import * as fs from "fs";
 
+// How long a step's own selector gets to match (the page may still be
+// loading) before the replayer tries to heal it
+const ELEMENT_WAIT_MS = 2000;
+
+// How long an assertion keeps being re-checked before it fails, like
+// Playwright's expect timeout
+const ASSERTION_TIMEOUT_MS = 5000;
+
+// How long a tab gets to open a popup, reach a URL or finish loading
+const NAVIGATION_TIMEOUT_MS = 10000;
+
 export type ReplayState =
   | "idle"
   | "running"
@@ -19,66 +70,151 @@ export interface ReplayStatus {
   totalActions: number;
   error?: string;
   message?: string;
+  healedSteps?: HealedStep[];
+}
+
+// A step whose element couldn't be found, even by healing. Ends the replay,
+// since the steps after it usually depend on it.
+class ElementNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ElementNotFoundError";
+  }
+}
+
+// An expect(...) step that didn't hold. Ends the replay: the recording
+// checked something that is no longer true.
+class AssertionFailedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AssertionFailedError";
+  }
+}
+
+// A step on a page variable with no tab behind it, e.g. a popup that never
+// opened. Ends the replay, since every later step on that page would fail.
+class TabNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TabNotFoundError";
+  }
+}
+
+// Wraps whatever a step threw with the step's number, so a replay that
+// stops says where
+class StepFailedError extends Error {
+  constructor(step: number, cause: unknown) {
+    super(
+      `Step ${step} failed: ${cause instanceof Error ? cause.message : String(cause)}`,
+      { cause },
+    );
+    this.name = "StepFailedError";
+  }
+}
+
+// Thrown at the first step boundary or wait after stop() is called, so a
+// stopped replay ends where it is rather than running on to the end
+class ReplayStoppedError extends Error {
+  constructor() {
+    super("Replay stopped");
+    this.name = "ReplayStoppedError";
+  }
 }
 
 export class ActionReplayer {
   private recording: Recording | null = null;
   private currentActionIndex: number = 0;
   private state: ReplayState = "idle";
+  private stopped: boolean = false;
+  private healedSteps: HealedStep[] = [];
+  private content: ReplayOptions["content"] = {};
   private sessionManager: SessionManager;
+  private host: TabHost;
+  private vault: SecretVault;
+  private store: RecordingStore;
   private onStatusChange?: (status: ReplayStatus) => void;
-
-  constructor(sessionManager: SessionManager) {
+  // The tab behind each page variable
+  private pages: Map<string, Tab> = new Map();
+  // Popups waited for with `waitForEvent('popup')`, by page variable
+  private popups: Map<string, Promise<Tab>> = new Map();
+
+  constructor(
+    sessionManager: SessionManager,
+    host: TabHost,
+    vault: SecretVault,
+    store: RecordingStore,
+  ) {
     this.sessionManager = sessionManager;
+    this.host = host;
+    this.vault = vault;
+    this.store = store;
   }
 
   /**
-   * Start replaying a recording by executing the Playwright script
+   * Start replaying a recording by executing its recorded actions
+   * @returns Steps whose selectors had to be healed, to offer writing back
+   * with saveHealedSelectors
    */
   public async startReplay(
     tab: Tab,
     options: ReplayOptions,
     onStatusChange?: (status: ReplayStatus) => void,
-  ): Promise<void> {
+  ): Promise<HealedStep[]> {
     if (this.state === "running") {
       throw new Error("Already replaying");
     }
 
     console.log("[Replayer] Tab:", tab.id);
 
-    this.recording = options.recording;
+    // Replay what was saved, not the renderer's copy of it
+    const recording = this.store.get(options.recording.id);
+    if (!recording) {
+      throw new Error(`Recording not found: ${options.recording.id}`);
+    }
+
+    this.recording = recording;
     this.currentActionIndex = 0;
     this.state = "running";
+    this.stopped = false;
+    this.healedSteps = [];
+    this.content = options.content ?? {};
     this.onStatusChange = onStatusChange;
+    this.pages = new Map([["page", tab]]);
+    this.popups = new Map();
 
     try {
-      console.log(
-        "[Replayer] Starting Playwright execution for recording:",
-        this.recording.id,
-      );
-
-      // Get the script path
-      const recordingsDir = path.join(app.getPath("userData"), "recordings");
-      const scriptPath = path.join(
-        recordingsDir,
-        `${this.recording.id}.spec.ts`,
-      );
-
-      console.log("[Replayer] Script path:", scriptPath);
+      console.log("[Replayer] Starting replay of recording:", recording.id);
+
+      // Like the script, start from the recording's starting URL
+      if (recording.metadata?.targetSite) {
+        await this.executePageStep({
+          kind: "goto",
+          page: "page",
+          url: recording.metadata.targetSite,
+        });
+      }
 
-      // Execute Playwright actions directly in the current tab
-      await this.executePlaywrightInCurrentTab(tab, scriptPath);
+      // Execute the actions directly in the current tab and the tabs the
+      // recording opens
+      await this.executeActions(recording.actions);
 
       // Save session after successful replay
-      if (this.recording.metadata?.targetSite) {
-        const domain = new URL(this.recording.metadata.targetSite).hostname;
+      if (recording.metadata?.targetSite) {
+        const domain = new URL(recording.metadata.targetSite).hostname;
         await this.sessionManager.saveSession(domain);
         console.log("[Replayer] Session saved for:", domain);
       }
 
       this.state = "completed";
-      this.emitStatus("Replay completed successfully");
+      this.emitStatus(
+        this.healedSteps.length > 0
+          ? `Replay completed; ${this.healedSteps.length} step(s) needed a different selector`
+          : "Replay completed successfully",
+      );
+      return this.healedSteps;
     } catch (error) {
+      // stop() has already reported it
+      if (error instanceof ReplayStoppedError) throw error;
       this.state = "error";
       const errorMsg = error instanceof Error ? error.message : String(error);
       this.emitStatus(`Replay failed: ${errorMsg}`);
@@ -109,9 +245,11 @@ export class ActionReplayer {
   }
 
   /**
-   * Stop the replay
+   * Stop the replay: the step under way ends at its next wait, and no more
+   * steps run. startReplay then rejects with "Replay stopped".
    */
   public stop(): void {
+    this.stopped = true;
     this.state = "idle";
     this.recording = null;
     this.currentActionIndex = 0;
@@ -125,170 +263,422 @@ export class ActionReplayer {
     return {
       state: this.state,
       currentActionIndex: this.currentActionIndex,
-      totalActions: 0,
+      totalActions: this.recording?.actions.length ?? 0,
+      healedSteps: this.healedSteps,
     };
   }
 
   /**
-   * Execute Playwright actions in the current browser tab
+   * Make the selectors that worked during a replay the first choice for
+   * their actions, and regenerate the recording's script
+   * @throws Error if the recording doesn't exist
+   */
+  public saveHealedSelectors(recordingId: string, steps: HealedStep[]): void {
+    const recording = this.store.get(recordingId);
+    if (!recording) {
+      throw new Error(`Recording not found: ${recordingId}`);
+    }
+    for (const step of steps) {
+      const action = recording.actions.find((a) => a.id === step.actionId);
+      if (action) {
+        action.selector = healSelector(action.selector ?? {}, step.candidate);
+      }
+    }
+    recording.updatedAt = Date.now();
+    this.store.save(recording);
+    console.log("[Replayer] Saved", steps.length, "healed selector(s)");
+  }
+
+  /**
+   * Execute recorded actions in the browser's tabs
    */
-  private async executePlaywrightInCurrentTab(
+  private async executeActions(actions: RecordedAction[]): Promise<void> {
+    console.log("[Replayer] Executing actions in current tab");
+
+    for (const { actionIndex, step } of replaySteps(actions)) {
+      if (this.stopped) throw new ReplayStoppedError();
+      this.currentActionIndex = actionIndex;
+      try {
+        await this.executeStep(actions[actionIndex], step);
+      } catch (error) {
+        if (error instanceof ReplayStoppedError) throw error;
+        // A step that didn't happen makes the rest of the replay meaningless,
+        // and it mustn't be reported as completed
+        console.error(`[Replayer] Step ${actionIndex + 1} failed:`, error);
+        throw new StepFailedError(actionIndex + 1, error);
+      }
+    }
+  }
+
+  private async executeStep(
+    action: RecordedAction,
+    step: ReplayStep,
+  ): Promise<void> {
+    switch (step.kind) {
+      // Navigation, popups and other tab steps
+      case "page":
+        console.log("[Replayer] Page step:", step.step);
+        return this.executePageStep(step.step);
+      case "element":
+        console.log(
+          "[Replayer]",
+          step.action.action,
+          describeElementPath(step.path),
+        );
+        await this.executeElementStep(this.tabFor(step.page), action, step);
+        return this.sleep(500);
+      case "assert":
+        console.log("[Replayer] Assert:", step.assertion.kind);
+        return this.executeAssertion(this.tabFor(step.page), step.assertion);
+      case "key":
+        console.log("[Replayer] Press key:", step.key);
+        await this.executeKeyPress(this.tabFor(step.page), step.key);
+        return this.sleep(500);
+      case "wait":
+        console.log("[Replayer] Wait:", step.ms);
+        return this.sleep(step.ms);
+    }
+  }
+
+  /**
+   * Run a step that acts on an element. If its selector matches nothing,
+   * find the element another way, act on it, and remember the selector that
+   * worked.
+   * @throws ElementNotFoundError if the element can't be found at all
+   */
+  private async executeElementStep(
     tab: Tab,
-    scriptPath: string,
+    action: RecordedAction,
+    step: {
+      path: ElementPath;
+      action: LocatorAction;
+      fallbacks: SelectorFallbacks;
+    },
   ): Promise<void> {
-    // Read the script file and extract the commands
-    const scriptContent = fs.readFileSync(scriptPath, "utf-8");
-    console.log("[Replayer] Executing actions in current tab");
+    if (await PageActions.waitForSelector(tab, step.path, ELEMENT_WAIT_MS)) {
+      await this.executeLocatorAction(tab, step.path, step.action, action);
+      return;
+    }
 
-    // Parse and execute each Playwright command
-    const lines = scriptContent.split("\n");
+    console.warn(
+      "[Replayer] Element not found, trying fallbacks:",
+      describeElementPath(step.path),
+    );
+    const healed = await this.healElement(tab, step.path, step.fallbacks);
+    if (!healed) {
+      throw new ElementNotFoundError(
+        `Element not found: ${describeElementPath(step.path)}`,
+      );
+    }
 
-    for (const line of lines) {
-      const trimmed = line.trim();
+    await this.executeLocatorAction(tab, healed.path, step.action, action);
+    const healedStep: HealedStep = {
+      actionId: action.id,
+      step: this.currentActionIndex + 1,
+      candidate: healed.candidate,
+      strategy: healed.strategy,
+      selector: describeElementPath(healed.path),
+    };
+    this.healedSteps.push(healedStep);
+    console.log("[Replayer] Healed step:", healedStep);
+  }
 
-      // Skip comments and imports
-      if (
-        trimmed.startsWith("//") ||
-        trimmed.startsWith("import") ||
-        !trimmed
-      ) {
-        continue;
+  /**
+   * Run a step that navigates, opens, switches to or closes a tab
+   * @throws TabNotFoundError if an expected popup doesn't open
+   */
+  private async executePageStep(step: PageStep): Promise<void> {
+    switch (step.kind) {
+      case "goto": {
+        const tab = this.tabFor(step.page);
+        console.log("[Replayer] Navigate to:", step.url);
+        await tab.loadURL(step.url);
+        await this.sleep(2000); // Wait for page load
+        return;
       }
-
-      try {
-        // Extract goto URL
-        if (trimmed.includes("await page.goto(")) {
-          const match = trimmed.match(/goto\('([^']+)'\)/);
-          if (match) {
-            const url = match[1];
-            console.log("[Replayer] Navigate to:", url);
-            await tab.loadURL(url);
-            await this.sleep(2000); // Wait for page load
-          }
+      case "wait":
+        return this.waitForURL(this.tabFor(step.page), step.url);
+      case "back":
+        this.tabFor(step.page).goBack();
+        return this.waitForLoad(this.tabFor(step.page));
+      case "forward":
+        this.tabFor(step.page).goForward();
+        return this.waitForLoad(this.tabFor(step.page));
+      case "reload":
+        this.tabFor(step.page).reload();
+        return this.waitForLoad(this.tabFor(step.page));
+      case "waitForPopup":
+        this.popups.set(step.popup, this.nextPopup(this.tabFor(step.page)));
+        return;
+      case "popup": {
+        const popup = this.popups.get(step.popup);
+        if (!popup) {
+          throw new TabNotFoundError(`No popup was expected as ${step.popup}`);
         }
+        const tab = await popup;
+        this.pages.set(step.popup, tab);
+        return this.waitForLoad(tab);
+      }
+      case "newPage": {
+        const tab = this.host.createTab("about:blank");
+        this.host.switchActiveTab(tab.id);
+        this.pages.set(step.page, tab);
+        return;
+      }
+      case "bringToFront":
+        this.host.switchActiveTab(this.tabFor(step.page).id);
+        return;
+      case "close":
+        this.host.closeTab(this.tabFor(step.page).id);
+        this.pages.delete(step.page);
+        return;
+    }
+  }
 
-        // Extract click commands
-        else if (trimmed.includes("await page.click(")) {
-          const match = trimmed.match(/click\('([^']+)'\)/);
-          if (match) {
-            const selector = match[1];
-            console.log("[Replayer] Click:", selector);
-            await this.executeClick(tab, selector);
-            await this.sleep(500);
-          }
-        }
+  /**
+   * @throws TabNotFoundError if the script hasn't opened a tab as `page`
+   */
+  private tabFor(page: string): Tab {
+    const tab = this.pages.get(page);
+    if (!tab) {
+      throw new TabNotFoundError(`No tab is open as ${page}`);
+    }
+    return tab;
+  }
 
-        // Extract fill/input commands
-        else if (trimmed.includes("await page.fill(")) {
-          const match = trimmed.match(/fill\('([^']+)',\s*'([^']*)'\)/);
-          if (match) {
-            const selector = match[1];
-            const value = match[2];
-            console.log("[Replayer] Fill:", selector, "with:", value);
-            await this.executeFill(tab, selector, value);
-            await this.sleep(500);
-          }
+  // The next tab `opener` opens, like Playwright's waitForEvent('popup')
+  private nextPopup(opener: Tab): Promise<Tab> {
+    const popup = new Promise<Tab>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        removeListener();
+        reject(
+          new TabNotFoundError(
+            `No popup opened within ${NAVIGATION_TIMEOUT_MS / 1000}s`,
+          ),
+        );
+      }, NAVIGATION_TIMEOUT_MS);
+      const removeListener = this.host.addTabListener((event) => {
+        if (event.type === "created" && event.opener === opener) {
+          clearTimeout(timeout);
+          removeListener();
+          resolve(event.tab);
         }
+      });
+    });
+    // Rejections surface at the step that takes the popup
+    popup.catch(() => undefined);
+    return popup;
+  }
 
-        // Extract keyboard.press commands
-        else if (trimmed.includes("await page.keyboard.press(")) {
-          const match = trimmed.match(/press\('([^']+)'\)/);
-          if (match) {
-            const key = match[1];
-            console.log("[Replayer] Press key:", key);
-            await this.executeKeyPress(tab, key);
-            await this.sleep(500);
-          }
-        }
-      } catch (error) {
-        console.error("[Replayer] Error executing line:", trimmed, error);
-        // Continue with next line instead of failing completely
+  // Like Playwright's waitForURL, then wait for the page to load
+  private async waitForURL(tab: Tab, url: string): Promise<void> {
+    const deadline = Date.now() + NAVIGATION_TIMEOUT_MS;
+    while (tab.url !== url) {
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Timed out waiting for ${url}; the tab is at ${tab.url}`,
+        );
       }
+      await this.sleep(250);
     }
+    await this.waitForLoad(tab);
   }
 
-  private async executeClick(tab: Tab, selector: string): Promise<void> {
-    const script = `
-      (function() {
-        const element = document.querySelector('${selector.replace(/'/g, "\\'")}');
-        if (element) {
-          element.scrollIntoView({ behavior: 'smooth', block: 'center' });
-          element.click();
-          return true;
+  private async waitForLoad(tab: Tab): Promise<void> {
+    const deadline = Date.now() + NAVIGATION_TIMEOUT_MS;
+    do {
+      await this.sleep(250);
+    } while (tab.webContents.isLoading() && Date.now() < deadline);
+  }
+
+  /**
+   * Find an element whose selector stopped matching: first through the
+   * alternatives stored with the step, then by fuzzy matching its text,
+   * role and attributes
+   */
+  private async healElement(
+    tab: Tab,
+    elementPath: ElementPath,
+    fallbacks: SelectorFallbacks,
+  ): Promise<{
+    path: ElementPath;
+    candidate: SelectorCandidate;
+    strategy: HealedStep["strategy"];
+  } | null> {
+    for (const query of fallbacks.alternatives) {
+      const alternative = { ...elementPath, query };
+      if (await PageActions.waitForSelector(tab, alternative, 0)) {
+        return {
+          path: alternative,
+          candidate: queryCandidate(query),
+          strategy: "alternative",
+        };
+      }
+    }
+
+    if (!fallbacks.hints || Object.keys(fallbacks.hints).length === 0) {
+      return null;
+    }
+    const match = (await tab.runJs(
+      fuzzyFindSnippet(elementPath, fallbacks.hints),
+    )) as { score: number; candidates: SelectorCandidate[] } | null;
+    // Only a selector that picks out just this element is worth keeping
+    const best = match
+      ? rankSelectorCandidates(match.candidates).find((c) => c.matches === 1)
+      : undefined;
+    return best
+      ? {
+          path: { ...elementPath, query: candidateQuery(best) },
+          candidate: best,
+          strategy: "fuzzy",
         }
-        throw new Error('Element not found: ${selector}');
-      })();
-    `;
-    await tab.runJs(script);
+      : null;
   }
 
-  private async executeFill(
+  /**
+   * Check an assertion until it holds or ASSERTION_TIMEOUT_MS passes
+   * @throws AssertionFailedError saying what was expected and what was found
+   */
+  private async executeAssertion(
     tab: Tab,
-    selector: string,
-    value: string,
+    assertion: Assertion,
   ): Promise<void> {
-    const script = `
-      (function() {
-        const element = document.querySelector('${selector.replace(/'/g, "\\'")}');
-        if (element) {
-          element.scrollIntoView({ behavior: 'smooth', block: 'center' });
-          element.focus();
-          element.value = '${value.replace(/'/g, "\\'")}';
-          element.dispatchEvent(new Event('input', { bubbles: true }));
-          element.dispatchEvent(new Event('change', { bubbles: true }));
-          return true;
-        }
-        throw new Error('Input element not found: ${selector}');
-      })();
-    `;
-    await tab.runJs(script);
+    const deadline = Date.now() + ASSERTION_TIMEOUT_MS;
+    for (;;) {
+      const failure = await this.checkAssertion(tab, assertion);
+      if (!failure) return;
+      if (Date.now() >= deadline) {
+        throw new AssertionFailedError(
+          `Assertion failed at step ${this.currentActionIndex + 1}: ${failure}`,
+        );
+      }
+      await this.sleep(250);
+    }
+  }
+
+  // Why the assertion fails right now, or null if it holds
+  private async checkAssertion(
+    tab: Tab,
+    assertion: Assertion,
+  ): Promise<string | null> {
+    if (assertion.kind === "url" || assertion.kind === "title") {
+      return checkPageState(assertion, { url: tab.url, title: tab.title });
+    }
+    const state = (await tab.runJs(
+      elementStateSnippet(assertion.path),
+    )) as ElementState;
+    return checkElementState(assertion, state);
+  }
+
+  private async executeLocatorAction(
+    tab: Tab,
+    path: ElementPath,
+    action: LocatorAction,
+    recorded: RecordedAction,
+  ): Promise<void> {
+    switch (action.action) {
+      case "click":
+        return PageActions.click(tab, path);
+      case "dblclick":
+        return PageActions.dblclick(tab, path);
+      case "rightClick":
+        return PageActions.rightClick(tab, path);
+      case "hover":
+        return PageActions.hover(tab, path);
+      case "check":
+      case "uncheck":
+        return PageActions.setChecked(tab, path, action.action === "check");
+      case "dragTo":
+        return PageActions.dragTo(tab, path, action.target);
+      case "setInputFiles":
+        return PageActions.setInputFiles(
+          tab,
+          path,
+          await this.resolveUploadFiles(action.value),
+        );
+      default:
+        // fill sets .value and fires change, which also picks a <select> option
+        return PageActions.fill(
+          tab,
+          path,
+          await this.resolveValue(action.value, recorded.value),
+        );
+    }
+  }
+
+  /**
+   * A fill step's value, with a `{{secret:name}}` placeholder looked up in
+   * the secrets vault, and a `{{name}}` content placeholder filled from the
+   * replay content or, failing that, with what was typed when recording
+   * @throws SecretUnavailableError if the vault stays locked
+   */
+  private async resolveValue(
+    value: string,
+    recordedValue?: string,
+  ): Promise<string> {
+    const secret = parseSecretPlaceholder(value);
+    if (secret !== null) return this.vault.resolve(secret);
+
+    const name = parseContentPlaceholder(value);
+    if (name === null) return unescapeLiteral(value);
+    const content = this.content?.[name];
+    if (typeof content === "string") return content;
+    if (recordedValue === undefined) {
+      throw new Error(`No content for ${value}`);
+    }
+    return recordedValue;
+  }
+
+  /**
+   * Files for a `setInputFiles` step: a path, or a `{{name}}` placeholder
+   * filled from the replay content or, failing that, a file dialog
+   * @throws Error if the dialog is cancelled
+   */
+  private async resolveUploadFiles(value: string): Promise<UploadFile[]> {
+    const name = parseContentPlaceholder(value);
+    if (name === null) return [this.readUploadFile(value)];
+
+    const content = this.content?.[name];
+    if (Buffer.isBuffer(content)) {
+      return [
+        {
+          name,
+          mimeType: mimeTypeFor(name),
+          base64: content.toString("base64"),
+        },
+      ];
+    }
+    if (typeof content === "string") return [this.readUploadFile(content)];
+
+    const result = await dialog.showOpenDialog({
+      title: `Choose the file for "${name}"`,
+      properties: ["openFile", "multiSelections"],
+    });
+    if (result.canceled || result.filePaths.length === 0) {
+      throw new Error(`No file chosen for ${value}`);
+    }
+    return result.filePaths.map((filePath) => this.readUploadFile(filePath));
+  }
+
+  private readUploadFile(filePath: string): UploadFile {
+    const name = path.basename(filePath);
+    return {
+      name,
+      mimeType: mimeTypeFor(name),
+      base64: fs.readFileSync(filePath).toString("base64"),
+    };
   }
 
   private async executeKeyPress(tab: Tab, key: string): Promise<void> {
-    const script = `
-      (function() {
-        const activeElement = document.activeElement;
-        if (activeElement) {
-          // Dispatch keyboard events
-          const keydownEvent = new KeyboardEvent('keydown', {
-            key: '${key}',
-            code: '${key}',
-            bubbles: true,
-            cancelable: true
-          });
-          activeElement.dispatchEvent(keydownEvent);
-
-          const keypressEvent = new KeyboardEvent('keypress', {
-            key: '${key}',
-            code: '${key}',
-            bubbles: true,
-            cancelable: true
-          });
-          activeElement.dispatchEvent(keypressEvent);
-
-          const keyupEvent = new KeyboardEvent('keyup', {
-            key: '${key}',
-            code: '${key}',
-            bubbles: true,
-            cancelable: true
-          });
-          activeElement.dispatchEvent(keyupEvent);
-
-          // For Enter key, try to submit the form
-          if ('${key}' === 'Enter' && activeElement.form) {
-            activeElement.form.submit();
-          }
-
-          return true;
-        }
-        throw new Error('No active element for keypress');
-      })();
-    `;
-    await tab.runJs(script);
+    await PageActions.pressKey(tab, key);
   }
 
+  /**
+   * @throws ReplayStoppedError if the replay was stopped meanwhile
+   */
   private async sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    await new Promise((resolve) => setTimeout(resolve, ms));
+    if (this.stopped) throw new ReplayStoppedError();
   }
 
   private emitStatus(message?: string, error?: string): void {
@@ -296,9 +686,10 @@ export class ActionReplayer {
       this.onStatusChange({
         state: this.state,
         currentActionIndex: this.currentActionIndex,
-        totalActions: this.recording?.metadata?.manualSteps || 0,
+        totalActions: this.recording?.actions.length ?? 0,
         message,
         error,
+        healedSteps: this.healedSteps,
       });
     }
   }
@@ -0,0 +1,99 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { ToolCallOptions, ToolSet } from "ai";
+import type { WebContents } from "electron";
+import { ApprovalGate, type ApprovalDecision } from "./ApprovalGate";
+import type { SessionManager } from "./SessionManager";
+import { createMockTab } from "./tools/mockTab";
+
+const paths = vi.hoisted(() => ({ userData: "" }));
+
+vi.mock("electron", () => ({
+  app: { getPath: () => paths.userData },
+}));
+
+const options: ToolCallOptions = { toolCallId: "call-1", messages: [] };
+
+describe("ApprovalGate", () => {
+  let dir: string;
+  let decisions: ApprovalDecision[];
+  let send: ReturnType<typeof vi.fn>;
+  let gate: ApprovalGate;
+
+  // Answers each approval request with the next queued decision
+  const createGate = (): ApprovalGate => {
+    send = vi.fn((_channel: string, request: { id: string }) => {
+      gate.respond(request.id, decisions.shift() ?? "deny");
+    });
+    gate = new ApprovalGate(
+      { send } as unknown as WebContents,
+      { hasValidSession: () => false } as unknown as SessionManager,
+    );
+    return gate;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "approvals-"));
+    paths.userData = dir;
+    decisions = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("always allows only the kinds of risk the user approved", async () => {
+    const tab = createMockTab({
+      url: "https://shop.example/cart",
+      runJs: vi.fn().mockResolvedValue({
+        submitsForm: true,
+        navigatesTo: "https://shop.example/checkout",
+      }),
+    });
+    const tools = createGate().guardTools(
+      {
+        click: { execute: vi.fn().mockResolvedValue("clicked") },
+        navigate: { execute: vi.fn().mockResolvedValue("navigated") },
+      } as unknown as ToolSet,
+      { messageId: "m1", getActiveTab: () => tab, onDeny: () => {} },
+    );
+
+    decisions.push("always");
+    await tools.click.execute?.({ text: "Place order" }, options);
+    await tools.click.execute?.({ text: "Place order" }, options);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(gate.getAlwaysAllowed("shop.example")).toEqual(["form-submit"]);
+
+    // Arriving from another site is a different risk, so it asks again
+    Object.assign(tab, { url: "https://mail.example/inbox" });
+    decisions.push("allow");
+    await tools.navigate.execute?.({ url: "https://shop.example/" }, options);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(createGate().getAlwaysAllowed("shop.example")).toEqual([
+      "form-submit",
+    ]);
+  });
+
+  test("still runs the step when the rule can't be saved", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    paths.userData = path.join(dir, "missing");
+    const tab = createMockTab({ url: "https://shop.example/cart" });
+    const navigate = vi.fn().mockResolvedValue("navigated");
+    const tools = createGate().guardTools(
+      { navigate: { execute: navigate } } as unknown as ToolSet,
+      { messageId: "m1", getActiveTab: () => tab, onDeny: () => {} },
+    );
+
+    decisions.push("always");
+    await tools.navigate.execute?.({ url: "bank.example" }, options);
+
+    expect(navigate).toHaveBeenCalled();
+    expect(error).toHaveBeenCalledWith(
+      "[ApprovalGate] Error saving approval rules:",
+      expect.anything(),
+    );
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,223 @@
+import { app, WebContents } from "electron";
+import type { ToolSet } from "ai";
+import * as fs from "fs";
+import * as path from "path";
+import { v4 as uuidv4 } from "uuid";
+import type { Tab } from "./Tab";
+import type { SessionManager } from "./SessionManager";
+import { PageActions, type ActionEffect } from "./PageActions";
+import {
+  assessToolCall,
+  type ApprovalReason,
+  type ApprovalReasonType,
+} from "./tools/approvalPolicy";
+
+export type ApprovalDecision = "allow" | "always" | "deny";
+
+export interface ApprovalRequest {
+  id: string;
+  messageId: string;
+  toolName: string;
+  summary: string;
+  reasons: ApprovalReason[];
+  domain: string | null;
+}
+
+interface ApprovalRules {
+  // Per domain, the kinds of risk the user said to always allow there
+  alwaysAllow: Record<string, ApprovalReasonType[]>;
+}
+
+// What a rule from before rules were per kind allowed: everything but
+// form submits, which now need their own "always"
+const LEGACY_ALLOWED: ApprovalReasonType[] = ["new-origin", "saved-session"];
+
+interface GuardContext {
+  messageId: string;
+  getActiveTab: () => Tab | null;
+  // Called when the user denies a step; the caller aborts the stream
+  onDeny: (error: ToolApprovalDeniedError) => void;
+}
+
+export class ToolApprovalDeniedError extends Error {
+  constructor(summary: string) {
+    super(`You declined: ${summary}`);
+    this.name = "ToolApprovalDeniedError";
+  }
+}
+
+/**
+ * Pauses risky agent tool calls until the user approves them in the sidebar.
+ * "Always allow" rules, per domain and kind of risk, are persisted in
+ * userData.
+ */
+export class ApprovalGate {
+  private webContents: WebContents;
+  private sessionManager: SessionManager;
+  private rulesPath: string;
+  private rules: ApprovalRules;
+  private pending: Map<string, (decision: ApprovalDecision) => void> =
+    new Map();
+
+  constructor(webContents: WebContents, sessionManager: SessionManager) {
+    this.webContents = webContents;
+    this.sessionManager = sessionManager;
+    this.rulesPath = path.join(app.getPath("userData"), "approval-rules.json");
+    this.rules = this.loadRules();
+  }
+
+  private loadRules(): ApprovalRules {
+    try {
+      if (fs.existsSync(this.rulesPath)) {
+        const content = fs.readFileSync(this.rulesPath, "utf-8");
+        const parsed = JSON.parse(content) as Partial<ApprovalRules> & {
+          alwaysAllowDomains?: string[];
+        };
+        const alwaysAllow = { ...parsed.alwaysAllow };
+        for (const domain of parsed.alwaysAllowDomains ?? []) {
+          alwaysAllow[domain] ??= [...LEGACY_ALLOWED];
+        }
+        return { alwaysAllow };
+      }
+    } catch (error) {
+      console.error("[ApprovalGate] Error loading approval rules:", error);
+    }
+    return { alwaysAllow: {} };
+  }
+
+  // A rule that fails to save still applies until the app restarts
+  private saveRules(): void {
+    try {
+      fs.writeFileSync(
+        this.rulesPath,
+        JSON.stringify(this.rules, null, 2),
+        "utf-8",
+      );
+    } catch (error) {
+      console.error("[ApprovalGate] Error saving approval rules:", error);
+    }
+  }
+
+  /**
+   * Wrap every tool's execute so risky calls wait for the user's decision.
+   * Denied calls throw and trigger `onDeny` so the turn can be aborted.
+   */
+  public guardTools<TOOLS extends ToolSet>(
+    tools: TOOLS,
+    context: GuardContext,
+  ): TOOLS {
+    const guarded: ToolSet = {};
+    for (const [name, original] of Object.entries(tools)) {
+      const execute = original.execute;
+      if (!execute) {
+        guarded[name] = original;
+        continue;
+      }
+      guarded[name] = {
+        ...original,
+        execute: async (input, options) => {
+          const decision = await this.review(
+            name,
+            input,
+            context,
+            options.abortSignal,
+          );
+          if (decision.denied) {
+            const error = new ToolApprovalDeniedError(decision.summary);
+            context.onDeny(error);
+            throw error;
+          }
+          return execute(input, options);
+        },
+      };
+    }
+    return guarded as TOOLS;
+  }
+
+  /**
+   * Resolve a pending approval request (called from the sidebar IPC handler)
+   */
+  public respond(requestId: string, decision: ApprovalDecision): boolean {
+    const resolve = this.pending.get(requestId);
+    if (!resolve) return false;
+    this.pending.delete(requestId);
+    resolve(decision);
+    return true;
+  }
+
+  // @returns The kinds of risk always allowed on a domain
+  public getAlwaysAllowed(domain: string): ApprovalReasonType[] {
+    return [...(this.rules.alwaysAllow[domain] ?? [])];
+  }
+
+  private async review(
+    toolName: string,
+    rawInput: unknown,
+    context: GuardContext,
+    abortSignal?: AbortSignal,
+  ): Promise<{ denied: boolean; summary: string }> {
+    const input = (rawInput ?? {}) as Record<string, unknown>;
+    const tab = context.getActiveTab();
+
+    let effect: ActionEffect = { submitsForm: false, navigatesTo: null };
+    if (tab && (toolName === "click" || toolName === "pressKey")) {
+      try {
+        effect = await PageActions.inspectAction(tab, {
+          selector: input.selector as string | undefined,
+          text: input.text as string | undefined,
+          key: input.key as string | undefined,
+        });
+      } catch (error) {
+        // Can't inspect the page; err on the side of asking
+        console.error("[ApprovalGate] Error inspecting click target:", error);
+        effect = { submitsForm: true, navigatesTo: null };
+      }
+    }
+
+    const assessment = assessToolCall({
+      toolName,
+      input,
+      currentUrl: tab?.url ?? null,
+      ...effect,
+      hasSavedSession: (domain) => this.sessionManager.hasValidSession(domain),
+    });
+
+    if (assessment.reasons.length === 0) {
+      return { denied: false, summary: assessment.summary };
+    }
+    const allowed = assessment.domain
+      ? (this.rules.alwaysAllow[assessment.domain] ?? [])
+      : [];
+    if (assessment.reasons.every((reason) => allowed.includes(reason.type))) {
+      return { denied: false, summary: assessment.summary };
+    }
+
+    const request: ApprovalRequest = {
+      id: uuidv4(),
+      messageId: context.messageId,
+      toolName,
+      summary: assessment.summary,
+      reasons: assessment.reasons,
+      domain: assessment.domain,
+    };
+
+    // A cancelled response counts as a denial so the tool call never runs
+    const decision = await new Promise<ApprovalDecision>((resolve) => {
+      if (abortSignal?.aborted) return resolve("deny");
+      this.pending.set(request.id, resolve);
+      abortSignal?.addEventListener("abort", () =>
+        this.respond(request.id, "deny"),
+      );
+      this.webContents.send("chat-approval-request", request);
+    });
+
+    if (decision === "always" && assessment.domain) {
+      const kinds = new Set(allowed);
+      for (const reason of assessment.reasons) kinds.add(reason.type);
+      this.rules.alwaysAllow[assessment.domain] = [...kinds];
+      this.saveRules();
+    }
+
+    return { denied: decision === "deny", summary: assessment.summary };
+  }
+}
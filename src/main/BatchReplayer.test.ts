@@ -0,0 +1,158 @@
+import { describe, test, expect, vi, beforeEach } from "vitest";
+import { BatchReplayer } from "./BatchReplayer";
+import { createMockTab } from "./tools/mockTab";
+import type { SessionManager } from "./SessionManager";
+import type { SecretVault } from "./SecretVault";
+import type { RecordingStore } from "./RecordingStore";
+import type { Recording, TabHost } from "./types/RecorderTypes";
+
+const startReplay = vi.fn();
+const stop = vi.fn();
+
+// Replays are stubbed; the batch only needs to know which rows threw
+vi.mock("./ActionReplayer", () => ({
+  ActionReplayer: class {
+    startReplay = startReplay;
+    stop = stop;
+  },
+}));
+
+function recording(
+  types: Recording["actions"][number]["type"][],
+  fields: Partial<Recording["actions"][number]> = {},
+): Recording {
+  return {
+    id: "rec-1",
+    name: "Post article",
+    createdAt: 1,
+    updatedAt: 1,
+    actions: types.map((type, i) => ({
+      id: `a${i}`,
+      type,
+      timestamp: 1,
+      url: "https://example.com",
+      tab: "page",
+      ...fields,
+    })),
+  };
+}
+
+function batchReplayer(saved: Recording): {
+  batch: BatchReplayer;
+  host: TabHost;
+} {
+  const host = {
+    activeTab: createMockTab(),
+    createTab: vi.fn(() => createMockTab({ id: "batch-tab" })),
+    switchActiveTab: vi.fn(() => true),
+    closeTab: vi.fn(() => true),
+    addTabListener: vi.fn(() => () => {}),
+  } as TabHost;
+  const store = { get: () => saved } as unknown as RecordingStore;
+  const batch = new BatchReplayer(
+    {} as SessionManager,
+    host,
+    {} as SecretVault,
+    store,
+  );
+  return { batch, host };
+}
+
+describe("BatchReplayer", () => {
+  beforeEach(() => {
+    startReplay.mockReset();
+    stop.mockReset();
+  });
+
+  test("marks the rows whose replay failed", async () => {
+    startReplay
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error("Step 2 failed: no element"));
+    const { batch } = batchReplayer(recording(["click", "input"]));
+
+    const results = await batch.run(
+      "rec-1",
+      [
+        { row: 1, content: { title: "First" } },
+        { row: 2, content: { title: "Second" } },
+      ],
+      1,
+    );
+
+    expect(results).toEqual([
+      { row: 1, status: "passed" },
+      { row: 2, status: "failed", error: "Step 2 failed: no element" },
+    ]);
+  });
+
+  test("replays in tabs of its own and closes them", async () => {
+    startReplay.mockResolvedValue(undefined);
+    const { batch, host } = batchReplayer(recording(["click"]));
+
+    const results = await batch.run(
+      "rec-1",
+      [1, 2, 3].map((row) => ({ row, content: {} })),
+      2,
+    );
+
+    expect(results.every((r) => r.status === "passed")).toBe(true);
+    expect(host.createTab).toHaveBeenCalledTimes(2);
+    expect(host.closeTab).toHaveBeenCalledTimes(2);
+  });
+
+  test("only replays recordings that use tabs one row at a time", async () => {
+    const { batch, host } = batchReplayer(recording(["click", "popup"]));
+
+    await expect(
+      batch.run("rec-1", [{ row: 1, content: {} }], 3),
+    ).rejects.toThrow("opens or switches tabs");
+    expect(host.createTab).not.toHaveBeenCalled();
+  });
+
+  test("stops the row under way and leaves the rest pending", async () => {
+    // The replay runs until it's stopped
+    startReplay.mockImplementation(
+      () =>
+        new Promise((_, reject) => {
+          stop.mockImplementationOnce(() =>
+            reject(new Error("Replay stopped")),
+          );
+        }),
+    );
+    const { batch } = batchReplayer(recording(["click"]));
+
+    const results = await batch.run(
+      "rec-1",
+      [1, 2, 3].map((row) => ({ row, content: {} })),
+      1,
+      (result) => {
+        if (result.status === "running") setTimeout(() => batch.stop());
+      },
+    );
+
+    expect(stop).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([
+      { row: 1, status: "failed", error: "Replay stopped" },
+      { row: 2, status: "pending" },
+      { row: 3, status: "pending" },
+    ]);
+  });
+
+  test("won't start until every row has a file to upload", async () => {
+    const { batch } = batchReplayer(
+      recording(["upload"], { contentPlaceholder: "cover" }),
+    );
+
+    await expect(
+      batch.run(
+        "rec-1",
+        [
+          { row: 1, content: { cover: "/tmp/a.png" } },
+          { row: 2, content: {} },
+        ],
+        1,
+      ),
+    ).rejects.toThrow("Row 2 has no file for {{cover}}");
+    expect(startReplay).not.toHaveBeenCalled();
+  });
+});
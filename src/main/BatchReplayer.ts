@@ -0,0 +1,158 @@
+import type { Tab } from "./Tab";
+import type { BatchRow, BatchRowResult, TabHost } from "./types/RecorderTypes";
+import { ActionReplayer } from "./ActionReplayer";
+import { SessionManager } from "./SessionManager";
+import { usesTabActions } from "./tools/replaySteps";
+import { uploadPlaceholders } from "./tools/datasets";
+import type { SecretVault } from "./SecretVault";
+import type { RecordingStore } from "./RecordingStore";
+
+// Most tabs a batch replays in at once
+const MAX_PARALLEL_TABS = 5;
+
+/**
+ * Replays one recording once per dataset row, each with the row's content
+ * for the recording's placeholders. Rows run in turn in the active tab, or
+ * in parallel in tabs of their own.
+ */
+export class BatchReplayer {
+  private sessionManager: SessionManager;
+  private host: TabHost;
+  private vault: SecretVault;
+  private store: RecordingStore;
+  private running: boolean = false;
+  private stopped: boolean = false;
+  // The replayers of the rows under way, to stop along with the batch
+  private replayers: Set<ActionReplayer> = new Set();
+
+  constructor(
+    sessionManager: SessionManager,
+    host: TabHost,
+    vault: SecretVault,
+    store: RecordingStore,
+  ) {
+    this.sessionManager = sessionManager;
+    this.host = host;
+    this.vault = vault;
+    this.store = store;
+  }
+
+  /**
+   * Replay a recording for each row
+   * @param parallel How many tabs to replay in at once; 1 replays every row
+   * in the active tab. Recordings that open or switch tabs only run 1 at a
+   * time: their tab steps go through the window's shared active tab.
+   * @param onRowUpdate Called when a row starts, passes or fails
+   * @returns Each row's result; rows left when the batch was stopped stay
+   * pending
+   * @throws Error if a batch is already running, the recording doesn't
+   * exist, a row has no file for one of its uploads, or it uses tabs and
+   * more than one was asked for
+   */
+  public async run(
+    recordingId: string,
+    rows: BatchRow[],
+    parallel: number,
+    onRowUpdate?: (result: BatchRowResult) => void,
+  ): Promise<BatchRowResult[]> {
+    if (this.running) {
+      throw new Error("Already running a batch replay");
+    }
+    const recording = this.store.get(recordingId);
+    if (!recording) {
+      throw new Error(`Recording not found: ${recordingId}`);
+    }
+
+    // Without a file, every row's replay would stop at a file dialog
+    for (const name of uploadPlaceholders(recording.actions)) {
+      const missing = rows.find(({ content }) => !content[name]);
+      if (missing) {
+        throw new Error(
+          `Row ${missing.row} has no file for {{${name}}}; map it to a column of file paths`,
+        );
+      }
+    }
+
+    const tabs = Math.min(Math.max(1, parallel), MAX_PARALLEL_TABS);
+    if (tabs > 1 && usesTabActions(recording.actions)) {
+      throw new Error(
+        `"${recording.name}" opens or switches tabs, so its rows can only replay one at a time`,
+      );
+    }
+
+    const results: BatchRowResult[] = rows.map(({ row }) => ({
+      row,
+      status: "pending",
+    }));
+    const update = (index: number, result: BatchRowResult): void => {
+      results[index] = result;
+      onRowUpdate?.(result);
+    };
+
+    // Workers take the next row off a shared counter until none are left
+    let next = 0;
+    const work = async (tab: Tab): Promise<void> => {
+      const replayer = new ActionReplayer(
+        this.sessionManager,
+        this.host,
+        this.vault,
+        this.store,
+      );
+      this.replayers.add(replayer);
+      while (!this.stopped && next < rows.length) {
+        const index = next++;
+        const { row, content } = rows[index];
+        update(index, { row, status: "running" });
+        try {
+          await replayer.startReplay(tab, { recording, content });
+          update(index, { row, status: "passed" });
+        } catch (error) {
+          update(index, {
+            row,
+            status: "failed",
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      this.replayers.delete(replayer);
+    };
+
+    this.running = true;
+    this.stopped = false;
+    try {
+      console.log(
+        `[BatchReplayer] Replaying ${recording.id} for ${rows.length} row(s) in ${tabs} tab(s)`,
+      );
+      if (tabs === 1) {
+        const activeTab = this.host.activeTab;
+        if (!activeTab) {
+          throw new Error("No active tab");
+        }
+        await work(activeTab);
+      } else {
+        await Promise.all(
+          Array.from({ length: Math.min(tabs, rows.length) }, async () => {
+            const tab = this.host.createTab("about:blank");
+            try {
+              await work(tab);
+            } finally {
+              this.host.closeTab(tab.id);
+            }
+          }),
+        );
+      }
+      return results;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Stop the batch: rows replaying stop where they are and fail, the rest
+   * don't start
+   */
+  public stop(): void {
+    this.stopped = true;
+    for (const replayer of this.replayers) replayer.stop();
+  }
+}
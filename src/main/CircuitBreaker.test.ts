@@ -0,0 +1,47 @@
+import { describe, test, expect } from "vitest";
+import { CircuitBreaker } from "./CircuitBreaker";
+
+function breakerAt(clock: { time: number }): CircuitBreaker {
+  return new CircuitBreaker({
+    failureThreshold: 3,
+    cooldownMs: 1000,
+    now: () => clock.time,
+  });
+}
+
+describe("CircuitBreaker", () => {
+  test("opens after consecutive failures", () => {
+    const clock = { time: 0 };
+    const breaker = breakerAt(clock);
+    breaker.recordFailure("openai");
+    breaker.recordFailure("openai");
+    expect(breaker.canRequest("openai")).toBe(true);
+    breaker.recordFailure("openai");
+    expect(breaker.canRequest("openai")).toBe(false);
+    expect(breaker.canRequest("anthropic")).toBe(true);
+  });
+
+  test("a success resets the failure count", () => {
+    const breaker = breakerAt({ time: 0 });
+    breaker.recordFailure("openai");
+    breaker.recordFailure("openai");
+    breaker.recordSuccess("openai");
+    breaker.recordFailure("openai");
+    expect(breaker.canRequest("openai")).toBe(true);
+  });
+
+  test("half-opens after the cooldown and re-opens on another failure", () => {
+    const clock = { time: 0 };
+    const breaker = breakerAt(clock);
+    for (let i = 0; i < 3; i++) breaker.recordFailure("openai");
+
+    clock.time = 1000;
+    expect(breaker.canRequest("openai")).toBe(true);
+    breaker.recordFailure("openai");
+    expect(breaker.canRequest("openai")).toBe(false);
+
+    clock.time = 2000;
+    breaker.recordSuccess("openai");
+    expect(breaker.canRequest("openai")).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+interface CircuitBreakerOptions {
+  failureThreshold?: number; // Consecutive failures that open the circuit
+  cooldownMs?: number; // How long an open circuit rejects requests
+  now?: () => number;
+}
+
+interface CircuitState {
+  failures: number;
+  openedAt: number | null;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 60_000;
+
+/**
+ * Tracks consecutive failures per key (e.g. a provider) and stops sending
+ * requests to one that keeps failing. After the cooldown the circuit is
+ * half-open: one request is let through, and its outcome closes or re-opens
+ * the circuit.
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly now: () => number;
+  private states: Map<string, CircuitState> = new Map();
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold =
+      options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  private state(key: string): CircuitState {
+    let state = this.states.get(key);
+    if (!state) {
+      state = { failures: 0, openedAt: null };
+      this.states.set(key, state);
+    }
+    return state;
+  }
+
+  /**
+   * @returns false while the circuit is open
+   */
+  public canRequest(key: string): boolean {
+    const openedAt = this.states.get(key)?.openedAt;
+    return openedAt == null || this.now() - openedAt >= this.cooldownMs;
+  }
+
+  public recordSuccess(key: string): void {
+    this.states.delete(key);
+  }
+
+  public recordFailure(key: string): void {
+    const state = this.state(key);
+    state.failures += 1;
+    // A failed half-open request re-opens straight away
+    if (state.failures >= this.failureThreshold || state.openedAt !== null) {
+      state.openedAt = this.now();
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, test, expect, vi, beforeEach } from "vitest";
+import { ContextManager, type ContextBudget } from "./ContextManager";
+import type { ChatMessage } from "./types/ChatTypes";
+
+let nextId = 0;
+function message(
+  role: ChatMessage["role"],
+  content: string,
+  extra: Partial<ChatMessage> = {},
+): ChatMessage {
+  return {
+    id: `m${nextId++}`,
+    parentId: null,
+    role,
+    content,
+    createdAt: 0,
+    ...extra,
+  };
+}
+
+// 400 usable tokens after the reply reserve; each 396-char message is 103
+const budget: ContextBudget = {
+  provider: "openai",
+  contextWindow: 600,
+  reservedTokens: 50,
+};
+
+const long = (letter: string): string => letter.repeat(396);
+
+describe("ContextManager", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  test("sends history unchanged while it fits", async () => {
+    const complete = vi.fn();
+    const history = [message("user", "Hi"), message("assistant", "Hello")];
+
+    const context = await new ContextManager(complete).prepare(history, budget);
+
+    expect(context).toEqual({
+      messages: history,
+      summary: null,
+      compaction: null,
+    });
+    expect(complete).not.toHaveBeenCalled();
+  });
+
+  test("summarises older turns and keeps the latest ones", async () => {
+    const complete = vi.fn().mockResolvedValue(" The user asked about a. ");
+    const history = [
+      message("user", long("a")),
+      message("assistant", long("b")),
+      message("user", long("c")),
+      message("assistant", long("d")),
+      message("user", long("e")),
+    ];
+
+    const context = await new ContextManager(complete).prepare(history, budget);
+
+    expect(context.messages).toEqual(history.slice(4));
+    expect(context.summary).toBe("The user asked about a.");
+    expect(context.compaction).toEqual({
+      throughId: history[3].id,
+      compaction: {
+        summary: "The user asked about a.",
+        createdAt: expect.any(Number),
+      },
+    });
+    expect(complete.mock.calls[0][0]).toContain(`User: ${long("a")}`);
+    expect(complete.mock.calls[0][0]).not.toContain(long("e"));
+  });
+
+  test("starts from the last compaction and reuses its summary", async () => {
+    const complete = vi.fn();
+    const history = [
+      message("user", long("a")),
+      message("assistant", "ok", {
+        compaction: { summary: "Earlier: a", createdAt: 1 },
+      }),
+      message("user", "Next question"),
+    ];
+
+    const context = await new ContextManager(complete).prepare(history, budget);
+
+    expect(context.messages).toEqual(history.slice(2));
+    expect(context.summary).toBe("Earlier: a");
+    expect(context.compaction).toBeNull();
+  });
+
+  test("drops older turns when summarising fails", async () => {
+    const complete = vi.fn().mockRejectedValue(new Error("Rate limited"));
+    const history = [
+      message("user", long("a")),
+      message("assistant", long("b")),
+      message("user", long("c")),
+      message("assistant", long("d")),
+      message("user", long("e")),
+    ];
+
+    const context = await new ContextManager(complete).prepare(history, budget);
+
+    expect(context.messages).toEqual(history.slice(4));
+    expect(context.summary).toBeNull();
+    expect(context.compaction?.compaction.summary).toBeNull();
+  });
+
+  test("passes the reply's signal on and keeps history when stopped", async () => {
+    const controller = new AbortController();
+    const complete = vi.fn(async () => {
+      controller.abort();
+      throw new Error("Aborted");
+    });
+    const history = [
+      message("user", long("a")),
+      message("assistant", long("b")),
+      message("user", long("c")),
+      message("assistant", long("d")),
+      message("user", long("e")),
+    ];
+
+    const context = await new ContextManager(complete).prepare(
+      history,
+      budget,
+      { signal: controller.signal, conversationId: "c1" },
+    );
+
+    expect(complete).toHaveBeenCalledWith(expect.any(String), {
+      signal: controller.signal,
+      conversationId: "c1",
+    });
+    expect(context.messages).toEqual(history);
+    expect(context.compaction).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+import type { LLMProvider } from "./ProviderRegistry";
+import {
+  estimateMessageTokens,
+  estimateTokens,
+  findCompactionSplit,
+} from "./tools/contextWindow";
+import type { ChatMessage, HistoryCompaction } from "./types/ChatTypes";
+
+// Room left for the reply, at most this many tokens
+const MAX_RESERVED_OUTPUT_TOKENS = 4096;
+
+// After compacting, recent turns get this share of the budget so the next
+// few messages don't trigger another compaction straight away
+const KEEP_RATIO = 0.5;
+
+const SUMMARY_PROMPT = `Summarise the conversation below between a user and an AI assistant in a browser sidebar.
+Keep facts, decisions, names, URLs and open questions the assistant needs to continue the conversation. Leave out small talk.
+Write at most 200 words in plain prose.`;
+
+export interface ContextBudget {
+  provider: LLMProvider;
+  contextWindow: number; // Model context size in tokens
+  reservedTokens: number; // System prompt, tool definitions, ...
+}
+
+// Passed through to `complete` when a summary is written
+export interface SummaryRequest {
+  signal?: AbortSignal; // The reply's, so stopping it stops the summary too
+  conversationId?: string; // Thread the summary's token usage counts toward
+}
+
+export interface PreparedContext {
+  messages: ChatMessage[]; // History to send, oldest first
+  summary: string | null; // Summary of earlier messages, if any
+  // Set when older messages were compacted for this request; the caller
+  // stores it on `throughId` so later requests start from there
+  compaction: { throughId: string; compaction: HistoryCompaction } | null;
+}
+
+/**
+ * Keeps chat history inside the model's context window. When a branch
+ * grows past the budget, older turns are summarised (or dropped if
+ * summarising fails) and only the summary and the latest turns are sent.
+ */
+export class ContextManager {
+  private readonly complete: (
+    prompt: string,
+    request: SummaryRequest,
+  ) => Promise<string>;
+
+  /**
+   * @param complete One-off completion used to write summaries
+   */
+  constructor(
+    complete: (prompt: string, request: SummaryRequest) => Promise<string>,
+  ) {
+    this.complete = complete;
+  }
+
+  /**
+   * Pick the history to send for a branch, compacting it if it's over
+   * budget. Earlier compactions on the branch are reused.
+   */
+  async prepare(
+    history: ChatMessage[],
+    budget: ContextBudget,
+    request: SummaryRequest = {},
+  ): Promise<PreparedContext> {
+    const { provider } = budget;
+    const lastCompacted = history.findLastIndex((m) => m.compaction);
+    const previousSummary =
+      lastCompacted === -1
+        ? null
+        : (history[lastCompacted].compaction?.summary ?? null);
+    const recent = history.slice(lastCompacted + 1);
+
+    const available =
+      budget.contextWindow -
+      budget.reservedTokens -
+      Math.min(MAX_RESERVED_OUTPUT_TOKENS, budget.contextWindow / 4);
+    const used =
+      (previousSummary ? estimateTokens(previousSummary, provider) : 0) +
+      recent.reduce((sum, m) => sum + estimateMessageTokens(m, provider), 0);
+    const unchanged = { messages: recent, summary: previousSummary };
+    if (used <= available) return { ...unchanged, compaction: null };
+
+    const split = findCompactionSplit(recent, provider, available * KEEP_RATIO);
+    if (split === 0) return { ...unchanged, compaction: null };
+
+    const older = recent.slice(0, split);
+    const summary = await this.summarize(older, previousSummary, request);
+    // Stopped while summarising: the reply is cancelled, so keep the history
+    // as it was rather than dropping the turns
+    if (request.signal?.aborted) return { ...unchanged, compaction: null };
+    return {
+      messages: recent.slice(split),
+      summary,
+      compaction: {
+        throughId: older[older.length - 1].id,
+        compaction: { summary, createdAt: Date.now() },
+      },
+    };
+  }
+
+  // @returns null if the model couldn't summarise; the turns are dropped
+  private async summarize(
+    messages: ChatMessage[],
+    previousSummary: string | null,
+    request: SummaryRequest,
+  ): Promise<string | null> {
+    const transcript = messages
+      .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
+      .join("\n\n");
+    const earlier = previousSummary
+      ? `Summary of the conversation before this part:\n${previousSummary}\n\n`
+      : "";
+    try {
+      const summary = await this.complete(
+        `${SUMMARY_PROMPT}\n\n${earlier}Conversation:\n${transcript}`,
+        request,
+      );
+      return summary.trim() || null;
+    } catch (error) {
+      console.error("[ContextManager] Error summarising history:", error);
+      return null;
+    }
+  }
+}
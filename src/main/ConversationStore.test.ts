@@ -0,0 +1,119 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  ConversationStore,
+  DEFAULT_CONVERSATION_TITLE,
+  titleFromMessage,
+} from "./ConversationStore";
+
+// The store only touches electron for its default userData location
+vi.mock("electron", () => ({ app: { getPath: () => os.tmpdir() } }));
+
+describe("ConversationStore", () => {
+  let dir: string;
+  let store: ConversationStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "conversations-"));
+    store = new ConversationStore(dir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("created conversations survive a new store instance", () => {
+    const conversation = store.create();
+    conversation.messages.push({
+      id: "m1",
+      parentId: null,
+      role: "user",
+      content: "Hello",
+      createdAt: 1,
+    });
+    store.save(conversation);
+
+    const reloaded = new ConversationStore(dir).get(conversation.id);
+
+    expect(reloaded?.title).toBe(DEFAULT_CONVERSATION_TITLE);
+    expect(reloaded?.messages).toEqual(conversation.messages);
+  });
+
+  test("lists the most recently updated conversation first", () => {
+    const older = store.create("Older");
+    const newer = store.create("Newer");
+    store.save({ ...older, updatedAt: 100 });
+    store.save({ ...newer, updatedAt: 200 });
+
+    expect(store.list().map((c) => c.title)).toEqual(["Newer", "Older"]);
+  });
+
+  test("keeps the list current without re-reading every thread", () => {
+    const renamed = store.create("Before");
+    const deleted = store.create("Deleted");
+    store.list();
+    // Written behind the store's back, so only a re-read would list it
+    fs.writeFileSync(
+      path.join(dir, "outside.json"),
+      JSON.stringify({ ...renamed, id: "outside", title: "Outside" }),
+    );
+
+    store.rename(renamed.id, "After");
+    store.delete(deleted.id);
+    store.create("Added");
+
+    expect(
+      store
+        .list()
+        .map((c) => c.title)
+        .sort(),
+    ).toEqual(["Added", "After"]);
+  });
+
+  test("renames and deletes conversations", () => {
+    const conversation = store.create();
+
+    expect(store.rename(conversation.id, "  Trip plans ")?.title).toBe(
+      "Trip plans",
+    );
+    expect(store.delete(conversation.id)).toBe(true);
+    expect(store.get(conversation.id)).toBeNull();
+    expect(store.delete(conversation.id)).toBe(false);
+    expect(store.rename(conversation.id, "x")).toBeNull();
+  });
+
+  test("searches titles and message text with a snippet", () => {
+    const recipes = store.create("Recipes");
+    const work = store.create("Work");
+    work.messages.push({
+      id: "m1",
+      parentId: null,
+      role: "assistant",
+      content: "The quarterly report is due on Friday.",
+      createdAt: 1,
+    });
+    store.save(work);
+
+    expect(store.search("recipe").map((c) => c.id)).toEqual([recipes.id]);
+    const [hit] = store.search("REPORT");
+    expect(hit.id).toBe(work.id);
+    expect(hit.snippet).toContain("quarterly report");
+  });
+
+  test("keeps IDs from escaping the conversations directory", () => {
+    fs.writeFileSync(path.join(dir, "..", "outside.json"), "{}");
+
+    expect(store.get("../outside")).toBeNull();
+    fs.rmSync(path.join(dir, "..", "outside.json"));
+  });
+});
+
+describe("titleFromMessage", () => {
+  test("collapses whitespace and truncates long messages", () => {
+    expect(titleFromMessage("  What is\n my IP? ")).toBe("What is my IP?");
+    expect(titleFromMessage("x".repeat(100))).toHaveLength(60);
+    expect(titleFromMessage("   ")).toBe(DEFAULT_CONVERSATION_TITLE);
+  });
+});
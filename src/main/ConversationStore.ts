@@ -0,0 +1,193 @@
+import { app } from "electron";
+import * as fs from "fs";
+import * as path from "path";
+import { v4 as uuidv4 } from "uuid";
+import type {
+  ChatMessage,
+  Conversation,
+  ConversationSummary,
+} from "./types/ChatTypes";
+import { normalizeConversation } from "./tools/messageTree";
+
+export const DEFAULT_CONVERSATION_TITLE = "New chat";
+
+const TITLE_MAX_LENGTH = 60;
+const SNIPPET_RADIUS = 40;
+
+/**
+ * Derive a thread title from the first user message
+ */
+export function titleFromMessage(content: string): string {
+  const line = content.replace(/\s+/g, " ").trim();
+  if (!line) return DEFAULT_CONVERSATION_TITLE;
+  return line.length > TITLE_MAX_LENGTH
+    ? `${line.slice(0, TITLE_MAX_LENGTH - 1)}…`
+    : line;
+}
+
+/**
+ * Persists chat threads as one JSON file per conversation under
+ * userData/conversations.
+ */
+export class ConversationStore {
+  private conversationsDir: string;
+  // Summaries by id, so listing threads after every save doesn't re-read
+  // every file. Loaded on first use.
+  private index: Map<string, ConversationSummary> | null = null;
+
+  constructor(conversationsDir?: string) {
+    this.conversationsDir =
+      conversationsDir ?? path.join(app.getPath("userData"), "conversations");
+    this.ensureConversationsDir();
+  }
+
+  private ensureConversationsDir(): void {
+    if (!fs.existsSync(this.conversationsDir)) {
+      fs.mkdirSync(this.conversationsDir, { recursive: true });
+    }
+  }
+
+  private filePath(id: string): string {
+    // IDs come from the renderer; keep them inside the conversations dir
+    return path.join(this.conversationsDir, `${path.basename(id)}.json`);
+  }
+
+  private readAll(): Conversation[] {
+    try {
+      return fs
+        .readdirSync(this.conversationsDir)
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => this.get(file.replace(/\.json$/, "")))
+        .filter((c): c is Conversation => c !== null);
+    } catch (error) {
+      console.error("[ConversationStore] Error reading conversations:", error);
+      return [];
+    }
+  }
+
+  private toSummary(
+    conversation: Conversation,
+    snippet?: string,
+  ): ConversationSummary {
+    return {
+      id: conversation.id,
+      title: conversation.title,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+      messageCount: conversation.messages.length,
+      snippet,
+    };
+  }
+
+  /**
+   * Create and persist an empty conversation
+   */
+  public create(title: string = DEFAULT_CONVERSATION_TITLE): Conversation {
+    const now = Date.now();
+    const conversation: Conversation = {
+      id: uuidv4(),
+      title,
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+      currentLeafId: null,
+    };
+    this.save(conversation);
+    return conversation;
+  }
+
+  /**
+   * Load a conversation with its messages
+   * @returns null if it doesn't exist or can't be parsed
+   */
+  public get(id: string): Conversation | null {
+    const filePath = this.filePath(id);
+    if (!fs.existsSync(filePath)) return null;
+    try {
+      return normalizeConversation(
+        JSON.parse(fs.readFileSync(filePath, "utf-8")) as Conversation,
+      );
+    } catch (error) {
+      console.error(`[ConversationStore] Error loading ${id}:`, error);
+      return null;
+    }
+  }
+
+  public save(conversation: Conversation): void {
+    fs.writeFileSync(
+      this.filePath(conversation.id),
+      JSON.stringify(conversation, null, 2),
+      "utf-8",
+    );
+    this.index?.set(conversation.id, this.toSummary(conversation));
+  }
+
+  /**
+   * List conversations, most recently updated first
+   */
+  public list(): ConversationSummary[] {
+    if (!this.index) {
+      this.index = new Map(
+        this.readAll().map((c) => [c.id, this.toSummary(c)]),
+      );
+    }
+    return [...this.index.values()].sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * @returns The renamed conversation, or null if it doesn't exist
+   */
+  public rename(id: string, title: string): Conversation | null {
+    const conversation = this.get(id);
+    if (!conversation) return null;
+    conversation.title = title.trim() || DEFAULT_CONVERSATION_TITLE;
+    conversation.updatedAt = Date.now();
+    this.save(conversation);
+    return conversation;
+  }
+
+  /**
+   * @returns true if a conversation was deleted
+   */
+  public delete(id: string): boolean {
+    const filePath = this.filePath(id);
+    if (!fs.existsSync(filePath)) return false;
+    fs.unlinkSync(filePath);
+    this.index?.delete(path.basename(id));
+    return true;
+  }
+
+  /**
+   * Case-insensitive search over titles and message text.
+   * Matches in message text include a snippet around the first hit.
+   */
+  public search(query: string): ConversationSummary[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return this.list();
+
+    const results: ConversationSummary[] = [];
+    for (const conversation of this.readAll()) {
+      if (conversation.title.toLowerCase().includes(needle)) {
+        results.push(this.toSummary(conversation));
+        continue;
+      }
+      const message = conversation.messages.find((m: ChatMessage) =>
+        m.content.toLowerCase().includes(needle),
+      );
+      if (message) {
+        const index = message.content.toLowerCase().indexOf(needle);
+        const start = Math.max(0, index - SNIPPET_RADIUS);
+        const end = Math.min(
+          message.content.length,
+          index + needle.length + SNIPPET_RADIUS,
+        );
+        const snippet =
+          (start > 0 ? "…" : "") +
+          message.content.slice(start, end).replace(/\s+/g, " ") +
+          (end < message.content.length ? "…" : "");
+        results.push(this.toSummary(conversation, snippet));
+      }
+    }
+    return results.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+}
@@ -1,24 +1,82 @@
-import { ipcMain, WebContents } from "electron";
+import { dialog, ipcMain, Menu, WebContents } from "electron";
+import * as fs from "fs";
+import * as path from "path";
 import type { Window } from "./Window";
 import { ActionRecorder } from "./ActionRecorder";
 import { ActionReplayer, ReplayStatus } from "./ActionReplayer";
+import { BatchReplayer } from "./BatchReplayer";
 import { SessionManager } from "./SessionManager";
+import { ApprovalGate, type ApprovalDecision } from "./ApprovalGate";
+import { SecretVault } from "./SecretVault";
+import { RecordingStore } from "./RecordingStore";
 import { ContentFormatter } from "./ContentFormatter";
-import type { ReplayOptions } from "./types/RecorderTypes";
+import type {
+  BatchRow,
+  ElementSelector,
+  HealedStep,
+  Recording,
+  ReplayOptions,
+} from "./types/RecorderTypes";
+import { isPageAssertion, type PickedElement } from "./tools/assertions";
+import { readPageText } from "./tools/pageTools";
+import { usesTabActions } from "./tools/replaySteps";
+import {
+  contentPlaceholders,
+  defaultColumnMapping,
+  uploadPlaceholders,
+  parseDataset,
+  type Dataset,
+} from "./tools/datasets";
+import type { AssistantProfile, ModelSettings } from "./SettingsStore";
 import type { FormatOptions } from "./ContentFormatter";
+import {
+  SLASH_COMMANDS,
+  findModelByName,
+  findRecording,
+  parseSlashCommand,
+  summarizePrompt,
+  translatePrompt,
+  type SlashCommand,
+} from "./tools/slashCommands";
 
 export class EventManager {
   private mainWindow: Window;
   private recorder: ActionRecorder;
   private replayer: ActionReplayer;
+  private batchReplayer: BatchReplayer;
   private sessionManager: SessionManager;
+  private approvalGate: ApprovalGate;
+  private secretVault: SecretVault;
+  private recordingStore: RecordingStore;
   private contentFormatter: ContentFormatter;
 
   constructor(mainWindow: Window) {
     this.mainWindow = mainWindow;
-    this.recorder = new ActionRecorder();
+    this.secretVault = new SecretVault(mainWindow);
+    this.recordingStore = new RecordingStore();
+    this.recorder = new ActionRecorder(
+      mainWindow,
+      this.secretVault,
+      this.recordingStore,
+    );
     this.sessionManager = new SessionManager();
-    this.replayer = new ActionReplayer(this.sessionManager);
+    this.replayer = new ActionReplayer(
+      this.sessionManager,
+      mainWindow,
+      this.secretVault,
+      this.recordingStore,
+    );
+    this.batchReplayer = new BatchReplayer(
+      this.sessionManager,
+      mainWindow,
+      this.secretVault,
+      this.recordingStore,
+    );
+    this.approvalGate = new ApprovalGate(
+      mainWindow.sidebar.view.webContents,
+      this.sessionManager,
+    );
+    mainWindow.sidebar.client.setApprovalGate(this.approvalGate);
     this.contentFormatter = new ContentFormatter(mainWindow);
     this.setupEventHandlers();
   }
@@ -44,6 +102,9 @@ export class EventManager {
 
     // Content formatting events
     this.handleContentFormatterEvents();
+
+    // Slash commands typed in the sidebar composer
+    this.handleSlashCommandEvents();
   }
 
   private handleTabEvents(): void {
@@ -201,6 +262,30 @@ export class EventManager {
       await this.mainWindow.sidebar.client.sendChatMessage(request);
     });
 
+    // Edit a past prompt / regenerate a reply (both create a new branch)
+    ipcMain.handle("sidebar-edit-message", async (_, request) => {
+      await this.mainWindow.sidebar.client.editMessage(request);
+    });
+
+    ipcMain.handle("sidebar-regenerate-message", async (_, request) => {
+      await this.mainWindow.sidebar.client.regenerateMessage(request);
+    });
+
+    ipcMain.handle("sidebar-switch-branch", (_, messageId: string) => {
+      const success = this.mainWindow.sidebar.client.switchBranch(messageId);
+      return success
+        ? { success: true }
+        : { success: false, error: "Message not found" };
+    });
+
+    // Cancel an in-flight response
+    ipcMain.handle("sidebar-cancel-chat", (_, messageId: string) => {
+      const success = this.mainWindow.sidebar.client.cancelChat(messageId);
+      return success
+        ? { success: true }
+        : { success: false, error: "No response in progress" };
+    });
+
     // Clear chat
     ipcMain.handle("sidebar-clear-chat", () => {
       this.mainWindow.sidebar.client.clearMessages();
@@ -211,6 +296,154 @@ export class EventManager {
     ipcMain.handle("sidebar-get-messages", () => {
       return this.mainWindow.sidebar.client.getMessages();
     });
+
+    // Conversation threads
+    ipcMain.handle("sidebar-get-current-conversation", () => {
+      return this.mainWindow.sidebar.client.getCurrentConversation();
+    });
+
+    ipcMain.handle("sidebar-list-conversations", () => {
+      return this.mainWindow.sidebar.client.listConversations();
+    });
+
+    ipcMain.handle("sidebar-search-conversations", (_, query: string) => {
+      return this.mainWindow.sidebar.client.searchConversations(query);
+    });
+
+    ipcMain.handle("sidebar-create-conversation", () => {
+      return this.mainWindow.sidebar.client.createConversation();
+    });
+
+    ipcMain.handle("sidebar-switch-conversation", (_, id: string) => {
+      const success = this.mainWindow.sidebar.client.switchConversation(id);
+      return success
+        ? { success: true }
+        : { success: false, error: "Conversation not found" };
+    });
+
+    ipcMain.handle(
+      "sidebar-rename-conversation",
+      (_, id: string, title: string) => {
+        const success = this.mainWindow.sidebar.client.renameConversation(
+          id,
+          title,
+        );
+        return success
+          ? { success: true }
+          : { success: false, error: "Conversation not found" };
+      },
+    );
+
+    ipcMain.handle("sidebar-delete-conversation", (_, id: string) => {
+      const success = this.mainWindow.sidebar.client.deleteConversation(id);
+      return success
+        ? { success: true }
+        : { success: false, error: "Conversation not found" };
+    });
+
+    // Model / provider selection
+    ipcMain.handle("sidebar-list-providers", () => {
+      return this.mainWindow.sidebar.client.listProviders();
+    });
+
+    ipcMain.handle("sidebar-get-model-settings", () => {
+      return this.mainWindow.sidebar.client.getModelSettings();
+    });
+
+    // Assistant profiles (system prompt, model and tools presets)
+    ipcMain.handle("sidebar-list-profiles", () => {
+      const client = this.mainWindow.sidebar.client;
+      return {
+        profiles: client.listProfiles(),
+        activeId: client.getActiveProfile().id,
+      };
+    });
+
+    ipcMain.handle("sidebar-list-tools", () => {
+      return this.mainWindow.sidebar.client.listTools();
+    });
+
+    ipcMain.handle("sidebar-set-active-profile", (_, id: string) => {
+      const client = this.mainWindow.sidebar.client;
+      try {
+        const profile = client.setActiveProfile(id);
+        return { success: true, profile, settings: client.getModelSettings() };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    });
+
+    ipcMain.handle(
+      "sidebar-save-profile",
+      (_, profile: Partial<AssistantProfile>) => {
+        return {
+          success: true,
+          profile: this.mainWindow.sidebar.client.saveProfile(profile),
+        };
+      },
+    );
+
+    ipcMain.handle("sidebar-delete-profile", (_, id: string) => {
+      const success = this.mainWindow.sidebar.client.deleteProfile(id);
+      return success
+        ? { success: true }
+        : { success: false, error: "Profile not found or is the last one" };
+    });
+
+    ipcMain.handle("sidebar-get-usage-summary", () => {
+      return this.mainWindow.sidebar.client.getUsageSummary();
+    });
+
+    ipcMain.handle(
+      "sidebar-set-model-settings",
+      (_, changes: Partial<ModelSettings>) => {
+        try {
+          const settings =
+            this.mainWindow.sidebar.client.setModelSettings(changes);
+          return { success: true, settings };
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : "Unknown error",
+          };
+        }
+      },
+    );
+
+    // Agent mode (chat drives the browser)
+    ipcMain.handle("sidebar-set-agent-mode", (_, enabled: boolean) => {
+      this.mainWindow.sidebar.client.setAgentMode(enabled);
+      return enabled;
+    });
+
+    ipcMain.handle("sidebar-get-agent-mode", () => {
+      return this.mainWindow.sidebar.client.isAgentMode();
+    });
+
+    // Approval of risky agent actions
+    ipcMain.handle(
+      "sidebar-approval-response",
+      (_, requestId: string, decision: ApprovalDecision) => {
+        const success = this.approvalGate.respond(requestId, decision);
+        return success
+          ? { success: true }
+          : { success: false, error: "Approval request not found" };
+      },
+    );
+
+    // Passphrases and secrets asked for by the secrets vault
+    ipcMain.handle(
+      "sidebar-secret-response",
+      (_, promptId: string, value: string | null) => {
+        const success = this.secretVault.respond(promptId, value);
+        return success
+          ? { success: true }
+          : { success: false, error: "Secret prompt not found" };
+      },
+    );
   }
 
   private handlePageContentEvents(): void {
@@ -275,33 +508,48 @@ export class EventManager {
     );
   }
 
+  private showAssertionMenu(
+    selector: ElementSelector,
+    picked: PickedElement,
+  ): void {
+    const choices = this.recorder.getAssertionChoices(picked, selector);
+    const menu = Menu.buildFromTemplate(
+      choices.flatMap((choice, index) => {
+        const item = {
+          label: choice.label,
+          enabled: choice.enabled,
+          click: () =>
+            this.recorder.recordAction(
+              choice.type,
+              isPageAssertion(choice.type) ? {} : selector,
+              choice.expected,
+            ),
+        };
+        // Page-level checks go below the element ones
+        return isPageAssertion(choice.type) &&
+          !isPageAssertion(choices[index - 1].type)
+          ? [{ type: "separator" as const }, item]
+          : [item];
+      }),
+    );
+    menu.popup({ window: this.mainWindow.window });
+  }
+
   private handleRecorderEvents(): void {
+    // Keep the toolbar's buttons in step with the recorder
+    this.recorder.addStateListener(({ isRecording, isPaused }) => {
+      this.mainWindow.topBar.view.webContents.send("recorder-state-changed", {
+        isRecording,
+        isPaused,
+      });
+    });
+
     // Start recording
     ipcMain.handle(
       "recorder-start",
       async (_, name: string, description?: string) => {
         try {
-          console.log("🔴 [RECORDER] Start recording requested:", {
-            name,
-            description,
-          });
-          const activeTab = this.mainWindow.activeTab;
-          console.log(
-            "🔴 [RECORDER] Active tab:",
-            activeTab ? `Tab ${activeTab.id} - ${activeTab.url}` : "NONE",
-          );
-          if (!activeTab) {
-            throw new Error("No active tab");
-          }
-          const recording = await this.recorder.startRecording(
-            activeTab,
-            name,
-            description,
-          );
-          console.log(
-            "🔴 [RECORDER] Recording started successfully:",
-            recording.id,
-          );
+          const recording = await this.startRecording(name, description);
           return { success: true, recording };
         } catch (error) {
           console.error("🔴 [RECORDER] Failed to start recording:", error);
@@ -371,7 +619,14 @@ export class EventManager {
     // Record action (called from injected script)
     ipcMain.handle(
       "recorder-record-action",
-      async (_, type, selector, value, isContentField, contentPlaceholder) => {
+      async (
+        event,
+        type,
+        selector,
+        value,
+        isContentField,
+        contentPlaceholder,
+      ) => {
         try {
           await this.recorder.recordAction(
             type,
@@ -379,6 +634,9 @@ export class EventManager {
             value,
             isContentField,
             contentPlaceholder,
+            this.mainWindow.allTabs.find(
+              (tab) => tab.webContents === event.sender,
+            ),
           );
           return { success: true };
         } catch (error) {
@@ -390,6 +648,36 @@ export class EventManager {
       },
     );
 
+    // Assert mode: the next click in the tab picks an element to check
+    ipcMain.handle("recorder-pick-assert-target", async () => {
+      try {
+        await this.recorder.pickAssertTarget();
+        return { success: true };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    });
+
+    // Element picked in assert mode (called from injected script): offer
+    // the checks it supports and record the chosen one
+    ipcMain.handle(
+      "recorder-assert-target",
+      (_, selector: ElementSelector, picked: PickedElement) => {
+        try {
+          this.showAssertionMenu(selector, picked);
+          return { success: true };
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      },
+    );
+
     // Get recorder state
     ipcMain.handle("recorder-get-state", () => {
       return this.recorder.getState();
@@ -421,6 +709,21 @@ export class EventManager {
       }
     });
 
+    // Save a recording edited in the sidebar
+    ipcMain.handle("recorder-update-recording", (_, recording: Recording) => {
+      try {
+        return {
+          success: true,
+          recording: this.recorder.updateRecording(recording),
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    });
+
     // Delete recording
     ipcMain.handle("recorder-delete-recording", async (_, id: string) => {
       try {
@@ -437,21 +740,8 @@ export class EventManager {
     // Start replay
     ipcMain.handle("replayer-start", async (_, options: ReplayOptions) => {
       try {
-        const activeTab = this.mainWindow.activeTab;
-        if (!activeTab) {
-          throw new Error("No active tab");
-        }
-
-        // Set up status update callback
-        const statusCallback = (status: ReplayStatus): void => {
-          this.mainWindow.topBar.view.webContents.send(
-            "replayer-status-update",
-            status,
-          );
-        };
-
-        await this.replayer.startReplay(activeTab, options, statusCallback);
-        return { success: true };
+        const healedSteps = await this.startReplay(options);
+        return { success: true, healedSteps };
       } catch (error) {
         return {
           success: false,
@@ -504,6 +794,69 @@ export class EventManager {
       return this.replayer.getStatus();
     });
 
+    // Write selectors healed during a replay back into its script
+    ipcMain.handle(
+      "replayer-save-healed-selectors",
+      (_, recordingId: string, steps: HealedStep[]) => {
+        try {
+          this.replayer.saveHealedSelectors(recordingId, steps);
+          return { success: true };
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      },
+    );
+
+    // Choose a CSV/JSON dataset to replay a recording with, one row at a time
+    ipcMain.handle(
+      "batch-replay-open-dataset",
+      async (_, recordingId: string) => {
+        try {
+          const opened = await this.openDataset(recordingId);
+          return opened ? { success: true, ...opened } : { success: false };
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      },
+    );
+
+    // Replay a recording for each dataset row, reporting rows as they finish
+    ipcMain.handle(
+      "batch-replay-start",
+      async (_, recordingId: string, rows: BatchRow[], parallel: number) => {
+        try {
+          const results = await this.batchReplayer.run(
+            recordingId,
+            rows,
+            parallel,
+            (result) => {
+              this.mainWindow.sidebar.view.webContents.send(
+                "batch-replay-row",
+                result,
+              );
+            },
+          );
+          return { success: true, results };
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      },
+    );
+
+    ipcMain.handle("batch-replay-stop", () => {
+      this.batchReplayer.stop();
+      return { success: true };
+    });
+
     // Session management
     ipcMain.handle("session-save", async (_, domain: string, name?: string) => {
       try {
@@ -556,6 +909,91 @@ export class EventManager {
     });
   }
 
+  // Start recording in the active tab (topbar button or /record start)
+  private async startRecording(
+    name: string,
+    description?: string,
+  ): Promise<Recording> {
+    console.log("🔴 [RECORDER] Start recording requested:", {
+      name,
+      description,
+    });
+    const activeTab = this.mainWindow.activeTab;
+    console.log(
+      "🔴 [RECORDER] Active tab:",
+      activeTab ? `Tab ${activeTab.id} - ${activeTab.url}` : "NONE",
+    );
+    if (!activeTab) {
+      throw new Error("No active tab");
+    }
+    const recording = await this.recorder.startRecording(
+      activeTab,
+      name,
+      description,
+    );
+    console.log("🔴 [RECORDER] Recording started successfully:", recording.id);
+    return recording;
+  }
+
+  // Replay in the active tab (sidebar recordings list or /replay)
+  private async startReplay(options: ReplayOptions): Promise<HealedStep[]> {
+    const activeTab = this.mainWindow.activeTab;
+    if (!activeTab) {
+      throw new Error("No active tab");
+    }
+
+    // Set up status update callback
+    const statusCallback = (status: ReplayStatus): void => {
+      this.mainWindow.topBar.view.webContents.send(
+        "replayer-status-update",
+        status,
+      );
+    };
+
+    return this.replayer.startReplay(activeTab, options, statusCallback);
+  }
+
+  /**
+   * Ask for a dataset file and match its columns to the recording's
+   * placeholders
+   * @returns null if no file was chosen
+   * @throws Error if the recording doesn't exist or the file can't be read
+   */
+  private async openDataset(recordingId: string): Promise<{
+    fileName: string;
+    dataset: Dataset;
+    placeholders: string[];
+    uploads: string[]; // Placeholders every row needs a file path for
+    mapping: Record<string, string>;
+    parallel: boolean; // Whether rows can replay in several tabs at once
+  } | null> {
+    const recording = this.recordingStore.get(recordingId);
+    if (!recording) {
+      throw new Error(`Recording not found: ${recordingId}`);
+    }
+
+    const result = await dialog.showOpenDialog({
+      title: `Choose rows to replay "${recording.name}" with`,
+      properties: ["openFile"],
+      filters: [{ name: "Datasets", extensions: ["csv", "json"] }],
+    });
+    if (result.canceled || result.filePaths.length === 0) {
+      return null;
+    }
+
+    const [filePath] = result.filePaths;
+    const dataset = parseDataset(filePath, fs.readFileSync(filePath, "utf-8"));
+    const placeholders = contentPlaceholders(recording.actions);
+    return {
+      fileName: path.basename(filePath),
+      dataset,
+      placeholders,
+      uploads: uploadPlaceholders(recording.actions),
+      mapping: defaultColumnMapping(placeholders, dataset.columns),
+      parallel: !usesTabActions(recording.actions),
+    };
+  }
+
   private handleContentFormatterEvents(): void {
     // Format content
     ipcMain.handle(
@@ -617,6 +1055,130 @@ export class EventManager {
     });
   }
 
+  private handleSlashCommandEvents(): void {
+    ipcMain.handle("sidebar-list-commands", () => SLASH_COMMANDS);
+
+    ipcMain.handle(
+      "sidebar-run-command",
+      async (_, request: { input: string; messageId: string }) => {
+        const client = this.mainWindow.sidebar.client;
+        try {
+          const result = await this.runSlashCommand(
+            parseSlashCommand(request.input),
+            request,
+          );
+          if (result !== null) client.addCommandResult(request.input, result);
+          return { success: true };
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          client.addCommandResult(request.input, message);
+          return { success: false, error: message };
+        }
+      },
+    );
+  }
+
+  /**
+   * Route a slash command to the recorder, replayer, content formatter or
+   * model. Page commands become templated prompts that stream like a normal
+   * message.
+   * @returns Text to show as the command's result, or null if the chat was
+   * already updated (streamed reply, cleared thread)
+   */
+  private async runSlashCommand(
+    command: SlashCommand,
+    request: { input: string; messageId: string },
+  ): Promise<string | null> {
+    const client = this.mainWindow.sidebar.client;
+    const activeTab = this.mainWindow.activeTab;
+
+    switch (command.name) {
+      case "summarize": {
+        if (!activeTab) throw new Error("No active tab to summarize");
+        // Capped like the page tools' text, so long pages fit the prompt
+        const page = await readPageText(() => activeTab);
+        await client.sendChatMessage({
+          message: summarizePrompt(page),
+          messageId: request.messageId,
+          command: request.input,
+        });
+        return null;
+      }
+      case "translate": {
+        let text = command.text;
+        if (text === null) {
+          if (!activeTab) throw new Error("No text or active tab to translate");
+          text = (await readPageText(() => activeTab)).text;
+        }
+        await client.sendChatMessage({
+          message: translatePrompt(command.language, text),
+          messageId: request.messageId,
+          command: request.input,
+        });
+        return null;
+      }
+      case "record": {
+        if (command.action === "stop") {
+          const recording = await this.recorder.stopRecording();
+          return `Saved recording "${recording.name}" with ${recording.actions.length} actions.`;
+        }
+        const timestamp = new Date()
+          .toISOString()
+          .replace(/[:.]/g, "-")
+          .slice(0, 19);
+        const recording = await this.startRecording(
+          command.recordingName ?? `Recording-${timestamp}`,
+        );
+        return `Recording "${recording.name}" on ${recording.metadata?.targetSite}. Use \`/record stop\` when you're done.`;
+      }
+      case "replay": {
+        const recording = findRecording(
+          this.recorder.getAllRecordings(),
+          command.recordingName,
+        );
+        // There's no way to give content here; uploads would open a file
+        // dialog and fields would get the recorded text
+        const placeholders = contentPlaceholders(recording.actions);
+        if (placeholders.length > 0) {
+          throw new Error(
+            `"${recording.name}" needs content for ${placeholders.map((name) => `{{${name}}}`).join(", ")}. Replay it with a dataset from the recordings list (Batch).`,
+          );
+        }
+        const healedSteps = await this.startReplay({
+          recording,
+          content: {},
+          skipLogin: false,
+          speed: 1,
+        });
+        if (healedSteps.length > 0) {
+          return `Replayed "${recording.name}". ${healedSteps.length} step(s) needed a different selector: ${healedSteps.map((step) => step.selector).join(", ")}. Replay it from the recordings list to save the new selectors.`;
+        }
+        return `Replayed "${recording.name}" in the active tab.`;
+      }
+      case "format": {
+        if (!activeTab) throw new Error("No active tab to format");
+        const formatted = await this.contentFormatter.formatForWeChat(
+          await activeTab.getTabHtml(),
+        );
+        return formatted.body;
+      }
+      case "clear":
+        client.clearMessages();
+        return null;
+      case "model": {
+        const match = findModelByName(client.listProviders(), command.model);
+        if (!match) {
+          throw new Error(
+            `No configured model matches "${command.model}". Pick one from the model menu, or use provider/model.`,
+          );
+        }
+        const settings = client.setModelSettings(match);
+        return `Switched to ${settings.model} (${settings.provider}).`;
+      }
+    }
+  }
+
   private broadcastDarkMode(sender: WebContents, isDarkMode: boolean): void {
     // Send to topbar
     if (this.mainWindow.topBar.view.webContents !== sender) {
@@ -14,10 +14,25 @@
  * (ai@5.0.44) exports "MockLanguageModelV2". Tests use MockLanguageModelV2.
  */
 
-import { describe, test, expect, vi, beforeEach } from "vitest";
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
 import { WebContents } from "electron";
+import { APICallError } from "ai";
 import { MockLanguageModelV2 } from "ai/test";
+import * as fs from "fs";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
 import { LLMClient } from "./LLMClient";
+import { ConversationStore } from "./ConversationStore";
+import { ProviderRegistry } from "./ProviderRegistry";
+import { SettingsStore } from "./SettingsStore";
+import { UsageTracker } from "./UsageTracker";
+import { CircuitBreaker } from "./CircuitBreaker";
+import type { Tab } from "./Tab";
+
+// The store only touches electron for its default userData location
+vi.mock("electron", () => ({ app: { getPath: () => os.tmpdir() } }));
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -358,4 +373,832 @@ describe("LLMClient.sendChatMessage", () => {
 
     expect(result).toBe("Formatted title");
   });
+
+  // -------------------------------------------------------------------------
+  // Conversations persist across restarts and threads are independent
+  // -------------------------------------------------------------------------
+  test("messages persist to the conversation store and resume in a new client", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-conversations-"));
+    try {
+      const client = new LLMClient(webContents, {
+        conversationStore: new ConversationStore(dir),
+      });
+      injectModel(
+        client,
+        new MockLanguageModelV2({ doStream: textOnlyDoStream("Paris") }),
+      );
+
+      await client.sendChatMessage({
+        message: "Capital of France?",
+        messageId: "msg-001",
+      });
+
+      const restarted = new LLMClient(webContents, {
+        conversationStore: new ConversationStore(dir),
+      });
+      const conversation = restarted.getCurrentConversation();
+      expect(conversation.title).toBe("Capital of France?");
+      expect(conversation.messages.map((m) => [m.role, m.content])).toEqual([
+        ["user", "Capital of France?"],
+        ["assistant", "Paris"],
+      ]);
+      expect(conversation.messages[1].parentId).toBe(
+        conversation.messages[0].id,
+      );
+
+      // A new thread starts empty; switching back restores the old one
+      restarted.createConversation();
+      expect(restarted.getMessages()).toEqual([]);
+      expect(restarted.switchConversation(conversation.id)).toBe(true);
+      expect(restarted.getMessages()).toHaveLength(2);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("renaming a thread before its first message saves the new title", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-conversations-"));
+    try {
+      const store = new ConversationStore(dir);
+      const client = new LLMClient(webContents, { conversationStore: store });
+      const { id } = client.getCurrentConversation();
+
+      expect(client.renameConversation(id, " Trip plans ")).toBe(true);
+      expect(client.getCurrentConversation().title).toBe("Trip plans");
+      expect(store.get(id)?.title).toBe("Trip plans");
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  // -------------------------------------------------------------------------
+  // Runtime model switching keeps the conversation
+  // -------------------------------------------------------------------------
+  test("switching model mid-session keeps the conversation", async () => {
+    const client = new LLMClient(webContents, {
+      providerRegistry: new ProviderRegistry({ ANTHROPIC_API_KEY: "test" }),
+    });
+    injectModel(
+      client,
+      new MockLanguageModelV2({ doStream: textOnlyDoStream("Hi!") }),
+    );
+    await client.sendChatMessage({ message: "Hello", messageId: "msg-001" });
+
+    const settings = client.setModelSettings({
+      provider: "anthropic",
+      temperature: 5,
+    });
+
+    expect(settings).toEqual({
+      provider: "anthropic",
+      model: "claude-3-5-sonnet-20241022",
+      temperature: 2, // Clamped
+    });
+    expect(client.getMessages()).toHaveLength(2);
+    expect(() => client.setModelSettings({ provider: "google" })).toThrow(
+      /GOOGLE_GENERATIVE_AI_API_KEY/,
+    );
+  });
+});
+
+describe("LLMClient branching", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  function clientReplying(...replies: string[]): LLMClient {
+    const client = new LLMClient(createMockWebContents());
+    let call = 0;
+    injectModel(
+      client,
+      new MockLanguageModelV2({
+        doStream: () => textOnlyDoStream(replies[call++])(),
+      }),
+    );
+    return client;
+  }
+
+  test("regenerating a reply adds a sibling and keeps the original", async () => {
+    const client = clientReplying("First try", "Second try");
+    await client.sendChatMessage({ message: "Joke?", messageId: "s1" });
+    const original = client.getMessages()[1];
+
+    await client.regenerateMessage({ targetId: original.id, messageId: "s2" });
+
+    const [prompt, reply] = client.getMessages();
+    expect(prompt.content).toBe("Joke?");
+    expect(reply.content).toBe("Second try");
+    expect(reply.branch).toEqual({
+      index: 1,
+      count: 2,
+      siblingIds: [original.id, reply.id],
+    });
+
+    expect(client.switchBranch(original.id)).toBe(true);
+    expect(client.getMessages().map((m) => m.content)).toEqual([
+      "Joke?",
+      "First try",
+    ]);
+  });
+
+  test("editing a prompt branches from its parent and only sends that branch", async () => {
+    const client = clientReplying("A1", "A2", "A2 edited");
+    await client.sendChatMessage({ message: "Q1", messageId: "s1" });
+    await client.sendChatMessage({ message: "Q2", messageId: "s2" });
+    const q2 = client.getMessages()[2];
+
+    await client.editMessage({
+      targetId: q2.id,
+      message: "Q2 reworded",
+      messageId: "s3",
+    });
+
+    expect(client.getMessages().map((m) => m.content)).toEqual([
+      "Q1",
+      "A1",
+      "Q2 reworded",
+      "A2 edited",
+    ]);
+    const model = (client as unknown as { model: MockLanguageModelV2 }).model;
+    const lastPrompt = model.doStreamCalls.at(-1)?.prompt ?? [];
+    expect(JSON.stringify(lastPrompt)).not.toContain('"Q2"');
+
+    // Switching back to the original prompt restores its reply too
+    client.switchBranch(q2.id);
+    expect(client.getMessages().map((m) => m.content)).toEqual([
+      "Q1",
+      "A1",
+      "Q2",
+      "A2",
+    ]);
+  });
+});
+
+describe("LLMClient slash commands", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  test("keeps command results out of the model's context", async () => {
+    const client = new LLMClient(createMockWebContents());
+    const model = new MockLanguageModelV2({
+      doStream: textOnlyDoStream("Zusammenfassung"),
+    });
+    injectModel(client, model);
+
+    client.addCommandResult("/record start Login", 'Recording "Login"');
+    await client.sendChatMessage({
+      message: "Translate the following text into German.\n\nHello",
+      messageId: "m1",
+      command: "/translate German Hello",
+    });
+
+    const messages = client.getMessages();
+    expect(messages.map((m) => m.command)).toEqual([
+      { input: "/record start Login", local: true },
+      { input: "/record start Login", local: true },
+      { input: "/translate German Hello", local: false },
+      undefined,
+    ]);
+    expect(client.getCurrentConversation().title).toBe("/record start Login");
+    const prompt = JSON.stringify(model.doStreamCalls[0].prompt);
+    expect(prompt).toContain("into German");
+    expect(prompt).not.toContain("Recording");
+  });
+});
+
+describe("LLMClient profiles", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-profiles-"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("sends the active profile's instructions and tools", async () => {
+    const client = new LLMClient(createMockWebContents());
+    client.setActiveProfile("qa-tester");
+    const model = new MockLanguageModelV2({
+      doStream: textOnlyDoStream("Found 2 issues"),
+    });
+    injectModel(client, model);
+
+    await client.sendChatMessage({ message: "Test this", messageId: "m1" });
+    await client.getCompletion("Tidy this title");
+
+    const [chat, completion] = model.doStreamCalls;
+    expect(chat.prompt[0]).toMatchObject({
+      role: "system",
+      content: expect.stringContaining("QA tester"),
+    });
+    expect(chat.tools?.map((t) => t.name)).toEqual([
+      "readPageText",
+      "getPageOutline",
+      "takePageScreenshot",
+    ]);
+    expect(completion.prompt[0]).toMatchObject({ role: "system" });
+    expect(completion.temperature).toBe(0.2);
+  });
+
+  test("switching profile applies its model and survives a restart", () => {
+    const settingsPath = path.join(dir, "settings.json");
+    const deps = {
+      providerRegistry: new ProviderRegistry({ ANTHROPIC_API_KEY: "test" }),
+    };
+    const client = new LLMClient(createMockWebContents(), {
+      ...deps,
+      settingsStore: new SettingsStore(settingsPath),
+    });
+
+    const saved = client.saveProfile({
+      name: "Haiku writer",
+      systemPrompt: "Answer in haiku.",
+      model: { provider: "anthropic", model: "claude-3-5-haiku-20241022" },
+      temperature: 1.2,
+      enabledTools: [],
+    });
+    client.setActiveProfile(saved.id);
+
+    expect(client.getModelSettings()).toEqual({
+      provider: "anthropic",
+      model: "claude-3-5-haiku-20241022",
+      temperature: 1.2,
+    });
+
+    const restarted = new LLMClient(createMockWebContents(), {
+      ...deps,
+      settingsStore: new SettingsStore(settingsPath),
+    });
+    expect(restarted.getActiveProfile()).toEqual(saved);
+    expect(restarted.listProfiles().map((p) => p.name)).toContain(
+      "Haiku writer",
+    );
+
+    expect(restarted.deleteProfile(saved.id)).toBe(true);
+    expect(restarted.getActiveProfile().id).toBe("general");
+  });
+});
+
+describe("LLMClient usage tracking", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-usage-"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("prices each reply and one-off completion with the configured table", async () => {
+    const settingsStore = new SettingsStore(path.join(dir, "settings.json"));
+    settingsStore.update({
+      modelPrices: { "gpt-4o": { input: 1, output: 3 } },
+    });
+    const client = new LLMClient(createMockWebContents(), {
+      settingsStore,
+      providerRegistry: new ProviderRegistry({ OPENAI_API_KEY: "test" }),
+      usageTracker: new UsageTracker(path.join(dir, "usage.json")),
+    });
+    client.setModelSettings({ provider: "openai", model: "gpt-4o" });
+    injectModel(
+      client,
+      new MockLanguageModelV2({ doStream: textOnlyDoStream("Hi") }),
+    );
+
+    await client.sendChatMessage({ message: "Hello", messageId: "msg-001" });
+    await client.getCompletion("Format this");
+
+    // textOnlyDoStream reports 10 input and 10 output tokens
+    expect(client.getMessages().at(-1)?.usage).toEqual({
+      provider: "openai",
+      model: "gpt-4o",
+      inputTokens: 10,
+      outputTokens: 10,
+      totalTokens: 20,
+      cost: 0.00004,
+    });
+    const summary = client.getUsageSummary();
+    expect(summary?.conversation).toMatchObject({
+      requests: 1,
+      totalTokens: 20,
+    });
+    expect(summary?.today).toMatchObject({ requests: 2, totalTokens: 40 });
+    expect(summary?.today.cost).toBeCloseTo(0.00008);
+  });
+});
+
+describe("LLMClient context window", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  test("compacts older turns of a long chat and marks where", async () => {
+    const client = new LLMClient(createMockWebContents(), {
+      providerRegistry: new ProviderRegistry({
+        OPENAI_COMPATIBLE_BASE_URL: "http://127.0.0.1:1/v1",
+        OPENAI_COMPATIBLE_CONTEXT_WINDOW: "700",
+        OPENAI_COMPATIBLE_TOOL_CALLING: "false",
+      }),
+    });
+    client.setModelSettings({ provider: "openai-compatible" });
+    const replies = ["A1", "A2", "Summary of earlier turns", "A3"];
+    let call = 0;
+    const model = new MockLanguageModelV2({
+      doStream: () => textOnlyDoStream(replies[call++])(),
+    });
+    injectModel(client, model);
+
+    for (const letter of ["a", "b", "c"]) {
+      await client.sendChatMessage({
+        message: letter.repeat(700),
+        messageId: `msg-${letter}`,
+      });
+    }
+
+    const messages = client.getMessages();
+    expect(messages.map((m) => m.content).at(-1)).toBe("A3");
+    // The third prompt didn't fit with both earlier turns
+    expect(messages[3].compaction).toEqual({
+      summary: "Summary of earlier turns",
+      createdAt: expect.any(Number),
+    });
+    const lastPrompt = JSON.stringify(model.doStreamCalls.at(-1)?.prompt);
+    expect(lastPrompt).toContain("Summary of earlier turns");
+    expect(lastPrompt).not.toContain("a".repeat(700));
+    expect(lastPrompt).not.toContain("b".repeat(700));
+    expect(lastPrompt).toContain("c".repeat(700));
+  });
+});
+
+describe("LLMClient fallbacks", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-fallback-"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function failingModel(statusCode: number): MockLanguageModelV2 {
+    return new MockLanguageModelV2({
+      doStream: async () => {
+        throw new APICallError({
+          message: `HTTP ${statusCode}`,
+          url: "https://api.openai.com/v1/responses",
+          requestBodyValues: {},
+          statusCode,
+        });
+      },
+    });
+  }
+
+  // OpenAI is selected with an injected model; Anthropic is the fallback
+  function clientWithFallback(
+    primary: MockLanguageModelV2,
+    fallback: MockLanguageModelV2,
+    circuitBreaker = new CircuitBreaker(),
+  ): {
+    client: LLMClient;
+    webContents: ReturnType<typeof createMockWebContents>;
+  } {
+    const providerRegistry = new ProviderRegistry({
+      OPENAI_API_KEY: "test",
+      ANTHROPIC_API_KEY: "test",
+    });
+    const settingsStore = new SettingsStore(path.join(dir, "settings.json"));
+    settingsStore.update({
+      fallbackModels: [
+        { provider: "anthropic", model: "claude-3-5-haiku-20241022" },
+      ],
+    });
+    const webContents = createMockWebContents();
+    const client = new LLMClient(webContents, {
+      providerRegistry,
+      settingsStore,
+      circuitBreaker,
+      retryPolicy: { retries: 1, baseDelayMs: 0, maxDelayMs: 0 },
+    });
+    client.setModelSettings({ provider: "openai", model: "gpt-4o" });
+    injectModel(client, primary);
+    vi.spyOn(providerRegistry, "createModel").mockReturnValue(fallback);
+    return { client, webContents };
+  }
+
+  test("retries a rate-limited model, then answers with the fallback", async () => {
+    const primary = failingModel(429);
+    const fallback = new MockLanguageModelV2({
+      doStream: textOnlyDoStream("From Haiku"),
+    });
+    const { client } = clientWithFallback(primary, fallback);
+
+    await client.sendChatMessage({ message: "Hello", messageId: "m1" });
+
+    expect(primary.doStreamCalls).toHaveLength(2);
+    const reply = client.getMessages().at(-1);
+    expect(reply?.content).toBe("From Haiku");
+    expect(reply?.answeredBy).toEqual({
+      provider: "anthropic",
+      model: "claude-3-5-haiku-20241022",
+      fallback: true,
+    });
+    expect(reply?.usage?.provider).toBe("anthropic");
+  });
+
+  test("one-off completions retry and fall back the same way", async () => {
+    const primary = failingModel(503);
+    const fallback = new MockLanguageModelV2({
+      doStream: textOnlyDoStream("Formatted by Haiku"),
+    });
+    const { client } = clientWithFallback(primary, fallback);
+
+    await expect(client.getCompletion("Format this")).resolves.toBe(
+      "Formatted by Haiku",
+    );
+    expect(primary.doStreamCalls).toHaveLength(2);
+    expect(fallback.doStreamCalls).toHaveLength(1);
+  });
+
+  test("skips a provider whose circuit is open", async () => {
+    const primary = failingModel(503);
+    const fallback = new MockLanguageModelV2({
+      doStream: textOnlyDoStream("Fallback"),
+    });
+    const { client } = clientWithFallback(
+      primary,
+      fallback,
+      new CircuitBreaker({ failureThreshold: 2 }),
+    );
+
+    await client.sendChatMessage({ message: "One", messageId: "m1" });
+    await client.sendChatMessage({ message: "Two", messageId: "m2" });
+
+    // The second message goes straight to the fallback
+    expect(primary.doStreamCalls).toHaveLength(2);
+    expect(fallback.doStreamCalls).toHaveLength(2);
+  });
+
+  test("does not fall back on errors other models would repeat", async () => {
+    const primary = failingModel(401);
+    const fallback = new MockLanguageModelV2({
+      doStream: textOnlyDoStream("Fallback"),
+    });
+    const { client, webContents } = clientWithFallback(primary, fallback);
+
+    await client.sendChatMessage({ message: "Hello", messageId: "m1" });
+
+    expect(primary.doStreamCalls).toHaveLength(1);
+    expect(fallback.doStreamCalls).toHaveLength(0);
+    const last = webContents._sent
+      .filter((e) => e.channel === "chat-response")
+      .at(-1)?.args[0] as { content: string };
+    expect(last.content).toMatch(/Authentication error/);
+  });
+});
+
+describe("LLMClient with the mock provider", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  test("replays fixture replies and tool calls without a network", async () => {
+    const webContents = createMockWebContents();
+    const client = new LLMClient(webContents, {
+      providerRegistry: new ProviderRegistry({
+        MOCK_LLM_FIXTURES: path.join(
+          __dirname,
+          "../../tests/fixtures/mock-llm.json",
+        ),
+      }),
+    });
+    client.setModelSettings({ provider: "mock" });
+
+    await client.sendChatMessage({ message: "Hello there", messageId: "m1" });
+    await client.sendChatMessage({
+      message: "Summarize this page",
+      messageId: "m2",
+    });
+
+    const [, hello, , summary] = client.getMessages();
+    expect(hello.content).toMatch(/^Hello! This is the mock provider/);
+    // No tab is open, so the page tool reports that to the scripted answer
+    expect(summary.toolCalls).toMatchObject([
+      { toolName: "readPageText", status: "error" },
+    ]);
+    expect(summary.content).toContain("No active tab is open");
+    expect(summary.usage).toMatchObject({ provider: "mock", cost: 0 });
+    expect(await client.getCompletion("Format the following content")).toBe(
+      "Formatted by the mock provider.\n\nThe original content is unchanged in meaning.",
+    );
+  });
+});
+
+describe("LLMClient.cancelChat", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  test("stops a streaming response and keeps the partial text as cancelled", async () => {
+    const webContents = createMockWebContents();
+    const client = new LLMClient(webContents);
+    // Streams one delta, then hangs until the request is aborted
+    injectModel(
+      client,
+      new MockLanguageModelV2({
+        doStream: async ({ abortSignal }) => ({
+          stream: new ReadableStream({
+            start(controller) {
+              controller.enqueue({ type: "stream-start", warnings: [] });
+              controller.enqueue({ type: "text-start", id: "t1" });
+              controller.enqueue({
+                type: "text-delta",
+                id: "t1",
+                delta: "Partial answer",
+              });
+              abortSignal?.addEventListener("abort", () =>
+                controller.error(abortSignal.reason),
+              );
+            },
+          }),
+        }),
+      }),
+    );
+
+    const sending = client.sendChatMessage({
+      message: "Write a long essay",
+      messageId: "msg-001",
+    });
+    await vi.waitFor(() =>
+      expect(webContents._sent.some((e) => e.channel === "chat-response")).toBe(
+        true,
+      ),
+    );
+
+    expect(client.cancelChat("msg-001")).toBe(true);
+    await sending;
+
+    expect(client.getMessages().at(-1)).toMatchObject({
+      role: "assistant",
+      content: "Partial answer",
+      status: "cancelled",
+    });
+    expect(client.cancelChat("msg-001")).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible local servers (Ollama, llama.cpp, vLLM)
+// ---------------------------------------------------------------------------
+
+interface FakeServer {
+  baseURL: string;
+  requests: Array<Record<string, unknown>>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts a fake OpenAI chat completions server on localhost. Each request is
+ * answered with the next list of SSE chunks from `responses`.
+ */
+async function startFakeServer(
+  responses: Array<Array<Record<string, unknown>>>,
+): Promise<FakeServer> {
+  const requests: Array<Record<string, unknown>> = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push(JSON.parse(body));
+      const chunks = responses[requests.length - 1] ?? [];
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      for (const chunk of chunks) {
+        res.write(
+          `data: ${JSON.stringify({
+            id: "chatcmpl-1",
+            object: "chat.completion.chunk",
+            created: 0,
+            model: "llama3",
+            ...chunk,
+          })}\n\n`,
+        );
+      }
+      res.end("data: [DONE]\n\n");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseURL: `http://127.0.0.1:${port}/v1`,
+    requests,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+function localClient(
+  webContents: WebContents,
+  baseURL: string,
+  env: Record<string, string> = {},
+): LLMClient {
+  const client = new LLMClient(webContents, {
+    providerRegistry: new ProviderRegistry({
+      OPENAI_COMPATIBLE_BASE_URL: baseURL,
+      OPENAI_COMPATIBLE_MODELS: "llama3,qwen2.5",
+      ...env,
+    }),
+  });
+  client.setModelSettings({ provider: "openai-compatible" });
+  return client;
+}
+
+const textChunks = (text: string): Array<Record<string, unknown>> => [
+  { choices: [{ index: 0, delta: { role: "assistant", content: text } }] },
+  { choices: [{ index: 0, delta: {}, finish_reason: "stop" }] },
+];
+
+describe("LLMClient with an openai-compatible server", () => {
+  let webContents: ReturnType<typeof createMockWebContents>;
+  let server: FakeServer | null = null;
+
+  beforeEach(() => {
+    webContents = createMockWebContents();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  test("streams a tool call and the final answer end to end", async () => {
+    server = await startFakeServer([
+      [
+        {
+          choices: [
+            {
+              index: 0,
+              delta: {
+                role: "assistant",
+                tool_calls: [
+                  {
+                    index: 0,
+                    id: "call_1",
+                    type: "function",
+                    function: { name: "readPageText", arguments: "{}" },
+                  },
+                ],
+              },
+            },
+          ],
+        },
+        { choices: [{ index: 0, delta: {}, finish_reason: "tool_calls" }] },
+      ],
+      textChunks("The page says hello."),
+    ]);
+    const client = localClient(webContents, server.baseURL);
+    client.setActiveTab({
+      url: "https://example.com/",
+      title: "Example",
+      getTabText: vi.fn().mockResolvedValue("Hello from the page"),
+    } as unknown as Tab);
+
+    await client.sendChatMessage({
+      message: "What does the page say?",
+      messageId: "msg-001",
+    });
+
+    expect(client.getModelSettings().model).toBe("llama3");
+    const [first, second] = server.requests;
+    expect(first.model).toBe("llama3");
+    expect(first.stream).toBe(true);
+    const toolNames = (
+      first.tools as Array<{ function: { name: string } }>
+    ).map((t) => t.function.name);
+    expect(toolNames).toContain("readPageText");
+    // Vision is off by default for local models
+    expect(toolNames).not.toContain("takePageScreenshot");
+
+    // The tool result was sent back to the server
+    const toolMessage = (
+      second.messages as Array<{ role: string; content: string }>
+    ).find((m) => m.role === "tool");
+    expect(toolMessage?.content).toContain("Hello from the page");
+
+    const last = webContents._sent
+      .filter((e) => e.channel === "chat-response")
+      .at(-1)?.args[0] as { content: string; isComplete: boolean };
+    expect(last).toMatchObject({
+      content: "The page says hello.",
+      isComplete: true,
+    });
+  });
+
+  test("streams tool events and keeps tool results for follow-up turns", async () => {
+    server = await startFakeServer([
+      [
+        {
+          choices: [
+            {
+              index: 0,
+              delta: {
+                role: "assistant",
+                tool_calls: [
+                  {
+                    index: 0,
+                    id: "call_1",
+                    type: "function",
+                    function: { name: "readPageText", arguments: "{}" },
+                  },
+                ],
+              },
+            },
+          ],
+        },
+        { choices: [{ index: 0, delta: {}, finish_reason: "tool_calls" }] },
+      ],
+      textChunks("The page says hello."),
+      textChunks("It was a greeting."),
+    ]);
+    const client = localClient(webContents, server.baseURL);
+    client.setActiveTab({
+      url: "https://example.com/",
+      title: "Example",
+      getTabText: vi.fn().mockResolvedValue("Hello from the page"),
+    } as unknown as Tab);
+
+    await client.sendChatMessage({
+      message: "What does the page say?",
+      messageId: "msg-001",
+    });
+
+    const events = webContents._sent
+      .filter((e) => e.channel === "chat-tool-event")
+      .map((e) => e.args[0] as { messageId: string; event: { type: string } });
+    expect(events.every((e) => e.messageId === "msg-001")).toBe(true);
+    expect(events.map((e) => e.event.type)).toEqual([
+      "tool-call-start",
+      "tool-call",
+      "tool-result",
+    ]);
+
+    const reply = client.getMessages().at(-1);
+    expect(reply?.toolCalls).toEqual([
+      expect.objectContaining({
+        toolCallId: "call_1",
+        toolName: "readPageText",
+        status: "done",
+        output: expect.stringContaining("Hello from the page"),
+      }),
+    ]);
+    // The sidebar gets previews, not the model transcript
+    expect(reply).not.toHaveProperty("responseMessages");
+
+    await client.sendChatMessage({
+      message: "What kind of text was it?",
+      messageId: "msg-002",
+    });
+
+    const followUp = server.requests[2].messages as Array<{
+      role: string;
+      content: string;
+    }>;
+    expect(followUp.map((m) => m.role)).toEqual([
+      "system",
+      "user",
+      "assistant",
+      "tool",
+      "assistant",
+      "user",
+    ]);
+    expect(followUp[3].content).toContain("Hello from the page");
+  });
+
+  test("sends no tools when tool calling is turned off", async () => {
+    server = await startFakeServer([textChunks("Hi there")]);
+    const client = localClient(webContents, server.baseURL, {
+      OPENAI_COMPATIBLE_TOOL_CALLING: "false",
+    });
+
+    await client.sendChatMessage({ message: "Hello", messageId: "msg-001" });
+
+    expect(server.requests[0].tools).toBeUndefined();
+    expect(client.getMessages().at(-1)?.content).toBe("Hi there");
+  });
 });
@@ -5,38 +5,181 @@ import {
   jsonSchema,
   stepCountIs,
   type LanguageModel,
+  type LanguageModelUsage,
   type CoreMessage,
+  type ToolSet,
 } from "ai";
-import { openai } from "@ai-sdk/openai";
-import { anthropic } from "@ai-sdk/anthropic";
-import { google } from "@ai-sdk/google";
+import { v4 as uuidv4 } from "uuid";
 import * as dotenv from "dotenv";
 import { join } from "path";
 import { fetchPublicIp } from "./tools/ipLookup";
+import { createPageTools } from "./tools/pageTools";
+import {
+  createAgentTools,
+  type AgentBrowser,
+  type AgentStep,
+} from "./tools/agentTools";
 import { reportError, type ErrorReporterConfig } from "./tools/errorReporter";
+import type { Tab } from "./Tab";
+import type { ApprovalGate } from "./ApprovalGate";
+import {
+  DEFAULT_CONVERSATION_TITLE,
+  titleFromMessage,
+  type ConversationStore,
+} from "./ConversationStore";
+import {
+  ProviderRegistry,
+  isLLMProvider,
+  type LLMProvider,
+  type ProviderCapabilities,
+  type ProviderInfo,
+} from "./ProviderRegistry";
+import type {
+  AssistantProfile,
+  ModelSettings,
+  SettingsStore,
+} from "./SettingsStore";
+import {
+  DEFAULT_PROFILES,
+  normalizeProfile,
+  toolsForProfile,
+} from "./tools/profiles";
+import { activePath, deepestLeaf, withBranchInfo } from "./tools/messageTree";
+import {
+  applyToolEvent,
+  toolEventFromPart,
+  trimToolResults,
+} from "./tools/toolEvents";
+import { priceUsage } from "./tools/pricing";
+import { contextWindowFor, estimateTokens } from "./tools/contextWindow";
+import { ContextManager } from "./ContextManager";
+import { CircuitBreaker } from "./CircuitBreaker";
+import {
+  DEFAULT_RETRY_POLICY,
+  backoffDelay,
+  isRetryableError,
+  sleep,
+  type RetryPolicy,
+} from "./tools/retry";
+import type { UsageTracker } from "./UsageTracker";
+import type {
+  ChatMessage,
+  ChatMessageView,
+  ChatRole,
+  Conversation,
+  ConversationSummary,
+  ToolCallRecord,
+  ToolEvent,
+} from "./types/ChatTypes";
+import type { MessageUsage, UsageSummary } from "./types/UsageTypes";
 
 // Load environment variables from .env file
 dotenv.config({ path: join(__dirname, "../../.env") });
 
 interface ChatRequest {
   message: string;
+  messageId: string; // Identifies the response stream (chat-response events)
+  command?: string; // Slash command `message` was expanded from
+}
+
+interface EditRequest extends ChatRequest {
+  targetId: string; // User message being reworded
+}
+
+interface RegenerateRequest {
+  targetId: string; // Assistant reply to re-roll
   messageId: string;
 }
 
+interface CompletionOptions {
+  system?: string;
+  temperature: number;
+  signal?: AbortSignal;
+  conversationId?: string; // Thread the usage counts toward, if any
+}
+
+export interface ToolInfo {
+  name: string;
+  description: string;
+}
+
 interface StreamChunk {
   content: string;
   isComplete: boolean;
 }
 
-type LLMProvider = "openai" | "anthropic" | "google";
+interface LLMClientDeps {
+  conversationStore?: ConversationStore;
+  settingsStore?: SettingsStore;
+  providerRegistry?: ProviderRegistry;
+  usageTracker?: UsageTracker;
+  circuitBreaker?: CircuitBreaker;
+  retryPolicy?: RetryPolicy;
+}
 
-const DEFAULT_MODELS: Record<LLMProvider, string> = {
-  openai: "gpt-4o", // Try standard gpt-4o
-  anthropic: "claude-3-5-sonnet-20241022",
-  google: "gemini-2.5-flash",
-};
+// A model a reply can be sent to: the selected one or a fallback
+interface ModelCandidate {
+  provider: LLMProvider;
+  modelName: string;
+  model: LanguageModel;
+  fallback: boolean;
+}
+
+// Everything about a reply request that stays the same across attempts
+interface ReplyRequest {
+  system?: string;
+  messages: CoreMessage[];
+  tools: ToolSet;
+  maxSteps: number;
+  signal: AbortSignal;
+}
+
+// Text and tool calls streamed so far
+interface ReplyProgress {
+  fullText: string;
+  toolCalls: ToolCallRecord[];
+}
+
+// Which model answered and with what; answeredBy is null when every model
+// failed with an error worth retrying, the last of which is kept
+interface ModelsOutcome<T> {
+  answeredBy: ModelCandidate | null;
+  result?: T;
+  lastError: unknown;
+}
+
+// Empty when the stream was aborted
+interface ReplyOutcome {
+  responseMessages?: CoreMessage[];
+  usage?: LanguageModelUsage;
+}
 
 const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_CHAT_TEMPERATURE = 0.3; // Lower than default (0.7) to reduce variance on factual tool responses
+
+// Plain chat needs at most one tool round-trip; agent tasks chain many actions
+const CHAT_MAX_STEPS = 2;
+const AGENT_MAX_STEPS = 20;
+
+const AGENT_SYSTEM_PROMPT = `You are a browser agent operating the user's Blueberry Browser.
+Complete the user's task by calling the browser tools one step at a time.
+Read the page (readPageText, getPageOutline, readPageSelection) before acting so you use real selectors and link texts.
+After each action, check the result and adjust. Stop and ask the user when credentials, payments or other irreversible decisions are needed.
+When done, briefly report what you did.`;
+
+// Rough prompt cost of one tool's name, description and input schema
+const TOOL_DEFINITION_TOKENS = 150;
+
+// Tools whose results include images; only sent to vision-capable models
+const VISION_TOOLS = new Set(["takePageScreenshot"]);
+
+// Abort reason used when the user stops a response from the sidebar
+class ChatCancelledError extends Error {
+  constructor() {
+    super("Cancelled by user");
+    this.name = "ChatCancelledError";
+  }
+}
 
 const chatTools = {
   getMyIpAddress: tool({
@@ -49,10 +192,35 @@ const chatTools = {
 
 export class LLMClient {
   private readonly webContents: WebContents;
-  private readonly provider: LLMProvider;
-  private readonly modelName: string;
-  private readonly model: LanguageModel | null;
-  private messages: CoreMessage[] = [];
+  private readonly providerRegistry: ProviderRegistry;
+  private readonly settingsStore: SettingsStore | null;
+  private provider: LLMProvider;
+  private modelName: string;
+  private temperature: number;
+  private model: LanguageModel | null;
+  private readonly conversationStore: ConversationStore | null;
+  private readonly usageTracker: UsageTracker | null;
+  private readonly circuitBreaker: CircuitBreaker;
+  private readonly retryPolicy: RetryPolicy;
+  private conversation: Conversation;
+  private activeTab: Tab | null = null;
+  private browser: AgentBrowser | null = null;
+  private agentMode = false;
+  private approvalGate: ApprovalGate | null = null;
+  private activeRequests: Map<string, AbortController> = new Map();
+  // Summaries are written without the active profile's instructions
+  private readonly contextManager = new ContextManager((prompt, request) =>
+    this.runCompletion(prompt, {
+      temperature: DEFAULT_TEMPERATURE,
+      ...request,
+    }),
+  );
+  private profiles: AssistantProfile[];
+  private activeProfileId: string;
+  private readonly tools = {
+    ...chatTools,
+    ...createPageTools(() => this.activeTab),
+  };
   private readonly errorReporterConfig: ErrorReporterConfig = {
     endpoint:
       process.env.ERROR_REPORT_ENDPOINT ?? "http://localhost:4242/errors",
@@ -60,53 +228,65 @@ export class LLMClient {
     enabled: process.env.ERROR_REPORTING !== "false",
   };
 
-  constructor(webContents: WebContents) {
+  constructor(webContents: WebContents, deps: LLMClientDeps = {}) {
     this.webContents = webContents;
-    this.provider = this.getProvider();
-    this.modelName = this.getModelName();
+    this.conversationStore = deps.conversationStore ?? null;
+    this.settingsStore = deps.settingsStore ?? null;
+    this.providerRegistry = deps.providerRegistry ?? new ProviderRegistry();
+    this.usageTracker = deps.usageTracker ?? null;
+    this.circuitBreaker = deps.circuitBreaker ?? new CircuitBreaker();
+    this.retryPolicy = deps.retryPolicy ?? DEFAULT_RETRY_POLICY;
+    this.conversation = this.loadLatestConversation();
+
+    // Saved sidebar choice wins over .env
+    const saved = this.settingsStore?.get().model;
+    this.provider = saved?.provider ?? this.getProvider();
+    this.modelName = saved?.model ?? this.getModelName();
+    this.temperature = saved?.temperature ?? DEFAULT_CHAT_TEMPERATURE;
     this.model = this.initializeModel();
 
+    const settings = this.settingsStore?.get();
+    this.profiles = settings?.profiles?.length
+      ? settings.profiles
+      : DEFAULT_PROFILES;
+    this.activeProfileId = settings?.activeProfileId ?? this.profiles[0].id;
+
     this.logInitializationStatus();
   }
 
+  // Resume the most recently updated thread, or start an unsaved one
+  private loadLatestConversation(): Conversation {
+    const latest = this.conversationStore?.list()[0];
+    const conversation = latest && this.conversationStore?.get(latest.id);
+    return conversation || this.newConversation();
+  }
+
+  private newConversation(): Conversation {
+    const now = Date.now();
+    return {
+      id: uuidv4(),
+      title: DEFAULT_CONVERSATION_TITLE,
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+      currentLeafId: null,
+    };
+  }
+
   private getProvider(): LLMProvider {
     const provider = process.env.LLM_PROVIDER?.toLowerCase();
-    if (provider === "anthropic") return "anthropic";
-    if (provider === "google") return "google";
-    return "openai"; // Default to OpenAI
+    return isLLMProvider(provider) ? provider : "openai"; // Default to OpenAI
   }
 
   private getModelName(): string {
-    return process.env.LLM_MODEL || DEFAULT_MODELS[this.provider];
+    return (
+      process.env.LLM_MODEL ||
+      this.providerRegistry.get(this.provider).defaultModel
+    );
   }
 
   private initializeModel(): LanguageModel | null {
-    const apiKey = this.getApiKey();
-    if (!apiKey) return null;
-
-    switch (this.provider) {
-      case "anthropic":
-        return anthropic(this.modelName);
-      case "openai":
-        return openai(this.modelName);
-      case "google":
-        return google(this.modelName);
-      default:
-        return null;
-    }
-  }
-
-  private getApiKey(): string | undefined {
-    switch (this.provider) {
-      case "anthropic":
-        return process.env.ANTHROPIC_API_KEY;
-      case "openai":
-        return process.env.OPENAI_API_KEY;
-      case "google":
-        return process.env.GOOGLE_GENERATIVE_AI_API_KEY;
-      default:
-        return undefined;
-    }
+    return this.providerRegistry.createModel(this.provider, this.modelName);
   }
 
   private logInitializationStatus(): void {
@@ -115,12 +295,7 @@ export class LLMClient {
         `✅ LLM Client initialized with ${this.provider} provider using model: ${this.modelName}`,
       );
     } else {
-      const keyName =
-        this.provider === "anthropic"
-          ? "ANTHROPIC_API_KEY"
-          : this.provider === "google"
-            ? "GOOGLE_GENERATIVE_AI_API_KEY"
-            : "OPENAI_API_KEY";
+      const keyName = this.providerRegistry.get(this.provider).requiredEnvVar;
       console.error(
         `❌ LLM Client initialization failed: ${keyName} not found in environment variables.\n` +
           `Please add your API key to the .env file in the project root.`,
@@ -128,142 +303,649 @@ export class LLMClient {
     }
   }
 
+  listProviders(): ProviderInfo[] {
+    return this.providerRegistry.list();
+  }
+
+  getModelSettings(): ModelSettings {
+    return {
+      provider: this.provider,
+      model: this.modelName,
+      temperature: this.temperature,
+    };
+  }
+
+  /**
+   * Switch provider, model and/or temperature for the following messages.
+   * The current conversation is kept.
+   * @throws Error if the provider is unknown or its API key is missing
+   */
+  setModelSettings(changes: Partial<ModelSettings>): ModelSettings {
+    const provider = changes.provider ?? this.provider;
+    if (!isLLMProvider(provider)) {
+      throw new Error(`Unknown provider: ${provider}`);
+    }
+    const info = this.providerRegistry.get(provider);
+    if (!info.configured) {
+      throw new Error(
+        `${info.label} is not configured: set ${info.requiredEnvVar}`,
+      );
+    }
+
+    // Switching provider without a model picks that provider's default
+    const modelName =
+      changes.model ||
+      (provider === this.provider ? this.modelName : info.defaultModel);
+    const temperature = Math.min(
+      Math.max(changes.temperature ?? this.temperature, 0),
+      2,
+    );
+
+    this.model = this.providerRegistry.createModel(provider, modelName);
+    this.provider = provider;
+    this.modelName = modelName;
+    this.temperature = temperature;
+
+    const settings = this.getModelSettings();
+    this.settingsStore?.update({ model: settings });
+    this.logInitializationStatus();
+    return settings;
+  }
+
+  listProfiles(): AssistantProfile[] {
+    return this.profiles;
+  }
+
+  getActiveProfile(): AssistantProfile {
+    return (
+      this.profiles.find((p) => p.id === this.activeProfileId) ??
+      this.profiles[0]
+    );
+  }
+
+  /**
+   * Chat and page tools a profile can turn on or off
+   */
+  listTools(): ToolInfo[] {
+    return Object.entries(this.tools).map(([name, t]) => ({
+      name,
+      description: t.description ?? "",
+    }));
+  }
+
+  /**
+   * Make a profile active. Its model and temperature, if set, become the
+   * current model settings; a model whose provider isn't configured is
+   * skipped and the current one kept.
+   * @throws Error if the profile doesn't exist
+   */
+  setActiveProfile(id: string): AssistantProfile {
+    const profile = this.profiles.find((p) => p.id === id);
+    if (!profile) throw new Error(`Unknown profile: ${id}`);
+    this.activeProfileId = profile.id;
+    this.settingsStore?.update({ activeProfileId: profile.id });
+
+    const model =
+      profile.model &&
+      this.providerRegistry.get(profile.model.provider).configured
+        ? profile.model
+        : undefined;
+    if (profile.model && !model) {
+      console.warn(
+        `Profile "${profile.name}" uses ${profile.model.provider}, which is not configured; keeping ${this.modelName}`,
+      );
+    }
+    if (model) {
+      this.setModelSettings({
+        provider: model.provider,
+        model: model.model,
+        temperature: profile.temperature,
+      });
+    } else if (profile.temperature !== undefined) {
+      // Normalized profiles are already in range
+      this.temperature = profile.temperature;
+      this.settingsStore?.update({ model: this.getModelSettings() });
+    }
+    return profile;
+  }
+
+  /**
+   * Create or update a profile. Profiles without an ID are new.
+   */
+  saveProfile(changes: Partial<AssistantProfile>): AssistantProfile {
+    const profile = normalizeProfile(changes, Object.keys(this.tools));
+    const exists = this.profiles.some((p) => p.id === profile.id);
+    this.profiles = exists
+      ? this.profiles.map((p) => (p.id === profile.id ? profile : p))
+      : [...this.profiles, profile];
+    this.settingsStore?.update({ profiles: this.profiles });
+    return profile;
+  }
+
+  /**
+   * Delete a profile. Deleting the active one activates the first
+   * remaining profile; the last profile can't be deleted.
+   * @returns false if the profile doesn't exist or is the last one
+   */
+  deleteProfile(id: string): boolean {
+    if (this.profiles.length <= 1) return false;
+    if (!this.profiles.some((p) => p.id === id)) return false;
+    this.profiles = this.profiles.filter((p) => p.id !== id);
+    if (this.activeProfileId === id) {
+      this.activeProfileId = this.profiles[0].id;
+    }
+    this.settingsStore?.update({
+      profiles: this.profiles,
+      activeProfileId: this.activeProfileId,
+    });
+    return true;
+  }
+
   async sendChatMessage(request: ChatRequest): Promise<void> {
-    try {
-      const userMessage: CoreMessage = {
-        role: "user",
-        content: request.message,
-      };
+    // Replies land in the thread the message was sent from, even if the
+    // user switches threads while it streams
+    const conversation = this.conversation;
+    this.titleFromFirstMessage(
+      conversation,
+      request.command ?? request.message,
+    );
+    const userMessage = this.appendMessage(
+      conversation,
+      "user",
+      request.message,
+      conversation.currentLeafId,
+      request.command
+        ? { command: { input: request.command, local: false } }
+        : {},
+    );
+    await this.generateReply(conversation, userMessage, request.messageId);
+  }
+
+  /**
+   * Show a slash command the app handled itself, and its result, in the
+   * current thread. Neither is sent to the model.
+   */
+  addCommandResult(input: string, result: string): void {
+    const conversation = this.conversation;
+    this.titleFromFirstMessage(conversation, input);
+    const command = { input, local: true };
+    const userMessage = this.appendMessage(
+      conversation,
+      "user",
+      input,
+      conversation.currentLeafId,
+      { command },
+    );
+    this.appendMessage(conversation, "assistant", result, userMessage.id, {
+      command,
+    });
+  }
+
+  private titleFromFirstMessage(
+    conversation: Conversation,
+    content: string,
+  ): void {
+    if (
+      conversation.messages.length === 0 &&
+      conversation.title === DEFAULT_CONVERSATION_TITLE
+    ) {
+      conversation.title = titleFromMessage(content);
+    }
+  }
 
-      this.messages.push(userMessage);
-      this.sendMessagesToRenderer();
+  /**
+   * Reword a past user message. The new text becomes a sibling branch of
+   * the original, which is kept, and gets a fresh reply.
+   */
+  async editMessage(request: EditRequest): Promise<void> {
+    const conversation = this.conversation;
+    const target = conversation.messages.find(
+      (m) => m.id === request.targetId && m.role === "user",
+    );
+    if (!target) {
+      this.sendErrorMessage(
+        request.messageId,
+        "That message no longer exists.",
+      );
+      return;
+    }
+    const userMessage = this.appendMessage(
+      conversation,
+      "user",
+      request.message,
+      target.parentId,
+    );
+    await this.generateReply(conversation, userMessage, request.messageId);
+  }
+
+  /**
+   * Generate another reply to the same prompt as a sibling branch
+   */
+  async regenerateMessage(request: RegenerateRequest): Promise<void> {
+    const conversation = this.conversation;
+    const target = conversation.messages.find(
+      (m) => m.id === request.targetId && m.role === "assistant",
+    );
+    if (target?.command?.local) {
+      this.sendErrorMessage(
+        request.messageId,
+        "Command results can't be regenerated. Run the command again instead.",
+      );
+      return;
+    }
+    const prompt = conversation.messages.find((m) => m.id === target?.parentId);
+    if (!prompt) {
+      this.sendErrorMessage(
+        request.messageId,
+        "That message no longer exists.",
+      );
+      return;
+    }
+    conversation.currentLeafId = prompt.id;
+    this.saveConversation(conversation);
+    await this.generateReply(conversation, prompt, request.messageId);
+  }
 
+  /**
+   * Show the branch containing a message (e.g. a sibling reply)
+   * @returns false if the message isn't in the current thread
+   */
+  switchBranch(messageId: string): boolean {
+    const conversation = this.conversation;
+    if (!conversation.messages.some((m) => m.id === messageId)) return false;
+    conversation.currentLeafId = deepestLeaf(conversation.messages, messageId);
+    this.saveConversation(conversation);
+    return true;
+  }
+
+  // Add a message under `parentId` and make it the visible leaf
+  private appendMessage(
+    conversation: Conversation,
+    role: ChatRole,
+    content: string,
+    parentId: string | null,
+    extra: Pick<
+      ChatMessage,
+      | "status"
+      | "toolCalls"
+      | "responseMessages"
+      | "usage"
+      | "answeredBy"
+      | "command"
+    > = {},
+  ): ChatMessage {
+    const message: ChatMessage = {
+      id: uuidv4(),
+      parentId,
+      role,
+      content,
+      createdAt: Date.now(),
+      ...(extra.status && { status: extra.status }),
+      ...(extra.toolCalls && { toolCalls: extra.toolCalls }),
+      ...(extra.usage && { usage: extra.usage }),
+      ...(extra.answeredBy && { answeredBy: extra.answeredBy }),
+      ...(extra.command && { command: extra.command }),
+      ...(extra.responseMessages && {
+        responseMessages: extra.responseMessages,
+      }),
+    };
+    conversation.messages.push(message);
+    conversation.currentLeafId = message.id;
+    this.saveConversation(conversation);
+    return message;
+  }
+
+  // Stream a reply to `prompt`, using the branch that ends at it as context
+  private async generateReply(
+    conversation: Conversation,
+    prompt: ChatMessage,
+    streamId: string,
+  ): Promise<void> {
+    // Results of commands the app handled itself mean nothing to the model
+    const history = activePath({
+      ...conversation,
+      currentLeafId: prompt.id,
+    }).filter((m) => !m.command?.local);
+    // Price the reply with the model it was sent to, even if the user
+    // switches models while it streams
+    const { provider, modelName } = this;
+    const abortController = new AbortController();
+    this.activeRequests.set(streamId, abortController);
+    try {
       if (!this.model) {
         this.sendErrorMessage(
-          request.messageId,
+          streamId,
           "LLM service is not configured. Please add your API key to the .env file.",
         );
         return;
       }
 
-      const result = streamText({
-        model: this.model,
-        messages: this.messages,
-        tools: chatTools,
-        stopWhen: stepCountIs(2),
-        temperature: 0.3, // Lower than default (0.7) to reduce variance on factual tool responses
-      });
+      // Models without tool calling get plain chat, even in agent mode
+      const model = this.model;
+      const providerInfo = this.providerRegistry.get(provider);
+      const { capabilities } = providerInfo;
+      const agentBrowser =
+        this.agentMode && capabilities.toolCalling ? this.browser : null;
 
-      let fullText = "";
-      for await (const chunk of result.textStream) {
-        fullText += chunk;
-        this.sendStreamChunk(request.messageId, {
-          content: fullText,
-          isComplete: false,
+      const profile = this.getActiveProfile();
+      const profileTools = toolsForProfile(this.tools, profile);
+      let tools = agentBrowser
+        ? {
+            ...profileTools,
+            ...createAgentTools(agentBrowser, (step) =>
+              this.sendAgentStep(streamId, step),
+            ),
+          }
+        : profileTools;
+      if (agentBrowser && this.approvalGate) {
+        tools = this.approvalGate.guardTools(tools, {
+          messageId: streamId,
+          getActiveTab: () => agentBrowser.activeTab,
+          onDeny: (error) => abortController.abort(error),
         });
       }
 
-      if (!fullText) {
+      // Long branches are summarised to fit the model's context window
+      const modelTools = this.filterTools(tools, capabilities);
+      const systemPrompt = [
+        profile.systemPrompt,
+        agentBrowser ? AGENT_SYSTEM_PROMPT : "",
+      ]
+        .filter(Boolean)
+        .join("\n\n");
+      const context = await this.contextManager.prepare(
+        history,
+        {
+          provider,
+          contextWindow: contextWindowFor(
+            modelName,
+            providerInfo.contextWindow,
+          ),
+          reservedTokens:
+            estimateTokens(systemPrompt, provider) +
+            Object.keys(modelTools ?? {}).length * TOOL_DEFINITION_TOKENS,
+        },
+        { signal: abortController.signal, conversationId: conversation.id },
+      );
+      if (context.compaction) {
+        const { throughId, compaction } = context.compaction;
+        const through = conversation.messages.find((m) => m.id === throughId);
+        if (through) through.compaction = compaction;
+        this.saveConversation(conversation);
+      }
+      const system = [
+        systemPrompt,
+        context.summary &&
+          `Summary of earlier messages in this conversation:\n${context.summary}`,
+      ]
+        .filter(Boolean)
+        .join("\n\n");
+
+      const request: ReplyRequest = {
+        system: system || undefined,
+        messages: this.toModelMessages(context.messages),
+        tools,
+        maxSteps: agentBrowser ? AGENT_MAX_STEPS : CHAT_MAX_STEPS,
+        signal: abortController.signal,
+      };
+      const progress: ReplyProgress = { fullText: "", toolCalls: [] };
+      let answeredBy: ModelCandidate | null = null;
+      let outcome: ReplyOutcome = {};
+      let lastError: unknown = null;
+      try {
+        const tried = await this.tryModels(
+          { provider, modelName, model, fallback: false },
+          abortController.signal,
+          (candidate) =>
+            this.streamAttempt(candidate, request, progress, streamId),
+          // Once text or tool calls have streamed, starting over would
+          // repeat them
+          (error) =>
+            progress.fullText === "" &&
+            progress.toolCalls.length === 0 &&
+            isRetryableError(error),
+        );
+        answeredBy = tried.answeredBy;
+        outcome = tried.result ?? {};
+        lastError = tried.lastError;
+      } catch (error) {
+        // Stopping during a backoff wait or a stream ends the reply here
+        if (!abortController.signal.aborted) throw error;
+      }
+
+      const abortReason = abortController.signal.aborted
+        ? abortController.signal.reason
+        : null;
+      if (!answeredBy && !abortReason) {
+        if (lastError) throw lastError;
+        this.sendErrorMessage(
+          streamId,
+          "Every configured model is failing right now. Please try again in a minute.",
+        );
+        return;
+      }
+
+      let { fullText } = progress;
+      const { toolCalls } = progress;
+      const cancelled = abortReason instanceof ChatCancelledError;
+      if (abortReason && !cancelled) {
+        // The user declined an agent step; the stream was aborted there
+        const note = `Stopped: ${abortReason instanceof Error ? abortReason.message : "action declined"}`;
+        fullText = fullText ? `${fullText}\n\n${note}` : note;
+      } else if (!fullText && !cancelled) {
         // Check if a tool error caused the empty response
-        type ToolErrorPart = {
-          type: "tool-error";
-          toolName: string;
-          error: unknown;
-        };
-        const steps = await result.steps;
-        const toolErrorPart = steps
-          .flatMap((s) => s.content as ToolErrorPart[])
-          .find((c) => c.type === "tool-error");
-        if (toolErrorPart) {
-          const err = toolErrorPart.error;
-          const detail = err instanceof Error ? err.message : String(err);
-          fullText = `Tool error (${toolErrorPart.toolName}): ${detail}`;
-        } else {
-          fullText = "No response was returned. Please try again.";
-        }
+        const failed = toolCalls.find((c) => c.status === "error");
+        fullText = failed
+          ? `Tool error (${failed.toolName}): ${failed.error}`
+          : "No response was returned. Please try again.";
       }
 
-      this.sendStreamChunk(request.messageId, {
+      // Aborted streams don't report usage
+      const usage =
+        answeredBy && outcome.usage
+          ? this.recordUsage(
+              answeredBy.provider,
+              answeredBy.modelName,
+              outcome.usage,
+              conversation.id,
+            )
+          : undefined;
+
+      this.sendStreamChunk(streamId, {
         content: fullText,
         isComplete: true,
       });
 
-      this.messages.push({
-        role: "assistant",
-        content: fullText,
+      // Cancelled responses keep whatever text had streamed so far
+      this.appendMessage(conversation, "assistant", fullText, prompt.id, {
+        status: cancelled ? "cancelled" : undefined,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        responseMessages: outcome.responseMessages,
+        usage,
+        answeredBy: answeredBy
+          ? {
+              provider: answeredBy.provider,
+              model: answeredBy.modelName,
+              fallback: answeredBy.fallback,
+            }
+          : undefined,
       });
-      this.sendMessagesToRenderer();
     } catch (error) {
       console.error("Error in LLM request:", error);
-      this.handleStreamError(error, request.messageId);
+      this.handleStreamError(error, streamId);
+    } finally {
+      this.activeRequests.delete(streamId);
+    }
+  }
+
+  /**
+   * Try the selected model, then the configured fallbacks. Each gets
+   * retries with backoff; providers that keep failing are skipped until
+   * their circuit closes again.
+   * @param canRetry Whether a failed attempt may be retried or passed to
+   * the next model
+   * @throws the first error that can't be retried, or the signal's reason
+   * if it aborts during a backoff wait
+   */
+  private async tryModels<T>(
+    primary: ModelCandidate,
+    signal: AbortSignal | undefined,
+    attempt: (candidate: ModelCandidate) => Promise<T>,
+    canRetry: (error: unknown) => boolean = isRetryableError,
+  ): Promise<ModelsOutcome<T>> {
+    let lastError: unknown = null;
+    for (const candidate of this.modelCandidates(primary)) {
+      for (
+        let retry = 0;
+        retry <= this.retryPolicy.retries &&
+        this.circuitBreaker.canRequest(candidate.provider);
+        retry++
+      ) {
+        if (retry > 0) {
+          await sleep(backoffDelay(retry - 1, this.retryPolicy), signal);
+        }
+        try {
+          const result = await attempt(candidate);
+          this.circuitBreaker.recordSuccess(candidate.provider);
+          return { answeredBy: candidate, result, lastError };
+        } catch (error) {
+          if (!canRetry(error)) throw error;
+          lastError = error;
+          this.circuitBreaker.recordFailure(candidate.provider);
+          console.warn(
+            `⚠️ ${candidate.provider}/${candidate.modelName} failed (attempt ${retry + 1}):`,
+            error instanceof Error ? error.message : error,
+          );
+        }
+      }
+    }
+    return { answeredBy: null, lastError };
+  }
+
+  // The selected model followed by the configured fallbacks that can be
+  // built (provider configured, not a repeat)
+  private modelCandidates(primary: ModelCandidate): ModelCandidate[] {
+    const candidates = [primary];
+    for (const { provider, model: modelName } of this.settingsStore?.get()
+      .fallbackModels ?? []) {
+      if (!isLLMProvider(provider)) continue;
+      if (
+        candidates.some(
+          (c) => c.provider === provider && c.modelName === modelName,
+        )
+      ) {
+        continue;
+      }
+      const model = this.providerRegistry.createModel(provider, modelName);
+      if (model)
+        candidates.push({ provider, modelName, model, fallback: true });
     }
+    return candidates;
+  }
+
+  /**
+   * Stream one attempt at a reply, forwarding text and tool events to the
+   * sidebar as they arrive and collecting them in `progress`
+   * @throws the provider's error if the stream fails (not when aborted)
+   */
+  private async streamAttempt(
+    candidate: ModelCandidate,
+    request: ReplyRequest,
+    progress: ReplyProgress,
+    streamId: string,
+  ): Promise<ReplyOutcome> {
+    // Fallbacks may support fewer tools than the selected model
+    const { capabilities } = this.providerRegistry.get(candidate.provider);
+    const result = streamText({
+      model: candidate.model,
+      system: request.system,
+      messages: request.messages,
+      tools: this.filterTools(request.tools, capabilities),
+      stopWhen: stepCountIs(request.maxSteps),
+      temperature: this.temperature,
+      abortSignal: request.signal,
+      maxRetries: 0, // Retries and fallbacks are handled by tryModels
+    });
+
+    try {
+      for await (const part of result.fullStream) {
+        if (part.type === "text-delta") {
+          progress.fullText += part.text;
+          this.sendStreamChunk(streamId, {
+            content: progress.fullText,
+            isComplete: false,
+          });
+        } else if (part.type === "error") {
+          throw part.error;
+        } else {
+          const event = toolEventFromPart(part);
+          if (event) {
+            progress.toolCalls = applyToolEvent(progress.toolCalls, event);
+            this.sendToolEvent(streamId, event);
+          }
+        }
+      }
+    } catch (error) {
+      // Aborting (stop button, denied approval) can surface as a stream error
+      if (!request.signal.aborted) throw error;
+    }
+
+    // Aborted streams have no complete response or usage to keep
+    if (request.signal.aborted) return {};
+    return {
+      // Keep tool calls and results for follow-up turns
+      responseMessages:
+        progress.toolCalls.length > 0
+          ? trimToolResults((await result.response).messages)
+          : undefined,
+      usage: await result.totalUsage,
+    };
+  }
+
+  /**
+   * Stop an in-flight response. The partial text is kept in history and
+   * marked as cancelled.
+   * @returns false if no response with that ID is streaming
+   */
+  cancelChat(messageId: string): boolean {
+    const controller = this.activeRequests.get(messageId);
+    if (!controller) return false;
+    controller.abort(new ChatCancelledError());
+    return true;
   }
 
   /**
    * Get a completion without streaming or message history
-   * Useful for one-off requests like content formatting
+   * Useful for one-off requests like content formatting.
+   * Uses the active profile's instructions and temperature.
    */
   async getCompletion(prompt: string): Promise<string> {
+    const profile = this.getActiveProfile();
+    return this.runCompletion(prompt, {
+      system: profile.systemPrompt || undefined,
+      temperature: profile.temperature ?? DEFAULT_TEMPERATURE,
+    });
+  }
+
+  // A one-off completion, with the same retries and fallbacks as replies
+  private async runCompletion(
+    prompt: string,
+    options: CompletionOptions,
+  ): Promise<string> {
     if (!this.model) {
       throw new Error(
         "LLM service is not configured. Please add your API key to the .env file.",
       );
     }
 
+    const { provider, modelName, model } = this;
+    let tried: ModelsOutcome<{ text: string; usage: LanguageModelUsage }>;
     try {
-      console.log(
-        "🔵 [DEBUG getCompletion] Calling streamText with model:",
-        this.modelName,
-      );
-      const result = await streamText({
-        model: this.model,
-        messages: [
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        temperature: DEFAULT_TEMPERATURE,
-        maxRetries: 3,
-      });
-
-      console.log("🔵 [DEBUG getCompletion] streamText returned");
-
-      // Try to get response metadata
-      try {
-        const response = await result.response;
-        console.log("🔵 [DEBUG getCompletion] Response metadata:", {
-          id: response.id,
-          model: response.modelId,
-          timestamp: response.timestamp,
-        });
-      } catch (e) {
-        console.error(
-          "🔴 [DEBUG getCompletion] Error getting response metadata:",
-          e,
-        );
-      }
-
-      let fullText = "";
-      let chunkCount = 0;
-      for await (const chunk of result.textStream) {
-        chunkCount++;
-        fullText += chunk;
-        console.log(
-          "🔵 [DEBUG getCompletion] Chunk",
-          chunkCount,
-          "length:",
-          chunk.length,
-        );
-      }
-
-      console.log(
-        "🔵 [DEBUG getCompletion] Total chunks:",
-        chunkCount,
-        "Total length:",
-        fullText.length,
+      tried = await this.tryModels(
+        { provider, modelName, model, fallback: false },
+        options.signal,
+        (candidate) => this.completionAttempt(candidate, prompt, options),
       );
-      return fullText;
     } catch (error) {
       console.error("🔴 [DEBUG getCompletion] Error:", error);
       console.error(
@@ -272,24 +954,255 @@ export class LLMClient {
       );
       throw new Error(this.getErrorMessage(error));
     }
+
+    if (!tried.answeredBy || !tried.result) {
+      throw new Error(
+        tried.lastError
+          ? this.getErrorMessage(tried.lastError)
+          : "Every configured model is failing right now. Please try again in a minute.",
+      );
+    }
+    this.recordUsage(
+      tried.answeredBy.provider,
+      tried.answeredBy.modelName,
+      tried.result.usage,
+      options.conversationId ?? null,
+    );
+    return tried.result.text;
   }
 
+  /**
+   * Stream one attempt at a completion
+   * @throws the provider's error if the stream fails
+   */
+  private async completionAttempt(
+    candidate: ModelCandidate,
+    prompt: string,
+    options: CompletionOptions,
+  ): Promise<{ text: string; usage: LanguageModelUsage }> {
+    console.log(
+      "🔵 [DEBUG getCompletion] Calling streamText with model:",
+      candidate.modelName,
+    );
+    const result = streamText({
+      model: candidate.model,
+      system: options.system,
+      messages: [
+        {
+          role: "user",
+          content: prompt,
+        },
+      ],
+      temperature: options.temperature,
+      abortSignal: options.signal,
+      maxRetries: 0, // Retries and fallbacks are handled by tryModels
+    });
+
+    let fullText = "";
+    let chunkCount = 0;
+    for await (const part of result.fullStream) {
+      if (part.type === "text-delta") {
+        chunkCount++;
+        fullText += part.text;
+      } else if (part.type === "error") {
+        throw part.error;
+      }
+    }
+
+    console.log(
+      "🔵 [DEBUG getCompletion] Total chunks:",
+      chunkCount,
+      "Total length:",
+      fullText.length,
+    );
+    return { text: fullText, usage: await result.totalUsage };
+  }
+
+  /**
+   * Token and cost totals for the current thread, today, the last week and
+   * all time
+   * @returns null if usage isn't being tracked
+   */
+  getUsageSummary(): UsageSummary | null {
+    return this.usageTracker?.getSummary(this.conversation.id) ?? null;
+  }
+
+  // Price a model call and add it to the running totals
+  private recordUsage(
+    provider: LLMProvider,
+    modelName: string,
+    usage: LanguageModelUsage,
+    conversationId: string | null,
+  ): MessageUsage {
+    const priced = priceUsage(
+      provider,
+      modelName,
+      usage,
+      this.settingsStore?.get().modelPrices,
+    );
+    this.usageTracker?.record(priced, conversationId);
+    return priced;
+  }
+
+  /**
+   * Set the tab that page tools read from.
+   * Called by Window whenever the active tab changes.
+   */
+  setActiveTab(tab: Tab | null): void {
+    this.activeTab = tab;
+  }
+
+  /**
+   * Give the client control over the browser window (used by agent mode)
+   */
+  setBrowser(browser: AgentBrowser): void {
+    this.browser = browser;
+  }
+
+  /**
+   * Require user approval for risky agent actions (form submits, new
+   * origins, domains with saved sessions)
+   */
+  setApprovalGate(gate: ApprovalGate): void {
+    this.approvalGate = gate;
+  }
+
+  setAgentMode(enabled: boolean): void {
+    this.agentMode = enabled;
+  }
+
+  isAgentMode(): boolean {
+    return this.agentMode;
+  }
+
+  /**
+   * Remove all messages from the current thread
+   */
   clearMessages(): void {
-    this.messages = [];
-    this.sendMessagesToRenderer();
+    this.conversation.messages = [];
+    this.conversation.currentLeafId = null;
+    this.saveConversation(this.conversation);
+  }
+
+  /**
+   * Messages on the visible branch of the current thread, with sibling
+   * info for branch switching
+   */
+  getMessages(): ChatMessageView[] {
+    return withBranchInfo(this.conversation);
+  }
+
+  getCurrentConversation(): Conversation {
+    return this.conversation;
+  }
+
+  listConversations(): ConversationSummary[] {
+    return this.conversationStore?.list() ?? [];
   }
 
-  getMessages(): CoreMessage[] {
-    return this.messages;
+  searchConversations(query: string): ConversationSummary[] {
+    return this.conversationStore?.search(query) ?? [];
   }
 
-  private sendMessagesToRenderer(): void {
+  /**
+   * Start a new, empty thread and make it current.
+   * An already empty current thread is reused rather than piling up blanks.
+   */
+  createConversation(): Conversation {
+    if (this.conversation.messages.length > 0) {
+      this.conversation = this.conversationStore
+        ? this.conversationStore.create()
+        : this.newConversation();
+    }
+    this.sendConversationToRenderer();
+    return this.conversation;
+  }
+
+  /**
+   * Make a stored thread current
+   * @returns false if the thread doesn't exist
+   */
+  switchConversation(id: string): boolean {
+    const conversation = this.conversationStore?.get(id);
+    if (!conversation) return false;
+    this.conversation = conversation;
+    this.sendConversationToRenderer();
+    return true;
+  }
+
+  renameConversation(id: string, title: string): boolean {
+    // The current thread may not be in the store yet; saving it keeps the
+    // new title
+    if (id === this.conversation.id) {
+      this.conversation.title = title.trim() || DEFAULT_CONVERSATION_TITLE;
+      this.saveConversation(this.conversation);
+      return true;
+    }
+    if (!this.conversationStore?.rename(id, title)) return false;
+    this.sendConversationToRenderer();
+    return true;
+  }
+
+  /**
+   * Delete a thread. Deleting the current thread switches to the most
+   * recent remaining one (or a new one).
+   */
+  deleteConversation(id: string): boolean {
+    if (!this.conversationStore?.delete(id)) return false;
+    this.usageTracker?.forgetConversation(id);
+    if (id === this.conversation.id) {
+      this.conversation = this.loadLatestConversation();
+    }
+    this.sendConversationToRenderer();
+    return true;
+  }
+
+  private filterTools<TOOLS extends ToolSet>(
+    tools: TOOLS,
+    capabilities: ProviderCapabilities,
+  ): ToolSet | undefined {
+    if (!capabilities.toolCalling) return undefined;
+    if (capabilities.vision) return tools;
+    return Object.fromEntries(
+      Object.entries(tools).filter(([name]) => !VISION_TOOLS.has(name)),
+    );
+  }
+
+  // The model only needs roles and text (plus tool transcripts for replies
+  // that used tools); ids and timestamps stay local
+  private toModelMessages(messages: ChatMessage[]): CoreMessage[] {
+    return messages.flatMap(({ role, content, responseMessages }) =>
+      // Threads saved before results were trimmed may still hold them whole
+      responseMessages
+        ? trimToolResults(responseMessages)
+        : [{ role, content }],
+    );
+  }
+
+  private saveConversation(conversation: Conversation): void {
+    conversation.updatedAt = Date.now();
+    try {
+      this.conversationStore?.save(conversation);
+    } catch (error) {
+      console.error("Error saving conversation:", error);
+    }
+    if (conversation === this.conversation) {
+      this.sendConversationToRenderer();
+    }
+  }
+
+  private sendConversationToRenderer(): void {
+    const messages = this.getMessages();
     console.log(
       "📤 [LLM] Sending chat-messages-updated event with",
-      this.messages.length,
+      messages.length,
       "messages",
     );
-    this.webContents.send("chat-messages-updated", this.messages);
+    this.webContents.send("chat-messages-updated", messages);
+    this.webContents.send("chat-conversations-updated", {
+      currentId: this.conversation.id,
+      conversations: this.listConversations(),
+    });
   }
 
   private handleStreamError(error: unknown, messageId: string): void {
@@ -337,6 +1250,14 @@ export class LLMClient {
     });
   }
 
+  private sendToolEvent(messageId: string, event: ToolEvent): void {
+    this.webContents.send("chat-tool-event", { messageId, event });
+  }
+
+  private sendAgentStep(messageId: string, step: AgentStep): void {
+    this.webContents.send("chat-agent-step", { messageId, step });
+  }
+
   private sendStreamChunk(messageId: string, chunk: StreamChunk): void {
     this.webContents.send("chat-response", {
       messageId,
@@ -0,0 +1,474 @@
+import type { Tab } from "./Tab";
+import {
+  describeElementPath,
+  findElementSnippet,
+  type ElementPath,
+} from "./tools/elementPath";
+
+export type ScrollDirection = "up" | "down" | "top" | "bottom";
+
+// A file to put in an <input type=file>, read in the main process
+export interface UploadFile {
+  name: string;
+  mimeType: string;
+  base64: string;
+}
+
+// What a click or key press would do, checked before it runs
+export interface ActionEffect {
+  submitsForm: boolean;
+  navigatesTo: string | null; // Absolute http(s) URL of a link or form action
+}
+
+/**
+ * In-page execution of user-like actions (click, fill, key press, ...).
+ * Shared by the replayer and the chat agent tools so both drive pages the
+ * same way.
+ */
+export class PageActions {
+  /**
+   * Click the first element matching a CSS selector, or the element at a
+   * path through frames and shadow roots
+   * @throws Error if no element matches
+   */
+  public static async click(
+    tab: Tab,
+    target: string | ElementPath,
+  ): Promise<void> {
+    const script = `
+      (function() {
+        ${this.findElement(target)}
+        if (element) {
+          element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+          element.click();
+          return true;
+        }
+        throw new Error('Element not found: ' + ${JSON.stringify(this.describe(target))});
+      })();
+    `;
+    await tab.runJs(script);
+  }
+
+  /**
+   * Double-click an element: two clicks, then a dblclick event
+   * @throws Error if no element matches
+   */
+  public static async dblclick(
+    tab: Tab,
+    target: string | ElementPath,
+  ): Promise<void> {
+    const script = `
+      (function() {
+        ${this.findElement(target)}
+        if (!element) throw new Error('Element not found: ' + ${JSON.stringify(this.describe(target))});
+        element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        element.click();
+        element.click();
+        element.dispatchEvent(new MouseEvent('dblclick', {
+          bubbles: true, cancelable: true, composed: true, detail: 2
+        }));
+        return true;
+      })();
+    `;
+    await tab.runJs(script);
+  }
+
+  /**
+   * Right-click an element, which opens the page's own context menu if it
+   * has one
+   * @throws Error if no element matches
+   */
+  public static async rightClick(
+    tab: Tab,
+    target: string | ElementPath,
+  ): Promise<void> {
+    const script = `
+      (function() {
+        ${this.findElement(target)}
+        if (!element) throw new Error('Element not found: ' + ${JSON.stringify(this.describe(target))});
+        element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        const rect = element.getBoundingClientRect();
+        const init = {
+          bubbles: true, cancelable: true, composed: true, button: 2, buttons: 2,
+          clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2
+        };
+        element.dispatchEvent(new MouseEvent('mousedown', init));
+        element.dispatchEvent(new MouseEvent('mouseup', init));
+        element.dispatchEvent(new MouseEvent('contextmenu', init));
+        return true;
+      })();
+    `;
+    await tab.runJs(script);
+  }
+
+  /**
+   * Move the mouse over an element. Uses a real (native) mouse move, since
+   * CSS :hover ignores synthetic events.
+   * @throws Error if no element matches
+   */
+  public static async hover(
+    tab: Tab,
+    target: string | ElementPath,
+  ): Promise<void> {
+    const script = `
+      (function() {
+        ${this.findElement(target)}
+        if (!element) throw new Error('Element not found: ' + ${JSON.stringify(this.describe(target))});
+        element.scrollIntoView({ block: 'center' });
+        const rect = element.getBoundingClientRect();
+        let x = rect.left + rect.width / 2;
+        let y = rect.top + rect.height / 2;
+        // Offset by each frame the element is nested in
+        for (let win = element.ownerDocument.defaultView; win.frameElement; win = win.parent) {
+          const frame = win.frameElement;
+          const frameRect = frame.getBoundingClientRect();
+          x += frameRect.left + frame.clientLeft;
+          y += frameRect.top + frame.clientTop;
+        }
+        return { x: Math.round(x), y: Math.round(y) };
+      })();
+    `;
+    const { x, y } = (await tab.runJs(script)) as { x: number; y: number };
+    tab.webContents.sendInputEvent({ type: "mouseMove", x, y });
+  }
+
+  /**
+   * Check or uncheck a checkbox or radio button by clicking it if needed
+   * @throws Error if no element matches
+   */
+  public static async setChecked(
+    tab: Tab,
+    target: string | ElementPath,
+    checked: boolean,
+  ): Promise<void> {
+    const script = `
+      (function() {
+        ${this.findElement(target)}
+        if (!element) throw new Error('Element not found: ' + ${JSON.stringify(this.describe(target))});
+        element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        if (element.checked !== ${checked}) element.click();
+        return true;
+      })();
+    `;
+    await tab.runJs(script);
+  }
+
+  /**
+   * Drag one element onto another with HTML5 drag-and-drop events
+   * @throws Error if either element is missing
+   */
+  public static async dragTo(
+    tab: Tab,
+    source: string | ElementPath,
+    target: string | ElementPath,
+  ): Promise<void> {
+    const script = `
+      (function() {
+        const source = (function() {
+          ${this.findElement(source)}
+          return element;
+        })();
+        const target = (function() {
+          ${this.findElement(target)}
+          return element;
+        })();
+        if (!source) throw new Error('Drag source not found: ' + ${JSON.stringify(this.describe(source))});
+        if (!target) throw new Error('Drop target not found: ' + ${JSON.stringify(this.describe(target))});
+        const dataTransfer = new DataTransfer();
+        const fire = (element, type) => {
+          const rect = element.getBoundingClientRect();
+          return element.dispatchEvent(new DragEvent(type, {
+            bubbles: true, cancelable: true, composed: true, dataTransfer,
+            clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2
+          }));
+        };
+        source.scrollIntoView({ block: 'center' });
+        fire(source, 'dragstart');
+        fire(target, 'dragenter');
+        fire(target, 'dragover');
+        fire(target, 'drop');
+        fire(source, 'dragend');
+        return true;
+      })();
+    `;
+    await tab.runJs(script);
+  }
+
+  /**
+   * Put files in an <input type=file> and fire input + change events
+   * @throws Error if no element matches or it isn't a file input
+   */
+  public static async setInputFiles(
+    tab: Tab,
+    target: string | ElementPath,
+    files: UploadFile[],
+  ): Promise<void> {
+    const script = `
+      (function(files) {
+        ${this.findElement(target)}
+        if (!element || element.type !== 'file') {
+          throw new Error('File input not found: ' + ${JSON.stringify(this.describe(target))});
+        }
+        const dataTransfer = new DataTransfer();
+        for (const file of files) {
+          const bytes = Uint8Array.from(atob(file.base64), (c) => c.charCodeAt(0));
+          dataTransfer.items.add(new File([bytes], file.name, { type: file.mimeType }));
+        }
+        element.files = dataTransfer.files;
+        element.dispatchEvent(new Event('input', { bubbles: true }));
+        element.dispatchEvent(new Event('change', { bubbles: true }));
+        return true;
+      })(${JSON.stringify(files)});
+    `;
+    await tab.runJs(script);
+  }
+
+  /**
+   * Click the clickable element whose visible text matches `text`.
+   * Exact (case-insensitive) matches win over partial ones.
+   * @returns The text of the element that was clicked
+   * @throws Error if no clickable element has that text
+   */
+  public static async clickByText(tab: Tab, text: string): Promise<string> {
+    const script = `
+      (function() {
+        ${this.findByTextSnippet(text)}
+        if (!element) {
+          throw new Error('No clickable element with text: ' + ${JSON.stringify(text)});
+        }
+        element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        element.click();
+        return labelOf(element);
+      })();
+    `;
+    return (await tab.runJs(script)) as string;
+  }
+
+  /**
+   * Check what clicking a target (by selector or text), or pressing a key
+   * on the focused element, would do: submit a form, and/or load a URL
+   */
+  public static async inspectAction(
+    tab: Tab,
+    target: { selector?: string; text?: string; key?: string },
+  ): Promise<ActionEffect> {
+    const none: ActionEffect = { submitsForm: false, navigatesTo: null };
+    let findElement: string;
+    if (target.key !== undefined) {
+      // Enter in a form field submits it (see pressKey), and follows a
+      // focused link
+      if (target.key !== "Enter") return none;
+      findElement = `const element = document.activeElement;`;
+    } else if (target.selector) {
+      findElement = `const element = document.querySelector(${JSON.stringify(target.selector)});`;
+    } else if (target.text) {
+      findElement = this.findByTextSnippet(target.text);
+    } else {
+      return none;
+    }
+
+    const script = `
+      (function() {
+        ${findElement}
+        // Only web URLs count; javascript: and # links stay on the page
+        const web = (url) => /^https?:/i.test(url || '') ? url : null;
+        if (!element) return { submitsForm: false, navigatesTo: null };
+        const link = element.closest('a[href]');
+        if (${target.key !== undefined}) {
+          if (element.form) {
+            return { submitsForm: true, navigatesTo: web(element.form.action) };
+          }
+          return { submitsForm: false, navigatesTo: link ? web(link.href) : null };
+        }
+        const submitter = element.closest('button, input[type="submit"], input[type="image"]');
+        const submits = !!submitter && !!submitter.form &&
+          (submitter.tagName === 'INPUT' || (submitter.getAttribute('type') || 'submit') === 'submit');
+        if (submits) {
+          const action = submitter.hasAttribute('formaction')
+            ? submitter.formAction
+            : submitter.form.action;
+          return { submitsForm: true, navigatesTo: web(action) };
+        }
+        return { submitsForm: false, navigatesTo: link ? web(link.href) : null };
+      })();
+    `;
+    return (await tab.runJs(script)) as ActionEffect;
+  }
+
+  // In-page JS that declares `element` (the match for `target`, or null)
+  private static findElement(target: string | ElementPath): string {
+    return typeof target === "string"
+      ? `const element = document.querySelector(${JSON.stringify(target)});`
+      : findElementSnippet(target);
+  }
+
+  private static describe(target: string | ElementPath): string {
+    return typeof target === "string" ? target : describeElementPath(target);
+  }
+
+  // In-page JS that declares `element` (best visible clickable match for
+  // `text`, or undefined) and a `labelOf` helper
+  private static findByTextSnippet(text: string): string {
+    return `
+        const wanted = ${JSON.stringify(text)}.trim().toLowerCase();
+        const candidates = Array.from(document.querySelectorAll(
+          'a, button, [role="button"], [role="link"], [role="tab"], [role="menuitem"], input[type="submit"], input[type="button"], label, summary'
+        ));
+        const labelOf = (el) => (el.innerText || el.value || el.getAttribute('aria-label') || '').replace(/\\s+/g, ' ').trim();
+        const isVisible = (el) => {
+          const rect = el.getBoundingClientRect();
+          return rect.width > 0 && rect.height > 0;
+        };
+        const visible = candidates.filter(isVisible);
+        const element =
+          visible.find((el) => labelOf(el).toLowerCase() === wanted) ||
+          visible.find((el) => labelOf(el).toLowerCase().includes(wanted));`;
+  }
+
+  /**
+   * Set the value of an input/textarea and fire input + change events.
+   * Rich-text (contenteditable) editors get their content replaced through
+   * the editing commands they listen for.
+   * @throws Error if no element matches
+   */
+  public static async fill(
+    tab: Tab,
+    target: string | ElementPath,
+    value: string,
+  ): Promise<void> {
+    const script = `
+      (function() {
+        ${this.findElement(target)}
+        if (element) {
+          element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+          element.focus();
+          if (element.isContentEditable) {
+            const doc = element.ownerDocument;
+            doc.getSelection().selectAllChildren(element);
+            if (!doc.execCommand('insertText', false, ${JSON.stringify(value)})) {
+              element.innerText = ${JSON.stringify(value)};
+              element.dispatchEvent(new InputEvent('input', { bubbles: true }));
+            }
+            return true;
+          }
+          element.value = ${JSON.stringify(value)};
+          element.dispatchEvent(new Event('input', { bubbles: true }));
+          element.dispatchEvent(new Event('change', { bubbles: true }));
+          return true;
+        }
+        throw new Error('Input element not found: ' + ${JSON.stringify(this.describe(target))});
+      })();
+    `;
+    await tab.runJs(script);
+  }
+
+  /**
+   * Dispatch a key press on the focused element, including one inside a
+   * same-origin frame or open shadow root.
+   * Enter submits the surrounding form, since synthetic key events don't
+   * trigger default browser behavior.
+   * @throws Error if nothing is focused
+   */
+  public static async pressKey(tab: Tab, key: string): Promise<void> {
+    const keyLiteral = JSON.stringify(key);
+    const script = `
+      (function() {
+        // Focus inside a same-origin frame or shadow root shows up as the
+        // frame or host element; step down to the element itself
+        let activeElement = document.activeElement;
+        while (activeElement) {
+          const inner =
+            (activeElement.shadowRoot && activeElement.shadowRoot.activeElement) ||
+            (activeElement.contentDocument && activeElement.contentDocument.activeElement);
+          if (!inner || inner === activeElement) break;
+          activeElement = inner;
+        }
+        if (activeElement) {
+          // Dispatch keyboard events
+          for (const type of ['keydown', 'keypress', 'keyup']) {
+            activeElement.dispatchEvent(new KeyboardEvent(type, {
+              key: ${keyLiteral},
+              code: ${keyLiteral},
+              bubbles: true,
+              cancelable: true
+            }));
+          }
+
+          // For Enter key, try to submit the form
+          if (${keyLiteral} === 'Enter' && activeElement.form) {
+            activeElement.form.submit();
+          }
+
+          return true;
+        }
+        throw new Error('No active element for keypress');
+      })();
+    `;
+    await tab.runJs(script);
+  }
+
+  /**
+   * Scroll the page, or scroll an element into view when a selector is given
+   * @throws Error if the selector matches nothing
+   */
+  public static async scroll(
+    tab: Tab,
+    direction: ScrollDirection,
+    selector?: string,
+  ): Promise<void> {
+    const script = selector
+      ? `
+      (function() {
+        const element = document.querySelector(${JSON.stringify(selector)});
+        if (!element) throw new Error('Element not found: ' + ${JSON.stringify(selector)});
+        element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        return true;
+      })();
+    `
+      : `
+      (function() {
+        const step = window.innerHeight * 0.8;
+        const targets = {
+          up: window.scrollY - step,
+          down: window.scrollY + step,
+          top: 0,
+          bottom: document.documentElement.scrollHeight,
+        };
+        window.scrollTo({ top: targets[${JSON.stringify(direction)}], behavior: 'smooth' });
+        return true;
+      })();
+    `;
+    await tab.runJs(script);
+  }
+
+  /**
+   * Wait until an element matching the selector (or path) exists in the page
+   * @returns true if it appeared, false if the timeout elapsed first
+   */
+  public static async waitForSelector(
+    tab: Tab,
+    target: string | ElementPath,
+    timeoutMs: number,
+  ): Promise<boolean> {
+    const script = `
+      new Promise((resolve) => {
+        const start = Date.now();
+        const find = () => {
+          ${this.findElement(target)}
+          return element;
+        };
+        const check = () => {
+          if (find()) {
+            resolve(true);
+          } else if (Date.now() - start > ${timeoutMs}) {
+            resolve(false);
+          } else {
+            setTimeout(check, 100);
+          }
+        };
+        check();
+      });
+    `;
+    return (await tab.runJs(script)) as boolean;
+  }
+}
@@ -0,0 +1,291 @@
+import { describe, test, expect } from "vitest";
+import { PlaywrightGenerator } from "./PlaywrightGenerator";
+import { parseLocatorChain } from "./tools/elementPath";
+import { parseFallbacksComment } from "./tools/selectorHealing";
+import { parseAssertion } from "./tools/assertions";
+import { parsePageStep } from "./tools/navigation";
+import { unescapeLiteral } from "./tools/contentPlaceholders";
+import type { RecordedAction, ElementSelector } from "./types/RecorderTypes";
+
+const metadata = {
+  id: "rec-1",
+  name: "Editor",
+  createdAt: Date.UTC(2025, 0, 1),
+  targetSite: "https://example.com",
+};
+
+let nextId = 0;
+function action(
+  type: RecordedAction["type"],
+  selector?: ElementSelector,
+  value?: string,
+): RecordedAction {
+  return {
+    id: `a${++nextId}`,
+    type,
+    timestamp: 0,
+    url: "https://example.com",
+    selector,
+    value,
+  };
+}
+
+function body(actions: RecordedAction[]): string[] {
+  return PlaywrightGenerator.generate(metadata, actions)
+    .split("\n")
+    .filter((line) => line.startsWith("  await") && !line.includes("goto"))
+    .map((line) => line.trim());
+}
+
+describe("PlaywrightGenerator", () => {
+  test("uses page-level commands for top-level elements", () => {
+    expect(
+      body([
+        action("click", { id: "go", css: "#go", text: "Go" }),
+        action("input", { css: "input.q" }, "h"),
+        action("input", { css: "input.q" }, "hi"),
+      ]),
+    ).toEqual([
+      `await page.click('#go'); // "Go"`,
+      `await page.fill('input.q', 'hi');`,
+    ]);
+  });
+
+  test("uses locator chains for elements in frames and shadow roots", () => {
+    const inFrame = { css: "#name", framePath: ["iframe#form"] };
+    const inShadow = { css: "button", shadowHosts: ["x-app", "x-save"] };
+    const lines = body([
+      action("input", inFrame, "A"),
+      action("input", inFrame, "Ada"),
+      action("select", { css: "select", framePath: ["iframe#form"] }, "de"),
+      action("click", inShadow),
+    ]);
+
+    expect(lines).toEqual([
+      `await page.frameLocator('iframe#form').locator('#name').fill('Ada');`,
+      `await page.frameLocator('iframe#form').locator('select').selectOption('de');`,
+      `await page.locator('x-app').locator('x-save').locator('button').click();`,
+    ]);
+    expect(parseLocatorChain(lines[2])?.path).toEqual({
+      framePath: [],
+      shadowHosts: ["x-app", "x-save"],
+      query: { by: "css", selector: "button" },
+    });
+  });
+
+  test("prefers the best-ranked candidate", () => {
+    const email: ElementSelector = {
+      css: "div.form > input",
+      candidates: [
+        { strategy: "label", value: "Email", matches: 1, score: 85 },
+        { strategy: "css", value: "input.email", matches: 1, score: 40 },
+      ],
+    };
+    const save: ElementSelector = {
+      css: "button",
+      text: "Save",
+      candidates: [
+        {
+          strategy: "testId",
+          attribute: "data-testid",
+          value: "save",
+          matches: 1,
+          score: 100,
+        },
+      ],
+    };
+    const search: ElementSelector = {
+      css: "body > input",
+      candidates: [{ strategy: "id", value: "q", matches: 1, score: 70 }],
+    };
+
+    expect(
+      body([
+        action("input", email, "ada@example.com"),
+        action("click", save),
+        action("input", search, "kittens"),
+      ]),
+    ).toEqual([
+      `await page.getByLabel('Email', { exact: true }).fill('ada@example.com');`,
+      `await page.getByTestId('save').click(); // "Save"`,
+      `await page.fill('#q', 'kittens');`,
+    ]);
+  });
+
+  test("writes selector fallbacks above element steps", () => {
+    const script = PlaywrightGenerator.generate(metadata, [
+      action("click", {
+        css: "button",
+        text: "Save",
+        candidates: [
+          { strategy: "role", role: "button", value: "Save", matches: 1 },
+          { strategy: "css", value: "form > button", matches: 1 },
+        ],
+      }),
+    ]);
+    const lines = script.split("\n");
+    const index = lines.findIndex((line) => line.includes("getByRole"));
+    expect(parseFallbacksComment(lines[index - 1])).toEqual({
+      alternatives: [{ by: "css", selector: "form > button" }],
+      hints: { text: "Save" },
+    });
+  });
+
+  test("doesn't merge inputs in different frames", () => {
+    expect(
+      body([
+        action("input", { css: "#q", framePath: ["iframe.a"] }, "one"),
+        action("input", { css: "#q", framePath: ["iframe.b"] }, "two"),
+      ]),
+    ).toEqual([
+      `await page.frameLocator('iframe.a').locator('#q').fill('one');`,
+      `await page.frameLocator('iframe.b').locator('#q').fill('two');`,
+    ]);
+  });
+
+  test("writes secret placeholders instead of typed secrets", () => {
+    const secret = (): RecordedAction => ({
+      ...action("input", { css: "#password" }),
+      secret: "example.com/password",
+    });
+    expect(
+      body([action("input", { css: "#user" }, "ada"), secret(), secret()]),
+    ).toEqual([
+      `await page.fill('#user', 'ada');`,
+      `await page.fill('#password', '{{secret:example.com/password}}');`,
+    ]);
+  });
+
+  test("writes content placeholders for content fields", () => {
+    expect(
+      body([
+        {
+          ...action("input", { css: "#title" }, "Hello"),
+          isContentField: true,
+          contentPlaceholder: "article-title",
+        },
+        action("wait", undefined, "1500"),
+      ]),
+    ).toEqual([
+      `await page.fill('#title', '{{article-title}}');`,
+      `await page.waitForTimeout(1500);`,
+    ]);
+  });
+
+  test("keeps backslashes in typed text when the script runs", () => {
+    const typed = ["\\{{note}}", "{{note}}", "C:\\docs\\", "it\\'s"];
+    const lines = body(
+      typed.map((value, i) => action("input", { css: `#f${i}` }, value)),
+    );
+
+    // What the script's string literal evaluates to, then reads as on replay
+    const filled = lines.map((line) => {
+      const literal = line.match(/, ('(?:[^'\\]|\\.)*')\);$/)![1];
+      return unescapeLiteral(new Function(`return ${literal}`)() as string);
+    });
+    expect(filled).toEqual(typed);
+  });
+
+  test("escapes the recording's name and description", () => {
+    const script = PlaywrightGenerator.generate(
+      { ...metadata, name: "Bob's list", description: "line 1\nline 2" },
+      [],
+    );
+    expect(script).toContain(`// Description: line 1 line 2\n`);
+    expect(script).toContain(`test('Bob\\'s list', `);
+  });
+
+  test("writes assertions as expect() calls", () => {
+    const heading: ElementSelector = {
+      css: "h1",
+      candidates: [
+        { strategy: "role", role: "heading", value: "Welcome", matches: 1 },
+      ],
+    };
+    const lines = body([
+      action("input", { css: "#q" }, "ada"),
+      action("assert_value", { css: "#q" }, "ada"),
+      action("assert_visible", heading),
+      action("assert_text", heading, "Welcome"),
+      action("assert_url", {}, "https://example.com/home"),
+      action("assert_title", {}, "Ada's page"),
+    ]);
+    expect(lines).toEqual([
+      `await page.fill('#q', 'ada');`,
+      `await expect(page.locator('#q')).toHaveValue('ada');`,
+      `await expect(page.getByRole('heading', { name: 'Welcome', exact: true })).toBeVisible();`,
+      `await expect(page.getByRole('heading', { name: 'Welcome', exact: true })).toHaveText('Welcome');`,
+      `await expect(page).toHaveURL('https://example.com/home');`,
+      `await expect(page).toHaveTitle('Ada\\'s page');`,
+    ]);
+    expect(lines.slice(1).every((line) => parseAssertion(line))).toBe(true);
+  });
+
+  test("writes hover, double/right-click, checkbox, drag and upload steps", () => {
+    const card = { css: "li.card", framePath: ["iframe#board"] };
+    const upload: RecordedAction = {
+      ...action("upload", { css: "#avatar" }, JSON.stringify(["me.png"])),
+      isContentField: true,
+      contentPlaceholder: "avatar",
+    };
+    expect(
+      body([
+        action("hover", { css: "nav > .menu" }),
+        action("dblclick", { css: "td.name", text: "Ada" }),
+        action("rightclick", card),
+        action("check", { css: "#terms" }),
+        action("uncheck", { css: "#news" }),
+        action("drag", card, JSON.stringify({ css: "ul.done" })),
+        upload,
+      ]),
+    ).toEqual([
+      `await page.hover('nav > .menu');`,
+      `await page.dblclick('td.name'); // "Ada"`,
+      `await page.frameLocator('iframe#board').locator('li.card').click({ button: 'right' });`,
+      `await page.check('#terms');`,
+      `await page.uncheck('#news');`,
+      `await page.frameLocator('iframe#board').locator('li.card').dragTo(page.locator('ul.done'));`,
+      `await page.setInputFiles('#avatar', '{{avatar}}'); // Recorded with me.png`,
+    ]);
+  });
+
+  test("writes navigation and tab steps against each tab's page", () => {
+    const inTab = (tab: string, step: RecordedAction): RecordedAction => ({
+      ...step,
+      tab,
+    });
+    const docs = "https://example.com/docs";
+    const steps = PlaywrightGenerator.generate(metadata, [
+      inTab("page", action("click", { css: "a.docs" })),
+      inTab("page", { ...action("navigate", undefined, "wait"), url: docs }),
+      inTab("page", { ...action("click", { css: "a.share" }), url: docs }),
+      inTab("page", { ...action("popup", undefined, "page1"), url: docs }),
+      inTab("page1", { ...action("click", { css: "#copy" }), url: docs }),
+      inTab("page1", action("close_tab")),
+      inTab("page", action("navigate", undefined, "back")),
+      inTab("page", action("new_tab", undefined, "page2")),
+      inTab("page2", action("navigate", undefined, "goto")),
+      inTab("page", action("switch_tab")),
+    ])
+      .split("\n")
+      .filter((line) => line.startsWith("  ") && !line.trim().startsWith("//"))
+      .slice(1) // The starting URL
+      .map((line) => line.trim());
+    expect(steps).toEqual([
+      `await page.click('a.docs');`,
+      `await page.waitForURL('${docs}');`,
+      `const page1Promise = page.waitForEvent('popup');`,
+      `await page.click('a.share');`,
+      `const page1 = await page1Promise;`,
+      `await page1.click('#copy');`,
+      `await page1.close();`,
+      `await page.goBack();`,
+      `const page2 = await page.context().newPage();`,
+      `await page2.goto('https://example.com');`,
+      `await page.bringToFront();`,
+    ]);
+    expect(
+      steps.filter((line) => !line.includes(".click(")).every(parsePageStep),
+    ).toBe(true);
+  });
+});
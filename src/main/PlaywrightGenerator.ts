@@ -1,4 +1,18 @@
 import type { RecordedAction, ElementSelector } from "./types/RecorderTypes";
+import { isNested, locatorChain } from "./tools/elementPath";
+import { preferredQuery, selectorPath } from "./tools/selectorEngine";
+import { formatFallbacksComment } from "./tools/selectorHealing";
+import {
+  escapeLiteral,
+  formatContentPlaceholder,
+} from "./tools/contentPlaceholders";
+import {
+  assertionStatement,
+  isPageAssertion,
+  type AssertionType,
+} from "./tools/assertions";
+import { pageStepStatement } from "./tools/navigation";
+import { formatSecretPlaceholder } from "./tools/secrets";
 
 export interface PlaywrightScriptMetadata {
   id: string;
@@ -24,12 +38,14 @@ export class PlaywrightGenerator {
     lines.push(`// Recording ID: ${metadata.id}`);
     lines.push(`// Created: ${new Date(metadata.createdAt).toISOString()}`);
     if (metadata.description) {
-      lines.push(`// Description: ${metadata.description}`);
+      lines.push(`// Description: ${this.commentText(metadata.description)}`);
     }
     lines.push("");
 
     // Test function
-    lines.push(`test('${metadata.name}', async ({ page }) => {`);
+    lines.push(
+      `test('${this.escapeValue(metadata.name)}', async ({ page }) => {`,
+    );
 
     // Navigate to starting URL
     if (metadata.targetSite) {
@@ -38,68 +54,69 @@ export class PlaywrightGenerator {
       lines.push("");
     }
 
-    // Process actions
-    let lastUrl = metadata.targetSite;
+    // Process actions. Each tab has its own page variable and URL.
+    const lastUrls = new Map([["page", metadata.targetSite]]);
     const consolidatedInputs: Map<string, string> = new Map();
     let lastInputSelector: string | null = null;
+    let lastInputAction: RecordedAction | undefined;
+    // Where each page's latest step starts in `lines`, so a popup can be
+    // waited for from before the step that opened it
+    const lastStepStarts: Map<string, number> = new Map();
+
+    // Write out any pending input first
+    const flushInput = (): void => {
+      if (lastInputSelector && consolidatedInputs.has(lastInputSelector)) {
+        const value = consolidatedInputs.get(lastInputSelector)!;
+        lines.push(this.generateInputCommand(lastInputAction!, value));
+        consolidatedInputs.clear();
+        lastInputSelector = null;
+      }
+    };
 
     for (let i = 0; i < actions.length; i++) {
       const action = actions[i];
       const nextAction = i < actions.length - 1 ? actions[i + 1] : null;
-
-      // Detect URL changes
-      if (action.url !== lastUrl) {
+      const page = this.pageOf(action);
+      const stepStart = lines.length;
+
+      // Detect URL changes that weren't recorded as steps
+      if (
+        action.url !== lastUrls.get(page) &&
+        !this.isTabAction(action) &&
+        action.type !== "navigate"
+      ) {
         lines.push(`  // Page navigated to: ${action.url}`);
-        lastUrl = action.url;
       }
+      lastUrls.set(page, action.url);
 
       switch (action.type) {
         case "click":
-          // Flush any pending input first
-          if (lastInputSelector && consolidatedInputs.has(lastInputSelector)) {
-            const value = consolidatedInputs.get(lastInputSelector)!;
-            lines.push(
-              this.generateInputCommand(
-                lastInputSelector,
-                value,
-                action.selector,
-              ),
-            );
-            consolidatedInputs.clear();
-            lastInputSelector = null;
-          }
+          flushInput();
 
           lines.push(this.generateClickCommand(action));
           break;
 
         case "input": {
           // Consolidate multiple input events into one
-          const inputSelector = this.getSelectorString(action.selector);
+          const inputSelector = this.getInputKey(action);
           if (inputSelector !== lastInputSelector && lastInputSelector) {
             // Different input field - flush the previous one
             const prevValue = consolidatedInputs.get(lastInputSelector)!;
-            lines.push(
-              this.generateInputCommand(
-                lastInputSelector,
-                prevValue,
-                action.selector,
-              ),
-            );
+            lines.push(this.generateInputCommand(lastInputAction!, prevValue));
             consolidatedInputs.clear();
           }
           lastInputSelector = inputSelector;
+          lastInputAction = action;
           consolidatedInputs.set(inputSelector, action.value || "");
 
           // If next action is not an input on the same field, flush now
           if (
             !nextAction ||
             nextAction.type !== "input" ||
-            this.getSelectorString(nextAction.selector) !== inputSelector
+            this.getInputKey(nextAction) !== inputSelector
           ) {
             const value = consolidatedInputs.get(inputSelector)!;
-            lines.push(
-              this.generateInputCommand(inputSelector, value, action.selector),
-            );
+            lines.push(this.generateInputCommand(action, value));
             consolidatedInputs.clear();
             lastInputSelector = null;
           }
@@ -107,19 +124,7 @@ export class PlaywrightGenerator {
         }
 
         case "keypress":
-          // Flush any pending input first
-          if (lastInputSelector && consolidatedInputs.has(lastInputSelector)) {
-            const value = consolidatedInputs.get(lastInputSelector)!;
-            lines.push(
-              this.generateInputCommand(
-                lastInputSelector,
-                value,
-                action.selector,
-              ),
-            );
-            consolidatedInputs.clear();
-            lastInputSelector = null;
-          }
+          flushInput();
 
           lines.push(this.generateKeypressCommand(action));
           break;
@@ -128,20 +133,94 @@ export class PlaywrightGenerator {
           lines.push(this.generateSelectCommand(action));
           break;
 
+        case "dblclick":
+        case "rightclick":
+        case "hover":
+        case "check":
+        case "uncheck":
+          flushInput();
+          lines.push(this.generatePointerCommand(action));
+          break;
+
+        case "drag":
+          flushInput();
+          lines.push(this.generateDragCommand(action));
+          break;
+
+        case "upload":
+          flushInput();
+          lines.push(this.generateUploadCommand(action));
+          break;
+
+        case "assert_visible":
+        case "assert_text":
+        case "assert_value":
+        case "assert_url":
+        case "assert_title":
+          flushInput();
+
+          lines.push(this.generateAssertion(action.type, action));
+          break;
+
         case "scroll":
           lines.push(this.generateScrollCommand(action));
           break;
 
+        case "navigate":
+          flushInput();
+          lines.push(this.generateNavigationCommand(action));
+          break;
+
+        case "popup": {
+          flushInput();
+          // The popup has to be waited for from before the step that opens it
+          const at = lastStepStarts.get(page) ?? lines.length;
+          lines.splice(
+            at,
+            0,
+            `  ${pageStepStatement({ kind: "waitForPopup", page, popup: action.value || "" })}`,
+          );
+          lastStepStarts.forEach((start, p) => {
+            if (start >= at) lastStepStarts.set(p, start + 1);
+          });
+          lines.push(
+            `  ${pageStepStatement({ kind: "popup", popup: action.value || "" })}`,
+          );
+          lastUrls.set(action.value || "", action.url);
+          break;
+        }
+
+        case "new_tab":
+          flushInput();
+          lines.push(
+            `  ${pageStepStatement({ kind: "newPage", page: action.value || "" })}`,
+          );
+          break;
+
+        case "switch_tab":
+          flushInput();
+          lines.push(`  ${pageStepStatement({ kind: "bringToFront", page })}`);
+          break;
+
+        case "close_tab":
+          flushInput();
+          lines.push(`  ${pageStepStatement({ kind: "close", page })}`);
+          break;
+
         case "manual_step":
           lines.push(this.generateManualStepComment(action));
           break;
 
         case "wait": {
           const waitMs = parseInt(action.value || "1000");
-          lines.push(`  await page.waitForTimeout(${waitMs});`);
+          lines.push(`  await ${page}.waitForTimeout(${waitMs});`);
           break;
         }
       }
+
+      if (lines.length > stepStart && !this.isTabAction(action)) {
+        lastStepStarts.set(page, stepStart);
+      }
     }
 
     // Close test function
@@ -151,84 +230,255 @@ export class PlaywrightGenerator {
   }
 
   private static generateClickCommand(action: RecordedAction): string {
-    const selector = this.getPreferredSelector(action.selector);
+    const page = this.pageOf(action);
     const comment = action.selector?.text
-      ? ` // "${action.selector.text}"`
+      ? ` // "${this.commentText(action.selector.text)}"`
       : "";
-    return `  await page.click('${this.escapeSelector(selector)}');${comment}`;
+    if (this.usesLocator(action.selector)) {
+      return this.withFallbacks(
+        action.selector,
+        `  await ${this.getLocator(action.selector, page)}.click();${comment}`,
+      );
+    }
+    const selector = this.getCssSelector(action.selector);
+    return this.withFallbacks(
+      action.selector,
+      `  await ${page}.click('${this.escapeSelector(selector)}');${comment}`,
+    );
   }
 
   private static generateInputCommand(
-    selectorStr: string,
+    action: RecordedAction,
     value: string,
-    selectorObj: ElementSelector | undefined,
   ): string {
-    const comment = selectorObj?.text ? ` // "${selectorObj.text}"` : "";
-    return `  await page.fill('${this.escapeSelector(selectorStr)}', '${this.escapeValue(value)}');${comment}`;
+    const page = this.pageOf(action);
+    const selectorObj = action.selector;
+    // Typed secrets are filled from the vault at replay time, content
+    // fields from the replay content
+    if (action.secret) {
+      value = formatSecretPlaceholder(action.secret);
+    } else if (action.isContentField && action.contentPlaceholder) {
+      value = formatContentPlaceholder(action.contentPlaceholder);
+    } else {
+      value = escapeLiteral(value);
+    }
+    const comment = selectorObj?.text
+      ? ` // "${this.commentText(selectorObj.text)}"`
+      : "";
+    if (this.usesLocator(selectorObj)) {
+      return this.withFallbacks(
+        selectorObj,
+        `  await ${this.getLocator(selectorObj, page)}.fill('${this.escapeValue(value)}');${comment}`,
+      );
+    }
+    const selectorStr = this.getCssSelector(selectorObj);
+    return this.withFallbacks(
+      selectorObj,
+      `  await ${page}.fill('${this.escapeSelector(selectorStr)}', '${this.escapeValue(value)}');${comment}`,
+    );
   }
 
   private static generateKeypressCommand(action: RecordedAction): string {
+    const page = this.pageOf(action);
     try {
       const keyInfo = JSON.parse(action.value || "{}");
       const key = keyInfo.key || "Enter";
 
       // For Enter key, add a comment about potential form submission
       if (key === "Enter") {
-        return `  await page.keyboard.press('${key}'); // May trigger form submission`;
+        return `  await ${page}.keyboard.press('${key}'); // May trigger form submission`;
       }
 
-      return `  await page.keyboard.press('${key}');`;
+      return `  await ${page}.keyboard.press('${key}');`;
     } catch {
-      return `  await page.keyboard.press('Enter');`;
+      return `  await ${page}.keyboard.press('Enter');`;
     }
   }
 
   private static generateSelectCommand(action: RecordedAction): string {
-    const selector = this.getPreferredSelector(action.selector);
+    const page = this.pageOf(action);
     const value = action.value || "";
-    return `  await page.selectOption('${this.escapeSelector(selector)}', '${this.escapeValue(value)}');`;
+    if (this.usesLocator(action.selector)) {
+      return this.withFallbacks(
+        action.selector,
+        `  await ${this.getLocator(action.selector, page)}.selectOption('${this.escapeValue(value)}');`,
+      );
+    }
+    const selector = this.getCssSelector(action.selector);
+    return this.withFallbacks(
+      action.selector,
+      `  await ${page}.selectOption('${this.escapeSelector(selector)}', '${this.escapeValue(value)}');`,
+    );
+  }
+
+  private static generateAssertion(
+    type: AssertionType,
+    action: RecordedAction,
+  ): string {
+    const path = isPageAssertion(type) ? null : selectorPath(action.selector);
+    return `  ${assertionStatement(type, path, action.value || "", this.pageOf(action))}`;
+  }
+
+  /**
+   * goto for the address bar, waitForURL for navigations a step caused, or
+   * the history call
+   */
+  private static generateNavigationCommand(action: RecordedAction): string {
+    const page = this.pageOf(action);
+    switch (action.value) {
+      case "back":
+      case "forward":
+      case "reload":
+        return `  ${pageStepStatement({ kind: action.value, page })}`;
+      case "wait":
+        return `  ${pageStepStatement({ kind: "wait", page, url: action.url })}`;
+      default:
+        return `  ${pageStepStatement({ kind: "goto", page, url: action.url })}`;
+    }
+  }
+
+  private static generatePointerCommand(action: RecordedAction): string {
+    const comment = action.selector?.text
+      ? ` // "${this.commentText(action.selector.text)}"`
+      : "";
+    if (action.type === "rightclick") {
+      return this.generateElementCommand(
+        action,
+        "click",
+        ["{ button: 'right' }"],
+        comment,
+      );
+    }
+    return this.generateElementCommand(action, action.type, [], comment);
+  }
+
+  private static generateDragCommand(action: RecordedAction): string {
+    const page = this.pageOf(action);
+    let target: ElementSelector | undefined;
+    try {
+      target = JSON.parse(action.value || "{}");
+    } catch {
+      target = undefined;
+    }
+    return this.withFallbacks(
+      action.selector,
+      `  await ${this.getLocator(action.selector, page)}.dragTo(${this.getLocator(target, page)});`,
+    );
+  }
+
+  /**
+   * Uploads become a `{{name}}` placeholder for the file, chosen when the
+   * recording is replayed
+   */
+  private static generateUploadCommand(action: RecordedAction): string {
+    let names: string[] = [];
+    try {
+      names = JSON.parse(action.value || "[]");
+    } catch {
+      names = [];
+    }
+    const placeholder = formatContentPlaceholder(
+      action.contentPlaceholder || "file",
+    );
+    const comment = names.length ? ` // Recorded with ${names.join(", ")}` : "";
+    return this.generateElementCommand(
+      action,
+      "setInputFiles",
+      [`'${this.escapeValue(placeholder)}'`],
+      comment,
+    );
+  }
+
+  /**
+   * `await <locator>.method(args)`, or `await page.method('css', args)` for
+   * elements a CSS selector finds from the page
+   */
+  private static generateElementCommand(
+    action: RecordedAction,
+    method: string,
+    args: string[],
+    comment: string,
+  ): string {
+    const page = this.pageOf(action);
+    const selector = action.selector;
+    if (this.usesLocator(selector)) {
+      return this.withFallbacks(
+        selector,
+        `  await ${this.getLocator(selector, page)}.${method}(${args.join(", ")});${comment}`,
+      );
+    }
+    const css = `'${this.escapeSelector(this.getCssSelector(selector))}'`;
+    return this.withFallbacks(
+      selector,
+      `  await ${page}.${method}(${[css, ...args].join(", ")});${comment}`,
+    );
   }
 
   private static generateScrollCommand(action: RecordedAction): string {
+    const page = this.pageOf(action);
     try {
       const scrollData = JSON.parse(action.value || "{}");
-      return `  await page.evaluate(() => window.scrollTo(${scrollData.x || 0}, ${scrollData.y || 0}));`;
+      return `  await ${page}.evaluate(() => window.scrollTo(${scrollData.x || 0}, ${scrollData.y || 0}));`;
     } catch {
-      return `  await page.evaluate(() => window.scrollTo(0, 0));`;
+      return `  await ${page}.evaluate(() => window.scrollTo(0, 0));`;
     }
   }
 
   private static generateManualStepComment(action: RecordedAction): string {
-    return `  // MANUAL STEP: ${action.description || "Complete this step manually"}`;
+    return `  // MANUAL STEP: ${this.commentText(action.description || "Complete this step manually")}`;
   }
 
   /**
-   * Get the preferred selector from the selector object
-   * Priority: ID > CSS > Name > XPath
+   * Whether the element needs a locator chain (getBy*, or frames and shadow
+   * hosts) rather than a page-level command with a CSS selector
    */
-  private static getPreferredSelector(
+  private static usesLocator(selector: ElementSelector | undefined): boolean {
+    return isNested(selector) || preferredQuery(selector).by !== "css";
+  }
+
+  private static getLocator(
     selector: ElementSelector | undefined,
+    page = "page",
   ): string {
-    if (!selector) return "body";
+    return locatorChain(selectorPath(selector), page);
+  }
 
-    if (selector.id) {
-      return `#${selector.id}`;
-    }
+  // The page variable of the tab an action happened in
+  private static pageOf(action: RecordedAction): string {
+    return action.tab ?? "page";
+  }
 
-    if (selector.css) {
-      return selector.css;
-    }
+  // Steps that open, switch or close tabs rather than act in one
+  private static isTabAction(action: RecordedAction): boolean {
+    return ["popup", "new_tab", "switch_tab", "close_tab"].includes(
+      action.type,
+    );
+  }
 
-    if (selector.name) {
-      return `[name="${selector.name}"]`;
-    }
+  // Inputs are consolidated per field and tab
+  private static getInputKey(action: RecordedAction): string {
+    return `${this.pageOf(action)} ${this.getSelectorString(action.selector)}`;
+  }
 
-    if (selector.xpath) {
-      // Playwright doesn't support XPath by default, so convert to text or use CSS
-      return selector.xpath;
-    }
+  /**
+   * CSS selector for page-level commands, which are only used for elements
+   * found by CSS
+   */
+  private static getCssSelector(selector: ElementSelector | undefined): string {
+    const query = preferredQuery(selector);
+    return query.by === "css" ? query.selector : "body";
+  }
 
-    return "body";
+  /**
+   * Put the selector fallbacks comment (if any) above a command, for the
+   * replayer to heal the step with
+   */
+  private static withFallbacks(
+    selector: ElementSelector | undefined,
+    command: string,
+  ): string {
+    const comment = formatFallbacksComment(selector, preferredQuery(selector));
+    return comment ? `  ${comment}\n${command}` : command;
   }
 
   /**
@@ -237,21 +487,29 @@ export class PlaywrightGenerator {
   private static getSelectorString(
     selector: ElementSelector | undefined,
   ): string {
-    return this.getPreferredSelector(selector);
+    return this.usesLocator(selector)
+      ? this.getLocator(selector)
+      : this.getCssSelector(selector);
   }
 
   /**
    * Escape single quotes in selectors
    */
   private static escapeSelector(selector: string): string {
-    return selector.replace(/'/g, "\\'");
+    return selector.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+  }
+
+  // Text for a // comment, on one line
+  private static commentText(text: string): string {
+    return text.replace(/\s*[\r\n]+\s*/g, " ");
   }
 
   /**
-   * Escape single quotes and newlines in values
+   * Escape backslashes, single quotes and newlines in values
    */
   private static escapeValue(value: string): string {
     return value
+      .replace(/\\/g, "\\\\")
       .replace(/'/g, "\\'")
       .replace(/\n/g, "\\n")
       .replace(/\r/g, "\\r");
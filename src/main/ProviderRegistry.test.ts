@@ -0,0 +1,73 @@
+import { describe, test, expect } from "vitest";
+import { ProviderRegistry, isLLMProvider } from "./ProviderRegistry";
+
+describe("ProviderRegistry", () => {
+  test("marks providers as configured only when their key is set", () => {
+    const registry = new ProviderRegistry({
+      OPENAI_API_KEY: "sk-test",
+      ANTHROPIC_API_KEY: "",
+    });
+
+    const configured = Object.fromEntries(
+      registry.list().map((p) => [p.id, p.configured]),
+    );
+    expect(configured).toEqual({
+      openai: true,
+      anthropic: false,
+      google: false,
+      "openai-compatible": false,
+      mock: false,
+    });
+  });
+
+  test("creates a model for configured providers only", () => {
+    const registry = new ProviderRegistry({
+      GOOGLE_GENERATIVE_AI_API_KEY: "k",
+    });
+
+    const model = registry.createModel("google", "gemini-2.5-pro");
+    expect(model).toMatchObject({ modelId: "gemini-2.5-pro" });
+    expect(registry.createModel("openai", "gpt-4o")).toBeNull();
+  });
+
+  test("every provider suggests its default model", () => {
+    for (const provider of new ProviderRegistry({}).list()) {
+      expect(provider.models).toContain(provider.defaultModel);
+    }
+  });
+});
+
+describe("openai-compatible provider", () => {
+  test("is configured by base URL alone and reads models and flags", () => {
+    const info = new ProviderRegistry({
+      OPENAI_COMPATIBLE_BASE_URL: "http://localhost:11434/v1",
+      OPENAI_COMPATIBLE_MODELS: " qwen2.5 , llama3.1 ",
+      OPENAI_COMPATIBLE_TOOL_CALLING: "off",
+      OPENAI_COMPATIBLE_VISION: "true",
+      OPENAI_COMPATIBLE_CONTEXT_WINDOW: "32768",
+    }).get("openai-compatible");
+
+    expect(info).toMatchObject({
+      configured: true,
+      defaultModel: "qwen2.5",
+      models: ["qwen2.5", "llama3.1"],
+      capabilities: { toolCalling: false, vision: true },
+      contextWindow: 32768,
+    });
+  });
+
+  test("defaults to tool calling without vision", () => {
+    const info = new ProviderRegistry({}).get("openai-compatible");
+
+    expect(info.configured).toBe(false);
+    expect(info.capabilities).toEqual({ toolCalling: true, vision: false });
+  });
+});
+
+describe("isLLMProvider", () => {
+  test("accepts known provider IDs only", () => {
+    expect(isLLMProvider("anthropic")).toBe(true);
+    expect(isLLMProvider("ollama")).toBe(false);
+    expect(isLLMProvider(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,202 @@
+import type { LanguageModel } from "ai";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createMockModel } from "./tools/mockModel";
+
+export type LLMProvider =
+  | "openai"
+  | "anthropic"
+  | "google"
+  | "openai-compatible" // Local servers (Ollama, llama.cpp, vLLM, ...)
+  | "mock"; // Scripted replies from a fixture file, for offline tests
+
+export const LLM_PROVIDERS: LLMProvider[] = [
+  "openai",
+  "anthropic",
+  "google",
+  "openai-compatible",
+  "mock",
+];
+
+export interface ProviderCapabilities {
+  toolCalling: boolean; // Model can call chatTools / agent tools
+  vision: boolean; // Model accepts images (e.g. page screenshots)
+}
+
+interface ProviderDefinition {
+  label: string;
+  requiredEnvVar: string; // Setting that must be present to use the provider
+  defaultModel: string;
+  models: string[]; // Suggested models for the picker
+  capabilities: ProviderCapabilities;
+  contextWindow?: number; // Overrides the built-in size for every model
+  create: (model: string) => LanguageModel;
+}
+
+export interface ProviderInfo {
+  id: LLMProvider;
+  label: string;
+  requiredEnvVar: string;
+  configured: boolean; // Required setting is present
+  defaultModel: string;
+  models: string[];
+  capabilities: ProviderCapabilities;
+  contextWindow?: number;
+}
+
+const FULL_CAPABILITIES: ProviderCapabilities = {
+  toolCalling: true,
+  vision: true,
+};
+
+export function isLLMProvider(value: unknown): value is LLMProvider {
+  return LLM_PROVIDERS.includes(value as LLMProvider);
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// Unset keeps the default; "false", "0", "no" and "off" turn a flag off
+function parseFlag(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined || value === "") return fallback;
+  return !["false", "0", "no", "off"].includes(value.trim().toLowerCase());
+}
+
+function parsePositiveInt(value: string | undefined): number | undefined {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Known LLM providers, whether they're configured, what they can do, and
+ * how to build a model for them. Settings are read from the environment on
+ * every call so keys added to the process env are picked up without a
+ * restart.
+ *
+ * The "openai-compatible" provider talks to any server implementing the
+ * OpenAI chat completions API:
+ * - OPENAI_COMPATIBLE_BASE_URL: e.g. http://localhost:11434/v1 (required)
+ * - OPENAI_COMPATIBLE_API_KEY: optional, most local servers ignore it
+ * - OPENAI_COMPATIBLE_MODELS: comma-separated model list, first is default
+ * - OPENAI_COMPATIBLE_TOOL_CALLING / OPENAI_COMPATIBLE_VISION: "false" to
+ *   turn off tools or image input for models that don't support them
+ * - OPENAI_COMPATIBLE_CONTEXT_WINDOW: context size in tokens (default 8192)
+ *
+ * The "mock" provider never leaves the machine: it replays the responses in
+ * the JSON file at MOCK_LLM_FIXTURES (see tools/mockModel.ts).
+ */
+export class ProviderRegistry {
+  private env: NodeJS.ProcessEnv;
+
+  constructor(env: NodeJS.ProcessEnv = process.env) {
+    this.env = env;
+  }
+
+  private definition(id: LLMProvider): ProviderDefinition {
+    const env = this.env;
+    switch (id) {
+      case "openai":
+        return {
+          label: "OpenAI",
+          requiredEnvVar: "OPENAI_API_KEY",
+          defaultModel: "gpt-4o", // Try standard gpt-4o
+          models: ["gpt-4o", "gpt-4o-mini", "gpt-4.1", "gpt-4.1-mini"],
+          capabilities: FULL_CAPABILITIES,
+          create: (model) =>
+            createOpenAI({ apiKey: env.OPENAI_API_KEY })(model),
+        };
+      case "anthropic":
+        return {
+          label: "Anthropic",
+          requiredEnvVar: "ANTHROPIC_API_KEY",
+          defaultModel: "claude-3-5-sonnet-20241022",
+          models: [
+            "claude-3-5-sonnet-20241022",
+            "claude-3-5-haiku-20241022",
+            "claude-3-7-sonnet-20250219",
+          ],
+          capabilities: FULL_CAPABILITIES,
+          create: (model) =>
+            createAnthropic({ apiKey: env.ANTHROPIC_API_KEY })(model),
+        };
+      case "google":
+        return {
+          label: "Google",
+          requiredEnvVar: "GOOGLE_GENERATIVE_AI_API_KEY",
+          defaultModel: "gemini-2.5-flash",
+          models: ["gemini-2.5-flash", "gemini-2.5-pro", "gemini-2.0-flash"],
+          capabilities: FULL_CAPABILITIES,
+          create: (model) =>
+            createGoogleGenerativeAI({
+              apiKey: env.GOOGLE_GENERATIVE_AI_API_KEY,
+            })(model),
+        };
+      case "openai-compatible": {
+        const models = parseList(env.OPENAI_COMPATIBLE_MODELS);
+        return {
+          label: "OpenAI-compatible (local)",
+          requiredEnvVar: "OPENAI_COMPATIBLE_BASE_URL",
+          defaultModel: models[0] ?? "llama3.1",
+          models: models.length > 0 ? models : ["llama3.1"],
+          capabilities: {
+            toolCalling: parseFlag(env.OPENAI_COMPATIBLE_TOOL_CALLING, true),
+            vision: parseFlag(env.OPENAI_COMPATIBLE_VISION, false),
+          },
+          contextWindow: parsePositiveInt(env.OPENAI_COMPATIBLE_CONTEXT_WINDOW),
+          // Local servers implement chat completions, not the Responses API
+          create: (model) =>
+            createOpenAI({
+              name: "openai-compatible",
+              baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+              apiKey: env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+            }).chat(model),
+        };
+      }
+      case "mock":
+        return {
+          label: "Mock (fixtures)",
+          requiredEnvVar: "MOCK_LLM_FIXTURES",
+          defaultModel: "mock",
+          models: ["mock"],
+          capabilities: { toolCalling: true, vision: false },
+          create: (model) =>
+            createMockModel(env.MOCK_LLM_FIXTURES as string, model),
+        };
+    }
+  }
+
+  public list(): ProviderInfo[] {
+    return LLM_PROVIDERS.map((id) => this.get(id));
+  }
+
+  public get(id: LLMProvider): ProviderInfo {
+    const definition = this.definition(id);
+    return {
+      id,
+      label: definition.label,
+      requiredEnvVar: definition.requiredEnvVar,
+      configured: Boolean(this.env[definition.requiredEnvVar]),
+      defaultModel: definition.defaultModel,
+      models: definition.models,
+      capabilities: definition.capabilities,
+      ...(definition.contextWindow && {
+        contextWindow: definition.contextWindow,
+      }),
+    };
+  }
+
+  /**
+   * Build a model for a provider
+   * @returns null if the provider isn't configured
+   */
+  public createModel(id: LLMProvider, model: string): LanguageModel | null {
+    const definition = this.definition(id);
+    if (!this.env[definition.requiredEnvVar]) return null;
+    return definition.create(model);
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { RECORDING_SCHEMA_VERSION, RecordingStore } from "./RecordingStore";
+import { PlaywrightGenerator } from "./PlaywrightGenerator";
+import type { Recording } from "./types/RecorderTypes";
+
+// The store only touches electron for its default userData location
+vi.mock("electron", () => ({ app: { getPath: () => os.tmpdir() } }));
+
+function recording(id: string, updatedAt: number): Recording {
+  return {
+    id,
+    name: `Recording ${id}`,
+    createdAt: 1,
+    updatedAt,
+    actions: [
+      {
+        id: `${id}-a1`,
+        type: "click",
+        timestamp: 1,
+        url: "https://example.com",
+        selector: { css: "#go" },
+        tab: "page",
+      },
+    ],
+    metadata: { targetSite: "https://example.com" },
+  };
+}
+
+describe("RecordingStore", () => {
+  let dir: string;
+  let store: RecordingStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "recordings-"));
+    store = new RecordingStore(dir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("saved recordings keep their actions in a new store instance", () => {
+    store.save(recording("r1", 1));
+
+    expect(new RecordingStore(dir).get("r1")).toEqual(recording("r1", 1));
+    expect(fs.readFileSync(path.join(dir, "r1.spec.ts"), "utf-8")).toContain(
+      "await page.click('#go');",
+    );
+  });
+
+  test("lists recordings most recently updated first", () => {
+    store.save(recording("old", 1));
+    store.save(recording("new", 2));
+
+    expect(store.list().map((r) => r.id)).toEqual(["new", "old"]);
+  });
+
+  test("ignores files from an unknown schema version", () => {
+    fs.writeFileSync(
+      path.join(dir, "future.json"),
+      JSON.stringify({
+        version: RECORDING_SCHEMA_VERSION + 1,
+        recording: recording("future", 1),
+      }),
+    );
+
+    expect(store.get("future")).toBeNull();
+    expect(store.list()).toEqual([]);
+  });
+
+  test("deletes the recording and its script", () => {
+    store.save(recording("r1", 1));
+
+    expect(store.delete("r1")).toBe(true);
+    expect(fs.readdirSync(dir)).toEqual([]);
+    expect(store.delete("r1")).toBe(false);
+  });
+
+  test("migrates scripts without a JSON file and leaves them as they are", () => {
+    const script = PlaywrightGenerator.generate(
+      {
+        id: "legacy",
+        name: "Legacy",
+        createdAt: Date.UTC(2025, 0, 1),
+        targetSite: "https://example.com",
+      },
+      recording("legacy", 1).actions,
+    );
+    fs.writeFileSync(path.join(dir, "legacy.spec.ts"), script);
+    store.save(recording("r1", 1));
+
+    expect(store.migrateScriptRecordings()).toBe(1);
+    expect(store.get("legacy")?.actions.map((a) => a.type)).toEqual(["click"]);
+    expect(fs.readFileSync(path.join(dir, "legacy.spec.ts"), "utf-8")).toBe(
+      script,
+    );
+    expect(store.migrateScriptRecordings()).toBe(0);
+  });
+
+  test("migrates the other scripts when one can't be read", () => {
+    const script = PlaywrightGenerator.generate(
+      { id: "legacy", name: "Legacy", createdAt: Date.UTC(2025, 0, 1) },
+      recording("legacy", 1).actions,
+    );
+    // Sorts first, and reading it fails
+    fs.mkdirSync(path.join(dir, "broken.spec.ts"));
+    fs.writeFileSync(path.join(dir, "legacy.spec.ts"), script);
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+
+    expect(store.migrateScriptRecordings()).toBe(1);
+    expect(store.get("legacy")).not.toBeNull();
+    expect(consoleError).toHaveBeenCalledWith(
+      expect.stringContaining("broken"),
+      expect.anything(),
+    );
+    consoleError.mockRestore();
+  });
+
+  test("keeps IDs inside the recordings directory", () => {
+    store.save(recording("r1", 1));
+
+    expect(store.get("../r1")?.id).toBe("r1");
+  });
+});
@@ -0,0 +1,165 @@
+import { app } from "electron";
+import * as fs from "fs";
+import * as path from "path";
+import type { Recording, RecordingFile } from "./types/RecorderTypes";
+import { PlaywrightGenerator } from "./PlaywrightGenerator";
+import { recordingFromScript } from "./tools/scriptMigration";
+
+// Bump when Recording changes in a way older files need converting for
+export const RECORDING_SCHEMA_VERSION = 1;
+
+const SCRIPT_SUFFIX = ".spec.ts";
+
+/**
+ * Persists recordings under userData/recordings as one versioned JSON file
+ * each, the source of truth, with the Playwright script generated from it
+ * alongside. Scripts are only written, never read back, except to migrate
+ * recordings made before the JSON files existed.
+ */
+export class RecordingStore {
+  private recordingsDir: string;
+
+  constructor(recordingsDir?: string) {
+    this.recordingsDir =
+      recordingsDir ?? path.join(app.getPath("userData"), "recordings");
+    this.ensureRecordingsDir();
+  }
+
+  private ensureRecordingsDir(): void {
+    if (!fs.existsSync(this.recordingsDir)) {
+      fs.mkdirSync(this.recordingsDir, { recursive: true });
+    }
+  }
+
+  private filePath(id: string): string {
+    // IDs come from the renderer; keep them inside the recordings dir
+    return path.join(this.recordingsDir, `${path.basename(id)}.json`);
+  }
+
+  private scriptPath(id: string): string {
+    return path.join(
+      this.recordingsDir,
+      `${path.basename(id)}${SCRIPT_SUFFIX}`,
+    );
+  }
+
+  /**
+   * Write a JSON file for each script that has none, leaving the script as
+   * it is
+   * @returns How many recordings were migrated
+   */
+  public migrateScriptRecordings(): number {
+    let files: string[];
+    try {
+      files = fs.readdirSync(this.recordingsDir);
+    } catch (error) {
+      console.error("[RecordingStore] Error reading recordings:", error);
+      return 0;
+    }
+
+    let migrated = 0;
+    for (const file of files) {
+      if (!file.endsWith(SCRIPT_SUFFIX)) continue;
+      const id = file.slice(0, -SCRIPT_SUFFIX.length);
+      if (fs.existsSync(this.filePath(id))) continue;
+
+      // One unreadable script mustn't stop the others from migrating
+      try {
+        const script = fs.readFileSync(this.scriptPath(id), "utf-8");
+        const recording = recordingFromScript(id, script);
+        // The script's own ID wins, but the files must share a name
+        recording.id = id;
+        this.writeRecording(recording);
+        migrated++;
+      } catch (error) {
+        console.error(`[RecordingStore] Error migrating ${id}:`, error);
+      }
+    }
+    return migrated;
+  }
+
+  /**
+   * @returns null if it doesn't exist, can't be parsed, or was written by a
+   * newer version
+   */
+  public get(id: string): Recording | null {
+    const filePath = this.filePath(id);
+    if (!fs.existsSync(filePath)) return null;
+    try {
+      const file = JSON.parse(
+        fs.readFileSync(filePath, "utf-8"),
+      ) as RecordingFile;
+      if (file.version !== RECORDING_SCHEMA_VERSION) {
+        console.error(
+          `[RecordingStore] ${id} has unsupported version ${file.version}`,
+        );
+        return null;
+      }
+      return file.recording;
+    } catch (error) {
+      console.error(`[RecordingStore] Error loading ${id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * List recordings, most recently updated first
+   */
+  public list(): Recording[] {
+    try {
+      return fs
+        .readdirSync(this.recordingsDir)
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => this.get(file.replace(/\.json$/, "")))
+        .filter((r): r is Recording => r !== null)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (error) {
+      console.error("[RecordingStore] Error reading recordings:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Write the recording and regenerate its script
+   */
+  public save(recording: Recording): void {
+    this.writeRecording(recording);
+    const script = PlaywrightGenerator.generate(
+      {
+        id: recording.id,
+        name: recording.name,
+        description: recording.description,
+        createdAt: recording.createdAt,
+        targetSite: recording.metadata?.targetSite,
+      },
+      recording.actions,
+    );
+    fs.writeFileSync(this.scriptPath(recording.id), script, "utf-8");
+  }
+
+  /**
+   * @returns true if a recording was deleted
+   */
+  public delete(id: string): boolean {
+    let deleted = false;
+    for (const filePath of [this.filePath(id), this.scriptPath(id)]) {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+        deleted = true;
+      }
+    }
+    return deleted;
+  }
+
+  private writeRecording(recording: Recording): void {
+    const file: RecordingFile = {
+      version: RECORDING_SCHEMA_VERSION,
+      recording,
+    };
+    fs.writeFileSync(
+      this.filePath(recording.id),
+      JSON.stringify(file, null, 2),
+      "utf-8",
+    );
+  }
+}
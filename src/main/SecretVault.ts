@@ -0,0 +1,191 @@
+import { app } from "electron";
+import * as fs from "fs";
+import * as path from "path";
+import { v4 as uuidv4 } from "uuid";
+import type { Window } from "./Window";
+import {
+  deriveVaultKey,
+  newVaultSalt,
+  openSecrets,
+  sealSecrets,
+  WrongPassphraseError,
+  type VaultFile,
+} from "./tools/secrets";
+
+// What the sidebar asks for: the vault's passphrase, a passphrase for a new
+// vault, or a secret the vault doesn't have yet
+export type SecretPromptKind = "passphrase" | "new-passphrase" | "secret";
+
+export interface SecretPrompt {
+  id: string;
+  kind: SecretPromptKind;
+  name?: string; // The secret's vault name, for kind "secret"
+  message: string;
+}
+
+// A secret that can't be filled: the vault stayed locked or the user gave
+// no value. Ends the replay, since the steps after it need to be logged in.
+export class SecretUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretUnavailableError";
+  }
+}
+
+/**
+ * Passwords and other secrets typed while recording, kept in userData
+ * encrypted with a passphrase. The passphrase is asked for in the sidebar
+ * the first time the vault is needed; it stays unlocked until the app quits.
+ */
+export class SecretVault {
+  private mainWindow: Window;
+  private vaultPath: string;
+  private key: Buffer | null = null;
+  private salt: Buffer | null = null;
+  private secrets: Record<string, string> = {};
+  private pending: Map<string, (value: string | null) => void> = new Map();
+  private unlocking: Promise<boolean> | null = null;
+
+  constructor(mainWindow: Window) {
+    this.mainWindow = mainWindow;
+    this.vaultPath = path.join(app.getPath("userData"), "secrets.vault.json");
+  }
+
+  /**
+   * Ask for the passphrase (or a new one, if there's no vault yet) until it
+   * opens the vault
+   * @returns false if the user cancelled
+   */
+  public async unlock(): Promise<boolean> {
+    if (this.key) return true;
+    // Recording and replay may both need the vault; ask once
+    if (!this.unlocking) {
+      this.unlocking = this.promptUnlock().finally(() => {
+        this.unlocking = null;
+      });
+    }
+    return this.unlocking;
+  }
+
+  /**
+   * Add or replace secrets, unlocking the vault first
+   * @returns false if the vault stayed locked and nothing was stored
+   */
+  public async store(secrets: Record<string, string>): Promise<boolean> {
+    if (!(await this.unlock())) return false;
+    Object.assign(this.secrets, secrets);
+    this.save();
+    return true;
+  }
+
+  /**
+   * A secret's value, unlocking the vault first. Secrets the vault doesn't
+   * have are asked for and kept.
+   * @throws SecretUnavailableError if the user cancels
+   */
+  public async resolve(name: string): Promise<string> {
+    if (!(await this.unlock())) {
+      throw new SecretUnavailableError(
+        `The secrets vault is locked, so "${name}" can't be filled`,
+      );
+    }
+    if (!(name in this.secrets)) {
+      const value = await this.ask(
+        "secret",
+        `The vault has no value for ${name}. Enter it to continue the replay.`,
+        name,
+      );
+      if (value === null) {
+        throw new SecretUnavailableError(`No value given for "${name}"`);
+      }
+      this.secrets[name] = value;
+      this.save();
+    }
+    return this.secrets[name];
+  }
+
+  /**
+   * Answer a pending prompt (called from the sidebar IPC handler)
+   * @param value null if the user cancelled
+   */
+  public respond(promptId: string, value: string | null): boolean {
+    const resolve = this.pending.get(promptId);
+    if (!resolve) return false;
+    this.pending.delete(promptId);
+    resolve(value);
+    return true;
+  }
+
+  private async promptUnlock(): Promise<boolean> {
+    let file: VaultFile | null;
+    try {
+      file = this.readFile();
+    } catch (error) {
+      // Don't overwrite a vault that can't be read
+      console.error("[SecretVault] Error reading the vault:", error);
+      return false;
+    }
+
+    if (!file) {
+      const passphrase = await this.ask(
+        "new-passphrase",
+        "Choose a passphrase for the secrets vault. It encrypts the passwords typed while recording.",
+      );
+      if (passphrase === null) return false;
+      this.salt = newVaultSalt();
+      this.key = deriveVaultKey(passphrase, this.salt);
+      this.secrets = {};
+      this.save();
+      return true;
+    }
+
+    const salt = Buffer.from(file.salt, "base64");
+    let message = "Enter the passphrase of the secrets vault.";
+    for (;;) {
+      const passphrase = await this.ask("passphrase", message);
+      if (passphrase === null) return false;
+      const key = deriveVaultKey(passphrase, salt);
+      try {
+        this.secrets = openSecrets(file, key);
+      } catch (error) {
+        if (!(error instanceof WrongPassphraseError)) throw error;
+        message = "Wrong passphrase. Try again.";
+        continue;
+      }
+      this.salt = salt;
+      this.key = key;
+      return true;
+    }
+  }
+
+  // Show a prompt in the sidebar, opening it if it's hidden
+  private ask(
+    kind: SecretPromptKind,
+    message: string,
+    name?: string,
+  ): Promise<string | null> {
+    const prompt: SecretPrompt = { id: uuidv4(), kind, name, message };
+    return new Promise((resolve) => {
+      this.pending.set(prompt.id, resolve);
+      const sidebar = this.mainWindow.sidebar;
+      if (!sidebar.getIsVisible()) {
+        sidebar.show();
+        this.mainWindow.updateAllBounds();
+      }
+      sidebar.view.webContents.send("secret-prompt-request", prompt);
+    });
+  }
+
+  private readFile(): VaultFile | null {
+    if (!fs.existsSync(this.vaultPath)) return null;
+    return JSON.parse(fs.readFileSync(this.vaultPath, "utf-8")) as VaultFile;
+  }
+
+  private save(): void {
+    fs.writeFileSync(
+      this.vaultPath,
+      JSON.stringify(sealSecrets(this.secrets, this.key!, this.salt!), null, 2),
+      { encoding: "utf-8", mode: 0o600 },
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { app } from "electron";
+import * as fs from "fs";
+import * as path from "path";
+import type { LLMProvider } from "./ProviderRegistry";
+import type { ModelPrice } from "./types/UsageTypes";
+
+export interface ModelSettings {
+  provider: LLMProvider;
+  model: string;
+  temperature: number;
+}
+
+// A named assistant setup the user can switch between in the sidebar
+export interface AssistantProfile {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  // Model and temperature switched to when the profile is selected
+  model?: { provider: LLMProvider; model: string };
+  temperature?: number;
+  enabledTools: string[] | null; // Chat and page tools; null enables all
+}
+
+export interface AppSettings {
+  model?: ModelSettings; // Unset until the user picks a model in the sidebar
+  // Tried in order when the selected model is rate limited or failing
+  fallbackModels?: { provider: LLMProvider; model: string }[];
+  // Per-million-token prices keyed by model or "provider/model"; merged
+  // over the built-in price table
+  modelPrices?: Record<string, ModelPrice>;
+  profiles?: AssistantProfile[]; // Unset until the user edits a profile
+  activeProfileId?: string;
+}
+
+/**
+ * User preferences persisted as userData/settings.json
+ */
+export class SettingsStore {
+  private settingsPath: string;
+  private settings: AppSettings;
+
+  constructor(settingsPath?: string) {
+    this.settingsPath =
+      settingsPath ?? path.join(app.getPath("userData"), "settings.json");
+    this.settings = this.load();
+  }
+
+  private load(): AppSettings {
+    try {
+      if (fs.existsSync(this.settingsPath)) {
+        return JSON.parse(
+          fs.readFileSync(this.settingsPath, "utf-8"),
+        ) as AppSettings;
+      }
+    } catch (error) {
+      console.error("[SettingsStore] Error loading settings:", error);
+    }
+    return {};
+  }
+
+  public get(): AppSettings {
+    return this.settings;
+  }
+
+  /**
+   * Merge and persist a partial settings update
+   */
+  public update(changes: Partial<AppSettings>): AppSettings {
+    this.settings = { ...this.settings, ...changes };
+    fs.writeFileSync(
+      this.settingsPath,
+      JSON.stringify(this.settings, null, 2),
+      "utf-8",
+    );
+    return this.settings;
+  }
+}
@@ -2,6 +2,9 @@ import { is } from "@electron-toolkit/utils";
 import { BaseWindow, WebContentsView } from "electron";
 import { join } from "path";
 import { LLMClient } from "./LLMClient";
+import { ConversationStore } from "./ConversationStore";
+import { SettingsStore } from "./SettingsStore";
+import { UsageTracker } from "./UsageTracker";
 
 export class SideBar {
   private webContentsView: WebContentsView;
@@ -16,7 +19,11 @@ export class SideBar {
     this.setupBounds();
 
     // Initialize LLM client
-    this.llmClient = new LLMClient(this.webContentsView.webContents);
+    this.llmClient = new LLMClient(this.webContentsView.webContents, {
+      conversationStore: new ConversationStore(),
+      settingsStore: new SettingsStore(),
+      usageTracker: new UsageTracker(),
+    });
   }
 
   private createWebContentsView(): WebContentsView {
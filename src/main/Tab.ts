@@ -8,13 +8,22 @@ export class Tab {
   private _url: string;
   private _isVisible: boolean = false;
 
-  constructor(id: string, url: string = "https://www.google.com") {
+  /**
+   * @param webContents A popup's WebContents, already loading `url`, to
+   * show in this tab instead of creating a new one
+   */
+  constructor(
+    id: string,
+    url: string = "https://www.google.com",
+    webContents?: WebContents,
+  ) {
     this._id = id;
     this._url = url;
     this._title = "New Tab";
 
     // Create the WebContentsView for web content only
     this.webContentsView = new WebContentsView({
+      webContents,
       webPreferences: {
         preload: join(__dirname, "../preload/tab.js"),
         nodeIntegration: false,
@@ -28,7 +37,9 @@ export class Tab {
     this.setupEventListeners();
 
     // Load the initial URL
-    this.loadURL(url);
+    if (!webContents) {
+      this.loadURL(url);
+    }
   }
 
   private setupEventListeners(): void {
@@ -92,15 +103,11 @@ export class Tab {
   }
 
   async getTabHtml(): Promise<string> {
-    return (await this.runJs(
-      "return document.documentElement.outerHTML",
-    )) as string;
+    return (await this.runJs("document.documentElement.outerHTML")) as string;
   }
 
   async getTabText(): Promise<string> {
-    return (await this.runJs(
-      "return document.documentElement.innerText",
-    )) as string;
+    return (await this.runJs("document.documentElement.innerText")) as string;
   }
 
   loadURL(url: string): Promise<void> {
@@ -129,6 +136,9 @@ export class Tab {
   }
 
   destroy(): void {
-    this.webContentsView.webContents.close();
+    // Pages can close themselves (popups calling window.close())
+    if (!this.webContentsView.webContents.isDestroyed()) {
+      this.webContentsView.webContents.close();
+    }
   }
 }
@@ -0,0 +1,86 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { UsageTracker } from "./UsageTracker";
+import type { MessageUsage } from "./types/UsageTypes";
+
+// The tracker only touches electron for its default userData location
+vi.mock("electron", () => ({ app: { getPath: () => os.tmpdir() } }));
+
+function usage(overrides: Partial<MessageUsage> = {}): MessageUsage {
+  return {
+    provider: "openai",
+    model: "gpt-4o",
+    inputTokens: 1000,
+    outputTokens: 200,
+    totalTokens: 1200,
+    cost: 0.0045,
+    ...overrides,
+  };
+}
+
+describe("UsageTracker", () => {
+  let dir: string;
+  let usagePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "usage-"));
+    usagePath = path.join(dir, "usage.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("totals survive a new tracker instance", () => {
+    const now = new Date(2026, 2, 14, 12);
+    new UsageTracker(usagePath).record(usage(), "c1", now);
+    new UsageTracker(usagePath).record(usage(), "c1", now);
+
+    const summary = new UsageTracker(usagePath).getSummary("c1", now);
+    expect(summary.conversation).toMatchObject({
+      requests: 2,
+      inputTokens: 2000,
+      outputTokens: 400,
+      totalTokens: 2400,
+    });
+    expect(summary.conversation?.cost).toBeCloseTo(0.009);
+    expect(summary.today.requests).toBe(2);
+  });
+
+  test("summarises the last week by day and all time", () => {
+    const tracker = new UsageTracker(usagePath);
+    const today = new Date(2026, 2, 14, 9);
+    tracker.record(usage(), "c1", new Date(2026, 2, 12, 23));
+    tracker.record(usage({ cost: null }), null, today);
+    tracker.record(usage(), "c2", new Date(2026, 0, 1));
+
+    const summary = tracker.getSummary("c2", today);
+    expect(summary.days).toHaveLength(7);
+    expect(summary.days[0]).toMatchObject({
+      date: "2026-03-14",
+      totals: { requests: 1, cost: 0, unpricedRequests: 1 },
+    });
+    expect(summary.days[2]).toMatchObject({
+      date: "2026-03-12",
+      totals: { requests: 1 },
+    });
+    expect(summary.days[1].totals.requests).toBe(0);
+    expect(summary.allTime.requests).toBe(3);
+    expect(summary.allTime.cost).toBeCloseTo(0.009);
+    expect(summary.conversation?.requests).toBe(1);
+  });
+
+  test("forgetting a conversation keeps daily totals", () => {
+    const tracker = new UsageTracker(usagePath);
+    const now = new Date(2026, 2, 14);
+    tracker.record(usage(), "c1", now);
+
+    tracker.forgetConversation("c1");
+
+    const summary = tracker.getSummary("c1", now);
+    expect(summary.conversation).toBeNull();
+    expect(summary.today.requests).toBe(1);
+  });
+});
@@ -0,0 +1,154 @@
+import { app } from "electron";
+import * as fs from "fs";
+import * as path from "path";
+import type {
+  DailyUsage,
+  MessageUsage,
+  UsageSummary,
+  UsageTotals,
+} from "./types/UsageTypes";
+
+const SUMMARY_DAYS = 7;
+
+interface UsageFile {
+  conversations: Record<string, UsageTotals>;
+  days: Record<string, UsageTotals>; // Keyed by local date, YYYY-MM-DD
+}
+
+export function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    unpricedRequests: 0,
+  };
+}
+
+function addUsage(totals: UsageTotals, usage: MessageUsage): UsageTotals {
+  return {
+    requests: totals.requests + 1,
+    inputTokens: totals.inputTokens + usage.inputTokens,
+    outputTokens: totals.outputTokens + usage.outputTokens,
+    totalTokens: totals.totalTokens + usage.totalTokens,
+    cost: totals.cost + (usage.cost ?? 0),
+    unpricedRequests: totals.unpricedRequests + (usage.cost === null ? 1 : 0),
+  };
+}
+
+function sumTotals(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    requests: a.requests + b.requests,
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    cost: a.cost + b.cost,
+    unpricedRequests: a.unpricedRequests + b.unpricedRequests,
+  };
+}
+
+function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Running token and cost totals per conversation and per day, persisted as
+ * userData/usage.json
+ */
+export class UsageTracker {
+  private usagePath: string;
+  private data: UsageFile;
+
+  constructor(usagePath?: string) {
+    this.usagePath =
+      usagePath ?? path.join(app.getPath("userData"), "usage.json");
+    this.data = this.load();
+  }
+
+  private load(): UsageFile {
+    try {
+      if (fs.existsSync(this.usagePath)) {
+        const saved = JSON.parse(
+          fs.readFileSync(this.usagePath, "utf-8"),
+        ) as Partial<UsageFile>;
+        return { conversations: {}, days: {}, ...saved };
+      }
+    } catch (error) {
+      console.error("[UsageTracker] Error loading usage:", error);
+    }
+    return { conversations: {}, days: {} };
+  }
+
+  private save(): void {
+    try {
+      fs.writeFileSync(
+        this.usagePath,
+        JSON.stringify(this.data, null, 2),
+        "utf-8",
+      );
+    } catch (error) {
+      console.error("[UsageTracker] Error saving usage:", error);
+    }
+  }
+
+  /**
+   * Add a model call to today's totals and, for chat replies, to the
+   * conversation's totals
+   */
+  public record(
+    usage: MessageUsage,
+    conversationId: string | null,
+    now: Date = new Date(),
+  ): void {
+    const day = dayKey(now);
+    this.data.days[day] = addUsage(this.data.days[day] ?? emptyTotals(), usage);
+    if (conversationId) {
+      this.data.conversations[conversationId] = addUsage(
+        this.data.conversations[conversationId] ?? emptyTotals(),
+        usage,
+      );
+    }
+    this.save();
+  }
+
+  /**
+   * Drop a deleted conversation's totals. Daily totals keep its usage.
+   */
+  public forgetConversation(conversationId: string): void {
+    if (!(conversationId in this.data.conversations)) return;
+    delete this.data.conversations[conversationId];
+    this.save();
+  }
+
+  public getConversationTotals(conversationId: string): UsageTotals | null {
+    return this.data.conversations[conversationId] ?? null;
+  }
+
+  /**
+   * Totals for a conversation, today, the last week (one entry per day)
+   * and all time
+   */
+  public getSummary(
+    conversationId: string | null,
+    now: Date = new Date(),
+  ): UsageSummary {
+    const days: DailyUsage[] = [];
+    for (let offset = 0; offset < SUMMARY_DAYS; offset++) {
+      const date = new Date(now);
+      date.setDate(now.getDate() - offset);
+      const key = dayKey(date);
+      days.push({ date: key, totals: this.data.days[key] ?? emptyTotals() });
+    }
+    return {
+      conversation: conversationId
+        ? this.getConversationTotals(conversationId)
+        : null,
+      today: days[0].totals,
+      days,
+      allTime: Object.values(this.data.days).reduce(sumTotals, emptyTotals()),
+    };
+  }
+}
@@ -1,7 +1,8 @@
-import { BaseWindow, shell } from "electron";
+import { BaseWindow, shell, type WebContents } from "electron";
 import { Tab } from "./Tab";
 import { TopBar } from "./TopBar";
 import { SideBar } from "./SideBar";
+import type { TabEvent, TabListener } from "./types/RecorderTypes";
 
 export class Window {
   private _baseWindow: BaseWindow;
@@ -10,6 +11,7 @@ export class Window {
   private tabCounter: number = 0;
   private _topBar: TopBar;
   private _sideBar: SideBar;
+  private tabListeners: Set<TabListener> = new Set();
 
   constructor() {
     // Create the browser window.
@@ -27,6 +29,7 @@ export class Window {
 
     this._topBar = new TopBar(this._baseWindow);
     this._sideBar = new SideBar(this._baseWindow);
+    this._sideBar.client.setBrowser(this);
 
     // Create the first tab
     this.createTab();
@@ -46,22 +49,15 @@ export class Window {
       }
     });
 
-    // Handle external link opening
-    this.tabsMap.forEach((tab) => {
-      tab.webContents.setWindowOpenHandler((details) => {
-        shell.openExternal(details.url);
-        return { action: "deny" };
-      });
-    });
-
     this.setupEventListeners();
   }
 
   private setupEventListeners(): void {
     this._baseWindow.on("closed", () => {
       // Clean up all tabs when window is closed
-      this.tabsMap.forEach((tab) => tab.destroy());
+      const tabs = this.allTabs;
       this.tabsMap.clear();
+      tabs.forEach((tab) => tab.destroy());
     });
   }
 
@@ -87,8 +83,45 @@ export class Window {
 
   // Tab management methods
   createTab(url?: string): Tab {
-    const tabId = `tab-${++this.tabCounter}`;
-    const tab = new Tab(tabId, url);
+    const tab = new Tab(`tab-${++this.tabCounter}`, url);
+    this.addTab(tab);
+    return tab;
+  }
+
+  private addTab(tab: Tab, opener?: Tab): void {
+    const tabId = tab.id;
+
+    // Popups (window.open, target="_blank") open as tabs; other schemes
+    // (mailto:, ...) go to the system
+    tab.webContents.setWindowOpenHandler((details) => {
+      if (!/^https?:/i.test(details.url)) {
+        shell.openExternal(details.url);
+        return { action: "deny" };
+      }
+      return {
+        action: "allow",
+        // Stays open when the page that opened it closes, like other tabs
+        outlivesOpener: true,
+        // Show the WebContents Electron made for the popup, so it keeps
+        // window.opener, POSTed form data and the opener's session state
+        createWindow: (options) => {
+          const { webContents } = options as { webContents?: WebContents };
+          const popup = new Tab(
+            `tab-${++this.tabCounter}`,
+            details.url,
+            webContents,
+          );
+          this.addTab(popup, tab);
+          if (details.disposition !== "background-tab") {
+            this.switchActiveTab(popup.id);
+          }
+          return popup.webContents;
+        },
+      };
+    });
+
+    // A popup that closes itself (window.close()) closes its tab
+    tab.webContents.once("destroyed", () => this.closeTab(tabId));
 
     // Add the tab's WebContentsView to the window
     this._baseWindow.contentView.addChildView(tab.view);
@@ -113,7 +146,7 @@ export class Window {
       tab.hide();
     }
 
-    return tab;
+    this.emitTabEvent({ type: "created", tab, opener });
   }
 
   closeTab(tabId: string): boolean {
@@ -122,15 +155,18 @@ export class Window {
       return false;
     }
 
+    this.emitTabEvent({ type: "closed", tab });
+
     // Remove the WebContentsView from the window
     this._baseWindow.contentView.removeChildView(tab.view);
 
+    // Remove from our tabs map first, so the tab's "destroyed" event finds
+    // nothing left to close
+    this.tabsMap.delete(tabId);
+
     // Destroy the tab
     tab.destroy();
 
-    // Remove from our tabs map
-    this.tabsMap.delete(tabId);
-
     // If this was the active tab, switch to another tab
     if (this.activeTabId === tabId) {
       this.activeTabId = null;
@@ -142,6 +178,7 @@ export class Window {
 
     // If no tabs left, close the window
     if (this.tabsMap.size === 0) {
+      this._sideBar.client.setActiveTab(null);
       this._baseWindow.close();
     }
 
@@ -164,14 +201,29 @@ export class Window {
 
     // Show the new active tab
     tab.show();
+    const changed = this.activeTabId !== tabId;
     this.activeTabId = tabId;
 
+    // Keep the chat's page tools pointed at the tab the user is on
+    this._sideBar.client.setActiveTab(tab);
+
     // Update the window title to match the tab title
     this._baseWindow.setTitle(tab.title || "Blueberry Browser");
 
+    if (changed) this.emitTabEvent({ type: "activated", tab });
     return true;
   }
 
+  // Follow tabs being opened, switched to and closed
+  addTabListener(listener: TabListener): () => void {
+    this.tabListeners.add(listener);
+    return () => this.tabListeners.delete(listener);
+  }
+
+  private emitTabEvent(event: TabEvent): void {
+    this.tabListeners.forEach((listener) => listener(event));
+  }
+
   getTab(tabId: string): Tab | null {
     return this.tabsMap.get(tabId) || null;
   }
@@ -0,0 +1,166 @@
+import { describe, test, expect, vi } from "vitest";
+import type { ToolCallOptions } from "ai";
+import type { Tab } from "../Tab";
+import {
+  createAgentTools,
+  type AgentBrowser,
+  type AgentStep,
+} from "./agentTools";
+import { createMockTab } from "./mockTab";
+
+function browserTab(id: string, url = "https://example.com/"): Tab {
+  return createMockTab({
+    id,
+    url,
+    title: `Title of ${id}`,
+    runJs: vi.fn().mockResolvedValue(true),
+  });
+}
+
+function createMockBrowser(): AgentBrowser & { tabs: Tab[] } {
+  const tabs = [browserTab("tab-1")];
+  let activeId = "tab-1";
+  return {
+    tabs,
+    get activeTab() {
+      return tabs.find((t) => t.id === activeId) ?? null;
+    },
+    get allTabs() {
+      return tabs;
+    },
+    createTab: vi.fn((url?: string) => {
+      const tab = browserTab(`tab-${tabs.length + 1}`, url);
+      tabs.push(tab);
+      return tab;
+    }),
+    switchActiveTab: vi.fn((tabId: string) => {
+      if (!tabs.some((t) => t.id === tabId)) return false;
+      activeId = tabId;
+      return true;
+    }),
+  };
+}
+
+function callOptions(toolCallId: string): ToolCallOptions {
+  return { toolCallId, messages: [] };
+}
+
+describe("createAgentTools", () => {
+  test("reports running then done steps for a successful action", async () => {
+    const steps: AgentStep[] = [];
+    const tools = createAgentTools(createMockBrowser(), (s) => steps.push(s));
+
+    await tools.navigate.execute?.(
+      { url: "example.org" },
+      callOptions("call-1"),
+    );
+
+    expect(steps.map((s) => [s.id, s.status])).toEqual([
+      ["call-1", "running"],
+      ["call-1", "done"],
+    ]);
+    expect(steps[0].description).toBe("Navigate to example.org");
+  });
+
+  test("navigate adds https:// to bare hosts", async () => {
+    const browser = createMockBrowser();
+    const tools = createAgentTools(browser, () => {});
+
+    await tools.navigate.execute?.({ url: "example.org" }, callOptions("c"));
+
+    expect(browser.tabs[0].loadURL).toHaveBeenCalledWith("https://example.org");
+  });
+
+  test("navigate and openTab refuse URLs that aren't http(s)", async () => {
+    const browser = createMockBrowser();
+    const tools = createAgentTools(browser, () => {});
+
+    for (const url of [
+      "file:///etc/passwd",
+      "javascript:alert(1)",
+      "chrome://settings",
+      "data:text/html,<p>hi</p>",
+    ]) {
+      await expect(
+        tools.navigate.execute?.({ url }, callOptions("c")),
+      ).rejects.toThrow("Only http and https URLs");
+      await expect(
+        tools.openTab.execute?.({ url }, callOptions("c")),
+      ).rejects.toThrow("Only http and https URLs");
+    }
+    await tools.navigate.execute?.({ url: "localhost:3000" }, callOptions("c"));
+
+    expect(browser.tabs[0].loadURL).toHaveBeenCalledTimes(1);
+    expect(browser.tabs[0].loadURL).toHaveBeenCalledWith(
+      "https://localhost:3000",
+    );
+    expect(browser.createTab).not.toHaveBeenCalled();
+  });
+
+  test("reports an error step and rethrows when the page action fails", async () => {
+    const browser = createMockBrowser();
+    (browser.tabs[0].runJs as ReturnType<typeof vi.fn>).mockRejectedValue(
+      new Error("Element not found: #missing"),
+    );
+    const steps: AgentStep[] = [];
+    const tools = createAgentTools(browser, (s) => steps.push(s));
+
+    await expect(
+      tools.fill.execute?.(
+        { selector: "#missing", value: "x" },
+        callOptions("call-2"),
+      ),
+    ).rejects.toThrow("Element not found");
+
+    expect(steps[steps.length - 1]).toMatchObject({
+      id: "call-2",
+      status: "error",
+      detail: "Element not found: #missing",
+    });
+  });
+
+  test("click requires a selector or text", async () => {
+    const tools = createAgentTools(createMockBrowser(), () => {});
+
+    await expect(
+      tools.click.execute?.({}, callOptions("call-3")),
+    ).rejects.toThrow("Provide a selector or text");
+  });
+
+  test("openTab creates a tab and makes it active", async () => {
+    const browser = createMockBrowser();
+    const tools = createAgentTools(browser, () => {});
+
+    const result = await tools.openTab.execute?.(
+      { url: "https://news.example/" },
+      callOptions("call-4"),
+    );
+
+    expect(browser.createTab).toHaveBeenCalledWith("https://news.example/");
+    expect(browser.activeTab?.id).toBe("tab-2");
+    expect(result).toMatchObject({ tabId: "tab-2" });
+  });
+
+  test("switchTab fails for unknown tab IDs", async () => {
+    const tools = createAgentTools(createMockBrowser(), () => {});
+
+    await expect(
+      tools.switchTab.execute?.({ tabId: "tab-9" }, callOptions("call-5")),
+    ).rejects.toThrow("No tab with ID tab-9");
+  });
+
+  test("waitForSelector throws when the element never appears", async () => {
+    const browser = createMockBrowser();
+    (browser.tabs[0].runJs as ReturnType<typeof vi.fn>).mockResolvedValue(
+      false,
+    );
+    const tools = createAgentTools(browser, () => {});
+
+    await expect(
+      tools.waitForSelector.execute?.(
+        { selector: ".results", timeoutMs: 100 },
+        callOptions("call-6"),
+      ),
+    ).rejects.toThrow("Timed out after 100ms");
+  });
+});
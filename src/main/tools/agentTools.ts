@@ -0,0 +1,347 @@
+import { tool, jsonSchema, type Tool, type ToolCallOptions } from "ai";
+import type { Tab } from "../Tab";
+import { PageActions, type ScrollDirection } from "../PageActions";
+
+const ACTION_SETTLE_MS = 500; // Give the page time to react to an action
+const DEFAULT_WAIT_TIMEOUT_MS = 5000;
+const MAX_WAIT_TIMEOUT_MS = 30000;
+
+/**
+ * The parts of the browser window the agent is allowed to drive.
+ * Implemented by Window.
+ */
+export interface AgentBrowser {
+  readonly activeTab: Tab | null;
+  readonly allTabs: Tab[];
+  createTab(url?: string): Tab;
+  switchActiveTab(tabId: string): boolean;
+}
+
+export type AgentStepStatus = "running" | "done" | "error";
+
+export interface AgentStep {
+  id: string; // Tool call ID
+  toolName: string;
+  description: string;
+  status: AgentStepStatus;
+  detail?: string; // Result summary or error message
+}
+
+export type AgentStepListener = (step: AgentStep) => void;
+
+export interface AgentActionResult {
+  success: true;
+  tabId: string;
+  url: string;
+  title: string;
+  detail?: string;
+}
+
+type AgentTool<INPUT> = Tool<INPUT, AgentActionResult>;
+
+export interface AgentTools {
+  navigate: AgentTool<{ url: string }>;
+  click: AgentTool<{ selector?: string; text?: string }>;
+  fill: AgentTool<{ selector: string; value: string }>;
+  pressKey: AgentTool<{ key: string }>;
+  scroll: AgentTool<{ direction: ScrollDirection; selector?: string }>;
+  waitForSelector: AgentTool<{ selector: string; timeoutMs?: number }>;
+  openTab: AgentTool<{ url: string }>;
+  switchTab: AgentTool<{ tabId: string }>;
+  listTabs: Tool<
+    unknown,
+    Array<{ id: string; title: string; url: string; isActive: boolean }>
+  >;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Only web pages: the model must not open local files, run javascript: URLs
+// or reach browser-internal pages
+function normalizeUrl(url: string): string {
+  const trimmed = url.trim();
+  // A scheme, but not the port in "localhost:3000"
+  const scheme = /^([a-z][a-z0-9+.-]*):(?!\d)/i.exec(trimmed)?.[1];
+  if (!scheme) {
+    return `https://${trimmed}`;
+  }
+  if (!/^https?$/i.test(scheme)) {
+    throw new Error(`Only http and https URLs can be opened, not ${scheme}:`);
+  }
+  return trimmed;
+}
+
+/**
+ * Tools that let the chat act in the browser: navigate, click, type and
+ * manage tabs. Every call is reported to `onStep` before and after it runs
+ * so the sidebar can show a live step log.
+ */
+export function createAgentTools(
+  browser: AgentBrowser,
+  onStep: AgentStepListener,
+): AgentTools {
+  const requireTab = (): Tab => {
+    const tab = browser.activeTab;
+    if (!tab) {
+      throw new Error("No active tab is open");
+    }
+    return tab;
+  };
+
+  const resultFor = (tab: Tab, detail?: string): AgentActionResult => ({
+    success: true,
+    tabId: tab.id,
+    url: tab.url,
+    title: tab.title,
+    detail,
+  });
+
+  // Wraps an action so its start and outcome show up in the step log
+  const withStep = <INPUT, OUTPUT>(
+    toolName: string,
+    describe: (input: INPUT) => string,
+    run: (input: INPUT) => Promise<OUTPUT>,
+  ) => {
+    return async (input: INPUT, options: ToolCallOptions): Promise<OUTPUT> => {
+      const step: AgentStep = {
+        id: options.toolCallId,
+        toolName,
+        description: describe(input),
+        status: "running",
+      };
+      onStep(step);
+      try {
+        const output = await run(input);
+        onStep({ ...step, status: "done" });
+        return output;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        onStep({ ...step, status: "error", detail: message });
+        throw error;
+      }
+    };
+  };
+
+  return {
+    navigate: tool({
+      description: "Navigate the active tab to a URL and wait for it to load.",
+      inputSchema: jsonSchema<{ url: string }>({
+        type: "object",
+        properties: {
+          url: { type: "string", description: "Absolute URL to open" },
+        },
+        required: ["url"],
+      }),
+      execute: withStep(
+        "navigate",
+        ({ url }) => `Navigate to ${url}`,
+        async ({ url }) => {
+          const tab = requireTab();
+          await tab.loadURL(normalizeUrl(url));
+          return resultFor(tab);
+        },
+      ),
+    }),
+    click: tool({
+      description:
+        "Click an element in the active tab, either by CSS selector or by its visible text (buttons, links, tabs). Provide exactly one of selector or text.",
+      inputSchema: jsonSchema<{ selector?: string; text?: string }>({
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector" },
+          text: {
+            type: "string",
+            description: "Visible text of the button or link",
+          },
+        },
+      }),
+      execute: withStep(
+        "click",
+        ({ selector, text }) =>
+          text ? `Click "${text}"` : `Click ${selector ?? "(nothing)"}`,
+        async ({ selector, text }) => {
+          const tab = requireTab();
+          let detail: string | undefined;
+          if (selector) {
+            await PageActions.click(tab, selector);
+          } else if (text) {
+            detail = `Clicked "${await PageActions.clickByText(tab, text)}"`;
+          } else {
+            throw new Error("Provide a selector or text to click");
+          }
+          await sleep(ACTION_SETTLE_MS);
+          return resultFor(tab, detail);
+        },
+      ),
+    }),
+    fill: tool({
+      description:
+        "Type a value into an input or textarea in the active tab, replacing its current value.",
+      inputSchema: jsonSchema<{ selector: string; value: string }>({
+        type: "object",
+        properties: {
+          selector: {
+            type: "string",
+            description: "CSS selector of the field",
+          },
+          value: { type: "string", description: "Text to enter" },
+        },
+        required: ["selector", "value"],
+      }),
+      execute: withStep(
+        "fill",
+        ({ selector }) => `Fill ${selector}`,
+        async ({ selector, value }) => {
+          const tab = requireTab();
+          await PageActions.fill(tab, selector, value);
+          await sleep(ACTION_SETTLE_MS);
+          return resultFor(tab);
+        },
+      ),
+    }),
+    pressKey: tool({
+      description:
+        "Press a key (e.g. Enter, Escape, Tab) on the focused element of the active tab. Enter submits the focused form.",
+      inputSchema: jsonSchema<{ key: string }>({
+        type: "object",
+        properties: {
+          key: { type: "string", description: "Key name, e.g. 'Enter'" },
+        },
+        required: ["key"],
+      }),
+      execute: withStep(
+        "pressKey",
+        ({ key }) => `Press ${key}`,
+        async ({ key }) => {
+          const tab = requireTab();
+          await PageActions.pressKey(tab, key);
+          await sleep(ACTION_SETTLE_MS);
+          return resultFor(tab);
+        },
+      ),
+    }),
+    scroll: tool({
+      description:
+        "Scroll the active tab up/down by a screen, to the top/bottom, or bring an element into view with a selector.",
+      inputSchema: jsonSchema<{
+        direction: ScrollDirection;
+        selector?: string;
+      }>({
+        type: "object",
+        properties: {
+          direction: {
+            type: "string",
+            enum: ["up", "down", "top", "bottom"],
+          },
+          selector: {
+            type: "string",
+            description: "Optional CSS selector to scroll into view",
+          },
+        },
+        required: ["direction"],
+      }),
+      execute: withStep(
+        "scroll",
+        ({ direction, selector }) =>
+          selector ? `Scroll to ${selector}` : `Scroll ${direction}`,
+        async ({ direction, selector }) => {
+          const tab = requireTab();
+          await PageActions.scroll(tab, direction, selector);
+          return resultFor(tab);
+        },
+      ),
+    }),
+    waitForSelector: tool({
+      description:
+        "Wait until an element matching a CSS selector appears in the active tab (e.g. after navigation or an async update).",
+      inputSchema: jsonSchema<{ selector: string; timeoutMs?: number }>({
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector" },
+          timeoutMs: {
+            type: "number",
+            description: `Maximum wait in milliseconds (default ${DEFAULT_WAIT_TIMEOUT_MS})`,
+          },
+        },
+        required: ["selector"],
+      }),
+      execute: withStep(
+        "waitForSelector",
+        ({ selector }) => `Wait for ${selector}`,
+        async ({ selector, timeoutMs }) => {
+          const tab = requireTab();
+          const timeout = Math.min(
+            timeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS,
+            MAX_WAIT_TIMEOUT_MS,
+          );
+          const found = await PageActions.waitForSelector(
+            tab,
+            selector,
+            timeout,
+          );
+          if (!found) {
+            throw new Error(
+              `Timed out after ${timeout}ms waiting for ${selector}`,
+            );
+          }
+          return resultFor(tab);
+        },
+      ),
+    }),
+    openTab: tool({
+      description: "Open a URL in a new tab and switch to it.",
+      inputSchema: jsonSchema<{ url: string }>({
+        type: "object",
+        properties: {
+          url: { type: "string", description: "Absolute URL to open" },
+        },
+        required: ["url"],
+      }),
+      execute: withStep(
+        "openTab",
+        ({ url }) => `Open new tab: ${url}`,
+        async ({ url }) => {
+          const tab = browser.createTab(normalizeUrl(url));
+          browser.switchActiveTab(tab.id);
+          return resultFor(tab);
+        },
+      ),
+    }),
+    switchTab: tool({
+      description:
+        "Switch to another open tab by its ID (use listTabs to find IDs).",
+      inputSchema: jsonSchema<{ tabId: string }>({
+        type: "object",
+        properties: {
+          tabId: { type: "string", description: "Tab ID, e.g. 'tab-2'" },
+        },
+        required: ["tabId"],
+      }),
+      execute: withStep(
+        "switchTab",
+        ({ tabId }) => `Switch to ${tabId}`,
+        async ({ tabId }) => {
+          if (!browser.switchActiveTab(tabId)) {
+            throw new Error(`No tab with ID ${tabId}`);
+          }
+          return resultFor(requireTab());
+        },
+      ),
+    }),
+    listTabs: tool({
+      description: "List the open tabs with their IDs, titles and URLs.",
+      inputSchema: jsonSchema({ type: "object", properties: {} }),
+      execute: async () => {
+        const activeId = browser.activeTab?.id;
+        return browser.allTabs.map((tab) => ({
+          id: tab.id,
+          title: tab.title,
+          url: tab.url,
+          isActive: tab.id === activeId,
+        }));
+      },
+    }),
+  };
+}
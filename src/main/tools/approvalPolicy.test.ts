@@ -0,0 +1,105 @@
+import { describe, test, expect } from "vitest";
+import { assessToolCall, type ToolCallFacts } from "./approvalPolicy";
+
+function facts(overrides: Partial<ToolCallFacts>): ToolCallFacts {
+  return {
+    toolName: "click",
+    input: {},
+    currentUrl: "https://shop.example/cart",
+    submitsForm: false,
+    navigatesTo: null,
+    hasSavedSession: () => false,
+    ...overrides,
+  };
+}
+
+describe("assessToolCall", () => {
+  test("read-only tools never need approval", () => {
+    const result = assessToolCall(
+      facts({ toolName: "readPageText", submitsForm: true }),
+    );
+
+    expect(result.reasons).toEqual([]);
+  });
+
+  test("plain clicks on the current site need no approval", () => {
+    const result = assessToolCall(
+      facts({ toolName: "click", input: { text: "Next page" } }),
+    );
+
+    expect(result.reasons).toEqual([]);
+    expect(result.domain).toBe("shop.example");
+  });
+
+  test("flags clicks that submit a form", () => {
+    const result = assessToolCall(
+      facts({ input: { text: "Place order" }, submitsForm: true }),
+    );
+
+    expect(result.reasons.map((r) => r.type)).toEqual(["form-submit"]);
+    expect(result.summary).toBe('Click "Place order"');
+  });
+
+  test("flags navigation to a new origin and scopes the rule to it", () => {
+    const result = assessToolCall(
+      facts({ toolName: "navigate", input: { url: "bank.example/login" } }),
+    );
+
+    expect(result.reasons.map((r) => r.type)).toEqual(["new-origin"]);
+    expect(result.domain).toBe("bank.example");
+  });
+
+  test("flags clicks and key presses that lead to another origin", () => {
+    const link = assessToolCall(
+      facts({
+        input: { text: "Partner offer" },
+        navigatesTo: "https://partner.example/deal",
+      }),
+    );
+    const enter = assessToolCall(
+      facts({
+        toolName: "pressKey",
+        input: { key: "Enter" },
+        submitsForm: true,
+        navigatesTo: "https://pay.example/charge",
+      }),
+    );
+    const local = assessToolCall(
+      facts({
+        input: { text: "Next page" },
+        navigatesTo: "https://shop.example/cart?page=2",
+      }),
+    );
+
+    expect(link.reasons.map((r) => r.type)).toEqual(["new-origin"]);
+    expect(link.domain).toBe("partner.example");
+    expect(enter.reasons.map((r) => r.type)).toEqual([
+      "form-submit",
+      "new-origin",
+    ]);
+    expect(local.reasons).toEqual([]);
+  });
+
+  test("allows navigation within the same origin", () => {
+    const result = assessToolCall(
+      facts({
+        toolName: "navigate",
+        input: { url: "https://shop.example/checkout" },
+      }),
+    );
+
+    expect(result.reasons).toEqual([]);
+  });
+
+  test("flags actions on a domain with a saved session", () => {
+    const result = assessToolCall(
+      facts({
+        toolName: "fill",
+        input: { selector: "#q", value: "shoes" },
+        hasSavedSession: (domain) => domain === "shop.example",
+      }),
+    );
+
+    expect(result.reasons.map((r) => r.type)).toEqual(["saved-session"]);
+  });
+});
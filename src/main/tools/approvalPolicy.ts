@@ -0,0 +1,110 @@
+export type ApprovalReasonType = "form-submit" | "new-origin" | "saved-session";
+
+export interface ApprovalReason {
+  type: ApprovalReasonType;
+  message: string;
+}
+
+/**
+ * Facts about a pending tool call, gathered from the page before it runs
+ */
+export interface ToolCallFacts {
+  toolName: string;
+  input: Record<string, unknown>;
+  currentUrl: string | null;
+  submitsForm: boolean; // The click / key press would submit a form
+  navigatesTo: string | null; // URL the click / key press would load
+  hasSavedSession: (domain: string) => boolean;
+}
+
+export interface ApprovalAssessment {
+  reasons: ApprovalReason[];
+  domain: string | null; // Domain the "always allow" rule applies to
+  summary: string;
+}
+
+// Tools that change page or browser state; read-only tools never need approval
+const ACTION_TOOLS = new Set([
+  "navigate",
+  "click",
+  "fill",
+  "pressKey",
+  "openTab",
+]);
+const NAVIGATION_TOOLS = new Set(["navigate", "openTab"]);
+
+function parseUrl(url: string | null | undefined): URL | null {
+  if (!url) return null;
+  try {
+    return new URL(/^[a-z][a-z0-9+.-]*:/i.test(url) ? url : `https://${url}`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One-line, human readable description of a tool call for the approval card
+ */
+export function describeToolCall(
+  toolName: string,
+  input: Record<string, unknown>,
+): string {
+  switch (toolName) {
+    case "navigate":
+      return `Navigate to ${input.url}`;
+    case "openTab":
+      return `Open ${input.url} in a new tab`;
+    case "click":
+      return input.text ? `Click "${input.text}"` : `Click ${input.selector}`;
+    case "fill":
+      return `Type into ${input.selector}`;
+    case "pressKey":
+      return `Press ${input.key}`;
+    default:
+      return `Run ${toolName}`;
+  }
+}
+
+/**
+ * Decide whether a tool call needs the user's approval.
+ * A call is risky when it submits a form, leaves the current origin, or
+ * acts on a domain with a saved (logged-in) session.
+ */
+export function assessToolCall(facts: ToolCallFacts): ApprovalAssessment {
+  const summary = describeToolCall(facts.toolName, facts.input);
+  if (!ACTION_TOOLS.has(facts.toolName)) {
+    return { reasons: [], domain: null, summary };
+  }
+
+  const reasons: ApprovalReason[] = [];
+  const current = parseUrl(facts.currentUrl);
+  // Where the call ends up: the URL asked for, or the link or form action
+  // a click / key press follows
+  const target = NAVIGATION_TOOLS.has(facts.toolName)
+    ? parseUrl(String(facts.input.url ?? ""))
+    : (parseUrl(facts.navigatesTo) ?? current);
+
+  if (facts.submitsForm) {
+    reasons.push({
+      type: "form-submit",
+      message: "This will submit a form",
+    });
+  }
+
+  if (target && target.origin !== current?.origin) {
+    reasons.push({
+      type: "new-origin",
+      message: `This leaves the current site for ${target.origin}`,
+    });
+  }
+
+  const domain = target?.hostname || null;
+  if (domain && facts.hasSavedSession(domain)) {
+    reasons.push({
+      type: "saved-session",
+      message: `You have a saved session on ${domain}`,
+    });
+  }
+
+  return { reasons, domain, summary };
+}
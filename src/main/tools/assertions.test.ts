@@ -0,0 +1,192 @@
+import { describe, test, expect } from "vitest";
+import {
+  MAX_ASSERT_TEXT,
+  assertionChoices,
+  assertionStatement,
+  checkElementState,
+  checkPageState,
+  elementStateSnippet,
+  matcherValue,
+  parseAssertion,
+  textMatcher,
+  type Assertion,
+  type AssertionChoice,
+} from "./assertions";
+import type { ElementPath } from "./elementPath";
+
+const page = { url: "https://example.com/cart", title: "Cart" };
+
+const quantity: ElementPath = {
+  framePath: ["iframe#checkout"],
+  shadowHosts: [],
+  query: { by: "label", text: "Quantity" },
+};
+
+describe("assertionChoices", () => {
+  test("offers value checks only for form fields", () => {
+    expect(
+      assertionChoices({ text: "Total", value: null }, page).map((c) => c.type),
+    ).toEqual(["assert_visible", "assert_text", "assert_url", "assert_title"]);
+    const input = assertionChoices({ text: "", value: "2" }, page);
+    expect(input.map((c) => c.type)).toContain("assert_value");
+    expect(input.find((c) => c.type === "assert_value")!.expected).toBe("2");
+  });
+
+  test("disables text checks without text or with too much of it", () => {
+    const text = (picked: string): AssertionChoice =>
+      assertionChoices({ text: picked, value: null }, page).find(
+        (c) => c.type === "assert_text",
+      )!;
+    expect(text("").enabled).toBe(false);
+    expect(text("x".repeat(MAX_ASSERT_TEXT + 1)).enabled).toBe(false);
+    expect(text("Total: 3 items").enabled).toBe(true);
+  });
+
+  test("takes the expected URL and title from the page", () => {
+    const choices = assertionChoices({ text: "", value: null }, page);
+    expect(choices.find((c) => c.type === "assert_url")!.expected).toBe(
+      page.url,
+    );
+    expect(choices.find((c) => c.type === "assert_title")!.expected).toBe(
+      "Cart",
+    );
+  });
+});
+
+describe("parseAssertion", () => {
+  test("round-trips generated statements", () => {
+    const cases: [Parameters<typeof assertionStatement>, Assertion][] = [
+      [["assert_visible", quantity, ""], { kind: "visible", path: quantity }],
+      [
+        ["assert_text", quantity, "It's\nhere"],
+        { kind: "text", path: quantity, expected: "It's\nhere" },
+      ],
+      [
+        ["assert_value", quantity, "2"],
+        { kind: "value", path: quantity, expected: "2" },
+      ],
+      [
+        ["assert_url", null, page.url],
+        { kind: "url", expected: { text: page.url } },
+      ],
+      [
+        ["assert_title", null, "Bob's cart"],
+        { kind: "title", expected: { text: "Bob's cart" } },
+      ],
+    ];
+    for (const [args, assertion] of cases) {
+      expect(parseAssertion(`  ${assertionStatement(...args)}`)).toEqual(
+        assertion,
+      );
+    }
+  });
+
+  test("accepts hand-written regexes for the URL and title", () => {
+    expect(
+      parseAssertion(
+        String.raw`await expect(page).toHaveURL(/\/orders\/\d+$/);`,
+      ),
+    ).toEqual({
+      kind: "url",
+      expected: { pattern: String.raw`\/orders\/\d+$`, flags: "" },
+    });
+    expect(parseAssertion("await expect(page).toHaveTitle(/cart/i);")).toEqual({
+      kind: "title",
+      expected: { pattern: "cart", flags: "i" },
+    });
+    expect(parseAssertion("await expect(page).toHaveTitle(/(/);")).toBeNull();
+  });
+
+  test("ignores other lines", () => {
+    expect(parseAssertion("await page.click('#go');")).toBeNull();
+    expect(
+      parseAssertion("await expect(page.locator('#a')).toBeChecked();"),
+    ).toBeNull();
+  });
+});
+
+describe("textMatcher", () => {
+  test("reads /pattern/flags values as regexes", () => {
+    expect(textMatcher("/orders\\/\\d+$/")).toEqual({
+      pattern: "orders\\/\\d+$",
+      flags: "",
+    });
+    expect(textMatcher("/cart/i")).toEqual({ pattern: "cart", flags: "i" });
+    expect(textMatcher("/(/")).toEqual({ text: "/(/" });
+    expect(textMatcher(page.url)).toEqual({ text: page.url });
+  });
+
+  test("round-trips through matcherValue", () => {
+    for (const value of ["/cart/i", page.url, "Bob's cart"]) {
+      expect(matcherValue(textMatcher(value))).toBe(value);
+    }
+  });
+
+  test("writes regex values as regex literals", () => {
+    expect(assertionStatement("assert_title", null, "/cart/i")).toBe(
+      "await expect(page).toHaveTitle(/cart/i);",
+    );
+  });
+});
+
+describe("checkElementState", () => {
+  const visible = { kind: "visible", path: quantity } as const;
+  const text = { kind: "text", path: quantity, expected: "Total 3" } as const;
+  const value = { kind: "value", path: quantity, expected: "2" } as const;
+
+  test("passes when the element matches", () => {
+    expect(checkElementState(visible, { found: true, visible: true })).toBe(
+      null,
+    );
+    expect(
+      checkElementState(text, { found: true, text: "\n  Total\n 3 " }),
+    ).toBe(null);
+    expect(checkElementState(value, { found: true, value: "2" })).toBe(null);
+  });
+
+  test("says what was expected and what was found", () => {
+    expect(checkElementState(visible, { found: false })).toBe(
+      "expected iframe#checkout >> label=Quantity to be visible, but no element matches it",
+    );
+    expect(checkElementState(visible, { found: true, visible: false })).toBe(
+      "expected iframe#checkout >> label=Quantity to be visible, but it is hidden",
+    );
+    expect(checkElementState(text, { found: true, text: "Total 4" })).toBe(
+      'expected iframe#checkout >> label=Quantity to have text "Total 3", but it has "Total 4"',
+    );
+    expect(checkElementState(value, { found: true, value: null })).toBe(
+      'expected iframe#checkout >> label=Quantity to have value "2", but it has no value',
+    );
+  });
+});
+
+describe("checkPageState", () => {
+  test("matches strings exactly and regexes anywhere", () => {
+    expect(
+      checkPageState({ kind: "url", expected: { text: page.url } }, page),
+    ).toBe(null);
+    expect(
+      checkPageState(
+        { kind: "url", expected: { pattern: "/cart$", flags: "" } },
+        page,
+      ),
+    ).toBe(null);
+    expect(
+      checkPageState({ kind: "title", expected: { text: "Checkout" } }, page),
+    ).toBe('expected the page title to be "Checkout", but it is "Cart"');
+    expect(
+      checkPageState(
+        { kind: "url", expected: { pattern: "orders", flags: "i" } },
+        page,
+      ),
+    ).toBe(
+      'expected the page URL to match /orders/i, but it is "https://example.com/cart"',
+    );
+  });
+});
+
+describe("elementStateSnippet", () => {
+  test("compiles", () => {
+    expect(() => new Function(elementStateSnippet(quantity))).not.toThrow();
+  });
+});
@@ -0,0 +1,291 @@
+import type { ActionType } from "../types/RecorderTypes";
+import {
+  describeElementPath,
+  findElementSnippet,
+  locatorChain,
+  parseLocator,
+  quote,
+  unquote,
+  type ElementPath,
+} from "./elementPath";
+
+export type AssertionType = Extract<ActionType, `assert_${string}`>;
+
+// Longer text is usually a whole section of the page, which makes a brittle
+// "has text" check
+export const MAX_ASSERT_TEXT = 200;
+
+// What the recorder reports about the element clicked in assert mode
+export interface PickedElement {
+  text: string; // Normalized textContent
+  value: string | null; // For inputs, selects and textareas
+}
+
+export interface AssertionChoice {
+  type: AssertionType;
+  label: string;
+  expected: string; // "" for assert_visible
+  enabled: boolean;
+}
+
+// Page-level assertions don't need the picked element
+export function isPageAssertion(type: ActionType): boolean {
+  return type === "assert_url" || type === "assert_title";
+}
+
+function truncate(text: string, length = 40): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+/**
+ * The assertions offered for a picked element, in menu order
+ */
+export function assertionChoices(
+  picked: PickedElement,
+  page: { url: string; title: string },
+): AssertionChoice[] {
+  const choices: AssertionChoice[] = [
+    {
+      type: "assert_visible",
+      label: "Is visible",
+      expected: "",
+      enabled: true,
+    },
+    {
+      type: "assert_text",
+      label: picked.text
+        ? `Has text "${truncate(picked.text)}"`
+        : "Has text (element has no text)",
+      expected: picked.text,
+      enabled: !!picked.text && picked.text.length <= MAX_ASSERT_TEXT,
+    },
+  ];
+  if (picked.value !== null) {
+    choices.push({
+      type: "assert_value",
+      label: `Has value "${truncate(picked.value)}"`,
+      expected: picked.value,
+      enabled: true,
+    });
+  }
+  choices.push(
+    {
+      type: "assert_url",
+      label: `URL matches ${truncate(page.url, 60)}`,
+      expected: page.url,
+      enabled: !!page.url,
+    },
+    {
+      type: "assert_title",
+      label: `Title matches "${truncate(page.title)}"`,
+      expected: page.title,
+      enabled: true,
+    },
+  );
+  return choices;
+}
+
+// The expected URL or title: a string must match exactly, a regex anywhere
+export type TextMatcher = { text: string } | { pattern: string; flags: string };
+
+export type Assertion =
+  | { kind: "visible"; path: ElementPath }
+  | { kind: "text"; path: ElementPath; expected: string }
+  | { kind: "value"; path: ElementPath; expected: string }
+  | { kind: "url"; expected: TextMatcher }
+  | { kind: "title"; expected: TextMatcher };
+
+const QUOTED = /^'((?:[^'\\]|\\.)*)'$/;
+const REGEX = /^\/(.+)\/([dgimsuy]*)$/;
+const PAGE_EXPECT =
+  /^await expect\(page\d*\)\.(toHaveURL|toHaveTitle)\((.+)\);/;
+const ELEMENT_EXPECT =
+  /^\)\.(?:(toBeVisible)\(\)|(toHaveText|toHaveValue)\('((?:[^'\\]|\\.)*)'\));/;
+
+/**
+ * The matcher for an assert_url or assert_title action's `value`. A value
+ * written as /pattern/flags is a regex, so a recording can check a URL
+ * that changes between runs.
+ */
+export function textMatcher(expected: string): TextMatcher {
+  return regexMatcher(expected) ?? { text: expected };
+}
+
+// The assert_url or assert_title `value` for a matcher
+export function matcherValue(matcher: TextMatcher): string {
+  return "text" in matcher
+    ? matcher.text
+    : `/${matcher.pattern}/${matcher.flags}`;
+}
+
+function regexMatcher(argument: string): TextMatcher | null {
+  const regex = argument.match(REGEX);
+  if (!regex) return null;
+  try {
+    new RegExp(regex[1], regex[2]);
+  } catch {
+    return null;
+  }
+  return { pattern: regex[1], flags: regex[2] };
+}
+
+// A regex is written as a regex literal, anything else as a string
+function matcherArgument(expected: string): string {
+  return regexMatcher(expected) ? expected : quote(expected);
+}
+
+/**
+ * The `expect(...)` statement for an assertion, e.g.
+ * `await expect(page.getByRole('heading', { name: 'Welcome', exact: true })).toBeVisible();`
+ */
+export function assertionStatement(
+  type: AssertionType,
+  path: ElementPath | null,
+  expected: string,
+  page = "page",
+): string {
+  switch (type) {
+    case "assert_url":
+      return `await expect(${page}).toHaveURL(${matcherArgument(expected)});`;
+    case "assert_title":
+      return `await expect(${page}).toHaveTitle(${matcherArgument(expected)});`;
+  }
+  const locator = path ? locatorChain(path, page) : `${page}.locator('body')`;
+  switch (type) {
+    case "assert_text":
+      return `await expect(${locator}).toHaveText(${quote(expected)});`;
+    case "assert_value":
+      return `await expect(${locator}).toHaveValue(${quote(expected)});`;
+    default:
+      return `await expect(${locator}).toBeVisible();`;
+  }
+}
+
+function parseMatcher(argument: string): TextMatcher | null {
+  const quoted = argument.match(QUOTED);
+  if (quoted) return { text: unquote(quoted[1]) };
+  return regexMatcher(argument);
+}
+
+/**
+ * Parse an `expect(...)` line written by assertionStatement. URL and title
+ * checks may also be hand-edited into a regex, e.g. `toHaveURL(/\/orders\/\d+/)`.
+ * @returns null if the line isn't an assertion this module understands
+ */
+export function parseAssertion(line: string): Assertion | null {
+  const trimmed = line.trim();
+  const page = trimmed.match(PAGE_EXPECT);
+  if (page) {
+    const expected = parseMatcher(page[2].trim());
+    if (!expected) return null;
+    return page[1] === "toHaveURL"
+      ? { kind: "url", expected }
+      : { kind: "title", expected };
+  }
+
+  const prefix = "await expect(";
+  if (!trimmed.startsWith(prefix)) return null;
+  const locator = parseLocator(trimmed.slice(prefix.length));
+  const check = locator?.rest.match(ELEMENT_EXPECT);
+  if (!locator || !check) return null;
+  if (check[1]) return { kind: "visible", path: locator.path };
+  const expected = unquote(check[3]);
+  return check[2] === "toHaveText"
+    ? { kind: "text", path: locator.path, expected }
+    : { kind: "value", path: locator.path, expected };
+}
+
+function describeMatcher(matcher: TextMatcher): string {
+  return "text" in matcher
+    ? `"${matcher.text}"`
+    : `/${matcher.pattern}/${matcher.flags}`;
+}
+
+export function matchesText(matcher: TextMatcher, actual: string): boolean {
+  return "text" in matcher
+    ? actual === matcher.text
+    : new RegExp(matcher.pattern, matcher.flags).test(actual);
+}
+
+// What elementStateSnippet reports about an assertion's element
+export interface ElementState {
+  found: boolean;
+  visible?: boolean;
+  text?: string;
+  value?: string | null;
+}
+
+/**
+ * In-page JS that evaluates to the ElementState of the path's first match
+ */
+export function elementStateSnippet(path: ElementPath): string {
+  return `
+      (function() {
+        ${findElementSnippet(path)}
+        if (!element) return { found: false };
+        const rect = element.getBoundingClientRect();
+        const style = element.ownerDocument.defaultView.getComputedStyle(element);
+        return {
+          found: true,
+          visible: rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden',
+          text: element.textContent || '',
+          value: 'value' in element && typeof element.value === 'string' ? element.value : null
+        };
+      })();
+    `;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * @returns Why an element assertion fails, or null if it passes
+ */
+export function checkElementState(
+  assertion: Extract<Assertion, { path: ElementPath }>,
+  state: ElementState,
+): string | null {
+  const element = describeElementPath(assertion.path);
+  const expectation =
+    assertion.kind === "visible"
+      ? "to be visible"
+      : `to have ${assertion.kind} "${assertion.expected}"`;
+  if (!state.found) {
+    return `expected ${element} ${expectation}, but no element matches it`;
+  }
+  switch (assertion.kind) {
+    case "visible":
+      return state.visible
+        ? null
+        : `expected ${element} ${expectation}, but it is hidden`;
+    case "text": {
+      // Like Playwright, compare with whitespace collapsed
+      const actual = normalizeText(state.text ?? "");
+      return actual === normalizeText(assertion.expected)
+        ? null
+        : `expected ${element} ${expectation}, but it has "${actual}"`;
+    }
+    case "value":
+      if (state.value === null || state.value === undefined) {
+        return `expected ${element} ${expectation}, but it has no value`;
+      }
+      return state.value === assertion.expected
+        ? null
+        : `expected ${element} ${expectation}, but it has "${state.value}"`;
+  }
+}
+
+/**
+ * @returns Why a URL or title assertion fails, or null if it passes
+ */
+export function checkPageState(
+  assertion: Extract<Assertion, { kind: "url" | "title" }>,
+  page: { url: string; title: string },
+): string | null {
+  const actual = assertion.kind === "url" ? page.url : page.title;
+  if (matchesText(assertion.expected, actual)) return null;
+  const subject = assertion.kind === "url" ? "the page URL" : "the page title";
+  const verb = "text" in assertion.expected ? "to be" : "to match";
+  return `expected ${subject} ${verb} ${describeMatcher(assertion.expected)}, but it is "${actual}"`;
+}
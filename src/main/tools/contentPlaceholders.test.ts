@@ -0,0 +1,37 @@
+import { describe, test, expect } from "vitest";
+import {
+  escapeLiteral,
+  formatContentPlaceholder,
+  parseContentPlaceholder,
+  unescapeLiteral,
+} from "./contentPlaceholders";
+
+describe("parseContentPlaceholder", () => {
+  test("round-trips placeholders and leaves plain values alone", () => {
+    expect(parseContentPlaceholder(formatContentPlaceholder("cv-upload"))).toBe(
+      "cv-upload",
+    );
+    expect(parseContentPlaceholder("/home/ada/cv.pdf")).toBeNull();
+    expect(parseContentPlaceholder("{{two words}}")).toBeNull();
+  });
+});
+
+describe("escapeLiteral", () => {
+  test("escapes values that would read as placeholders", () => {
+    for (const value of [
+      "{{name}}",
+      "{{secret:example.com/password}}",
+      "\\{{name}}",
+      "{{two words}}",
+    ]) {
+      const escaped = escapeLiteral(value);
+      expect(parseContentPlaceholder(escaped)).toBeNull();
+      expect(unescapeLiteral(escaped)).toBe(value);
+    }
+  });
+
+  test("leaves other values as they are", () => {
+    expect(escapeLiteral("Hello {{name}}")).toBe("Hello {{name}}");
+    expect(unescapeLiteral("\\n")).toBe("\\n");
+  });
+});
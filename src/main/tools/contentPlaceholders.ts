@@ -0,0 +1,31 @@
+// Content fields are written as `fill('{{name}}')` and uploads as
+// `setInputFiles('{{name}}')`; the value is given at replay time, from
+// ReplayOptions.content[name] (or, for uploads, a file dialog). A typed
+// value that would read as a placeholder is written with a leading `\`.
+const PLACEHOLDER = /^\{\{([\w-]+)\}\}$/;
+// Any `{{...}}` value (secrets too), behind any number of escapes
+const PLACEHOLDER_LIKE = /^\\*\{\{[\s\S]*\}\}$/;
+
+export function formatContentPlaceholder(name: string): string {
+  return `{{${name}}}`;
+}
+
+// @returns The placeholder's name, or null if `value` is a plain value
+export function parseContentPlaceholder(value: string): string | null {
+  return value.match(PLACEHOLDER)?.[1] ?? null;
+}
+
+/**
+ * A typed value as written to a script or replay step, escaped if it would
+ * otherwise be read back as a placeholder
+ */
+export function escapeLiteral(value: string): string {
+  return PLACEHOLDER_LIKE.test(value) ? `\\${value}` : value;
+}
+
+// Undoes escapeLiteral
+export function unescapeLiteral(value: string): string {
+  return PLACEHOLDER_LIKE.test(value) && value.startsWith("\\")
+    ? value.slice(1)
+    : value;
+}
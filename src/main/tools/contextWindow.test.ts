@@ -0,0 +1,57 @@
+import { describe, test, expect } from "vitest";
+import type { ChatMessage } from "../types/ChatTypes";
+import {
+  DEFAULT_CONTEXT_WINDOW,
+  contextWindowFor,
+  estimateTokens,
+  findCompactionSplit,
+} from "./contextWindow";
+
+function message(role: ChatMessage["role"], length: number): ChatMessage {
+  return {
+    id: `${role}-${Math.random()}`,
+    parentId: null,
+    role,
+    content: "x".repeat(length),
+    createdAt: 0,
+  };
+}
+
+describe("contextWindowFor", () => {
+  test("uses the configured size, then the known size, then the default", () => {
+    expect(contextWindowFor("gpt-4o", 32_000)).toBe(32_000);
+    expect(contextWindowFor("claude-3-5-haiku-20241022")).toBe(200_000);
+    expect(contextWindowFor("llama3.1")).toBe(DEFAULT_CONTEXT_WINDOW);
+  });
+});
+
+describe("estimateTokens", () => {
+  test("counts more tokens for providers with finer tokenizers", () => {
+    const text = "x".repeat(700);
+    expect(estimateTokens(text, "openai")).toBe(175);
+    expect(estimateTokens(text, "anthropic")).toBe(200);
+  });
+});
+
+describe("findCompactionSplit", () => {
+  // Each 396-char message is 99 + 4 = 103 tokens for OpenAI
+  const turns = [
+    message("user", 396),
+    message("assistant", 396),
+    message("user", 396),
+    message("assistant", 396),
+    message("user", 396),
+  ];
+
+  test("keeps as many whole turns as fit", () => {
+    expect(findCompactionSplit(turns, "openai", 320)).toBe(2);
+  });
+
+  test("always keeps the latest turn", () => {
+    expect(findCompactionSplit(turns, "openai", 10)).toBe(4);
+  });
+
+  test("returns 0 when everything fits", () => {
+    expect(findCompactionSplit(turns, "openai", 10_000)).toBe(0);
+  });
+});
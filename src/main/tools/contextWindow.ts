@@ -0,0 +1,82 @@
+import type { LLMProvider } from "../ProviderRegistry";
+import type { ChatMessage } from "../types/ChatTypes";
+
+// Models without a known size (mostly local ones) get a conservative window
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+const CONTEXT_WINDOWS: Record<string, number> = {
+  "gpt-4o": 128_000,
+  "gpt-4o-mini": 128_000,
+  "gpt-4.1": 1_047_576,
+  "gpt-4.1-mini": 1_047_576,
+  "claude-3-5-sonnet-20241022": 200_000,
+  "claude-3-5-haiku-20241022": 200_000,
+  "claude-3-7-sonnet-20250219": 200_000,
+  "gemini-2.5-flash": 1_048_576,
+  "gemini-2.5-pro": 1_048_576,
+  "gemini-2.0-flash": 1_048_576,
+};
+
+// Rough tokenizer ratios; Claude's tokenizer splits English more finely
+const CHARS_PER_TOKEN: Partial<Record<LLMProvider, number>> = {
+  openai: 4,
+  google: 4,
+  anthropic: 3.5,
+};
+const DEFAULT_CHARS_PER_TOKEN = 3.5;
+
+// Role markers and separators each message costs on top of its text
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Context window of a model, in tokens
+ * @param override Size configured for the provider (e.g. a local server)
+ */
+export function contextWindowFor(model: string, override?: number): number {
+  return override ?? CONTEXT_WINDOWS[model] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Estimate tokens from character count. Errs high so the real count stays
+ * under budget.
+ */
+export function estimateTokens(text: string, provider: LLMProvider): number {
+  const charsPerToken = CHARS_PER_TOKEN[provider] ?? DEFAULT_CHARS_PER_TOKEN;
+  return Math.ceil(text.length / charsPerToken);
+}
+
+/**
+ * Tokens a message takes in the prompt, including any tool calls and
+ * results it carries
+ */
+export function estimateMessageTokens(
+  message: ChatMessage,
+  provider: LLMProvider,
+): number {
+  const text = message.responseMessages
+    ? JSON.stringify(message.responseMessages)
+    : message.content;
+  return estimateTokens(text, provider) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Where to cut history so the newest turns fit in `keepBudget` tokens.
+ * Turns are kept whole: the kept part starts at a user message. The last
+ * turn is always kept, even if it's over budget on its own.
+ * @returns Index of the first message to keep; 0 if nothing can be cut
+ */
+export function findCompactionSplit(
+  messages: ChatMessage[],
+  provider: LLMProvider,
+  keepBudget: number,
+): number {
+  let split = 0;
+  let kept = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    kept += estimateMessageTokens(messages[i], provider);
+    if (messages[i].role !== "user") continue;
+    if (kept > keepBudget && split > 0) break;
+    split = i;
+  }
+  return split;
+}
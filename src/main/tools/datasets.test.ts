@@ -0,0 +1,96 @@
+import { describe, test, expect } from "vitest";
+import {
+  contentPlaceholders,
+  defaultColumnMapping,
+  parseDataset,
+  rowContent,
+  uploadPlaceholders,
+} from "./datasets";
+import type { RecordedAction } from "../types/RecorderTypes";
+
+describe("parseDataset", () => {
+  test("reads CSV with quoted commas, quotes and newlines", () => {
+    const csv =
+      '\uFEFFtitle,body\r\n"Hello, world","She said ""hi""\nthen left"\r\n\r\nPlain,\n';
+    expect(parseDataset("articles.csv", csv)).toEqual({
+      columns: ["title", "body"],
+      rows: [
+        { title: "Hello, world", body: 'She said "hi"\nthen left' },
+        { title: "Plain", body: "" },
+      ],
+    });
+  });
+
+  test("fills short CSV rows and names blank headers", () => {
+    expect(parseDataset("data.CSV", "a,\n1")).toEqual({
+      columns: ["a", "column2"],
+      rows: [{ a: "1", column2: "" }],
+    });
+  });
+
+  test("reads a JSON array of objects as text", () => {
+    expect(
+      parseDataset(
+        "rows.json",
+        JSON.stringify([
+          { name: "Ada", age: 36 },
+          { name: "Bob", tags: ["a"], note: null },
+        ]),
+      ),
+    ).toEqual({
+      columns: ["name", "age", "tags", "note"],
+      rows: [
+        { name: "Ada", age: "36", tags: "", note: "" },
+        { name: "Bob", age: "", tags: '["a"]', note: "" },
+      ],
+    });
+  });
+
+  test("rejects other files and shapes", () => {
+    expect(() => parseDataset("rows.txt", "a")).toThrow(/\.csv or \.json/);
+    expect(() => parseDataset("rows.json", '{"a":1}')).toThrow(/array/);
+    expect(() => parseDataset("rows.json", "[1]")).toThrow(/Row 1/);
+    expect(() => parseDataset("rows.csv", "")).toThrow(/empty/);
+  });
+});
+
+describe("placeholders and columns", () => {
+  const action = (fields: Partial<RecordedAction>): RecordedAction => ({
+    id: "a",
+    type: "input",
+    timestamp: 0,
+    url: "https://example.com",
+    ...fields,
+  });
+
+  test("lists content fields and uploads once each", () => {
+    const actions = [
+      action({ isContentField: true, contentPlaceholder: "article-title" }),
+      action({ value: "not a placeholder" }),
+      action({ type: "upload", contentPlaceholder: "cover" }),
+      action({ type: "upload" }),
+      action({ isContentField: true, contentPlaceholder: "article-title" }),
+      action({ type: "upload", contentPlaceholder: "cover" }),
+    ];
+    expect(contentPlaceholders(actions)).toEqual([
+      "article-title",
+      "cover",
+      "file",
+    ]);
+    expect(uploadPlaceholders(actions)).toEqual(["cover", "file"]);
+  });
+
+  test("maps placeholders to columns with matching names", () => {
+    const mapping = defaultColumnMapping(
+      ["article-title", "cover", "body"],
+      ["Article Title", "Cover", "text"],
+    );
+    expect(mapping).toEqual({
+      "article-title": "Article Title",
+      cover: "Cover",
+    });
+    expect(
+      rowContent({ "Article Title": "Hi", Cover: "/tmp/a.png" }, mapping),
+    ).toEqual({ "article-title": "Hi", cover: "/tmp/a.png" });
+  });
+});
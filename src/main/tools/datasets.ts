@@ -0,0 +1,171 @@
+import * as path from "path";
+import type { RecordedAction } from "../types/RecorderTypes";
+
+// Rows to replay a recording with, one replay each. Every value is a string,
+// like ReplayOptions.content's text values.
+export interface Dataset {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+/**
+ * Read a CSV file (first row is the header) or a JSON array of objects
+ * @throws Error if the file isn't CSV or JSON, or doesn't hold rows
+ */
+export function parseDataset(fileName: string, text: string): Dataset {
+  const content = text.replace(/^\uFEFF/, "");
+  switch (path.extname(fileName).toLowerCase()) {
+    case ".csv":
+      return csvDataset(content);
+    case ".json":
+      return jsonDataset(content);
+    default:
+      throw new Error(`Datasets must be .csv or .json files: ${fileName}`);
+  }
+}
+
+function csvDataset(text: string): Dataset {
+  const [header, ...records] = parseCsv(text);
+  if (!header) throw new Error("The CSV file is empty");
+  const columns = header.map((name, i) => name.trim() || `column${i + 1}`);
+  return {
+    columns,
+    rows: records.map((record) =>
+      Object.fromEntries(columns.map((column, i) => [column, record[i] ?? ""])),
+    ),
+  };
+}
+
+// RFC 4180 records: quoted fields may hold commas, quotes ("") and newlines.
+// Blank lines are skipped.
+function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRecord = (): void => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== "") records.push(record);
+    record = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) endRecord();
+  return records;
+}
+
+function jsonDataset(text: string): Dataset {
+  const data: unknown = JSON.parse(text);
+  if (!Array.isArray(data)) {
+    throw new Error("The JSON file must hold an array of objects");
+  }
+
+  const columns: string[] = [];
+  const rows = data.map((item, index) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      throw new Error(`Row ${index + 1} of the JSON file isn't an object`);
+    }
+    const row: Record<string, string> = {};
+    for (const [column, value] of Object.entries(item)) {
+      if (!columns.includes(column)) columns.push(column);
+      row[column] = cellText(value);
+    }
+    return row;
+  });
+  for (const row of rows) {
+    for (const column of columns) row[column] ??= "";
+  }
+  return { columns, rows };
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * The `{{name}}` placeholders a recording's replay content can fill: its
+ * content fields and uploads, in step order
+ */
+export function contentPlaceholders(actions: RecordedAction[]): string[] {
+  const names: string[] = [];
+  for (const action of actions) {
+    let name: string | undefined;
+    if (action.type === "upload") {
+      name = action.contentPlaceholder || "file";
+    } else if (action.type === "input" && action.isContentField) {
+      name = action.contentPlaceholder;
+    }
+    if (name && !names.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+/**
+ * The placeholders among contentPlaceholders that are uploads. Each batch row
+ * needs a file for these: replay would otherwise ask for one in a dialog.
+ */
+export function uploadPlaceholders(actions: RecordedAction[]): string[] {
+  const names = actions
+    .filter((action) => action.type === "upload")
+    .map((action) => action.contentPlaceholder || "file");
+  return [...new Set(names)];
+}
+
+/**
+ * Each placeholder's column, where one has the same name ignoring case,
+ * `-` and `_`
+ */
+export function defaultColumnMapping(
+  placeholders: string[],
+  columns: string[],
+): Record<string, string> {
+  const normalize = (name: string): string =>
+    name.toLowerCase().replace(/[-_\s]/g, "");
+  const mapping: Record<string, string> = {};
+  for (const placeholder of placeholders) {
+    const column = columns.find((c) => normalize(c) === normalize(placeholder));
+    if (column) mapping[placeholder] = column;
+  }
+  return mapping;
+}
+
+/**
+ * Replay content for one row
+ * @param mapping Placeholder name to column; unmapped placeholders are left
+ * out, so replay falls back to what was recorded
+ */
+export function rowContent(
+  row: Record<string, string>,
+  mapping: Record<string, string>,
+): Record<string, string> {
+  const content: Record<string, string> = {};
+  for (const [placeholder, column] of Object.entries(mapping)) {
+    if (column in row) content[placeholder] = row[column];
+  }
+  return content;
+}
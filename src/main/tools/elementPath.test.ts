@@ -0,0 +1,254 @@
+import { describe, test, expect } from "vitest";
+import {
+  describeElementPath,
+  findElementSnippet,
+  isNested,
+  locatorChain,
+  locatorStatement,
+  pageVariableOf,
+  parseElementStep,
+  parseLocatorChain,
+  type ElementPath,
+  type ElementQuery,
+  type LocatorAction,
+} from "./elementPath";
+
+const nested: ElementPath = {
+  framePath: ["iframe#editor"],
+  shadowHosts: ["x-toolbar", "x-button.bold"],
+  query: { by: "css", selector: "button" },
+};
+
+// A node that answers CSS queries from a lookup table
+function fakeRoot(children: Record<string, object>): object {
+  return {
+    querySelector: (selector: string) => children[selector] ?? null,
+    querySelectorAll: (selector: string) =>
+      children[selector] ? [children[selector]] : [],
+  };
+}
+
+function runSnippet(path: ElementPath, document: object): unknown {
+  return new Function(
+    "document",
+    `${findElementSnippet(path)}\nreturn element;`,
+  )(document);
+}
+
+describe("isNested", () => {
+  test("is true only with frames or shadow hosts", () => {
+    expect(isNested(undefined)).toBe(false);
+    expect(isNested({ css: "#a", framePath: [], shadowHosts: [] })).toBe(false);
+    expect(isNested({ css: "#a", framePath: ["iframe"] })).toBe(true);
+    expect(isNested({ css: "#a", shadowHosts: ["x-app"] })).toBe(true);
+  });
+});
+
+describe("locatorChain", () => {
+  test("puts frames before shadow hosts and the selector", () => {
+    expect(locatorChain(nested)).toBe(
+      "page.frameLocator('iframe#editor').locator('x-toolbar').locator('x-button.bold').locator('button')",
+    );
+  });
+
+  test("writes getBy* locators with exact matching", () => {
+    expect(
+      locatorChain({
+        framePath: [],
+        shadowHosts: [],
+        query: { by: "role", role: "button", name: "Save" },
+      }),
+    ).toBe("page.getByRole('button', { name: 'Save', exact: true })");
+    expect(
+      locatorChain({
+        framePath: [],
+        shadowHosts: [],
+        query: { by: "label", text: "Email" },
+      }),
+    ).toBe("page.getByLabel('Email', { exact: true })");
+  });
+
+  test("escapes quotes and backslashes", () => {
+    expect(
+      locatorChain({
+        framePath: [],
+        shadowHosts: [],
+        query: { by: "css", selector: `[title='a\\b']` },
+      }),
+    ).toBe(`page.locator('[title=\\'a\\\\b\\']')`);
+  });
+});
+
+describe("parseLocatorChain", () => {
+  test("round-trips a chain with each action", () => {
+    const locator = locatorChain(nested);
+    expect(parseLocatorChain(`await ${locator}.click(); // "Bold"`)).toEqual({
+      path: nested,
+      action: { action: "click" },
+    });
+    expect(parseLocatorChain(`await ${locator}.fill('it\\'s\\nok');`)).toEqual({
+      path: nested,
+      action: { action: "fill", value: "it's\nok" },
+    });
+    expect(
+      parseLocatorChain(`await ${locator}.selectOption('de');`)?.action,
+    ).toEqual({ action: "selectOption", value: "de" });
+  });
+
+  test("round-trips pointer, checkbox, drag and upload actions", () => {
+    const target: ElementPath = {
+      framePath: [],
+      shadowHosts: [],
+      query: { by: "testId", testId: "trash" },
+    };
+    const actions: LocatorAction[] = [
+      { action: "dblclick" },
+      { action: "rightClick" },
+      { action: "hover" },
+      { action: "check" },
+      { action: "uncheck" },
+      { action: "setInputFiles", value: "{{avatar}}" },
+      { action: "dragTo", target },
+    ];
+    for (const action of actions) {
+      expect(parseLocatorChain(locatorStatement(nested, action))).toEqual({
+        path: nested,
+        action,
+      });
+    }
+    expect(locatorStatement(nested, { action: "rightClick" })).toContain(
+      ".click({ button: 'right' })",
+    );
+  });
+
+  test("parses getBy* locators", () => {
+    const queries: ElementQuery[] = [
+      { by: "testId", testId: "save" },
+      { by: "role", role: "button", name: "Don't save" },
+      { by: "label", text: "Email" },
+      { by: "placeholder", text: "Search…" },
+    ];
+    for (const query of queries) {
+      const path = { framePath: ["iframe"], shadowHosts: ["x-app"], query };
+      expect(
+        parseLocatorChain(`await ${locatorChain(path)}.click();`)?.path,
+      ).toEqual(path);
+    }
+  });
+
+  test("unescapes selectors", () => {
+    const path: ElementPath = {
+      framePath: [],
+      shadowHosts: [],
+      query: { by: "css", selector: `[title='x']` },
+    };
+    expect(
+      parseLocatorChain(`await ${locatorChain(path)}.click();`)?.path,
+    ).toEqual(path);
+  });
+
+  test("rejects other lines", () => {
+    expect(parseLocatorChain("await page.click('#a');")).toBeNull();
+    expect(
+      parseLocatorChain("await page.frameLocator('iframe').click();"),
+    ).toBeNull();
+    expect(
+      parseLocatorChain(
+        "await page.locator('x').frameLocator('iframe').locator('y').click();",
+      ),
+    ).toBeNull();
+    expect(parseLocatorChain("await page.locator('x').focus();")).toBeNull();
+  });
+});
+
+describe("parseElementStep", () => {
+  test("reads page-level commands as CSS paths", () => {
+    const css = (selector: string): ElementPath => ({
+      framePath: [],
+      shadowHosts: [],
+      query: { by: "css", selector },
+    });
+    expect(parseElementStep(`  await page.click('#save'); // "Save"`)).toEqual({
+      path: css("#save"),
+      action: { action: "click" },
+    });
+    expect(
+      parseElementStep(`await page.fill('[name="q"]', 'it\\'s');`),
+    ).toEqual({
+      path: css('[name="q"]'),
+      action: { action: "fill", value: "it's" },
+    });
+    expect(
+      parseElementStep(`await page.selectOption('select', 'de');`)?.action,
+    ).toEqual({ action: "selectOption", value: "de" });
+    expect(
+      parseElementStep(`await page.click('li', { button: 'right' });`)?.action,
+    ).toEqual({ action: "rightClick" });
+    expect(parseElementStep(`await page.uncheck('#terms');`)).toEqual({
+      path: css("#terms"),
+      action: { action: "uncheck" },
+    });
+    expect(
+      parseElementStep(`await page.setInputFiles('#cv', '{{cv}}');`)?.action,
+    ).toEqual({ action: "setInputFiles", value: "{{cv}}" });
+  });
+
+  test("reads locator chains and ignores other lines", () => {
+    const line = locatorStatement(nested, { action: "fill", value: "x" });
+    expect(parseElementStep(line)).toEqual({
+      path: nested,
+      action: { action: "fill", value: "x" },
+    });
+    expect(parseElementStep("await page.keyboard.press('Enter');")).toBeNull();
+  });
+
+  test("reads steps in other tabs", () => {
+    const line = locatorStatement(nested, { action: "click" }, "page2");
+    expect(line.startsWith("await page2.frameLocator(")).toBe(true);
+    expect(parseElementStep(line)?.path).toEqual(nested);
+    expect(pageVariableOf(line)).toBe("page2");
+    expect(parseElementStep(`await page1.check('#terms');`)?.action).toEqual({
+      action: "check",
+    });
+    expect(pageVariableOf("await expect(page1).toHaveTitle('x');")).toBe(
+      "page1",
+    );
+  });
+});
+
+describe("describeElementPath", () => {
+  test("joins every step", () => {
+    expect(describeElementPath(nested)).toBe(
+      "iframe#editor >> x-toolbar >> x-button.bold >> button",
+    );
+  });
+});
+
+describe("findElementSnippet", () => {
+  const button = { tagName: "BUTTON" };
+  const document = fakeRoot({
+    "iframe#editor": {
+      contentDocument: fakeRoot({
+        "x-toolbar": {
+          shadowRoot: fakeRoot({
+            "x-button.bold": { shadowRoot: fakeRoot({ button }) },
+          }),
+        },
+      }),
+    },
+  });
+
+  test("steps through frames and shadow roots", () => {
+    expect(runSnippet(nested, document)).toBe(button);
+  });
+
+  test("is null when a frame or shadow root can't be entered", () => {
+    const crossOrigin = fakeRoot({
+      "iframe#editor": { contentDocument: null },
+    });
+    expect(runSnippet(nested, crossOrigin)).toBeNull();
+    expect(
+      runSnippet({ ...nested, shadowHosts: ["x-missing"] }, document),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,366 @@
+import type { ElementSelector } from "../types/RecorderTypes";
+import { SELECTOR_ENGINE_JS } from "./selectorEngine";
+
+// How to find an element inside its document or shadow root. All but "css"
+// map to Playwright's getBy* locators with exact matching.
+export type ElementQuery =
+  | { by: "css"; selector: string }
+  | { by: "testId"; testId: string }
+  | { by: "role"; role: string; name: string }
+  | { by: "label"; text: string }
+  | { by: "placeholder"; text: string };
+
+// Where an element lives: the iframes and open shadow roots it is nested
+// in (outermost first), and how to find it inside the innermost one. Each
+// frame and host selector is relative to the document or shadow root that
+// contains it.
+export interface ElementPath {
+  framePath: string[];
+  shadowHosts: string[];
+  query: ElementQuery;
+}
+
+export type LocatorAction =
+  | {
+      action:
+        | "click"
+        | "dblclick"
+        | "rightClick"
+        | "hover"
+        | "check"
+        | "uncheck";
+    }
+  | { action: "fill" | "selectOption" | "setInputFiles"; value: string }
+  | { action: "dragTo"; target: ElementPath };
+
+const QUOTED = "'((?:[^'\\\\]|\\\\.)*)'";
+const EXACT = "\\s*,\\s*\\{\\s*exact:\\s*true\\s*\\}";
+const STEP = new RegExp(`^\\.(frameLocator|locator)\\(${QUOTED}\\)`);
+const BY_TEST_ID = new RegExp(`^\\.getByTestId\\(${QUOTED}\\)`);
+const BY_ROLE = new RegExp(
+  `^\\.getByRole\\(${QUOTED}\\s*,\\s*\\{\\s*name:\\s*${QUOTED}\\s*,\\s*exact:\\s*true\\s*\\}\\)`,
+);
+const BY_TEXT = new RegExp(
+  `^\\.(getByLabel|getByPlaceholder)\\(${QUOTED}(?:${EXACT})?\\)`,
+);
+const RIGHT_BUTTON = "\\{\\s*button:\\s*'right'\\s*\\}";
+const NO_ARGS = /^\.(click|dblclick|hover|check|uncheck)\(\)/;
+const RIGHT_CLICK = new RegExp(`^\\.click\\(${RIGHT_BUTTON}\\)`);
+const WITH_VALUE = new RegExp(
+  `^\\.(fill|selectOption|setInputFiles)\\(${QUOTED}\\)`,
+);
+const DRAG_TO = ".dragTo(";
+const PAGE_NO_ARGS = new RegExp(
+  `^await page\\d*\\.(click|dblclick|hover|check|uncheck)\\(${QUOTED}\\)`,
+);
+const PAGE_RIGHT_CLICK = new RegExp(
+  `^await page\\d*\\.click\\(${QUOTED}\\s*,\\s*${RIGHT_BUTTON}\\)`,
+);
+const PAGE_WITH_VALUE = new RegExp(
+  `^await page\\d*\\.(fill|selectOption|setInputFiles)\\(${QUOTED}\\s*,\\s*${QUOTED}\\)`,
+);
+
+// A page variable at the start of a locator: `page`, or `page1`, `page2`,
+// ... for the tabs a recording opened
+const PAGE = /^page\d*/;
+
+// True when the element is inside a frame or shadow root
+export function isNested(selector: ElementSelector | undefined): boolean {
+  return !!(selector?.framePath?.length || selector?.shadowHosts?.length);
+}
+
+export function quote(text: string): string {
+  return `'${text.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+export function unquote(text: string): string {
+  return text.replace(/\\([\\'nr])/g, (_, char: string) =>
+    char === "n" ? "\n" : char === "r" ? "\r" : char,
+  );
+}
+
+function queryStep(query: ElementQuery): string {
+  switch (query.by) {
+    case "css":
+      return `.locator(${quote(query.selector)})`;
+    case "testId":
+      return `.getByTestId(${quote(query.testId)})`;
+    case "role":
+      return `.getByRole(${quote(query.role)}, { name: ${quote(query.name)}, exact: true })`;
+    case "label":
+      return `.getByLabel(${quote(query.text)}, { exact: true })`;
+    case "placeholder":
+      return `.getByPlaceholder(${quote(query.text)}, { exact: true })`;
+  }
+}
+
+// Parse a getBy* step at the start of `text`
+function parseQueryStep(
+  text: string,
+): { query: ElementQuery; length: number } | null {
+  const testId = text.match(BY_TEST_ID);
+  if (testId) {
+    return {
+      query: { by: "testId", testId: unquote(testId[1]) },
+      length: testId[0].length,
+    };
+  }
+  const role = text.match(BY_ROLE);
+  if (role) {
+    return {
+      query: { by: "role", role: unquote(role[1]), name: unquote(role[2]) },
+      length: role[0].length,
+    };
+  }
+  const byText = text.match(BY_TEXT);
+  if (byText) {
+    return {
+      query: {
+        by: byText[1] === "getByLabel" ? "label" : "placeholder",
+        text: unquote(byText[2]),
+      },
+      length: byText[0].length,
+    };
+  }
+  return null;
+}
+
+/**
+ * Playwright locator for a path, e.g.
+ * `page.frameLocator('iframe#editor').locator('x-toolbar').getByRole('button', { name: 'Bold', exact: true })`.
+ * Playwright's locators pierce open shadow roots, so each host is a plain
+ * `.locator()` step.
+ */
+export function locatorChain(path: ElementPath, page = "page"): string {
+  const frames = path.framePath.map((s) => `.frameLocator(${quote(s)})`);
+  const hosts = path.shadowHosts.map((s) => `.locator(${quote(s)})`);
+  return `${page}${frames.join("")}${hosts.join("")}${queryStep(path.query)}`;
+}
+
+/**
+ * The page variable a script line acts on, e.g. "page1" for
+ * `await page1.getByText('Open').click();`; "page" if it names none
+ */
+export function pageVariableOf(line: string): string {
+  return line.match(/\b(page\d*)\b/)?.[1] ?? "page";
+}
+
+/**
+ * Parse a locator written with `locatorChain` at the start of `text`
+ * @returns The path and the text after the locator, or null if `text`
+ * doesn't start with one
+ */
+export function parseLocator(
+  text: string,
+): { path: ElementPath; rest: string } | null {
+  const page = text.match(PAGE);
+  if (!page) return null;
+  let rest = text.slice(page[0].length);
+
+  const framePath: string[] = [];
+  const locators: string[] = [];
+  for (let step = rest.match(STEP); step; step = rest.match(STEP)) {
+    // Frames always come before the locators inside them
+    if (step[1] === "frameLocator" && locators.length > 0) return null;
+    (step[1] === "frameLocator" ? framePath : locators).push(unquote(step[2]));
+    rest = rest.slice(step[0].length);
+  }
+
+  const getBy = parseQueryStep(rest);
+  if (getBy) {
+    return {
+      path: { framePath, shadowHosts: locators, query: getBy.query },
+      rest: rest.slice(getBy.length),
+    };
+  }
+  if (locators.length === 0) return null;
+  return {
+    path: {
+      framePath,
+      shadowHosts: locators.slice(0, -1),
+      query: { by: "css", selector: locators[locators.length - 1] },
+    },
+    rest,
+  };
+}
+
+/**
+ * Parse a script line written with `locatorChain`, such as
+ * `await page.frameLocator('iframe').getByLabel('Name', { exact: true }).fill('Ada');`
+ * @returns null if the line isn't a locator chain this module understands
+ */
+export function parseLocatorChain(
+  line: string,
+): { path: ElementPath; action: LocatorAction } | null {
+  const prefix = "await ";
+  const trimmed = line.trim();
+  if (!trimmed.startsWith(prefix)) return null;
+  const locator = parseLocator(trimmed.slice(prefix.length));
+  if (!locator) return null;
+
+  const action = parseLocatorAction(locator.rest);
+  return action ? { path: locator.path, action } : null;
+}
+
+// Parse the action call after a locator, e.g. `.fill('Ada')`
+function parseLocatorAction(text: string): LocatorAction | null {
+  if (RIGHT_CLICK.test(text)) return { action: "rightClick" };
+  const noArgs = text.match(NO_ARGS);
+  if (noArgs) {
+    return {
+      action: noArgs[1] as "click" | "dblclick" | "hover" | "check" | "uncheck",
+    };
+  }
+  const withValue = text.match(WITH_VALUE);
+  if (withValue) {
+    return {
+      action: withValue[1] as "fill" | "selectOption" | "setInputFiles",
+      value: unquote(withValue[2]),
+    };
+  }
+  if (text.startsWith(DRAG_TO)) {
+    const target = parseLocator(text.slice(DRAG_TO.length));
+    if (target?.rest.startsWith(")")) {
+      return { action: "dragTo", target: target.path };
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse a script line that acts on an element: a page-level command such as
+ * `page.click('css')` or `page.fill('css', 'value')`, or a locator chain
+ * @returns null for any other line
+ */
+export function parseElementStep(
+  line: string,
+): { path: ElementPath; action: LocatorAction } | null {
+  const trimmed = line.trim();
+  const cssPath = (selector: string): ElementPath => ({
+    framePath: [],
+    shadowHosts: [],
+    query: { by: "css", selector },
+  });
+  const rightClick = trimmed.match(PAGE_RIGHT_CLICK);
+  if (rightClick) {
+    return {
+      path: cssPath(unquote(rightClick[1])),
+      action: { action: "rightClick" },
+    };
+  }
+  const noArgs = trimmed.match(PAGE_NO_ARGS);
+  if (noArgs) {
+    return {
+      path: cssPath(unquote(noArgs[2])),
+      action: {
+        action: noArgs[1] as
+          | "click"
+          | "dblclick"
+          | "hover"
+          | "check"
+          | "uncheck",
+      },
+    };
+  }
+  const withValue = trimmed.match(PAGE_WITH_VALUE);
+  if (withValue) {
+    return {
+      path: cssPath(unquote(withValue[2])),
+      action: {
+        action: withValue[1] as "fill" | "selectOption" | "setInputFiles",
+        value: unquote(withValue[3]),
+      },
+    };
+  }
+  return parseLocatorChain(trimmed);
+}
+
+// The locator-chain statement for an action, e.g.
+// `await page.getByLabel('Email', { exact: true }).fill('ada@example.com');`
+export function locatorStatement(
+  path: ElementPath,
+  action: LocatorAction,
+  page = "page",
+): string {
+  return `await ${locatorChain(path, page)}${actionCall(action, page)};`;
+}
+
+function actionCall(action: LocatorAction, page: string): string {
+  switch (action.action) {
+    case "rightClick":
+      return ".click({ button: 'right' })";
+    case "fill":
+    case "selectOption":
+    case "setInputFiles":
+      return `.${action.action}(${quote(action.value)})`;
+    case "dragTo":
+      return `.dragTo(${locatorChain(action.target, page)})`;
+    default:
+      return `.${action.action}()`;
+  }
+}
+
+export function sameQuery(a: ElementQuery, b: ElementQuery): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function describeQuery(query: ElementQuery): string {
+  switch (query.by) {
+    case "css":
+      return query.selector;
+    case "testId":
+      return `testId=${query.testId}`;
+    case "role":
+      return `role=${query.role}[name="${query.name}"]`;
+    case "label":
+      return `label=${query.text}`;
+    case "placeholder":
+      return `placeholder=${query.text}`;
+  }
+}
+
+// Short form for logs and errors, e.g. "iframe#editor >> x-toolbar >> #bold"
+export function describeElementPath(path: ElementPath): string {
+  return [
+    ...path.framePath,
+    ...path.shadowHosts,
+    describeQuery(path.query),
+  ].join(" >> ");
+}
+
+/**
+ * In-page JS that declares `findRoot(path)`: the document or open shadow
+ * root the path's query runs in, or null if a frame is cross-origin or a
+ * host is missing or has a closed shadow root
+ */
+export const FIND_ROOT_JS = `
+        function findRoot(path) {
+          let root = document;
+          for (const frameSelector of path.framePath) {
+            const frame = root.querySelector(frameSelector);
+            root = frame && frame.contentDocument; // null for cross-origin frames
+            if (!root) return null;
+          }
+          for (const hostSelector of path.shadowHosts) {
+            const host = root.querySelector(hostSelector);
+            root = host && host.shadowRoot; // null for closed shadow roots
+            if (!root) return null;
+          }
+          return root;
+        }`;
+
+/**
+ * In-page JS that declares `element` (the first match for `path`, or null).
+ * It steps into each same-origin frame's document, then each open shadow
+ * root.
+ */
+export function findElementSnippet(path: ElementPath): string {
+  return `
+        const element = (function(path) {
+          ${SELECTOR_ENGINE_JS}
+          ${FIND_ROOT_JS}
+
+          const root = findRoot(path);
+          return root ? queryAll(root, path.query)[0] || null : null;
+        })(${JSON.stringify(path)});`;
+}
@@ -0,0 +1,21 @@
+import { describe, test, expect } from "vitest";
+import { filePlaceholderName, mimeTypeFor } from "./fileUpload";
+
+describe("filePlaceholderName", () => {
+  test("uses the input's name, then its id", () => {
+    expect(filePlaceholderName({ name: "avatar", id: "upload" })).toBe(
+      "avatar",
+    );
+    expect(filePlaceholderName({ id: "cv-upload" })).toBe("cv-upload");
+    expect(filePlaceholderName({ name: "files[]" })).toBe("files__");
+    expect(filePlaceholderName({})).toBe("file");
+  });
+});
+
+describe("mimeTypeFor", () => {
+  test("knows common types and falls back to octet-stream", () => {
+    expect(mimeTypeFor("Photo.JPG")).toBe("image/jpeg");
+    expect(mimeTypeFor("report.pdf")).toBe("application/pdf");
+    expect(mimeTypeFor("archive.tar.xz")).toBe("application/octet-stream");
+  });
+});
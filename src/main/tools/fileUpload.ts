@@ -0,0 +1,37 @@
+import * as path from "path";
+
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".pdf": "application/pdf",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".json": "application/json",
+  ".html": "text/html",
+  ".zip": "application/zip",
+  ".mp4": "video/mp4",
+  ".mp3": "audio/mpeg",
+};
+
+/**
+ * Content placeholder name for a file input: its name or id, made safe for
+ * `{{...}}`, or "file"
+ */
+export function filePlaceholderName(input: {
+  name?: string;
+  id?: string;
+}): string {
+  const name = (input.name || input.id || "").replace(/[^\w-]/g, "_");
+  return name || "file";
+}
+
+export function mimeTypeFor(fileName: string): string {
+  return (
+    MIME_TYPES[path.extname(fileName).toLowerCase()] ??
+    "application/octet-stream"
+  );
+}
@@ -0,0 +1,99 @@
+import { describe, test, expect } from "vitest";
+import type { ChatMessage, Conversation } from "../types/ChatTypes";
+import {
+  activePath,
+  deepestLeaf,
+  normalizeConversation,
+  withBranchInfo,
+} from "./messageTree";
+
+function message(
+  id: string,
+  parentId: string | null,
+  createdAt: number,
+): ChatMessage {
+  return {
+    id,
+    parentId,
+    role: id.startsWith("u") ? "user" : "assistant",
+    content: id,
+    createdAt,
+  };
+}
+
+function conversation(
+  messages: ChatMessage[],
+  currentLeafId: string | null,
+): Conversation {
+  return {
+    id: "c1",
+    title: "Test",
+    createdAt: 0,
+    updatedAt: 0,
+    messages,
+    currentLeafId,
+  };
+}
+
+// u1 -> a1 -> u2 -> a2
+//          \-> u2b -> a2b
+const tree = [
+  message("u1", null, 1),
+  message("a1", "u1", 2),
+  message("u2", "a1", 3),
+  message("a2", "u2", 4),
+  message("u2b", "a1", 5),
+  message("a2b", "u2b", 6),
+];
+
+describe("activePath", () => {
+  test("walks from the root to the current leaf", () => {
+    expect(activePath(conversation(tree, "a2")).map((m) => m.id)).toEqual([
+      "u1",
+      "a1",
+      "u2",
+      "a2",
+    ]);
+  });
+
+  test("is empty without a current leaf", () => {
+    expect(activePath(conversation(tree, null))).toEqual([]);
+  });
+});
+
+describe("deepestLeaf", () => {
+  test("follows the newest reply down the branch", () => {
+    expect(deepestLeaf(tree, "u1")).toBe("a2b");
+    expect(deepestLeaf(tree, "u2")).toBe("a2");
+  });
+});
+
+describe("withBranchInfo", () => {
+  test("reports the position among siblings", () => {
+    const view = withBranchInfo(conversation(tree, "a2b"));
+    const edited = view.find((m) => m.id === "u2b");
+    expect(edited?.branch).toEqual({
+      index: 1,
+      count: 2,
+      siblingIds: ["u2", "u2b"],
+    });
+    expect(view[0].branch.count).toBe(1);
+  });
+});
+
+describe("normalizeConversation", () => {
+  test("chains messages saved before branching existed", () => {
+    const legacy = {
+      ...conversation([], null),
+      messages: [
+        { id: "m1", role: "user", content: "hi", createdAt: 1 },
+        { id: "m2", role: "assistant", content: "hello", createdAt: 2 },
+      ],
+      currentLeafId: undefined,
+    } as unknown as Conversation;
+
+    const normalized = normalizeConversation(legacy);
+    expect(normalized.currentLeafId).toBe("m2");
+    expect(normalized.messages.map((m) => m.parentId)).toEqual([null, "m1"]);
+  });
+});
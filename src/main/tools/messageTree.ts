@@ -0,0 +1,91 @@
+import type {
+  ChatMessage,
+  ChatMessageView,
+  Conversation,
+} from "../types/ChatTypes";
+
+/**
+ * Messages that share a parent, oldest first
+ */
+export function childrenOf(
+  messages: ChatMessage[],
+  parentId: string | null,
+): ChatMessage[] {
+  return messages
+    .filter((m) => m.parentId === parentId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * The visible branch: root to `currentLeafId`
+ */
+export function activePath(conversation: Conversation): ChatMessage[] {
+  const byId = new Map(conversation.messages.map((m) => [m.id, m]));
+  const path: ChatMessage[] = [];
+  let current = conversation.currentLeafId
+    ? byId.get(conversation.currentLeafId)
+    : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * Follow the newest reply from a message down to the end of its branch.
+ * Used when switching to a sibling so the whole branch below it shows.
+ */
+export function deepestLeaf(
+  messages: ChatMessage[],
+  messageId: string,
+): string {
+  let leafId = messageId;
+  for (;;) {
+    const children = childrenOf(messages, leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+}
+
+/**
+ * Annotate the visible branch with sibling info for the branch arrows
+ */
+export function withBranchInfo(conversation: Conversation): ChatMessageView[] {
+  return activePath(conversation).map((message) => {
+    const siblingIds = childrenOf(conversation.messages, message.parentId).map(
+      (m) => m.id,
+    );
+    const view: ChatMessageView & Pick<ChatMessage, "responseMessages"> = {
+      ...message,
+      branch: {
+        index: siblingIds.indexOf(message.id),
+        count: siblingIds.length,
+        siblingIds,
+      },
+    };
+    // Tool transcripts can be large and only the model needs them
+    delete view.responseMessages;
+    return view;
+  });
+}
+
+/**
+ * Upgrade conversations saved before branching existed: their messages
+ * were a flat list, so chain them in order and select the last one.
+ */
+export function normalizeConversation(
+  conversation: Conversation,
+): Conversation {
+  if (conversation.currentLeafId !== undefined) return conversation;
+  const messages = conversation.messages.map((message, index) => ({
+    ...message,
+    parentId: index > 0 ? conversation.messages[index - 1].id : null,
+  }));
+  return {
+    ...conversation,
+    messages,
+    currentLeafId:
+      messages.length > 0 ? messages[messages.length - 1].id : null,
+  };
+}
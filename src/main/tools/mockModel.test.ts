@@ -0,0 +1,106 @@
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import { APICallError, jsonSchema, stepCountIs, streamText, tool } from "ai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createMockModel, type MockFixtures } from "./mockModel";
+
+describe("createMockModel", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "mock-model-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function modelWith(
+    fixtures: MockFixtures,
+  ): ReturnType<typeof createMockModel> {
+    const fixturesPath = path.join(dir, "fixtures.json");
+    fs.writeFileSync(fixturesPath, JSON.stringify(fixtures));
+    return createMockModel(fixturesPath, "mock");
+  }
+
+  async function deltas(
+    model: ReturnType<typeof createMockModel>,
+    prompt: string,
+  ): Promise<string[]> {
+    const result = streamText({ model, prompt });
+    const chunks: string[] = [];
+    for await (const chunk of result.textStream) chunks.push(chunk);
+    return chunks;
+  }
+
+  test("streams the first matching response", async () => {
+    const model = modelWith({
+      responses: [
+        { match: "^hello", chunks: ["Hi ", "there"] },
+        { match: "weather", text: "Sunny and warm" },
+        { text: "Default" },
+      ],
+    });
+
+    expect(await deltas(model, "Hello!")).toEqual(["Hi ", "there"]);
+    expect(await deltas(model, "What's the WEATHER?")).toEqual([
+      "Sunny ",
+      "and ",
+      "warm",
+    ]);
+    expect((await deltas(model, "Anything else")).join("")).toBe("Default");
+  });
+
+  test("calls scripted tools, then answers with their result", async () => {
+    const model = modelWith({
+      responses: [
+        {
+          match: "page",
+          toolCalls: [{ toolName: "readPage", input: { max: 10 } }],
+          text: "The page says: {{toolResult}}",
+        },
+      ],
+    });
+    const inputs: unknown[] = [];
+    const result = streamText({
+      model,
+      prompt: "Summarise this page",
+      tools: {
+        readPage: tool({
+          inputSchema: jsonSchema<{ max: number }>({
+            type: "object",
+            properties: { max: { type: "number" } },
+          }),
+          execute: async (input) => {
+            inputs.push(input);
+            return "Welcome to Example";
+          },
+        }),
+      },
+      stopWhen: stepCountIs(2),
+    });
+
+    expect(await result.text).toBe("The page says: Welcome to Example");
+    expect(inputs).toEqual([{ max: 10 }]);
+  });
+
+  test("fails with the scripted status code", async () => {
+    const model = modelWith({
+      responses: [{ error: { statusCode: 429 } }],
+    });
+    const result = streamText({
+      model,
+      prompt: "Hi",
+      maxRetries: 0,
+      onError: () => {},
+    });
+
+    let error: unknown;
+    for await (const part of result.fullStream) {
+      if (part.type === "error") error = part.error;
+    }
+    expect(APICallError.isInstance(error)).toBe(true);
+    expect((error as APICallError).statusCode).toBe(429);
+  });
+});
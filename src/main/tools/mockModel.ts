@@ -0,0 +1,251 @@
+import * as fs from "fs";
+import * as path from "path";
+import { APICallError, type LanguageModel } from "ai";
+
+type MockModel = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<MockModel["doStream"]>[0];
+type Prompt = CallOptions["prompt"];
+type StreamPart =
+  Awaited<ReturnType<MockModel["doStream"]>>["stream"] extends ReadableStream<
+    infer Part
+  >
+    ? Part
+    : never;
+
+// One scripted reply. The first response whose `match` hits the latest user
+// message is used.
+export interface MockResponse {
+  match?: string; // Case-insensitive regex; omitted matches any prompt
+  text?: string; // Streamed word by word
+  chunks?: string[]; // Streamed exactly as given (wins over `text`)
+  // Called before answering; the answer is streamed once the results are
+  // back. `{{toolResult}}` in the answer is replaced with the last result.
+  toolCalls?: { toolName: string; input?: unknown }[];
+  // Fail the request instead, e.g. { "statusCode": 429 } to test fallbacks
+  error?: { statusCode: number; message?: string };
+  chunkDelayMs?: number;
+}
+
+export interface MockFixtures {
+  responses: MockResponse[];
+}
+
+const FALLBACK_RESPONSE: MockResponse = {
+  text: "This is a mock response. No fixture matched your message.",
+};
+
+const TOOL_RESULT_PLACEHOLDER = "{{toolResult}}";
+
+// Same rough ratio as contextWindow's estimate, so reported usage looks real
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Read a fixture file
+ * @throws Error if it can't be read or has no `responses` list
+ */
+export function loadMockFixtures(fixturesPath: string): MockFixtures {
+  const fixtures = JSON.parse(
+    fs.readFileSync(path.resolve(fixturesPath), "utf-8"),
+  ) as MockFixtures;
+  if (!Array.isArray(fixtures?.responses)) {
+    throw new Error(`Mock fixtures must have a "responses" list`);
+  }
+  return fixtures;
+}
+
+function partText(part: unknown): string {
+  if (typeof part !== "object" || part === null) return "";
+  const { type, text } = part as { type?: string; text?: unknown };
+  return type === "text" && typeof text === "string" ? text : "";
+}
+
+function lastUserIndex(prompt: Prompt): number {
+  return prompt.map((m) => m.role).lastIndexOf("user");
+}
+
+// Text of the message being answered
+export function latestUserText(prompt: Prompt): string {
+  const message = prompt[lastUserIndex(prompt)];
+  if (!message || typeof message.content === "string") return "";
+  return message.content.map(partText).join("");
+}
+
+export function findMockResponse(
+  fixtures: MockFixtures,
+  userText: string,
+): MockResponse {
+  return (
+    fixtures.responses.find(
+      (response) =>
+        !response.match || new RegExp(response.match, "i").test(userText),
+    ) ?? FALLBACK_RESPONSE
+  );
+}
+
+// Tool results the model has been sent since the latest user message
+function toolResultsSinceUser(prompt: Prompt): unknown[] {
+  return prompt.slice(lastUserIndex(prompt) + 1).flatMap((message) =>
+    message.role === "tool"
+      ? message.content.map((part) => {
+          const output = part.output as { value?: unknown };
+          return output.value;
+        })
+      : [],
+  );
+}
+
+function splitText(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+function answerChunks(
+  response: MockResponse,
+  toolResults: unknown[],
+): string[] {
+  const lastResult = toolResults.at(-1);
+  const resultText =
+    typeof lastResult === "string" ? lastResult : JSON.stringify(lastResult);
+  const fill = (chunk: string): string =>
+    chunk.split(TOOL_RESULT_PLACEHOLDER).join(resultText ?? "");
+  return (response.chunks ?? splitText(response.text ?? "")).map(fill);
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Work out what the scripted model says next: tool calls first (if the
+ * matched response has any and they haven't run yet), then the answer
+ * @throws APICallError if the response is scripted to fail
+ */
+export function mockReplyParts(
+  fixtures: MockFixtures,
+  prompt: Prompt,
+): StreamPart[] {
+  const userText = latestUserText(prompt);
+  const response = findMockResponse(fixtures, userText);
+  if (response.error) {
+    throw new APICallError({
+      message:
+        response.error.message ?? `Mock error ${response.error.statusCode}`,
+      url: "mock://fixtures",
+      requestBodyValues: {},
+      statusCode: response.error.statusCode,
+    });
+  }
+
+  const toolResults = toolResultsSinceUser(prompt);
+  const usage = {
+    inputTokens: estimateTokens(JSON.stringify(prompt)),
+    outputTokens: 0,
+    totalTokens: 0,
+  };
+  const parts: StreamPart[] = [{ type: "stream-start", warnings: [] }];
+
+  if (response.toolCalls?.length && toolResults.length === 0) {
+    response.toolCalls.forEach((call, index) => {
+      const input = JSON.stringify(call.input ?? {});
+      usage.outputTokens += estimateTokens(input);
+      parts.push({
+        type: "tool-call",
+        toolCallId: `mock-call-${index + 1}`,
+        toolName: call.toolName,
+        input,
+      });
+    });
+    usage.totalTokens = usage.inputTokens + usage.outputTokens;
+    parts.push({ type: "finish", finishReason: "tool-calls", usage });
+    return parts;
+  }
+
+  const chunks = answerChunks(response, toolResults);
+  parts.push({ type: "text-start", id: "mock-text" });
+  for (const delta of chunks) {
+    parts.push({ type: "text-delta", id: "mock-text", delta });
+  }
+  parts.push({ type: "text-end", id: "mock-text" });
+  usage.outputTokens = estimateTokens(chunks.join(""));
+  usage.totalTokens = usage.inputTokens + usage.outputTokens;
+  parts.push({ type: "finish", finishReason: "stop", usage });
+  return parts;
+}
+
+function toStream(
+  parts: StreamPart[],
+  delayMs: number,
+  signal?: AbortSignal,
+): ReadableStream<StreamPart> {
+  let index = 0;
+  return new ReadableStream<StreamPart>({
+    async pull(controller) {
+      if (signal?.aborted) {
+        controller.error(signal.reason);
+        return;
+      }
+      if (index >= parts.length) {
+        controller.close();
+        return;
+      }
+      if (delayMs > 0 && index > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+      controller.enqueue(parts[index++]);
+    },
+  });
+}
+
+/**
+ * A model that answers from a fixture file instead of calling a service.
+ * The file is re-read on every request so fixtures can be edited while the
+ * app runs.
+ */
+export function createMockModel(
+  fixturesPath: string,
+  modelId: string,
+): LanguageModel {
+  const model: MockModel = {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId,
+    supportedUrls: {},
+    doStream: async (options) => {
+      const fixtures = loadMockFixtures(fixturesPath);
+      const response = findMockResponse(
+        fixtures,
+        latestUserText(options.prompt),
+      );
+      return {
+        stream: toStream(
+          mockReplyParts(fixtures, options.prompt),
+          response.chunkDelayMs ?? 0,
+          options.abortSignal,
+        ),
+      };
+    },
+    doGenerate: async (options) => {
+      const parts = mockReplyParts(
+        loadMockFixtures(fixturesPath),
+        options.prompt,
+      );
+      const text = parts
+        .map((part) => (part.type === "text-delta" ? part.delta : ""))
+        .join("");
+      const finish = parts.find((part) => part.type === "finish");
+      return {
+        content: [
+          ...(text ? [{ type: "text" as const, text }] : []),
+          ...parts.filter((part) => part.type === "tool-call"),
+        ],
+        finishReason: finish?.finishReason ?? "stop",
+        usage: finish?.usage ?? {
+          inputTokens: 0,
+          outputTokens: 0,
+          totalTokens: 0,
+        },
+        warnings: [],
+      };
+    },
+  };
+  return model;
+}
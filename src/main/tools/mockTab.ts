@@ -0,0 +1,21 @@
+import { vi } from "vitest";
+import type { Tab } from "../Tab";
+
+/**
+ * Minimal Tab stand-in for tests: only the members the tools touch, each
+ * replaceable through `overrides`
+ */
+export function createMockTab(
+  overrides: Partial<Record<keyof Tab, unknown>> = {},
+): Tab {
+  return {
+    id: "tab-1",
+    url: "https://example.com/article",
+    title: "Example Article",
+    getTabText: vi.fn().mockResolvedValue("  Hello page  "),
+    runJs: vi.fn(),
+    screenshot: vi.fn(),
+    loadURL: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  } as unknown as Tab;
+}
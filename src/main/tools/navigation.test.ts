@@ -0,0 +1,107 @@
+import { describe, test, expect } from "vitest";
+import {
+  classifyNavigation,
+  pageStepStatement,
+  parsePageStep,
+  type HistoryState,
+  type PageStep,
+} from "./navigation";
+
+const A = "https://example.com/";
+const B = "https://example.com/b";
+const C = "https://example.com/c";
+
+const history = (index: number, ...urls: string[]): HistoryState => ({
+  index,
+  urls,
+});
+const browser = { pageInitiated: false, sameDocument: false };
+
+describe("classifyNavigation", () => {
+  test("skips the tab's first page", () => {
+    expect(classifyNavigation(history(-1), history(0, A), browser)).toBe(null);
+    expect(
+      classifyNavigation(history(0, "about:blank"), history(0, A), browser),
+    ).toBe(null);
+  });
+
+  test("tells history navigations from the address bar", () => {
+    expect(classifyNavigation(history(0, A), history(1, A, B), browser)).toBe(
+      "goto",
+    );
+    expect(
+      classifyNavigation(history(1, A, B), history(0, A, B), browser),
+    ).toBe("back");
+    expect(
+      classifyNavigation(history(0, A, B), history(1, A, B), browser),
+    ).toBe("forward");
+    expect(classifyNavigation(history(0, A), history(0, A), browser)).toBe(
+      "reload",
+    );
+  });
+
+  test("a new URL with one entry ahead is a goto, not a forward", () => {
+    expect(
+      classifyNavigation(history(0, A, B), history(1, A, C), browser),
+    ).toBe("goto");
+  });
+
+  test("waits for navigations the page started", () => {
+    const page = { pageInitiated: true, sameDocument: false };
+    expect(classifyNavigation(history(0, A), history(1, A, B), page)).toBe(
+      "wait",
+    );
+    expect(classifyNavigation(history(1, A, B), history(0, A, B), page)).toBe(
+      "wait",
+    );
+    expect(
+      classifyNavigation(history(0, A), history(1, A, B), {
+        pageInitiated: true,
+        sameDocument: true,
+      }),
+    ).toBe("wait");
+  });
+
+  test("ignores replaceState", () => {
+    expect(
+      classifyNavigation(history(0, A), history(0, B), {
+        pageInitiated: true,
+        sameDocument: true,
+      }),
+    ).toBe(null);
+  });
+});
+
+describe("parsePageStep", () => {
+  test("round-trips generated statements", () => {
+    const steps: PageStep[] = [
+      { kind: "goto", page: "page", url: "https://example.com/?q='a'" },
+      { kind: "wait", page: "page1", url: B },
+      { kind: "back", page: "page" },
+      { kind: "forward", page: "page2" },
+      { kind: "reload", page: "page" },
+      { kind: "waitForPopup", page: "page", popup: "page1" },
+      { kind: "popup", popup: "page1" },
+      { kind: "newPage", page: "page2" },
+      { kind: "bringToFront", page: "page1" },
+      { kind: "close", page: "page1" },
+    ];
+    for (const step of steps) {
+      expect(parsePageStep(`  ${pageStepStatement(step)}`)).toEqual(step);
+    }
+  });
+
+  test("reads the header's goto", () => {
+    expect(parsePageStep(`  await page.goto('${A}');`)).toEqual({
+      kind: "goto",
+      page: "page",
+      url: A,
+    });
+  });
+
+  test("ignores other lines", () => {
+    expect(parsePageStep("await page.click('#go');")).toBeNull();
+    expect(parsePageStep("const page1 = await page2Promise;")).toBeNull();
+    expect(parsePageStep("await page.goto(url);")).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+import type { NavigationKind } from "../types/RecorderTypes";
+import { quote, unquote } from "./elementPath";
+
+// A tab's session history, as read from webContents.navigationHistory
+export interface HistoryState {
+  index: number; // The current entry
+  urls: string[]; // All entries, oldest first
+}
+
+/**
+ * Work out how a recorded tab got from one history state to the next
+ * @param pageInitiated The page started the navigation (a link, form or
+ * script) rather than the address bar or the back/forward/reload buttons
+ * @param sameDocument pushState, replaceState or a fragment change
+ * @returns null for navigations that aren't steps of their own: the tab's
+ * first page (recorded when the tab is) and in-place URL rewrites
+ */
+export function classifyNavigation(
+  prev: HistoryState,
+  next: HistoryState,
+  {
+    pageInitiated,
+    sameDocument,
+  }: { pageInitiated: boolean; sameDocument: boolean },
+): NavigationKind | null {
+  if (!prev.urls.some((url) => url && url !== "about:blank")) return null;
+  if (sameDocument && next.index === prev.index) return null;
+  if (pageInitiated) return "wait";
+
+  const url = next.urls[next.index];
+  if (next.index < prev.index) return "back";
+  if (
+    next.index > prev.index &&
+    next.urls.length === prev.urls.length &&
+    prev.urls[next.index] === url
+  ) {
+    return "forward";
+  }
+  if (next.index === prev.index && prev.urls[prev.index] === url) {
+    return "reload";
+  }
+  return "goto";
+}
+
+// A script line that drives a tab rather than an element in it
+export type PageStep =
+  | { kind: "goto" | "wait"; page: string; url: string }
+  | { kind: "back" | "forward" | "reload"; page: string }
+  | { kind: "waitForPopup"; page: string; popup: string } // Before the step that opens it
+  | { kind: "popup"; popup: string }
+  | { kind: "newPage"; page: string }
+  | { kind: "bringToFront" | "close"; page: string };
+
+const PAGE = "(page\\d*)";
+const QUOTED = "'((?:[^'\\\\]|\\\\.)*)'";
+const WITH_URL = new RegExp(
+  `^await ${PAGE}\\.(goto|waitForURL)\\(${QUOTED}\\);`,
+);
+const NO_ARGS = new RegExp(
+  `^await ${PAGE}\\.(goBack|goForward|reload|bringToFront|close)\\(\\);`,
+);
+const WAIT_FOR_POPUP = new RegExp(
+  `^const ${PAGE}Promise = ${PAGE}\\.waitForEvent\\('popup'\\);`,
+);
+const POPUP = new RegExp(`^const ${PAGE} = await ${PAGE}Promise;`);
+const NEW_PAGE = new RegExp(
+  `^const ${PAGE} = await page\\d*\\.context\\(\\)\\.newPage\\(\\);`,
+);
+
+const METHODS = {
+  goto: "goto",
+  wait: "waitForURL",
+  back: "goBack",
+  forward: "goForward",
+  reload: "reload",
+  bringToFront: "bringToFront",
+  close: "close",
+} as const;
+
+/**
+ * The Playwright statement for a page step, e.g.
+ * `await page1.waitForURL('https://example.com/done');`
+ */
+export function pageStepStatement(step: PageStep): string {
+  switch (step.kind) {
+    case "goto":
+    case "wait":
+      return `await ${step.page}.${METHODS[step.kind]}(${quote(step.url)});`;
+    case "waitForPopup":
+      return `const ${step.popup}Promise = ${step.page}.waitForEvent('popup');`;
+    case "popup":
+      return `const ${step.popup} = await ${step.popup}Promise;`;
+    case "newPage":
+      return `const ${step.page} = await page.context().newPage();`;
+    default:
+      return `await ${step.page}.${METHODS[step.kind]}();`;
+  }
+}
+
+/**
+ * Parse a line written by pageStepStatement
+ * @returns null for any other line
+ */
+export function parsePageStep(line: string): PageStep | null {
+  const trimmed = line.trim();
+  const withUrl = trimmed.match(WITH_URL);
+  if (withUrl) {
+    return {
+      kind: withUrl[2] === "goto" ? "goto" : "wait",
+      page: withUrl[1],
+      url: unquote(withUrl[3]),
+    };
+  }
+  const noArgs = trimmed.match(NO_ARGS);
+  if (noArgs) {
+    const kind = (Object.keys(METHODS) as (keyof typeof METHODS)[]).find(
+      (k) => METHODS[k] === noArgs[2],
+    ) as "back" | "forward" | "reload" | "bringToFront" | "close";
+    return { kind, page: noArgs[1] };
+  }
+  const waitForPopup = trimmed.match(WAIT_FOR_POPUP);
+  if (waitForPopup) {
+    return {
+      kind: "waitForPopup",
+      page: waitForPopup[2],
+      popup: waitForPopup[1],
+    };
+  }
+  const popup = trimmed.match(POPUP);
+  if (popup && popup[1] === popup[2]) return { kind: "popup", popup: popup[1] };
+  const newPage = trimmed.match(NEW_PAGE);
+  if (newPage) return { kind: "newPage", page: newPage[1] };
+  return null;
+}
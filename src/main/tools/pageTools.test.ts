@@ -0,0 +1,156 @@
+import { describe, test, expect, vi } from "vitest";
+import type { Tab } from "../Tab";
+import {
+  readPageText,
+  readPageSelection,
+  getPageOutline,
+  capturePageScreenshot,
+  createPageTools,
+} from "./pageTools";
+import { createMockTab } from "./mockTab";
+
+interface MockImage {
+  getSize: () => { width: number; height: number };
+  resize: ReturnType<typeof vi.fn>;
+  toPNG: () => Buffer;
+}
+
+function createMockImage(width: number): MockImage {
+  const image: MockImage = {
+    getSize: () => ({ width, height: 800 }),
+    resize: vi.fn(() => createMockImage(1280)),
+    toPNG: () => Buffer.from(`png-${width}`),
+  };
+  return image;
+}
+
+describe("readPageText", () => {
+  test("returns trimmed text with url and title of the active tab", async () => {
+    const tab = createMockTab();
+
+    const result = await readPageText(() => tab);
+
+    expect(result).toEqual({
+      url: "https://example.com/article",
+      title: "Example Article",
+      text: "Hello page",
+      truncated: false,
+    });
+  });
+
+  test("truncates very long pages and flags the result", async () => {
+    const tab = createMockTab({
+      getTabText: vi.fn().mockResolvedValue("a".repeat(50000)),
+    });
+
+    const result = await readPageText(() => tab);
+
+    expect(result.truncated).toBe(true);
+    expect(result.text.length).toBe(20000);
+  });
+
+  test("throws a clear error when there is no active tab", async () => {
+    await expect(readPageText(() => null)).rejects.toThrow("No active tab");
+  });
+
+  test("resolves the tab on every call so it follows tab switches", async () => {
+    let current = createMockTab();
+    const provider = (): Tab => current;
+
+    await readPageText(provider);
+    current = createMockTab({
+      url: "https://other.example/",
+      getTabText: vi.fn().mockResolvedValue("Other"),
+    });
+    const result = await readPageText(provider);
+
+    expect(result.url).toBe("https://other.example/");
+    expect(result.text).toBe("Other");
+  });
+});
+
+describe("readPageSelection", () => {
+  test("returns matches reported by the page", async () => {
+    const tab = createMockTab({
+      runJs: vi.fn().mockResolvedValue({
+        matchCount: 2,
+        matches: [
+          { tag: "h2", text: "First" },
+          { tag: "h2", text: "Second" },
+        ],
+      }),
+    });
+
+    const result = await readPageSelection(() => tab, "h2");
+
+    expect(result.matchCount).toBe(2);
+    expect(result.matches.map((m) => m.text)).toEqual(["First", "Second"]);
+    // Selector must be embedded as a JSON string literal, not raw
+    expect((tab.runJs as ReturnType<typeof vi.fn>).mock.calls[0][0]).toContain(
+      '"h2"',
+    );
+  });
+
+  test("throws when the page reports an invalid selector", async () => {
+    const tab = createMockTab({
+      runJs: vi.fn().mockResolvedValue({ error: "Invalid CSS selector: ###" }),
+    });
+
+    await expect(readPageSelection(() => tab, "###")).rejects.toThrow(
+      "Invalid CSS selector",
+    );
+  });
+});
+
+describe("getPageOutline", () => {
+  test("returns headings and links along with the page identity", async () => {
+    const tab = createMockTab({
+      runJs: vi.fn().mockResolvedValue({
+        headings: [{ level: 1, text: "Title" }],
+        links: [{ text: "Docs", href: "https://example.com/docs" }],
+      }),
+    });
+
+    const result = await getPageOutline(() => tab);
+
+    expect(result).toEqual({
+      url: "https://example.com/article",
+      title: "Example Article",
+      headings: [{ level: 1, text: "Title" }],
+      links: [{ text: "Docs", href: "https://example.com/docs" }],
+    });
+  });
+});
+
+describe("capturePageScreenshot", () => {
+  test("returns a base64 PNG and downsizes wide captures", async () => {
+    const image = createMockImage(2560);
+    const tab = createMockTab({
+      screenshot: vi.fn().mockResolvedValue(image),
+    });
+
+    const result = await capturePageScreenshot(() => tab);
+
+    expect(image.resize).toHaveBeenCalledWith({ width: 1280 });
+    expect(result.mediaType).toBe("image/png");
+    expect(Buffer.from(result.data, "base64").toString()).toBe("png-1280");
+  });
+
+  test("screenshot tool is sent to the model as image content", () => {
+    const tools = createPageTools(() => null);
+
+    const output = tools.takePageScreenshot.toModelOutput?.({
+      url: "https://example.com/",
+      mediaType: "image/png",
+      data: "abc",
+    });
+
+    expect(output).toEqual({
+      type: "content",
+      value: [
+        { type: "text", text: "Screenshot of https://example.com/" },
+        { type: "media", data: "abc", mediaType: "image/png" },
+      ],
+    });
+  });
+});
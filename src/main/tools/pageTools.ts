@@ -0,0 +1,219 @@
+import { tool, jsonSchema, type Tool } from "ai";
+import type { Tab } from "../Tab";
+
+// Page text can be huge (e.g. long articles, infinite feeds); keep tool
+// results within a size the model can comfortably reason about.
+const MAX_TEXT_LENGTH = 20000;
+const MAX_SELECTION_MATCHES = 20;
+const MAX_OUTLINE_HEADINGS = 100;
+const MAX_OUTLINE_LINKS = 150;
+const MAX_SCREENSHOT_WIDTH = 1280;
+
+export interface PageTextResult {
+  url: string;
+  title: string;
+  text: string;
+  truncated: boolean;
+}
+
+export interface PageSelectionResult {
+  url: string;
+  selector: string;
+  matchCount: number;
+  matches: Array<{ tag: string; text: string }>;
+}
+
+export interface PageOutlineResult {
+  url: string;
+  title: string;
+  headings: Array<{ level: number; text: string }>;
+  links: Array<{ text: string; href: string }>;
+}
+
+export interface PageScreenshotResult {
+  url: string;
+  mediaType: "image/png";
+  data: string; // Base64 PNG
+}
+
+export interface PageTools {
+  readPageText: Tool<unknown, PageTextResult>;
+  readPageSelection: Tool<{ selector: string }, PageSelectionResult>;
+  getPageOutline: Tool<unknown, PageOutlineResult>;
+  takePageScreenshot: Tool<unknown, PageScreenshotResult>;
+}
+
+/**
+ * Returns the tab the tools should read from.
+ * Resolved on every call so tools always follow the tab the user is on.
+ */
+export type ActiveTabProvider = () => Tab | null;
+
+function requireTab(getActiveTab: ActiveTabProvider): Tab {
+  const tab = getActiveTab();
+  if (!tab) {
+    throw new Error("No active tab is open");
+  }
+  return tab;
+}
+
+function truncate(text: string, maxLength: number): [string, boolean] {
+  if (text.length <= maxLength) return [text, false];
+  return [text.slice(0, maxLength), true];
+}
+
+/**
+ * Reads the visible text of the active tab.
+ */
+export async function readPageText(
+  getActiveTab: ActiveTabProvider,
+): Promise<PageTextResult> {
+  const tab = requireTab(getActiveTab);
+  const raw = (await tab.getTabText()) ?? "";
+  const [text, truncated] = truncate(raw.trim(), MAX_TEXT_LENGTH);
+  return { url: tab.url, title: tab.title, text, truncated };
+}
+
+/**
+ * Reads the text of every element matching a CSS selector in the active tab.
+ * @throws Error if the selector is invalid
+ */
+export async function readPageSelection(
+  getActiveTab: ActiveTabProvider,
+  selector: string,
+): Promise<PageSelectionResult> {
+  const tab = requireTab(getActiveTab);
+  const result = (await tab.runJs(`
+    (function() {
+      let elements;
+      try {
+        elements = Array.from(document.querySelectorAll(${JSON.stringify(selector)}));
+      } catch (e) {
+        return { error: 'Invalid CSS selector: ' + ${JSON.stringify(selector)} };
+      }
+      return {
+        matchCount: elements.length,
+        matches: elements.slice(0, ${MAX_SELECTION_MATCHES}).map((el) => ({
+          tag: el.tagName.toLowerCase(),
+          text: (el.innerText || el.textContent || '').trim(),
+        })),
+      };
+    })();
+  `)) as
+    | { error: string }
+    | { matchCount: number; matches: Array<{ tag: string; text: string }> };
+
+  if ("error" in result) {
+    throw new Error(result.error);
+  }
+
+  const perMatchLimit = Math.floor(
+    MAX_TEXT_LENGTH / Math.max(result.matches.length, 1),
+  );
+  return {
+    url: tab.url,
+    selector,
+    matchCount: result.matchCount,
+    matches: result.matches.map((match) => ({
+      tag: match.tag,
+      text: truncate(match.text, perMatchLimit)[0],
+    })),
+  };
+}
+
+/**
+ * Builds a structural outline (headings and links) of the active tab.
+ */
+export async function getPageOutline(
+  getActiveTab: ActiveTabProvider,
+): Promise<PageOutlineResult> {
+  const tab = requireTab(getActiveTab);
+  const result = (await tab.runJs(`
+    (function() {
+      const clean = (s) => (s || '').replace(/\\s+/g, ' ').trim();
+      const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6'))
+        .map((h) => ({ level: Number(h.tagName.substring(1)), text: clean(h.innerText) }))
+        .filter((h) => h.text)
+        .slice(0, ${MAX_OUTLINE_HEADINGS});
+      const links = Array.from(document.querySelectorAll('a[href]'))
+        .map((a) => ({ text: clean(a.innerText || a.getAttribute('aria-label')), href: a.href }))
+        .filter((l) => l.text && l.href.startsWith('http'))
+        .slice(0, ${MAX_OUTLINE_LINKS});
+      return { headings, links };
+    })();
+  `)) as Pick<PageOutlineResult, "headings" | "links">;
+
+  return {
+    url: tab.url,
+    title: tab.title,
+    headings: result.headings,
+    links: result.links,
+  };
+}
+
+/**
+ * Captures the visible part of the active tab as a PNG.
+ */
+export async function capturePageScreenshot(
+  getActiveTab: ActiveTabProvider,
+): Promise<PageScreenshotResult> {
+  const tab = requireTab(getActiveTab);
+  let image = await tab.screenshot();
+  if (image.getSize().width > MAX_SCREENSHOT_WIDTH) {
+    image = image.resize({ width: MAX_SCREENSHOT_WIDTH });
+  }
+  return {
+    url: tab.url,
+    mediaType: "image/png",
+    data: image.toPNG().toString("base64"),
+  };
+}
+
+/**
+ * Chat tools that read the tab the user is currently looking at.
+ */
+export function createPageTools(getActiveTab: ActiveTabProvider): PageTools {
+  return {
+    readPageText: tool({
+      description:
+        "Read the visible text content of the web page in the user's active tab. Use when the user asks about the page they are looking at (summaries, questions about its content).",
+      inputSchema: jsonSchema({ type: "object", properties: {} }),
+      execute: () => readPageText(getActiveTab),
+    }),
+    readPageSelection: tool({
+      description:
+        "Read the text of the elements matching a CSS selector in the user's active tab. Use to inspect a specific part of the page (a table, an article body, a form).",
+      inputSchema: jsonSchema<{ selector: string }>({
+        type: "object",
+        properties: {
+          selector: {
+            type: "string",
+            description:
+              "CSS selector, e.g. 'article', 'table.results', '#main h2'",
+          },
+        },
+        required: ["selector"],
+      }),
+      execute: ({ selector }) => readPageSelection(getActiveTab, selector),
+    }),
+    getPageOutline: tool({
+      description:
+        "Get the outline of the user's active tab: its headings (with levels) and its links. Use to understand page structure or find where to navigate.",
+      inputSchema: jsonSchema({ type: "object", properties: {} }),
+      execute: () => getPageOutline(getActiveTab),
+    }),
+    takePageScreenshot: tool({
+      description:
+        "Take a screenshot of the visible area of the user's active tab. Use when layout, images or visual appearance matter.",
+      inputSchema: jsonSchema({ type: "object", properties: {} }),
+      execute: () => capturePageScreenshot(getActiveTab),
+      toModelOutput: (output: PageScreenshotResult) => ({
+        type: "content",
+        value: [
+          { type: "text", text: `Screenshot of ${output.url}` },
+          { type: "media", data: output.data, mediaType: output.mediaType },
+        ],
+      }),
+    }),
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, test, expect } from "vitest";
+import { findModelPrice, priceUsage } from "./pricing";
+
+describe("priceUsage", () => {
+  test("prices input and output tokens per million", () => {
+    const result = priceUsage("openai", "gpt-4o", {
+      inputTokens: 1_000_000,
+      outputTokens: 100_000,
+      totalTokens: 1_100_000,
+    });
+
+    expect(result).toEqual({
+      provider: "openai",
+      model: "gpt-4o",
+      inputTokens: 1_000_000,
+      outputTokens: 100_000,
+      totalTokens: 1_100_000,
+      cost: 3.5,
+    });
+  });
+
+  test("leaves the cost unset for unknown models", () => {
+    const result = priceUsage("openai-compatible", "llama3", {
+      inputTokens: 10,
+      outputTokens: 5,
+      totalTokens: undefined,
+    });
+
+    expect(result.cost).toBeNull();
+    expect(result.totalTokens).toBe(15);
+  });
+});
+
+describe("findModelPrice", () => {
+  test("configured prices win, provider-qualified keys first", () => {
+    const overrides = {
+      "gpt-4o": { input: 1, output: 2 },
+      "openai-compatible/llama3": { input: 0, output: 0 },
+    };
+
+    expect(findModelPrice("openai", "gpt-4o", overrides)).toEqual({
+      input: 1,
+      output: 2,
+    });
+    expect(findModelPrice("openai-compatible", "llama3", overrides)).toEqual({
+      input: 0,
+      output: 0,
+    });
+    expect(
+      findModelPrice("openai-compatible", "qwen2.5", overrides),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import type { LanguageModelUsage } from "ai";
+import type { MessageUsage, ModelPrice } from "../types/UsageTypes";
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+/**
+ * Published list prices (USD per million tokens) for the models offered in
+ * the model picker. Override or extend with `modelPrices` in settings.json.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "claude-3-5-sonnet-20241022": { input: 3, output: 15 },
+  "claude-3-5-haiku-20241022": { input: 0.8, output: 4 },
+  "claude-3-7-sonnet-20250219": { input: 3, output: 15 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  mock: { input: 0, output: 0 }, // Fixture replies don't cost anything
+};
+
+/**
+ * Price for a model. Overrides may be keyed by model ("gpt-4o") or by
+ * provider and model ("openai-compatible/llama3") to price local models.
+ * @returns null if the model has no known price
+ */
+export function findModelPrice(
+  provider: string,
+  model: string,
+  overrides: Record<string, ModelPrice> = {},
+): ModelPrice | null {
+  return (
+    overrides[`${provider}/${model}`] ??
+    overrides[model] ??
+    DEFAULT_MODEL_PRICES[model] ??
+    null
+  );
+}
+
+/**
+ * Token counts and cost for one model call
+ */
+export function priceUsage(
+  provider: string,
+  model: string,
+  usage: LanguageModelUsage,
+  overrides?: Record<string, ModelPrice>,
+): MessageUsage {
+  const inputTokens = usage.inputTokens ?? 0;
+  const outputTokens = usage.outputTokens ?? 0;
+  const price = findModelPrice(provider, model, overrides);
+  return {
+    provider,
+    model,
+    inputTokens,
+    outputTokens,
+    totalTokens: usage.totalTokens ?? inputTokens + outputTokens,
+    cost: price
+      ? (inputTokens * price.input + outputTokens * price.output) /
+        TOKENS_PER_PRICE_UNIT
+      : null,
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, test, expect } from "vitest";
+import {
+  DEFAULT_PROFILES,
+  DEFAULT_PROFILE_NAME,
+  normalizeProfile,
+  toolsForProfile,
+} from "./profiles";
+
+describe("normalizeProfile", () => {
+  test("fills in an ID and name and drops unknown tools", () => {
+    const profile = normalizeProfile(
+      {
+        name: "  ",
+        systemPrompt: " Be brief. ",
+        temperature: 5,
+        enabledTools: ["readPageText", "deleteEverything"],
+      },
+      ["readPageText", "getPageOutline"],
+    );
+
+    expect(profile).toEqual({
+      id: expect.any(String),
+      name: DEFAULT_PROFILE_NAME,
+      systemPrompt: "Be brief.",
+      temperature: 2,
+      enabledTools: ["readPageText"],
+    });
+  });
+
+  test("treats a missing tool list as all tools", () => {
+    const profile = normalizeProfile({ id: "p1", name: "Mine" }, []);
+    expect(profile.enabledTools).toBeNull();
+    expect(profile.id).toBe("p1");
+  });
+});
+
+describe("toolsForProfile", () => {
+  const tools = { readPageText: 1, getPageOutline: 2, getMyIpAddress: 3 };
+
+  test("keeps only enabled tools", () => {
+    const qa = DEFAULT_PROFILES.find((p) => p.id === "qa-tester")!;
+    expect(Object.keys(toolsForProfile(tools, qa))).toEqual([
+      "readPageText",
+      "getPageOutline",
+    ]);
+  });
+
+  test("keeps every tool when none are listed", () => {
+    const general = DEFAULT_PROFILES.find((p) => p.id === "general")!;
+    expect(toolsForProfile(tools, general)).toEqual(tools);
+  });
+});
@@ -0,0 +1,87 @@
+import { v4 as uuidv4 } from "uuid";
+import type { AssistantProfile } from "../SettingsStore";
+
+export const DEFAULT_PROFILE_NAME = "Untitled profile";
+
+/**
+ * Profiles offered before the user has customised any
+ */
+export const DEFAULT_PROFILES: AssistantProfile[] = [
+  {
+    id: "general",
+    name: "General",
+    systemPrompt: `You are the assistant built into Blueberry Browser, a desktop web browser.
+Answer concisely. When a question is about the page the user is on, read it with the page tools instead of guessing.`,
+    enabledTools: null,
+  },
+  {
+    id: "research",
+    name: "Research",
+    systemPrompt: `You are a research assistant working in the user's browser.
+Read the current page before answering questions about it. Separate what the page states from your own inferences, quote the relevant passages, and mention the page title and URL you used.
+Point out when sources disagree or information looks outdated.`,
+    temperature: 0.2,
+    enabledTools: [
+      "readPageText",
+      "readPageSelection",
+      "getPageOutline",
+      "takePageScreenshot",
+    ],
+  },
+  {
+    id: "qa-tester",
+    name: "QA tester",
+    systemPrompt: `You are a meticulous QA tester reviewing the web page the user has open.
+Look for broken layouts, confusing copy, missing labels, accessibility problems and anything that behaves unexpectedly.
+Report each issue with: summary, steps to reproduce, expected vs. actual result, and severity (low, medium, high).`,
+    temperature: 0.2,
+    enabledTools: ["readPageText", "getPageOutline", "takePageScreenshot"],
+  },
+  {
+    id: "content-editor",
+    name: "Content editor",
+    systemPrompt: `You are a careful content editor.
+Improve clarity, grammar, structure and tone while keeping the author's voice and meaning. Return the edited text first, then a short list of the main changes.
+When the user refers to selected text or the page, read it with the page tools.`,
+    temperature: 0.7,
+    enabledTools: ["readPageSelection", "readPageText"],
+  },
+];
+
+/**
+ * Clean up a profile coming from the sidebar
+ * @param toolNames Tools that exist; others are dropped from `enabledTools`
+ */
+export function normalizeProfile(
+  profile: Partial<AssistantProfile>,
+  toolNames: string[],
+): AssistantProfile {
+  const temperature =
+    typeof profile.temperature === "number"
+      ? Math.min(Math.max(profile.temperature, 0), 2)
+      : undefined;
+  return {
+    id: profile.id || uuidv4(),
+    name: profile.name?.trim() || DEFAULT_PROFILE_NAME,
+    systemPrompt: profile.systemPrompt?.trim() ?? "",
+    ...(profile.model && { model: profile.model }),
+    ...(temperature !== undefined && { temperature }),
+    enabledTools: Array.isArray(profile.enabledTools)
+      ? profile.enabledTools.filter((name) => toolNames.includes(name))
+      : null,
+  };
+}
+
+/**
+ * The subset of `tools` a profile has enabled
+ */
+export function toolsForProfile<TOOLS extends Record<string, unknown>>(
+  tools: TOOLS,
+  profile: AssistantProfile,
+): Partial<TOOLS> {
+  const enabled = profile.enabledTools;
+  if (!enabled) return tools;
+  return Object.fromEntries(
+    Object.entries(tools).filter(([name]) => enabled.includes(name)),
+  ) as Partial<TOOLS>;
+}
@@ -0,0 +1,202 @@
+import { describe, test, expect } from "vitest";
+import { mergeInputRuns, replaySteps, usesTabActions } from "./replaySteps";
+import type { ElementPath } from "./elementPath";
+import type { RecordedAction } from "../types/RecorderTypes";
+
+let nextId = 0;
+function action(
+  type: RecordedAction["type"],
+  fields: Partial<RecordedAction> = {},
+): RecordedAction {
+  return {
+    id: `a${++nextId}`,
+    type,
+    timestamp: 0,
+    url: "https://example.com",
+    tab: "page",
+    ...fields,
+  };
+}
+
+function cssPath(selector: string): ElementPath {
+  return { framePath: [], shadowHosts: [], query: { by: "css", selector } };
+}
+
+describe("replaySteps", () => {
+  test("fills each run of typing in a field once, with the final value", () => {
+    const q = { css: "#q" };
+    const actions = [
+      action("input", { selector: q, value: "k" }),
+      action("input", { selector: q, value: "kit" }),
+      action("click", { selector: { css: "#go" } }),
+      action("input", { selector: q, value: "kittens" }),
+    ];
+    expect(replaySteps(actions)).toEqual([
+      {
+        actionIndex: 1,
+        step: {
+          kind: "element",
+          page: "page",
+          path: cssPath("#q"),
+          action: { action: "fill", value: "kit" },
+          fallbacks: { alternatives: [] },
+        },
+      },
+      {
+        actionIndex: 2,
+        step: {
+          kind: "element",
+          page: "page",
+          path: cssPath("#go"),
+          action: { action: "click" },
+          fallbacks: { alternatives: [] },
+        },
+      },
+      {
+        actionIndex: 3,
+        step: {
+          kind: "element",
+          page: "page",
+          path: cssPath("#q"),
+          action: { action: "fill", value: "kittens" },
+          fallbacks: { alternatives: [] },
+        },
+      },
+    ]);
+  });
+
+  test("waits for a popup from before the step that opens it", () => {
+    const actions = [
+      action("click", { selector: { css: "a.share" } }),
+      action("popup", { value: "page1" }),
+      action("click", { selector: { css: "#copy" }, tab: "page1" }),
+      action("switch_tab"),
+    ];
+    expect(
+      replaySteps(actions).map(({ actionIndex, step }) => [
+        actionIndex,
+        step.kind === "page" ? step.step.kind : step.kind,
+      ]),
+    ).toEqual([
+      [1, "waitForPopup"],
+      [0, "element"],
+      [1, "popup"],
+      [2, "element"],
+      [3, "bringToFront"],
+    ]);
+  });
+
+  test("replays secrets, content fields and uploads through their placeholders", () => {
+    const steps = replaySteps([
+      action("input", {
+        selector: { css: "#title" },
+        value: "Hello",
+        isContentField: true,
+        contentPlaceholder: "article-title",
+      }),
+      action("input", {
+        selector: { css: "#password" },
+        secret: "example.com/password",
+      }),
+      action("upload", {
+        selector: { css: "#avatar" },
+        value: JSON.stringify(["me.png"]),
+        isContentField: true,
+        contentPlaceholder: "avatar",
+      }),
+    ]);
+    expect(
+      steps.map(({ step }) => step.kind === "element" && step.action),
+    ).toEqual([
+      { action: "fill", value: "{{article-title}}" },
+      { action: "fill", value: "{{secret:example.com/password}}" },
+      { action: "setInputFiles", value: "{{avatar}}" },
+    ]);
+  });
+
+  test("tells recordings that open or switch tabs apart", () => {
+    expect(
+      usesTabActions([action("click", { selector: { css: "#go" } })]),
+    ).toBe(false);
+    expect(
+      usesTabActions([
+        action("click", { selector: { css: "a.share" } }),
+        action("popup", { value: "page1" }),
+      ]),
+    ).toBe(true);
+  });
+
+  test("keeps a step's other selectors and hints as fallbacks", () => {
+    const [{ step }] = replaySteps([
+      action("click", {
+        selector: {
+          css: "button",
+          text: "Save",
+          candidates: [
+            { strategy: "role", role: "button", value: "Save", matches: 1 },
+            { strategy: "css", value: "form > button", matches: 1 },
+          ],
+        },
+      }),
+    ]);
+    expect(step.kind === "element" && step.fallbacks).toEqual({
+      alternatives: [{ by: "css", selector: "form > button" }],
+      hints: { text: "Save" },
+    });
+  });
+
+  test("checks assertions, waits and skips steps with nothing to replay", () => {
+    const steps = replaySteps([
+      action("scroll", { value: JSON.stringify({ x: 0, y: 400 }) }),
+      action("manual_step", { description: "Scan the QR code" }),
+      action("wait", { value: "1500" }),
+      action("assert_url", { value: "/orders\\/\\d+$/" }),
+      action("assert_text", { selector: { css: "h1" }, value: "Orders" }),
+    ]);
+    expect(steps).toEqual([
+      { actionIndex: 2, step: { kind: "wait", ms: 1500 } },
+      {
+        actionIndex: 3,
+        step: {
+          kind: "assert",
+          page: "page",
+          assertion: {
+            kind: "url",
+            expected: { pattern: "orders\\/\\d+$", flags: "" },
+          },
+        },
+      },
+      {
+        actionIndex: 4,
+        step: {
+          kind: "assert",
+          page: "page",
+          assertion: { kind: "text", path: cssPath("h1"), expected: "Orders" },
+        },
+      },
+    ]);
+  });
+});
+
+describe("mergeInputRuns", () => {
+  test("keeps a content mark from earlier in the run on the merged input", () => {
+    const title = { css: "#title" };
+    const merged = mergeInputRuns([
+      action("input", {
+        selector: title,
+        value: "k",
+        isContentField: true,
+        contentPlaceholder: "title",
+      }),
+      action("input", { selector: title, value: "kit" }),
+      action("click", { selector: { css: "#save" } }),
+    ]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({
+      value: "kit",
+      isContentField: true,
+      contentPlaceholder: "title",
+    });
+  });
+});
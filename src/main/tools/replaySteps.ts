@@ -0,0 +1,262 @@
+import type {
+  ActionType,
+  ElementSelector,
+  RecordedAction,
+} from "../types/RecorderTypes";
+import type { ElementPath, LocatorAction } from "./elementPath";
+import type { PageStep } from "./navigation";
+import { textMatcher, type Assertion } from "./assertions";
+import { selectorPath } from "./selectorEngine";
+import { selectorFallbacks, type SelectorFallbacks } from "./selectorHealing";
+import { escapeLiteral, formatContentPlaceholder } from "./contentPlaceholders";
+import { formatSecretPlaceholder } from "./secrets";
+
+// Steps that open, switch or close tabs rather than act in one
+const TAB_ACTIONS: ActionType[] = [
+  "popup",
+  "new_tab",
+  "switch_tab",
+  "close_tab",
+];
+
+// What the replayer does for a recorded action
+export type ReplayStep =
+  | { kind: "page"; step: PageStep }
+  | {
+      kind: "element";
+      page: string;
+      path: ElementPath;
+      action: LocatorAction;
+      fallbacks: SelectorFallbacks; // For when `path` matches nothing
+    }
+  | { kind: "assert"; page: string; assertion: Assertion }
+  | { kind: "key"; page: string; key: string }
+  | { kind: "wait"; ms: number };
+
+export interface PlannedStep {
+  actionIndex: number; // The recorded action it comes from
+  step: ReplayStep;
+}
+
+/**
+ * The steps that replay a recording, in the order its generated script runs
+ * them: typing in a field is one fill with the final value, and a popup is
+ * waited for from before the step that opens it. Scrolls and manual steps
+ * have no step.
+ */
+export function replaySteps(actions: RecordedAction[]): PlannedStep[] {
+  const steps: PlannedStep[] = [];
+  // Where each page's latest step is in `steps`
+  const lastStepStarts: Map<string, number> = new Map();
+
+  actions.forEach((action, actionIndex) => {
+    const page = action.tab ?? "page";
+
+    // Only the last input of a run in one field is filled
+    const next = actions[actionIndex + 1];
+    if (
+      action.type === "input" &&
+      next?.type === "input" &&
+      inputKey(next) === inputKey(action)
+    ) {
+      return;
+    }
+
+    if (action.type === "popup") {
+      const popup = action.value || "";
+      const at = lastStepStarts.get(page) ?? steps.length;
+      steps.splice(at, 0, {
+        actionIndex,
+        step: { kind: "page", step: { kind: "waitForPopup", page, popup } },
+      });
+      lastStepStarts.forEach((start, p) => {
+        if (start >= at) lastStepStarts.set(p, start + 1);
+      });
+      steps.push({
+        actionIndex,
+        step: { kind: "page", step: { kind: "popup", popup } },
+      });
+      return;
+    }
+
+    const step = actionStep(action, page);
+    if (!step) return;
+    if (!TAB_ACTIONS.includes(action.type)) {
+      lastStepStarts.set(page, steps.length);
+    }
+    steps.push({ actionIndex, step });
+  });
+  return steps;
+}
+
+/**
+ * Collapse each run of inputs in one field into its last input, which is
+ * the only one replayed. A content field marked on an earlier input of the
+ * run carries over, so the step that's shown is the step that's replayed.
+ */
+export function mergeInputRuns(actions: RecordedAction[]): RecordedAction[] {
+  const merged: RecordedAction[] = [];
+  for (const action of actions) {
+    const previous = merged[merged.length - 1];
+    if (
+      action.type === "input" &&
+      previous?.type === "input" &&
+      inputKey(previous) === inputKey(action)
+    ) {
+      merged[merged.length - 1] =
+        previous.isContentField && !action.isContentField
+          ? {
+              ...action,
+              isContentField: true,
+              contentPlaceholder: previous.contentPlaceholder,
+            }
+          : action;
+    } else {
+      merged.push(action);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Whether a recording opens, switches or closes tabs. Replaying it changes
+ * which tab is active in the window, so it can't run alongside another.
+ */
+export function usesTabActions(actions: RecordedAction[]): boolean {
+  return actions.some((action) => TAB_ACTIONS.includes(action.type));
+}
+
+function actionStep(action: RecordedAction, page: string): ReplayStep | null {
+  switch (action.type) {
+    case "click":
+    case "dblclick":
+    case "hover":
+    case "check":
+    case "uncheck":
+      return elementStep(action, page, { action: action.type });
+    case "rightclick":
+      return elementStep(action, page, { action: "rightClick" });
+    case "input":
+      return elementStep(action, page, {
+        action: "fill",
+        value: fillValue(action),
+      });
+    case "select":
+      return elementStep(action, page, {
+        action: "selectOption",
+        value: action.value || "",
+      });
+    case "upload":
+      return elementStep(action, page, {
+        action: "setInputFiles",
+        value: formatContentPlaceholder(action.contentPlaceholder || "file"),
+      });
+    case "drag": {
+      let target: ElementSelector | undefined;
+      try {
+        target = JSON.parse(action.value || "{}");
+      } catch {
+        target = undefined;
+      }
+      return elementStep(action, page, {
+        action: "dragTo",
+        target: selectorPath(target),
+      });
+    }
+    case "wait":
+      return { kind: "wait", ms: parseInt(action.value || "1000") };
+    case "keypress": {
+      let key = "Enter";
+      try {
+        key = JSON.parse(action.value || "{}").key || key;
+      } catch {
+        // Recorded without key info
+      }
+      return { kind: "key", page, key };
+    }
+    case "assert_url":
+    case "assert_title":
+      return {
+        kind: "assert",
+        page,
+        assertion: {
+          kind: action.type === "assert_url" ? "url" : "title",
+          expected: textMatcher(action.value || ""),
+        },
+      };
+    case "assert_visible":
+      return {
+        kind: "assert",
+        page,
+        assertion: { kind: "visible", path: selectorPath(action.selector) },
+      };
+    case "assert_text":
+    case "assert_value":
+      return {
+        kind: "assert",
+        page,
+        assertion: {
+          kind: action.type === "assert_text" ? "text" : "value",
+          path: selectorPath(action.selector),
+          expected: action.value || "",
+        },
+      };
+    case "navigate":
+      return { kind: "page", step: navigationStep(action, page) };
+    case "new_tab":
+      return {
+        kind: "page",
+        step: { kind: "newPage", page: action.value || "" },
+      };
+    case "switch_tab":
+      return { kind: "page", step: { kind: "bringToFront", page } };
+    case "close_tab":
+      return { kind: "page", step: { kind: "close", page } };
+    default:
+      return null;
+  }
+}
+
+// What an input step fills in, or the placeholder it's filled from
+function fillValue(action: RecordedAction): string {
+  if (action.secret) return formatSecretPlaceholder(action.secret);
+  if (action.isContentField && action.contentPlaceholder) {
+    return formatContentPlaceholder(action.contentPlaceholder);
+  }
+  return escapeLiteral(action.value || "");
+}
+
+function elementStep(
+  action: RecordedAction,
+  page: string,
+  locatorAction: LocatorAction,
+): ReplayStep {
+  const path = selectorPath(action.selector);
+  return {
+    kind: "element",
+    page,
+    path,
+    action: locatorAction,
+    fallbacks: selectorFallbacks(action.selector, path.query) ?? {
+      alternatives: [],
+    },
+  };
+}
+
+function navigationStep(action: RecordedAction, page: string): PageStep {
+  switch (action.value) {
+    case "back":
+    case "forward":
+    case "reload":
+      return { kind: action.value, page };
+    case "wait":
+      return { kind: "wait", page, url: action.url };
+    default:
+      return { kind: "goto", page, url: action.url };
+  }
+}
+
+// Inputs are consolidated per field and tab
+function inputKey(action: RecordedAction): string {
+  return `${action.tab ?? "page"} ${JSON.stringify(selectorPath(action.selector))}`;
+}
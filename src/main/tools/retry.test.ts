@@ -0,0 +1,62 @@
+import { describe, test, expect } from "vitest";
+import { APICallError, RetryError } from "ai";
+import { backoffDelay, isRetryableError, sleep } from "./retry";
+
+function apiError(statusCode: number): APICallError {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: "https://api.example.com",
+    requestBodyValues: {},
+    statusCode,
+    isRetryable: false,
+  });
+}
+
+describe("isRetryableError", () => {
+  test("retries rate limits and server errors", () => {
+    expect(isRetryableError(apiError(429))).toBe(true);
+    expect(isRetryableError(apiError(503))).toBe(true);
+    expect(isRetryableError(new Error("fetch failed: ECONNREFUSED"))).toBe(
+      true,
+    );
+  });
+
+  test("does not retry client errors", () => {
+    expect(isRetryableError(apiError(400))).toBe(false);
+    expect(isRetryableError(apiError(401))).toBe(false);
+    expect(isRetryableError(new Error("Invalid prompt"))).toBe(false);
+    expect(isRetryableError("boom")).toBe(false);
+  });
+
+  test("looks through the SDK's retry wrapper", () => {
+    const wrapped = new RetryError({
+      message: "Failed after 3 attempts",
+      reason: "maxRetriesExceeded",
+      errors: [apiError(500), apiError(429)],
+    });
+    expect(isRetryableError(wrapped)).toBe(true);
+  });
+});
+
+describe("backoffDelay", () => {
+  const policy = { retries: 3, baseDelayMs: 100, maxDelayMs: 1000 };
+
+  test("doubles per attempt up to the cap", () => {
+    expect(backoffDelay(0, policy, () => 1)).toBe(100);
+    expect(backoffDelay(2, policy, () => 1)).toBe(400);
+    expect(backoffDelay(10, policy, () => 1)).toBe(1000);
+  });
+
+  test("jitters below the ceiling", () => {
+    expect(backoffDelay(2, policy, () => 0.5)).toBe(200);
+  });
+});
+
+describe("sleep", () => {
+  test("rejects with the abort reason", async () => {
+    const controller = new AbortController();
+    const pending = sleep(10_000, controller.signal);
+    controller.abort(new Error("stopped"));
+    await expect(pending).rejects.toThrow("stopped");
+  });
+});
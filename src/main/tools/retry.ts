@@ -0,0 +1,79 @@
+import { APICallError, RetryError } from "ai";
+
+export interface RetryPolicy {
+  retries: number; // Extra attempts per model after the first
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+/**
+ * Whether a failed model call is worth retrying or sending to a fallback
+ * model: rate limits, server errors, timeouts and dropped connections.
+ * Bad requests and auth errors fail the same way everywhere.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (RetryError.isInstance(error)) return isRetryableError(error.lastError);
+  if (APICallError.isInstance(error)) {
+    const status = error.statusCode;
+    return (
+      error.isRetryable ||
+      status === 408 ||
+      status === 429 ||
+      (status !== undefined && status >= 500)
+    );
+  }
+  if (!(error instanceof Error)) return false;
+  const message = error.message.toLowerCase();
+  return [
+    "429",
+    "rate limit",
+    "overloaded",
+    "timeout",
+    "network",
+    "econnrefused",
+    "econnreset",
+  ].some((hint) => message.includes(hint));
+}
+
+/**
+ * Exponential backoff with full jitter
+ * @param attempt Zero-based retry number
+ */
+export function backoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random,
+): number {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** attempt,
+  );
+  return Math.round(ceiling * random());
+}
+
+/**
+ * Resolve after `ms`, or reject with the signal's reason if it aborts first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
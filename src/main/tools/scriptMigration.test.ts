@@ -0,0 +1,155 @@
+import { describe, test, expect } from "vitest";
+import { recordingFromScript } from "./scriptMigration";
+import { PlaywrightGenerator } from "../PlaywrightGenerator";
+import type { RecordedAction, Recording } from "../types/RecorderTypes";
+
+const site = "https://example.com";
+const docs = "https://example.com/docs";
+
+let nextId = 0;
+function action(
+  type: RecordedAction["type"],
+  fields: Partial<RecordedAction> = {},
+): RecordedAction {
+  return {
+    id: `a${++nextId}`,
+    type,
+    timestamp: 0,
+    url: site,
+    tab: "page",
+    ...fields,
+  };
+}
+
+function generate(recording: Recording): string {
+  return PlaywrightGenerator.generate(
+    {
+      id: recording.id,
+      name: recording.name,
+      description: recording.description,
+      createdAt: recording.createdAt,
+      targetSite: recording.metadata?.targetSite,
+    },
+    recording.actions,
+  );
+}
+
+const recording: Recording = {
+  id: "rec-1",
+  name: "Share the docs",
+  description: "Signs in and shares a page",
+  createdAt: Date.UTC(2025, 0, 1),
+  updatedAt: Date.UTC(2025, 0, 1),
+  metadata: { targetSite: site },
+  actions: [
+    action("input", { selector: { css: "#user" }, value: "ada" }),
+    action("input", {
+      selector: { css: "#password" },
+      secret: "example.com/password",
+    }),
+    action("input", {
+      selector: { css: "#bio" },
+      value: "Hello",
+      isContentField: true,
+      contentPlaceholder: "bio",
+    }),
+    // Typed text that only looks like a placeholder
+    action("input", { selector: { css: "#note" }, value: "{{note}}" }),
+    action("wait", { value: "1500" }),
+    action("keypress", { value: JSON.stringify({ key: "Enter" }) }),
+    action("navigate", { value: "wait", url: docs }),
+    action("click", {
+      url: docs,
+      selector: {
+        css: "button",
+        text: "Save",
+        candidates: [
+          { strategy: "role", role: "button", value: "Save", matches: 1 },
+          { strategy: "css", value: "form > button", matches: 1 },
+        ],
+        hints: { tag: "button" },
+      },
+    }),
+    action("upload", {
+      url: docs,
+      selector: { css: "#avatar", framePath: ["iframe#profile"] },
+      value: JSON.stringify(["me.png"]),
+      isContentField: true,
+      contentPlaceholder: "avatar",
+    }),
+    action("drag", {
+      url: docs,
+      selector: { css: "li.card" },
+      value: JSON.stringify({ css: "ul.done" }),
+    }),
+    action("manual_step", { url: docs, description: "Scan the QR code" }),
+    action("assert_title", { url: docs, value: "/docs/i" }),
+    action("click", { url: docs, selector: { css: "a.share" } }),
+    action("popup", { url: docs, value: "page1" }),
+    action("assert_visible", {
+      url: docs,
+      tab: "page1",
+      selector: { css: "h1" },
+      value: "",
+    }),
+    action("close_tab", { tab: "page1" }),
+    action("navigate", { value: "back" }),
+    action("click", { url: `${site}/home`, selector: { css: "#home" } }),
+  ],
+};
+
+describe("recordingFromScript", () => {
+  test("rebuilds a recording that generates the same script", () => {
+    const script = generate(recording);
+    const migrated = recordingFromScript("file-name", script);
+
+    expect(migrated).toMatchObject({
+      id: "rec-1",
+      name: "Share the docs",
+      description: "Signs in and shares a page",
+      createdAt: recording.createdAt,
+      metadata: { targetSite: site, manualSteps: 1 },
+    });
+    expect(generate(migrated)).toBe(script);
+  });
+
+  test("reads back names with quotes in them", () => {
+    const named = { ...recording, name: "Bob's \\ list" };
+    const migrated = recordingFromScript("rec-1", generate(named));
+    expect(migrated.name).toBe("Bob's \\ list");
+  });
+
+  test("keeps placeholders rather than values", () => {
+    const migrated = recordingFromScript("rec-1", generate(recording));
+    const password = migrated.actions.find((a) => a.secret);
+    expect(password?.secret).toBe("example.com/password");
+    expect(password?.value).toBeUndefined();
+    expect(
+      migrated.actions.find((a) => a.contentPlaceholder === "bio"),
+    ).toEqual(expect.objectContaining({ isContentField: true }));
+    expect(migrated.actions.find((a) => a.value === "{{note}}")).toEqual(
+      expect.not.objectContaining({ isContentField: true }),
+    );
+    expect(migrated.actions.find((a) => a.type === "upload")).toEqual(
+      expect.objectContaining({
+        value: JSON.stringify(["me.png"]),
+        contentPlaceholder: "avatar",
+      }),
+    );
+  });
+
+  test("skips lines it doesn't recognize", () => {
+    const migrated = recordingFromScript(
+      "hand-written",
+      [
+        "test('Edited', async ({ page }) => {",
+        `  await page.goto('${site}');`,
+        "  const total = await page.locator('#total').textContent();",
+        "  await page.click('#go');",
+        "});",
+      ].join("\n"),
+    );
+    expect(migrated.id).toBe("hand-written");
+    expect(migrated.actions.map((a) => a.type)).toEqual(["click"]);
+  });
+});
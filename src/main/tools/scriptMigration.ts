@@ -0,0 +1,269 @@
+import { v4 as uuidv4 } from "uuid";
+import type {
+  ActionType,
+  ElementSelector,
+  RecordedAction,
+  Recording,
+} from "../types/RecorderTypes";
+import {
+  pageVariableOf,
+  parseElementStep,
+  unquote,
+  type ElementPath,
+  type LocatorAction,
+} from "./elementPath";
+import { matcherValue, parseAssertion } from "./assertions";
+import { parsePageStep } from "./navigation";
+import { queryCandidate } from "./selectorEngine";
+import {
+  fallbacksFromLine,
+  parseFallbacksComment,
+  type SelectorFallbacks,
+} from "./selectorHealing";
+import {
+  parseContentPlaceholder,
+  unescapeLiteral,
+} from "./contentPlaceholders";
+import { parseSecretPlaceholder } from "./secrets";
+
+const KEY_PRESS = /^await (page\d*)\.keyboard\.press\('([^']+)'\)/;
+const WAIT = /^await (page\d*)\.waitForTimeout\((\d+)\)/;
+const SCROLL =
+  /^await (page\d*)\.evaluate\(\(\) => window\.scrollTo\((-?\d+), (-?\d+)\)\)/;
+const MANUAL_STEP = "// MANUAL STEP: ";
+const NAVIGATED_TO = "// Page navigated to: ";
+const UPLOADED = /\/\/ Recorded with (.+)$/;
+
+const ACTION_TYPES: Record<LocatorAction["action"], ActionType> = {
+  click: "click",
+  dblclick: "dblclick",
+  rightClick: "rightclick",
+  hover: "hover",
+  check: "check",
+  uncheck: "uncheck",
+  fill: "input",
+  selectOption: "select",
+  setInputFiles: "upload",
+  dragTo: "drag",
+};
+
+/**
+ * Rebuild a recording from a Playwright script written before recordings
+ * were stored as JSON, as far as the script tells: screenshots of manual
+ * steps are lost, and lines the generator wouldn't write are skipped.
+ * @param id The id from the file name, if the script doesn't say
+ */
+export function recordingFromScript(id: string, script: string): Recording {
+  let name = id;
+  let description: string | undefined;
+  let createdAt = 0;
+  let targetSite: string | undefined;
+  const actions: RecordedAction[] = [];
+
+  // Each page's URL, and the page each popup was waited for from
+  const urls: Map<string, string> = new Map();
+  const openers: Map<string, string> = new Map();
+  let currentPage = "page";
+  // From the comments above the next step
+  let fallbacks: SelectorFallbacks | null = null;
+  let navigatedTo: string | null = null;
+
+  const push = (
+    page: string,
+    type: ActionType,
+    fields: Partial<RecordedAction> = {},
+  ): void => {
+    const url = navigatedTo ?? urls.get(page) ?? targetSite ?? "";
+    navigatedTo = null;
+    fallbacks = null;
+    urls.set(page, url);
+    currentPage = page;
+    actions.push({
+      id: uuidv4(),
+      type,
+      timestamp: createdAt,
+      url,
+      tab: page,
+      ...fields,
+    });
+  };
+
+  for (const line of script.split("\n")) {
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith("// Recording ID:")) {
+      id = trimmed.slice("// Recording ID:".length).trim();
+    } else if (trimmed.startsWith("// Created:")) {
+      createdAt = new Date(
+        trimmed.slice("// Created:".length).trim(),
+      ).getTime();
+    } else if (trimmed.startsWith("// Description:")) {
+      description = trimmed.slice("// Description:".length).trim();
+    } else if (trimmed.startsWith("test('")) {
+      const quoted = trimmed.match(/^test\('((?:[^'\\]|\\.)+)'/)?.[1];
+      if (quoted) name = unquote(quoted);
+    } else if (trimmed.startsWith(NAVIGATED_TO)) {
+      navigatedTo = trimmed.slice(NAVIGATED_TO.length);
+    } else if (trimmed.startsWith(MANUAL_STEP)) {
+      push(currentPage, "manual_step", {
+        description: trimmed.slice(MANUAL_STEP.length),
+      });
+    } else if (parseFallbacksComment(trimmed)) {
+      fallbacks = parseFallbacksComment(trimmed);
+    } else if (parsePageStep(trimmed)) {
+      const step = parsePageStep(trimmed)!;
+      switch (step.kind) {
+        case "goto":
+          // The header's goto is where the recording starts
+          if (
+            step.page === "page" &&
+            actions.length === 0 &&
+            targetSite === undefined
+          ) {
+            targetSite = step.url;
+            break;
+          }
+          navigatedTo = step.url;
+          push(step.page, "navigate", { value: "goto" });
+          break;
+        case "wait":
+          navigatedTo = step.url;
+          push(step.page, "navigate", { value: "wait" });
+          break;
+        case "back":
+        case "forward":
+        case "reload":
+          push(step.page, "navigate", { value: step.kind });
+          break;
+        case "waitForPopup":
+          openers.set(step.popup, step.page);
+          break;
+        case "popup": {
+          const opener = openers.get(step.popup) ?? currentPage;
+          push(opener, "popup", { value: step.popup });
+          urls.set(step.popup, urls.get(opener) ?? "");
+          break;
+        }
+        case "newPage":
+          push(currentPage, "new_tab", { value: step.page });
+          urls.set(step.page, "about:blank");
+          break;
+        case "bringToFront":
+          push(step.page, "switch_tab");
+          break;
+        case "close":
+          push(step.page, "close_tab");
+          break;
+      }
+    } else if (parseElementStep(trimmed)) {
+      const { path, action } = parseElementStep(trimmed)!;
+      const selector = recordedSelector(
+        path,
+        fallbacks ?? fallbacksFromLine(trimmed),
+      );
+      push(pageVariableOf(trimmed), ACTION_TYPES[action.action], {
+        selector,
+        ...actionFields(action, trimmed),
+      });
+    } else if (parseAssertion(trimmed)) {
+      const assertion = parseAssertion(trimmed)!;
+      const page = pageVariableOf(trimmed);
+      switch (assertion.kind) {
+        case "url":
+        case "title":
+          push(page, `assert_${assertion.kind}`, {
+            value: matcherValue(assertion.expected),
+          });
+          break;
+        case "visible":
+          push(page, "assert_visible", {
+            selector: recordedSelector(assertion.path),
+            value: "",
+          });
+          break;
+        default:
+          push(page, `assert_${assertion.kind}`, {
+            selector: recordedSelector(assertion.path),
+            value: assertion.expected,
+          });
+      }
+    } else if (KEY_PRESS.test(trimmed)) {
+      const [, page, key] = trimmed.match(KEY_PRESS)!;
+      push(page, "keypress", { value: JSON.stringify({ key }) });
+    } else if (WAIT.test(trimmed)) {
+      const [, page, ms] = trimmed.match(WAIT)!;
+      push(page, "wait", { value: ms });
+    } else if (SCROLL.test(trimmed)) {
+      const [, page, x, y] = trimmed.match(SCROLL)!;
+      push(page, "scroll", {
+        value: JSON.stringify({ x: Number(x), y: Number(y) }),
+      });
+    }
+  }
+
+  return {
+    id,
+    name,
+    description,
+    createdAt,
+    updatedAt: createdAt,
+    actions,
+    metadata: {
+      targetSite,
+      manualSteps: actions.filter((a) => a.type === "manual_step").length,
+    },
+  };
+}
+
+// The value and placeholder fields a script's element step was written from
+function actionFields(
+  action: LocatorAction,
+  line: string,
+): Partial<RecordedAction> {
+  switch (action.action) {
+    case "fill": {
+      const secret = parseSecretPlaceholder(action.value);
+      if (secret) return { secret };
+      const content = parseContentPlaceholder(action.value);
+      return content
+        ? { isContentField: true, contentPlaceholder: content }
+        : { value: unescapeLiteral(action.value) };
+    }
+    case "selectOption":
+      return { value: action.value };
+    case "setInputFiles": {
+      const names = line.match(UPLOADED)?.[1].split(", ") ?? [];
+      return {
+        value: JSON.stringify(names),
+        isContentField: true,
+        contentPlaceholder: parseContentPlaceholder(action.value) ?? undefined,
+      };
+    }
+    case "dragTo":
+      return { value: JSON.stringify(recordedSelector(action.target)) };
+    default:
+      return {};
+  }
+}
+
+/**
+ * A selector the generator writes the same path for, with the step's
+ * fallbacks as further candidates and hints
+ */
+function recordedSelector(
+  path: ElementPath,
+  fallbacks?: SelectorFallbacks,
+): ElementSelector {
+  const selector: ElementSelector = {
+    candidates: [path.query, ...(fallbacks?.alternatives ?? [])].map(
+      queryCandidate,
+    ),
+  };
+  if (path.query.by === "css") selector.css = path.query.selector;
+  if (path.framePath.length) selector.framePath = path.framePath;
+  if (path.shadowHosts.length) selector.shadowHosts = path.shadowHosts;
+  const { text, ...hints } = fallbacks?.hints ?? {};
+  if (text) selector.text = text;
+  if (Object.keys(hints).length) selector.hints = hints;
+  return selector;
+}
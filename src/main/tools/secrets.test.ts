@@ -0,0 +1,129 @@
+import { describe, test, expect } from "vitest";
+import {
+  deriveVaultKey,
+  formatSecretPlaceholder,
+  isSensitiveField,
+  newVaultSalt,
+  openSecrets,
+  parseSecretPlaceholder,
+  redactSelector,
+  sealSecrets,
+  secretName,
+  WrongPassphraseError,
+} from "./secrets";
+import type { ElementSelector } from "../types/RecorderTypes";
+
+const field = (
+  attributes: Record<string, string>,
+  rest: Partial<ElementSelector> = {},
+): ElementSelector => ({ css: "input", hints: { attributes }, ...rest });
+
+describe("isSensitiveField", () => {
+  test("flags password inputs and autocomplete hints", () => {
+    expect(isSensitiveField(field({ type: "password" }))).toBe(true);
+    expect(isSensitiveField(field({ autocomplete: "one-time-code" }))).toBe(
+      true,
+    );
+    expect(
+      isSensitiveField(
+        field({ autocomplete: "section-pay billing cc-number" }),
+      ),
+    ).toBe(true);
+  });
+
+  test("flags names, ids and labels that mean a secret", () => {
+    expect(isSensitiveField(field({}, { name: "user_pwd" }))).toBe(true);
+    expect(isSensitiveField(field({}, { id: "otp-code" }))).toBe(true);
+    expect(isSensitiveField(field({ placeholder: "Card number" }))).toBe(true);
+    expect(isSensitiveField(field({}, { hints: { name: "API key" } }))).toBe(
+      true,
+    );
+    expect(isSensitiveField(field({ "aria-label": "PIN" }))).toBe(true);
+  });
+
+  test("leaves ordinary fields alone", () => {
+    expect(isSensitiveField(field({ type: "email", name: "email" }))).toBe(
+      false,
+    );
+    expect(isSensitiveField(field({}, { name: "shipping_address" }))).toBe(
+      false,
+    );
+    expect(isSensitiveField(field({ placeholder: "Search" }))).toBe(false);
+    expect(isSensitiveField({ css: "#q" })).toBe(false);
+  });
+});
+
+describe("redactSelector", () => {
+  test("drops the text a rich-text field's selector was given", () => {
+    const editor: ElementSelector = {
+      css: "div.pin",
+      text: "4821",
+      hints: { tag: "div", text: "4821", attributes: { "aria-label": "PIN" } },
+    };
+
+    const redacted = redactSelector(editor);
+
+    expect(JSON.stringify(redacted)).not.toContain("4821");
+    expect(redacted).toMatchObject({
+      css: "div.pin",
+      hints: { tag: "div", attributes: { "aria-label": "PIN" } },
+    });
+  });
+});
+
+describe("secretName", () => {
+  test("scopes the field's name to the site", () => {
+    expect(
+      secretName(
+        field({ type: "password" }, { name: "session[password]" }),
+        "https://github.com/login",
+      ),
+    ).toBe("github.com/session_password_");
+    expect(
+      secretName(
+        field({ autocomplete: "one-time-code" }, { name: "code" }),
+        "https://example.com/2fa",
+      ),
+    ).toBe("example.com/otp");
+    expect(secretName(field({ type: "password" }), "about:blank")).toBe(
+      "site/password",
+    );
+  });
+
+  test("round-trips through its placeholder", () => {
+    const placeholder = formatSecretPlaceholder("github.com/password");
+    expect(placeholder).toBe("{{secret:github.com/password}}");
+    expect(parseSecretPlaceholder(placeholder)).toBe("github.com/password");
+    expect(parseSecretPlaceholder("{{avatar}}")).toBeNull();
+    expect(parseSecretPlaceholder("hunter2")).toBeNull();
+  });
+});
+
+describe("sealSecrets", () => {
+  const salt = newVaultSalt();
+  const key = deriveVaultKey("correct horse", salt);
+  const secrets = { "github.com/password": "hunter2" };
+
+  test("opens with the same passphrase", () => {
+    const file = sealSecrets(secrets, key, salt);
+    expect(JSON.stringify(file)).not.toContain("hunter2");
+    expect(
+      openSecrets(
+        file,
+        deriveVaultKey("correct horse", Buffer.from(file.salt, "base64")),
+      ),
+    ).toEqual(secrets);
+  });
+
+  test("rejects another passphrase or a changed file", () => {
+    const file = sealSecrets(secrets, key, salt);
+    expect(() => openSecrets(file, deriveVaultKey("wrong", salt))).toThrow(
+      WrongPassphraseError,
+    );
+    const data = Buffer.from(file.data, "base64");
+    data[0] ^= 1;
+    expect(() =>
+      openSecrets({ ...file, data: data.toString("base64") }, key),
+    ).toThrow(WrongPassphraseError);
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from "crypto";
+import type { ElementSelector } from "../types/RecorderTypes";
+
+// Typed secrets are written as `fill('{{secret:example.com/password}}')`;
+// the value comes from the secrets vault at replay time
+const PLACEHOLDER = /^\{\{secret:([\w.\-/]+)\}\}$/;
+
+// Names, ids, labels and placeholders of fields that hold secrets. Short
+// words only count on their own ("pin", not "shipping").
+const SENSITIVE_NAME =
+  /passw(or)?d|passcode|passphrase|secret|token|one[-_ ]?time|2fa|mfa|totp|cvv|cvc|card[-_ ]?(number|num|no)|cc[-_ ]?(num|number|csc)|security[-_ ]?code|api[-_ ]?key|(?<![a-z])(pwd|pin|otp|csc|ssn)(?![a-z])/i;
+
+// autocomplete tokens of fields that hold secrets, and what to call them
+const SENSITIVE_AUTOCOMPLETE: Record<string, string> = {
+  "current-password": "password",
+  "new-password": "new_password",
+  "one-time-code": "otp",
+  "cc-number": "card_number",
+  "cc-csc": "card_csc",
+  "cc-exp": "card_expiry",
+  "cc-exp-month": "card_expiry_month",
+  "cc-exp-year": "card_expiry_year",
+};
+
+/**
+ * Whether a recorded field holds a password, one-time code, card number or
+ * other secret, judged from its type, autocomplete hint, name, id and label
+ */
+export function isSensitiveField(selector: ElementSelector): boolean {
+  const attributes = selector.hints?.attributes ?? {};
+  if (attributes.type?.toLowerCase() === "password") return true;
+  if (autocompleteHint(attributes.autocomplete)) return true;
+  return [
+    selector.name,
+    selector.id,
+    attributes.name,
+    attributes["aria-label"],
+    attributes.placeholder,
+    selector.hints?.name,
+  ].some((text) => !!text && SENSITIVE_NAME.test(text));
+}
+
+/**
+ * A sensitive field's selector without its text, which for a rich-text
+ * (contenteditable) field is what was typed into it
+ */
+export function redactSelector(selector: ElementSelector): ElementSelector {
+  return {
+    ...selector,
+    text: undefined,
+    hints: selector.hints && { ...selector.hints, text: undefined },
+  };
+}
+
+function autocompleteHint(autocomplete: string | undefined): string | null {
+  const tokens = (autocomplete ?? "").toLowerCase().split(/\s+/);
+  const token = tokens.find((t) => t in SENSITIVE_AUTOCOMPLETE);
+  return token ? SENSITIVE_AUTOCOMPLETE[token] : null;
+}
+
+/**
+ * Vault name for a sensitive field: the site's host and the field's
+ * autocomplete hint, name or id, e.g. "github.com/password"
+ */
+export function secretName(selector: ElementSelector, url: string): string {
+  let host = "site";
+  try {
+    host = new URL(url).hostname || host;
+  } catch {
+    // Not a URL (e.g. about:blank); secrets are shared across such pages
+  }
+  const attributes = selector.hints?.attributes ?? {};
+  const field = (
+    autocompleteHint(attributes.autocomplete) ||
+    selector.name ||
+    selector.id ||
+    (attributes.type === "password" ? "password" : "secret")
+  ).replace(/[^\w-]/g, "_");
+  return `${host}/${field}`;
+}
+
+export function formatSecretPlaceholder(name: string): string {
+  return `{{secret:${name}}}`;
+}
+
+// @returns The secret's name, or null if `value` isn't a secret placeholder
+export function parseSecretPlaceholder(value: string): string | null {
+  return value.match(PLACEHOLDER)?.[1] ?? null;
+}
+
+// The secrets vault as stored on disk
+export interface VaultFile {
+  version: 1;
+  salt: string; // For deriving the key from the passphrase (base64)
+  iv: string; // base64
+  tag: string; // AES-GCM authentication tag (base64)
+  data: string; // The secrets as JSON, encrypted (base64)
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super("Wrong passphrase");
+    this.name = "WrongPassphraseError";
+  }
+}
+
+export function newVaultSalt(): Buffer {
+  return randomBytes(16);
+}
+
+// AES-256 key for a passphrase (scrypt)
+export function deriveVaultKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase.normalize("NFC"), salt, 32);
+}
+
+export function sealSecrets(
+  secrets: Record<string, string>,
+  key: Buffer,
+  salt: Buffer,
+): VaultFile {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(secrets), "utf-8"),
+    cipher.final(),
+  ]);
+  return {
+    version: 1,
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+/**
+ * @throws WrongPassphraseError if `key` didn't seal the file (or the file
+ * was tampered with)
+ */
+export function openSecrets(
+  file: VaultFile,
+  key: Buffer,
+): Record<string, string> {
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    key,
+    Buffer.from(file.iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+  try {
+    const data = Buffer.concat([
+      decipher.update(Buffer.from(file.data, "base64")),
+      decipher.final(),
+    ]);
+    return JSON.parse(data.toString("utf-8")) as Record<string, string>;
+  } catch {
+    throw new WrongPassphraseError();
+  }
+}
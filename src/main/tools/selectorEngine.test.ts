@@ -0,0 +1,103 @@
+import { describe, test, expect } from "vitest";
+import {
+  SELECTOR_ENGINE_JS,
+  candidateQuery,
+  isGeneratedId,
+  rankSelectorCandidates,
+} from "./selectorEngine";
+import type { SelectorCandidate } from "../types/RecorderTypes";
+
+describe("isGeneratedId", () => {
+  test("flags ids that change between builds or renders", () => {
+    for (const id of [
+      ":r1:",
+      "ember1234",
+      "css-1x2y3z",
+      "sc-bdVaJa",
+      "headlessui-menu-button-3",
+      "input_4821",
+      "a1b2c3d4e5f6",
+    ]) {
+      expect(isGeneratedId(id), id).toBe(true);
+    }
+  });
+
+  test("keeps hand-written ids", () => {
+    for (const id of ["email", "login-form", "submitButton", "nav_main"]) {
+      expect(isGeneratedId(id), id).toBe(false);
+    }
+  });
+});
+
+describe("rankSelectorCandidates", () => {
+  const candidates: SelectorCandidate[] = [
+    { strategy: "css", value: "form > div.row > input", matches: 1 },
+    { strategy: "id", value: "input_4821", matches: 1 },
+    { strategy: "role", role: "textbox", value: "Email", matches: 1 },
+    { strategy: "placeholder", value: "you@example.com", matches: 1 },
+    {
+      strategy: "testId",
+      attribute: "data-testid",
+      value: "email",
+      matches: 2,
+    },
+    { strategy: "label", value: "Email", matches: 0 },
+  ];
+
+  test("orders unique, stable candidates first", () => {
+    const ranked = rankSelectorCandidates(candidates);
+    expect(ranked.map((c) => c.strategy)).toEqual([
+      "role",
+      "placeholder",
+      "css",
+      "testId",
+    ]);
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score!);
+  });
+
+  test("ranks an ambiguous candidate below every unique one", () => {
+    const ranked = rankSelectorCandidates(candidates);
+    const testId = ranked.find((c) => c.strategy === "testId")!;
+    const css = ranked.find((c) => c.strategy === "css")!;
+    expect(testId.score).toBeLessThan(css.score!);
+  });
+
+  test("drops candidates that matched nothing and generated ids", () => {
+    const ranked = rankSelectorCandidates(candidates);
+    expect(ranked.some((c) => c.strategy === "label")).toBe(false);
+    expect(ranked.some((c) => c.strategy === "id")).toBe(false);
+  });
+});
+
+describe("candidateQuery", () => {
+  test("maps candidates to queries", () => {
+    expect(
+      candidateQuery({
+        strategy: "testId",
+        attribute: "data-testid",
+        value: "save",
+        matches: 1,
+      }),
+    ).toEqual({ by: "testId", testId: "save" });
+    expect(
+      candidateQuery({
+        strategy: "testId",
+        attribute: "data-test",
+        value: "save",
+        matches: 1,
+      }),
+    ).toEqual({ by: "css", selector: '[data-test="save"]' });
+    expect(
+      candidateQuery({ strategy: "id", value: "email", matches: 1 }),
+    ).toEqual({ by: "css", selector: "#email" });
+  });
+});
+
+describe("SELECTOR_ENGINE_JS", () => {
+  test("is valid JavaScript that declares the engine functions", () => {
+    const declared = new Function(
+      `${SELECTOR_ENGINE_JS}\nreturn [typeof queryAll, typeof selectorCandidates];`,
+    )();
+    expect(declared).toEqual(["function", "function"]);
+  });
+});
@@ -0,0 +1,310 @@
+import type {
+  ElementSelector,
+  SelectorCandidate,
+  SelectorStrategy,
+} from "../types/RecorderTypes";
+import type { ElementPath, ElementQuery } from "./elementPath";
+
+// Ids and class names that are probably generated per build or per render:
+// long digit runs, React/Radix ids, CSS-in-JS hashes, list positions, hex
+// fragments
+export const GENERATED_TOKEN =
+  /\d{3,}|[:«»]|^(?:css|sc|jsx|svelte|emotion)-|^ember\d|-\d+$|[0-9a-f]{8,}/i;
+
+// How well each kind of selector survives page changes, before uniqueness
+// is taken into account
+const STABILITY: Record<SelectorStrategy, number> = {
+  testId: 100,
+  role: 90,
+  label: 85,
+  placeholder: 75,
+  id: 70,
+  css: 40,
+};
+
+// Names longer than this are usually content (a headline, a product name)
+// rather than a control's label
+const LONG_NAME = 40;
+
+export function isGeneratedId(id: string): boolean {
+  return GENERATED_TOKEN.test(id);
+}
+
+function scoreCandidate(candidate: SelectorCandidate): number {
+  let stability = STABILITY[candidate.strategy];
+  if (candidate.strategy === "css") {
+    stability -= 10 * (candidate.value.split(">").length - 1);
+  }
+  if (
+    (candidate.strategy === "role" || candidate.strategy === "label") &&
+    candidate.value.length > LONG_NAME
+  ) {
+    stability -= 20;
+  }
+  // Anything ambiguous ranks below every unique candidate
+  return candidate.matches === 1
+    ? stability
+    : Math.round(stability / (candidate.matches * 4));
+}
+
+/**
+ * Score candidates collected in the page and sort them best first.
+ * Candidates that matched nothing and generated-looking ids are dropped.
+ */
+export function rankSelectorCandidates(
+  candidates: SelectorCandidate[],
+): SelectorCandidate[] {
+  return candidates
+    .filter(
+      (c) => c.matches > 0 && !(c.strategy === "id" && isGeneratedId(c.value)),
+    )
+    .map((c) => ({ ...c, score: scoreCandidate(c) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// The query that finds a candidate's element. Playwright's getByTestId only
+// knows data-testid, so other test attributes become CSS.
+export function candidateQuery(candidate: SelectorCandidate): ElementQuery {
+  switch (candidate.strategy) {
+    case "testId":
+      return candidate.attribute && candidate.attribute !== "data-testid"
+        ? {
+            by: "css",
+            selector: `[${candidate.attribute}=${JSON.stringify(candidate.value)}]`,
+          }
+        : { by: "testId", testId: candidate.value };
+    case "role":
+      return { by: "role", role: candidate.role ?? "", name: candidate.value };
+    case "label":
+      return { by: "label", text: candidate.value };
+    case "placeholder":
+      return { by: "placeholder", text: candidate.value };
+    case "id":
+      return { by: "css", selector: `#${candidate.value}` };
+    case "css":
+      return { by: "css", selector: candidate.value };
+  }
+}
+
+// The candidate for a query, e.g. one a step was healed with (unique, as
+// only unique selectors are kept)
+export function queryCandidate(query: ElementQuery): SelectorCandidate {
+  switch (query.by) {
+    case "css":
+      return { strategy: "css", value: query.selector, matches: 1 };
+    case "testId":
+      return {
+        strategy: "testId",
+        attribute: "data-testid",
+        value: query.testId,
+        matches: 1,
+      };
+    case "role":
+      return {
+        strategy: "role",
+        role: query.role,
+        value: query.name,
+        matches: 1,
+      };
+    case "label":
+    case "placeholder":
+      return { strategy: query.by, value: query.text, matches: 1 };
+  }
+}
+
+// Selector from the fields recorded before there were selector candidates.
+// Priority: ID > CSS > Name > XPath
+function legacySelector(selector: ElementSelector | undefined): string {
+  if (!selector) return "body";
+  if (selector.id) return `#${selector.id}`;
+  if (selector.css) return selector.css;
+  if (selector.name) return `[name="${selector.name}"]`;
+  // Playwright doesn't support XPath by default, so convert to text or use CSS
+  if (selector.xpath) return selector.xpath;
+  return "body";
+}
+
+/**
+ * How to find a recorded element: its best-ranked candidate, or the legacy
+ * selector fields
+ */
+export function preferredQuery(
+  selector: ElementSelector | undefined,
+): ElementQuery {
+  const best = selector?.candidates?.[0];
+  return best
+    ? candidateQuery(best)
+    : { by: "css", selector: legacySelector(selector) };
+}
+
+// Where a recorded element lives, found by its preferred query
+export function selectorPath(
+  selector: ElementSelector | undefined,
+): ElementPath {
+  return {
+    framePath: selector?.framePath ?? [],
+    shadowHosts: selector?.shadowHosts ?? [],
+    query: preferredQuery(selector),
+  };
+}
+
+/**
+ * In-page JS shared by the recorder and the replayer. Declares:
+ * - `queryAll(root, query)`: elements in a document or shadow root matching
+ *   an ElementQuery, roughly the way Playwright's exact getBy* locators do
+ * - `selectorCandidates(element)`: unranked SelectorCandidates for an
+ *   element, each with how many elements it matches
+ */
+export const SELECTOR_ENGINE_JS = `
+        const GENERATED_TOKEN = new RegExp(${JSON.stringify(GENERATED_TOKEN.source)}, 'i');
+        const SAFE_IDENT = /^[A-Za-z_][\\w-]*$/;
+        const INPUT_ROLES = {
+          button: 'button', submit: 'button', reset: 'button', image: 'button',
+          checkbox: 'checkbox', radio: 'radio', range: 'slider',
+          number: 'spinbutton', search: 'searchbox'
+        };
+        const TAG_ROLES = {
+          BUTTON: 'button', SELECT: 'combobox', TEXTAREA: 'textbox',
+          H1: 'heading', H2: 'heading', H3: 'heading', H4: 'heading', H5: 'heading', H6: 'heading',
+          IMG: 'img', NAV: 'navigation', MAIN: 'main', UL: 'list', OL: 'list',
+          LI: 'listitem', OPTION: 'option', SUMMARY: 'button', DIALOG: 'dialog', TABLE: 'table'
+        };
+        const NAME_FROM_CONTENT = new Set([
+          'button', 'link', 'heading', 'tab', 'menuitem', 'option', 'checkbox',
+          'radio', 'listitem', 'switch', 'treeitem', 'cell'
+        ]);
+
+        function normalizeText(text) {
+          return (text || '').replace(/\\s+/g, ' ').trim();
+        }
+
+        function isStableIdent(token) {
+          return !!token && SAFE_IDENT.test(token) && !GENERATED_TOKEN.test(token);
+        }
+
+        function roleOf(el) {
+          const explicit = el.getAttribute('role');
+          if (explicit) return explicit.trim().split(/\\s+/)[0];
+          if (el.tagName === 'A' || el.tagName === 'AREA') {
+            return el.hasAttribute('href') ? 'link' : '';
+          }
+          if (el.tagName === 'INPUT') {
+            const type = (el.getAttribute('type') || 'text').toLowerCase();
+            if (type === 'hidden') return '';
+            return INPUT_ROLES[type] || 'textbox';
+          }
+          return TAG_ROLES[el.tagName] || '';
+        }
+
+        // Text of the aria-labelledby elements, aria-label or <label>s naming an element
+        function labelOf(el) {
+          const labelledBy = el.getAttribute('aria-labelledby');
+          if (labelledBy) {
+            const root = el.getRootNode();
+            return normalizeText(labelledBy.split(/\\s+/)
+              .map((id) => root.getElementById?.(id)?.textContent || '')
+              .join(' '));
+          }
+          const ariaLabel = el.getAttribute('aria-label');
+          if (ariaLabel) return normalizeText(ariaLabel);
+          if (el.labels && el.labels.length) {
+            return normalizeText(Array.from(el.labels).map((l) => l.textContent).join(' '));
+          }
+          return '';
+        }
+
+        function accessibleName(el) {
+          const label = labelOf(el);
+          if (label) return label;
+          const type = (el.getAttribute('type') || '').toLowerCase();
+          if (el.tagName === 'IMG' || (el.tagName === 'INPUT' && type === 'image')) {
+            return normalizeText(el.getAttribute('alt'));
+          }
+          if (el.tagName === 'INPUT' && ['button', 'submit', 'reset'].includes(type)) {
+            return normalizeText(el.value);
+          }
+          if (NAME_FROM_CONTENT.has(roleOf(el))) return normalizeText(el.textContent);
+          return normalizeText(el.getAttribute('title') || el.getAttribute('placeholder'));
+        }
+
+        function queryAll(root, query) {
+          const all = () => Array.from(root.querySelectorAll('*'));
+          switch (query.by) {
+            case 'css':
+              return Array.from(root.querySelectorAll(query.selector));
+            case 'testId':
+              return Array.from(root.querySelectorAll('[data-testid=' + JSON.stringify(query.testId) + ']'));
+            case 'role':
+              return all().filter((el) => roleOf(el) === query.role && accessibleName(el) === query.name);
+            case 'label':
+              return all().filter((el) => labelOf(el) === query.text);
+            case 'placeholder':
+              return Array.from(root.querySelectorAll('[placeholder]'))
+                .filter((el) => normalizeText(el.getAttribute('placeholder')) === query.text);
+          }
+          return [];
+        }
+
+        // Same mapping as candidateQuery in selectorEngine.ts
+        function candidateQuery(candidate) {
+          switch (candidate.strategy) {
+            case 'testId':
+              return candidate.attribute !== 'data-testid'
+                ? { by: 'css', selector: '[' + candidate.attribute + '=' + JSON.stringify(candidate.value) + ']' }
+                : { by: 'testId', testId: candidate.value };
+            case 'role':
+              return { by: 'role', role: candidate.role, name: candidate.value };
+            case 'label':
+            case 'placeholder':
+              return { by: candidate.strategy, text: candidate.value };
+            case 'id':
+              return { by: 'css', selector: '#' + candidate.value };
+          }
+          return { by: 'css', selector: candidate.value };
+        }
+
+        function stableCssPart(el) {
+          const tag = el.nodeName.toLowerCase();
+          if (isStableIdent(el.id)) return tag + '#' + el.id;
+          const classes = typeof el.className === 'string'
+            ? el.className.trim().split(/\\s+/).filter(isStableIdent)
+            : [];
+          return tag + classes.slice(0, 2).map((c) => '.' + c).join('');
+        }
+
+        // Tag and stable classes, adding up to two parents until it's unique
+        function shortCss(element) {
+          const root = element.getRootNode();
+          let selector = stableCssPart(element);
+          let current = element;
+          for (let depth = 1; depth < 3 && root.querySelectorAll(selector).length > 1; depth++) {
+            current = current.parentElement; // null at a shadow root
+            if (!current) break;
+            selector = stableCssPart(current) + ' > ' + selector;
+          }
+          return selector;
+        }
+
+        function selectorCandidates(element) {
+          const root = element.getRootNode();
+          const candidates = [];
+          const add = (candidate) => {
+            candidate.matches = queryAll(root, candidateQuery(candidate)).length;
+            candidates.push(candidate);
+          };
+
+          for (const attribute of ['data-testid', 'data-test']) {
+            const value = element.getAttribute(attribute);
+            if (value) add({ strategy: 'testId', attribute, value });
+          }
+          const role = roleOf(element);
+          const name = role ? accessibleName(element) : '';
+          if (name && name.length <= 80) add({ strategy: 'role', role, value: name });
+          const label = labelOf(element);
+          if (label && label.length <= 80) add({ strategy: 'label', value: label });
+          const placeholder = normalizeText(element.getAttribute('placeholder'));
+          if (placeholder) add({ strategy: 'placeholder', value: placeholder });
+          if (isStableIdent(element.id)) add({ strategy: 'id', value: element.id });
+          add({ strategy: 'css', value: shortCss(element) });
+          return candidates;
+        }`;
@@ -0,0 +1,102 @@
+import { describe, test, expect } from "vitest";
+import {
+  FALLBACKS_PREFIX,
+  fallbacksFromLine,
+  formatFallbacksComment,
+  fuzzyFindSnippet,
+  healSelector,
+  parseFallbacksComment,
+} from "./selectorHealing";
+import type { ElementSelector } from "../types/RecorderTypes";
+import type { ElementPath } from "./elementPath";
+
+const save: ElementSelector = {
+  css: "button.primary",
+  text: "Save",
+  candidates: [
+    { strategy: "testId", attribute: "data-testid", value: "save", matches: 1 },
+    { strategy: "role", role: "button", value: "Save", matches: 1 },
+    { strategy: "css", value: "button", matches: 3 },
+  ],
+  hints: { tag: "button", role: "button", name: "Save" },
+};
+
+describe("formatFallbacksComment", () => {
+  test("lists the other unique candidates and the hints", () => {
+    const comment = formatFallbacksComment(save, {
+      by: "testId",
+      testId: "save",
+    })!;
+    expect(comment.startsWith(FALLBACKS_PREFIX)).toBe(true);
+    expect(parseFallbacksComment(`  ${comment}`)).toEqual({
+      alternatives: [{ by: "role", role: "button", name: "Save" }],
+      hints: { tag: "button", role: "button", name: "Save", text: "Save" },
+    });
+  });
+
+  test("is null with nothing to fall back on", () => {
+    expect(
+      formatFallbacksComment({ css: "#a" }, { by: "css", selector: "#a" }),
+    ).toBeNull();
+  });
+});
+
+describe("parseFallbacksComment", () => {
+  test("ignores other comments and broken JSON", () => {
+    expect(parseFallbacksComment(`// "Save"`)).toBeNull();
+    expect(parseFallbacksComment(`${FALLBACKS_PREFIX}{oops`)).toBeNull();
+    expect(parseFallbacksComment(`${FALLBACKS_PREFIX}{}`)).toBeNull();
+  });
+});
+
+describe("fallbacksFromLine", () => {
+  test("uses the generator's text comment as a hint", () => {
+    const line = `await page.click('#save'); // "Save draft"`;
+    expect(fallbacksFromLine(line)).toEqual({
+      alternatives: [],
+      hints: { text: "Save draft" },
+    });
+    expect(fallbacksFromLine("await page.click('#save');").hints).toBe(
+      undefined,
+    );
+  });
+});
+
+describe("healSelector", () => {
+  const byRole = {
+    strategy: "role" as const,
+    role: "button",
+    value: "Save",
+    matches: 1,
+  };
+
+  test("puts the healed candidate first and keeps the old one", () => {
+    expect(healSelector(save, byRole).candidates).toEqual([
+      byRole,
+      save.candidates![0],
+      save.candidates![2],
+    ]);
+  });
+
+  test("turns a legacy selector into a fallback", () => {
+    const healed = healSelector({ css: "#save", text: "Save" }, byRole);
+    expect(healed.text).toBe("Save");
+    expect(healed.candidates).toEqual([
+      byRole,
+      { strategy: "css", value: "#save", matches: 1 },
+    ]);
+  });
+});
+
+describe("fuzzyFindSnippet", () => {
+  test("is valid JavaScript", () => {
+    const path: ElementPath = {
+      framePath: [],
+      shadowHosts: [],
+      query: { by: "css", selector: "#gone" },
+    };
+    expect(
+      () => new Function(fuzzyFindSnippet(path, { text: "it's here" })),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,170 @@
+import type {
+  ElementHints,
+  ElementSelector,
+  SelectorCandidate,
+} from "../types/RecorderTypes";
+import {
+  FIND_ROOT_JS,
+  sameQuery,
+  type ElementPath,
+  type ElementQuery,
+} from "./elementPath";
+import {
+  SELECTOR_ENGINE_JS,
+  candidateQuery,
+  preferredQuery,
+  queryCandidate,
+} from "./selectorEngine";
+
+// Written above an element step in the .spec.ts file, so the script keeps
+// the recording's fallbacks (and migrating a script-only recording can read
+// them back). Playwright ignores it.
+export const FALLBACKS_PREFIX = "// Selector fallbacks: ";
+
+// Below this, a fuzzy match is too weak to act on (e.g. same tag and one
+// shared word)
+export const MIN_FUZZY_SCORE = 4;
+
+export interface SelectorFallbacks {
+  alternatives: ElementQuery[]; // Other selectors that were unique, best first
+  hints?: ElementHints;
+}
+
+// The `// "text"` comment the generator puts after a click or fill
+const TRAILING_TEXT = /;\s*(\/\/ ".*")$/;
+
+/**
+ * What to find a recorded element by when `primary` matches nothing: its
+ * other unique candidates and what it looked like
+ * @returns null if there's nothing to fall back on
+ */
+export function selectorFallbacks(
+  selector: ElementSelector | undefined,
+  primary: ElementQuery,
+): SelectorFallbacks | null {
+  const alternatives = (selector?.candidates ?? [])
+    .filter((c) => c.matches === 1)
+    .map(candidateQuery)
+    .filter((query) => !sameQuery(query, primary));
+  const hints: ElementHints = { ...selector?.hints };
+  if (selector?.text) hints.text = selector.text;
+  if (alternatives.length === 0 && Object.keys(hints).length === 0) {
+    return null;
+  }
+  return { alternatives, hints };
+}
+
+/**
+ * Fallbacks comment for an element step, or null if there's nothing to fall
+ * back on
+ */
+export function formatFallbacksComment(
+  selector: ElementSelector | undefined,
+  primary: ElementQuery,
+): string | null {
+  const fallbacks = selectorFallbacks(selector, primary);
+  return fallbacks ? `${FALLBACKS_PREFIX}${JSON.stringify(fallbacks)}` : null;
+}
+
+/**
+ * @returns null if the line isn't a (valid) fallbacks comment
+ */
+export function parseFallbacksComment(line: string): SelectorFallbacks | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith(FALLBACKS_PREFIX)) return null;
+  try {
+    const parsed = JSON.parse(trimmed.slice(FALLBACKS_PREFIX.length));
+    return Array.isArray(parsed?.alternatives) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Fallbacks for a step without a comment above it (recorded before these
+// were written): the element's text from the end of the line, if any
+export function fallbacksFromLine(line: string): SelectorFallbacks {
+  const text = line.match(TRAILING_TEXT)?.[1].slice(4, -1);
+  return { alternatives: [], hints: text ? { text } : undefined };
+}
+
+/**
+ * In-page JS that evaluates to the element in the path's root that best
+ * matches the hints, as `{ score, candidates }` (its unranked selector
+ * candidates), or null when nothing scores at least MIN_FUZZY_SCORE
+ */
+export function fuzzyFindSnippet(
+  path: ElementPath,
+  hints: ElementHints,
+): string {
+  return `
+      (function(path, hints) {
+        ${SELECTOR_ENGINE_JS}
+        ${FIND_ROOT_JS}
+
+        const root = findRoot(path);
+        if (!root) return null;
+
+        const words = (text) =>
+          new Set(normalizeText(text).toLowerCase().split(' ').filter(Boolean));
+        // Share of words in common, 0 to 1
+        const similarity = (a, b) => {
+          const x = words(a);
+          const y = words(b);
+          if (!x.size || !y.size) return 0;
+          let shared = 0;
+          x.forEach((word) => { if (y.has(word)) shared++; });
+          return shared / Math.max(x.size, y.size);
+        };
+
+        let best = null;
+        let bestScore = 0;
+        for (const el of root.querySelectorAll('*')) {
+          const rect = el.getBoundingClientRect();
+          if (!rect.width || !rect.height) continue;
+          const name = accessibleName(el);
+          let score = 0;
+          if (hints.role && roleOf(el) === hints.role) score += 2;
+          if (hints.name) score += 4 * similarity(name, hints.name);
+          if (hints.text) {
+            const text = el.textContent.length < 200 ? el.textContent : name;
+            score += 3 * similarity(text, hints.text);
+          }
+          for (const [key, value] of Object.entries(hints.attributes || {})) {
+            if (el.getAttribute(key) === value) score += 2;
+          }
+          if (hints.tag && el.tagName.toLowerCase() === hints.tag) score += 1;
+          const before = el.previousElementSibling;
+          if (hints.nearbyText && before && similarity(before.textContent, hints.nearbyText) >= 0.5) {
+            score += 1;
+          }
+          if (score > bestScore) {
+            best = el;
+            bestScore = score;
+          }
+        }
+        if (!best || bestScore < ${MIN_FUZZY_SCORE}) return null;
+        return { score: bestScore, candidates: selectorCandidates(best) };
+      })(${JSON.stringify(path)}, ${JSON.stringify(hints)});
+    `;
+}
+
+/**
+ * A recorded element's selector with the candidate a replay found it by
+ * put first. The selector that stopped matching becomes its first
+ * fallback.
+ */
+export function healSelector(
+  selector: ElementSelector | undefined,
+  healed: SelectorCandidate,
+): ElementSelector {
+  const primary = queryCandidate(preferredQuery(selector));
+  const query = candidateQuery(healed);
+  const candidates = [primary, ...(selector?.candidates ?? [])].filter(
+    (candidate, index, all) =>
+      !sameQuery(candidateQuery(candidate), query) &&
+      all.findIndex((c) =>
+        sameQuery(candidateQuery(c), candidateQuery(candidate)),
+      ) === index,
+  );
+  return { ...selector, candidates: [healed, ...candidates] };
+}
@@ -0,0 +1,136 @@
+import { describe, test, expect } from "vitest";
+import {
+  SlashCommandError,
+  findModelByName,
+  findRecording,
+  isSlashCommand,
+  parseSlashCommand,
+  translatePrompt,
+} from "./slashCommands";
+import type { ProviderInfo } from "../ProviderRegistry";
+import type { Recording } from "../types/RecorderTypes";
+
+function provider(
+  id: ProviderInfo["id"],
+  models: string[],
+  configured = true,
+): ProviderInfo {
+  return {
+    id,
+    label: id,
+    requiredEnvVar: "KEY",
+    configured,
+    defaultModel: models[0],
+    models,
+    capabilities: { toolCalling: true, vision: true },
+  };
+}
+
+function recording(id: string, name: string): Recording {
+  return { id, name, createdAt: 0, updatedAt: 0, actions: [] };
+}
+
+describe("parseSlashCommand", () => {
+  test("parses commands and their arguments", () => {
+    expect(parseSlashCommand("/summarize")).toEqual({ name: "summarize" });
+    expect(parseSlashCommand("/translate de")).toEqual({
+      name: "translate",
+      language: "de",
+      text: null,
+    });
+    expect(parseSlashCommand("/translate French Hello\nworld")).toEqual({
+      name: "translate",
+      language: "French",
+      text: "Hello\nworld",
+    });
+    expect(parseSlashCommand("/record start Login flow")).toEqual({
+      name: "record",
+      action: "start",
+      recordingName: "Login flow",
+    });
+    expect(parseSlashCommand("/RECORD stop")).toEqual({
+      name: "record",
+      action: "stop",
+    });
+    expect(parseSlashCommand("/model gpt-4o-mini")).toEqual({
+      name: "model",
+      model: "gpt-4o-mini",
+    });
+  });
+
+  test("rejects unknown commands and missing arguments with a hint", () => {
+    expect(() => parseSlashCommand("/translate")).toThrow(
+      "Usage: /translate <language> [text]",
+    );
+    expect(() => parseSlashCommand("/format medium")).toThrow(
+      "Usage: /format wechat",
+    );
+    expect(() => parseSlashCommand("/record")).toThrow(SlashCommandError);
+    expect(() => parseSlashCommand("/dance")).toThrow(/Unknown command/);
+  });
+
+  test("only treats a leading slash and letter as a command", () => {
+    expect(isSlashCommand("  /clear")).toBe(true);
+    expect(isSlashCommand("/ 2")).toBe(false);
+    expect(isSlashCommand("and/or")).toBe(false);
+  });
+});
+
+describe("findModelByName", () => {
+  const providers = [
+    provider("openai", ["gpt-4o", "gpt-4o-mini"]),
+    provider("anthropic", ["claude-3-5-haiku-20241022"]),
+    provider("google", ["gemini-2.5-pro"], false),
+    provider("openai-compatible", ["llama3.1"]),
+  ];
+
+  test("prefers an exact name, then a unique partial one", () => {
+    expect(findModelByName(providers, "GPT-4o")).toEqual({
+      provider: "openai",
+      model: "gpt-4o",
+    });
+    expect(findModelByName(providers, "haiku")).toEqual({
+      provider: "anthropic",
+      model: "claude-3-5-haiku-20241022",
+    });
+    expect(findModelByName(providers, "gpt")).toBeNull();
+  });
+
+  test("skips unconfigured providers and accepts provider/model", () => {
+    expect(findModelByName(providers, "gemini-2.5-pro")).toBeNull();
+    expect(findModelByName(providers, "openai-compatible/qwen2.5")).toEqual({
+      provider: "openai-compatible",
+      model: "qwen2.5",
+    });
+  });
+});
+
+describe("findRecording", () => {
+  const recordings = [
+    recording("r1", "Login flow"),
+    recording("r2", "Publish article"),
+    recording("r3", "Publish draft"),
+  ];
+
+  test("matches by name, id or a unique part of the name", () => {
+    expect(findRecording(recordings, "login FLOW").id).toBe("r1");
+    expect(findRecording(recordings, "r3").id).toBe("r3");
+    expect(findRecording(recordings, "article").id).toBe("r2");
+  });
+
+  test("reports ambiguous and missing names", () => {
+    expect(() => findRecording(recordings, "publish")).toThrow(
+      /Several recordings match/,
+    );
+    expect(() => findRecording(recordings, "checkout")).toThrow(
+      'No recording named "checkout"',
+    );
+  });
+});
+
+test("translatePrompt truncates very long text", () => {
+  const prompt = translatePrompt("German", "x".repeat(20_000));
+  expect(prompt).toContain("into German");
+  expect(prompt).toContain("[…truncated]");
+  expect(prompt.length).toBeLessThan(13_000);
+});
@@ -0,0 +1,203 @@
+import type { ProviderInfo } from "../ProviderRegistry";
+import type { Recording } from "../types/RecorderTypes";
+
+export interface SlashCommandInfo {
+  name: string;
+  usage: string; // Shown in the composer's autocomplete
+  description: string;
+}
+
+export type SlashCommand =
+  | { name: "summarize" }
+  | { name: "translate"; language: string; text: string | null }
+  | { name: "record"; action: "start"; recordingName: string | null }
+  | { name: "record"; action: "stop" }
+  | { name: "replay"; recordingName: string }
+  | { name: "format"; platform: "wechat" }
+  | { name: "clear" }
+  | { name: "model"; model: string };
+
+export const SLASH_COMMANDS: SlashCommandInfo[] = [
+  {
+    name: "summarize",
+    usage: "/summarize",
+    description: "Summarize the active tab",
+  },
+  {
+    name: "translate",
+    usage: "/translate <language> [text]",
+    description: "Translate text, or the active tab if none is given",
+  },
+  {
+    name: "record",
+    usage: "/record start [name] | /record stop",
+    description: "Start or stop recording browser actions",
+  },
+  {
+    name: "replay",
+    usage: "/replay <name>",
+    description: "Replay a saved recording in the active tab",
+  },
+  {
+    name: "format",
+    usage: "/format wechat",
+    description: "Format the active tab for a WeChat Official Account",
+  },
+  { name: "clear", usage: "/clear", description: "Clear this conversation" },
+  {
+    name: "model",
+    usage: "/model <name>",
+    description: "Switch model, e.g. gpt-4o or anthropic/claude-3-5-haiku",
+  },
+];
+
+// Page text beyond this is cut before it goes into a prompt
+const MAX_PAGE_CHARS = 12_000;
+
+export class SlashCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SlashCommandError";
+  }
+}
+
+export function isSlashCommand(input: string): boolean {
+  return /^\/[a-z]/i.test(input.trimStart());
+}
+
+function usageError(name: string): SlashCommandError {
+  const info = SLASH_COMMANDS.find((c) => c.name === name);
+  return new SlashCommandError(`Usage: ${info?.usage ?? `/${name}`}`);
+}
+
+/**
+ * Parse composer input such as "/translate de" or "/record start Login"
+ * @throws SlashCommandError for unknown commands or missing arguments, with
+ * a usage hint as the message
+ */
+export function parseSlashCommand(input: string): SlashCommand {
+  const [head = "", ...args] = input.trim().split(/\s+/);
+  const name = head.slice(1).toLowerCase();
+  const rest = args.join(" ");
+
+  switch (name) {
+    case "summarize":
+      return { name };
+    case "translate": {
+      // The text keeps its own line breaks
+      const match = input.trim().match(/^\S+\s+(\S+)\s*([\s\S]*)$/);
+      if (!match) throw usageError(name);
+      return { name, language: match[1], text: match[2] || null };
+    }
+    case "record": {
+      const action = args[0]?.toLowerCase();
+      if (action === "start") {
+        return { name, action, recordingName: args.slice(1).join(" ") || null };
+      }
+      if (action === "stop") return { name, action };
+      throw usageError(name);
+    }
+    case "replay":
+      if (!rest) throw usageError(name);
+      return { name, recordingName: rest };
+    case "format":
+      if (args[0]?.toLowerCase() !== "wechat") throw usageError(name);
+      return { name, platform: "wechat" };
+    case "clear":
+      return { name };
+    case "model":
+      if (!rest) throw usageError(name);
+      return { name, model: rest };
+    default:
+      throw new SlashCommandError(
+        `Unknown command /${name}. Try ${SLASH_COMMANDS.map((c) => `/${c.name}`).join(", ")}.`,
+      );
+  }
+}
+
+function clip(text: string): string {
+  return text.length > MAX_PAGE_CHARS
+    ? `${text.slice(0, MAX_PAGE_CHARS)}\n[…truncated]`
+    : text;
+}
+
+export function summarizePrompt(page: {
+  title: string;
+  url: string;
+  text: string;
+}): string {
+  return `Summarize the following web page in a few short paragraphs, followed by the key points as a bulleted list.
+
+Title: ${page.title}
+URL: ${page.url}
+
+${clip(page.text)}`;
+}
+
+export function translatePrompt(language: string, text: string): string {
+  return `Translate the following text into ${language}. Keep the formatting and reply with only the translation.
+
+${clip(text)}`;
+}
+
+/**
+ * Find a model by name among configured providers. Accepts "model" or
+ * "provider/model"; an exact model name wins over a partial one.
+ * @returns null if nothing, or more than one model, matches
+ */
+export function findModelByName(
+  providers: ProviderInfo[],
+  query: string,
+): { provider: ProviderInfo["id"]; model: string } | null {
+  const needle = query.trim().toLowerCase();
+  const slash = needle.indexOf("/");
+  const providerFilter = slash > 0 ? needle.slice(0, slash) : null;
+  const modelQuery = slash > 0 ? needle.slice(slash + 1) : needle;
+
+  const candidates = providers
+    .filter((p) => p.configured && (!providerFilter || p.id === providerFilter))
+    .flatMap((p) => p.models.map((model) => ({ provider: p.id, model })));
+  const exact = candidates.filter((c) => c.model.toLowerCase() === modelQuery);
+  if (exact.length > 0) return exact[0];
+  const partial = candidates.filter((c) =>
+    c.model.toLowerCase().includes(modelQuery),
+  );
+  if (partial.length === 1) return partial[0];
+  // A provider with a free-form model list (e.g. a local server) takes any
+  // name when it was asked for explicitly
+  if (providerFilter && partial.length === 0) {
+    const provider = providers.find(
+      (p) => p.configured && p.id === providerFilter,
+    );
+    if (provider) {
+      return { provider: provider.id, model: query.trim().slice(slash + 1) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Find a saved recording by name (case-insensitive), ID, or a unique part
+ * of its name
+ * @throws SlashCommandError if none or several match
+ */
+export function findRecording(
+  recordings: Recording[],
+  query: string,
+): Recording {
+  const needle = query.trim().toLowerCase();
+  const exact = recordings.find(
+    (r) => r.name.toLowerCase() === needle || r.id === query.trim(),
+  );
+  if (exact) return exact;
+  const partial = recordings.filter((r) =>
+    r.name.toLowerCase().includes(needle),
+  );
+  if (partial.length === 1) return partial[0];
+  if (partial.length > 1) {
+    throw new SlashCommandError(
+      `Several recordings match "${query}": ${partial.map((r) => r.name).join(", ")}`,
+    );
+  }
+  throw new SlashCommandError(`No recording named "${query}"`);
+}
@@ -0,0 +1,112 @@
+import { describe, test, expect } from "vitest";
+import type { CoreMessage } from "ai";
+import {
+  applyToolEvent,
+  previewToolValue,
+  trimToolResults,
+} from "./toolEvents";
+
+describe("previewToolValue", () => {
+  test("formats objects as JSON", () => {
+    expect(previewToolValue({ ip: "1.2.3.4" })).toBe('{\n  "ip": "1.2.3.4"\n}');
+  });
+
+  test("shortens long strings such as screenshots", () => {
+    const preview = previewToolValue({ data: "A".repeat(50_000) });
+    expect(preview.length).toBeLessThan(300);
+    expect(preview).toContain("(50000 chars)");
+  });
+
+  test("returns an empty preview for missing values", () => {
+    expect(previewToolValue(undefined)).toBe("");
+  });
+});
+
+describe("applyToolEvent", () => {
+  test("tracks a call from start to result", () => {
+    let records = applyToolEvent([], {
+      type: "tool-call-start",
+      toolCallId: "c1",
+      toolName: "readPageText",
+    });
+    records = applyToolEvent(records, {
+      type: "tool-call",
+      toolCallId: "c1",
+      toolName: "readPageText",
+      input: "{}",
+    });
+    records = applyToolEvent(records, {
+      type: "tool-result",
+      toolCallId: "c1",
+      toolName: "readPageText",
+      output: "Hello",
+    });
+
+    expect(records).toEqual([
+      {
+        toolCallId: "c1",
+        toolName: "readPageText",
+        status: "done",
+        input: "{}",
+        output: "Hello",
+      },
+    ]);
+  });
+
+  test("records errors without a start event", () => {
+    const records = applyToolEvent([], {
+      type: "tool-error",
+      toolCallId: "c2",
+      toolName: "getMyIpAddress",
+      error: "Network failure",
+    });
+
+    expect(records).toEqual([
+      {
+        toolCallId: "c2",
+        toolName: "getMyIpAddress",
+        status: "error",
+        error: "Network failure",
+      },
+    ]);
+  });
+});
+
+describe("trimToolResults", () => {
+  const result = (
+    toolName: string,
+    output: Extract<CoreMessage, { role: "tool" }>["content"][number]["output"],
+  ): CoreMessage => ({
+    role: "tool",
+    content: [{ type: "tool-result", toolCallId: toolName, toolName, output }],
+  });
+
+  test("drops screenshots and shortens long page text", () => {
+    const [screenshot, page] = trimToolResults([
+      result("capturePageScreenshot", {
+        type: "content",
+        value: [
+          { type: "text", text: "Screenshot of https://example.com/" },
+          { type: "media", data: "A".repeat(50_000), mediaType: "image/png" },
+        ],
+      }),
+      result("readPageText", {
+        type: "json",
+        value: { url: "https://example.com/", text: "a".repeat(20_000) },
+      }),
+    ]);
+
+    expect(JSON.stringify(screenshot)).not.toContain("AAAA");
+    expect(JSON.stringify(screenshot)).toContain("image/png");
+    expect(JSON.stringify(page).length).toBeLessThan(1000);
+    expect(JSON.stringify(page)).toContain("https://example.com/");
+  });
+
+  test("keeps short results and other messages as they are", () => {
+    const messages: CoreMessage[] = [
+      { role: "assistant", content: "Looking it up" },
+      result("lookupIp", { type: "json", value: { ip: "1.2.3.4" } }),
+    ];
+    expect(trimToolResults(messages)).toEqual(messages);
+  });
+});
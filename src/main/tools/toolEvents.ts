@@ -0,0 +1,155 @@
+import type { CoreMessage, TextStreamPart, ToolResultPart, ToolSet } from "ai";
+import type { ToolCallRecord, ToolEvent } from "../types/ChatTypes";
+
+const MAX_PREVIEW_LENGTH = 2000;
+const MAX_STRING_LENGTH = 200; // Long strings (page text, base64 images)
+// Tool results longer than this are kept as a preview in saved history
+const MAX_HISTORY_RESULT_LENGTH = 4000;
+
+/**
+ * Short JSON preview of a tool input or output for the tool cards
+ */
+export function previewToolValue(value: unknown): string {
+  if (value === undefined) return "";
+  if (typeof value === "string") return truncate(value, MAX_PREVIEW_LENGTH);
+  let json: string;
+  try {
+    json = JSON.stringify(
+      value,
+      (_key, v: unknown) =>
+        typeof v === "string" && v.length > MAX_STRING_LENGTH
+          ? `${v.slice(0, MAX_STRING_LENGTH)}… (${v.length} chars)`
+          : v,
+      2,
+    );
+  } catch {
+    json = String(value);
+  }
+  return truncate(json ?? String(value), MAX_PREVIEW_LENGTH);
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Map a streamText fullStream part to a tool event
+ * @returns null for parts that aren't about tools
+ */
+export function toolEventFromPart(
+  part: TextStreamPart<ToolSet>,
+): ToolEvent | null {
+  switch (part.type) {
+    case "tool-input-start":
+      return {
+        type: "tool-call-start",
+        toolCallId: part.id,
+        toolName: part.toolName,
+      };
+    case "tool-call":
+      return {
+        type: "tool-call",
+        toolCallId: part.toolCallId,
+        toolName: part.toolName,
+        input: previewToolValue(part.input),
+      };
+    case "tool-result":
+      return {
+        type: "tool-result",
+        toolCallId: part.toolCallId,
+        toolName: part.toolName,
+        output: previewToolValue(part.output),
+      };
+    case "tool-error":
+      return {
+        type: "tool-error",
+        toolCallId: part.toolCallId,
+        toolName: part.toolName,
+        error: errorMessage(part.error),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Fold a tool event into the list of tool calls for a reply
+ */
+export function applyToolEvent(
+  records: ToolCallRecord[],
+  event: ToolEvent,
+): ToolCallRecord[] {
+  const existing = records.find((r) => r.toolCallId === event.toolCallId);
+  const record: ToolCallRecord = existing ?? {
+    toolCallId: event.toolCallId,
+    toolName: event.toolName,
+    status: "running",
+  };
+  const updated: ToolCallRecord =
+    event.type === "tool-call"
+      ? { ...record, input: event.input }
+      : event.type === "tool-result"
+        ? { ...record, status: "done", output: event.output }
+        : event.type === "tool-error"
+          ? { ...record, status: "error", error: event.error }
+          : record;
+  return existing
+    ? records.map((r) => (r === existing ? updated : r))
+    : [...records, updated];
+}
+
+/**
+ * Shrink tool results before they're saved and re-sent with later turns:
+ * images become a note and long outputs a preview. The model saw the full
+ * result on the turn that called the tool.
+ */
+export function trimToolResults(messages: CoreMessage[]): CoreMessage[] {
+  return messages.map((message) =>
+    message.role === "tool"
+      ? {
+          ...message,
+          content: message.content.map((part) =>
+            part.type === "tool-result"
+              ? { ...part, output: trimToolOutput(part.output) }
+              : part,
+          ),
+        }
+      : message,
+  );
+}
+
+function trimToolOutput(
+  output: ToolResultPart["output"],
+): ToolResultPart["output"] {
+  switch (output.type) {
+    case "content":
+      return {
+        type: "content",
+        value: output.value.map((item) =>
+          item.type === "media"
+            ? { type: "text", text: `[${item.mediaType} not kept in history]` }
+            : item,
+        ),
+      };
+    case "text":
+    case "error-text":
+      return output.value.length > MAX_HISTORY_RESULT_LENGTH
+        ? {
+            type: output.type,
+            value: `${truncate(output.value, MAX_HISTORY_RESULT_LENGTH)} (${output.value.length} chars, trimmed in history)`,
+          }
+        : output;
+    case "json":
+    case "error-json":
+      return JSON.stringify(output.value).length > MAX_HISTORY_RESULT_LENGTH
+        ? {
+            type: output.type === "json" ? "text" : "error-text",
+            value: `${previewToolValue(output.value)} (trimmed in history)`,
+          }
+        : output;
+  }
+}
@@ -0,0 +1,99 @@
+import type { CoreMessage } from "ai";
+import type { MessageUsage } from "./UsageTypes";
+
+export type ChatRole = "user" | "assistant";
+
+// Tool inputs and outputs are kept as short previews for display; the full
+// values only live in `responseMessages`
+export interface ToolCallRecord {
+  toolCallId: string;
+  toolName: string;
+  status: "running" | "done" | "error";
+  input?: string;
+  output?: string;
+  error?: string;
+}
+
+// Sent on chat-tool-event while a reply streams
+export type ToolEvent =
+  | { type: "tool-call-start"; toolCallId: string; toolName: string }
+  | { type: "tool-call"; toolCallId: string; toolName: string; input: string }
+  | {
+      type: "tool-result";
+      toolCallId: string;
+      toolName: string;
+      output: string;
+    }
+  | { type: "tool-error"; toolCallId: string; toolName: string; error: string };
+
+// Model that produced a reply; `fallback` when the selected one failed
+export interface AnsweredBy {
+  provider: string;
+  model: string;
+  fallback: boolean;
+}
+
+// Set on messages that came from a slash command in the composer
+export interface MessageCommand {
+  input: string; // What was typed, e.g. "/translate de"
+  // Handled by the app (recorder, replay, ...) rather than the model; these
+  // messages are kept out of the model's context
+  local: boolean;
+}
+
+// Marks where older history was compacted to fit the context window
+export interface HistoryCompaction {
+  summary: string | null; // null when the older turns were dropped instead
+  createdAt: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  parentId: string | null; // Previous message in the thread; null for the first
+  role: ChatRole;
+  content: string;
+  createdAt: number;
+  status?: "cancelled"; // Stopped by the user before it finished
+  toolCalls?: ToolCallRecord[]; // Tools the assistant ran for this reply
+  usage?: MessageUsage; // Tokens and cost of generating this reply
+  answeredBy?: AnsweredBy;
+  command?: MessageCommand;
+  // Set on the last message that was compacted: it and everything before
+  // it on the branch are only sent to the model as `summary`
+  compaction?: HistoryCompaction;
+  // Model-facing messages for a reply that used tools (tool calls and their
+  // results), so follow-up turns see what the tools returned
+  responseMessages?: CoreMessage[];
+}
+
+// Messages form a tree: editing a prompt or regenerating a reply adds a
+// sibling instead of overwriting. `currentLeafId` selects the visible branch.
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[]; // Every message on every branch
+  currentLeafId: string | null;
+}
+
+export interface MessageBranch {
+  index: number; // Position among messages sharing the same parent
+  count: number;
+  siblingIds: string[];
+}
+
+// A message on the visible branch, as sent to the sidebar
+export interface ChatMessageView extends Omit<ChatMessage, "responseMessages"> {
+  branch: MessageBranch;
+}
+
+// Listing entry for the thread picker (messages are loaded on demand)
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+  snippet?: string; // Matching text when returned from a search
+}
@@ -1,12 +1,63 @@
+import type { Tab } from "../Tab";
+
 export type ActionType =
   | "click"
   | "input"
   | "select"
-  | "navigate"
+  | "navigate" // `value` is the NavigationKind, `url` where it went
+  | "popup" // The page opened a tab; `value` is the new tab's page variable
+  | "new_tab" // Opened from the browser UI; `value` as for "popup"
+  | "switch_tab" // To the action's tab
+  | "close_tab"
   | "scroll"
   | "wait"
   | "keypress" // For keyboard events like Enter, Escape, Tab
-  | "manual_step"; // For QR code scans and other manual interventions
+  | "dblclick"
+  | "rightclick"
+  | "hover" // Hovers that revealed something (e.g. a menu) before a click
+  | "check" // Checkbox or radio button
+  | "uncheck"
+  | "drag" // HTML5 drag-and-drop; `value` is the drop target's ElementSelector as JSON
+  | "upload" // File input; `value` is the recorded file names as JSON
+  | "manual_step" // For QR code scans and other manual interventions
+  // Checks; the expected text, value, URL or title goes in `value`
+  | "assert_visible"
+  | "assert_text"
+  | "assert_value"
+  | "assert_url"
+  | "assert_title";
+
+// How a tab got to a URL: typed or loaded by the browser ("goto"), as a
+// result of the previous step ("wait"), or through history
+export type NavigationKind = "goto" | "wait" | "back" | "forward" | "reload";
+
+export type SelectorStrategy =
+  | "testId" // data-testid / data-test attribute
+  | "role" // ARIA role plus accessible name
+  | "label"
+  | "placeholder"
+  | "id"
+  | "css";
+
+export interface SelectorCandidate {
+  strategy: SelectorStrategy;
+  value: string; // Test id, accessible name, label, placeholder, id or CSS
+  role?: string; // For "role"
+  attribute?: string; // For "testId": which attribute held it
+  matches: number; // Elements it matched when recorded (1 = unique)
+  score?: number; // Set by rankSelectorCandidates; higher is better
+}
+
+// What an element looked like when recorded, for finding it again when
+// none of its selectors match
+export interface ElementHints {
+  tag?: string;
+  text?: string; // Short visible text (copied from ElementSelector.text)
+  role?: string;
+  name?: string; // Accessible name
+  attributes?: Record<string, string>; // e.g. name, type, aria-label
+  nearbyText?: string; // Text of the element just before it
+}
 
 export interface ElementSelector {
   css?: string;
@@ -14,6 +65,13 @@ export interface ElementSelector {
   text?: string;
   id?: string;
   name?: string;
+  // Set when the element is inside iframes or open shadow roots. Each entry
+  // is a CSS selector relative to the document or shadow root holding it,
+  // outermost first; the fields above are relative to the innermost one.
+  framePath?: string[];
+  shadowHosts?: string[];
+  candidates?: SelectorCandidate[]; // Ranked, best first
+  hints?: ElementHints;
 }
 
 export interface RecordedAction {
@@ -27,6 +85,8 @@ export interface RecordedAction {
   screenshot?: string; // Base64 screenshot at this step
   isContentField?: boolean; // Mark fields where content should be replaced
   contentPlaceholder?: string; // e.g., "article-title", "article-body"
+  tab?: string; // Page variable of the tab it happened in ("page", "page1", ...)
+  secret?: string; // Vault name of a typed secret; its value is never kept
 }
 
 export interface Recording {
@@ -35,13 +95,19 @@ export interface Recording {
   description?: string;
   createdAt: number;
   updatedAt: number;
-  actions: RecordedAction[]; // Used during recording; empty when loaded from Playwright script
+  actions: RecordedAction[];
   metadata?: {
     targetSite?: string;
-    manualSteps?: number; // Parsed from Playwright script comments
+    manualSteps?: number;
   };
 }
 
+// A recording as stored on disk, next to the script generated from it
+export interface RecordingFile {
+  version: number; // RECORDING_SCHEMA_VERSION when written
+  recording: Recording;
+}
+
 export interface ReplayOptions {
   recording: Recording;
   content?: {
@@ -51,9 +117,56 @@ export interface ReplayOptions {
   speed?: number; // Playback speed multiplier
 }
 
+// One dataset row to replay a recording with
+export interface BatchRow {
+  row: number; // 1-based row in the dataset
+  content: { [placeholderName: string]: string };
+}
+
+export type BatchRowStatus = "pending" | "running" | "passed" | "failed";
+
+export interface BatchRowResult {
+  row: number;
+  status: BatchRowStatus;
+  error?: string;
+}
+
+// A replay step whose selector no longer matched but whose element was
+// found another way
+export interface HealedStep {
+  actionId: string; // The recorded action the step replays
+  step: number; // 1-based position of that action in the recording
+  candidate: SelectorCandidate; // The selector that worked
+  strategy: "alternative" | "fuzzy"; // A stored fallback, or fuzzy matching
+  selector: string; // Readable form of the selector that worked
+}
+
+export type TabEvent =
+  | { type: "created"; tab: Tab; opener?: Tab } // opener: the page opened it
+  | { type: "activated"; tab: Tab }
+  | { type: "closed"; tab: Tab };
+
+export type TabListener = (event: TabEvent) => void;
+
+/**
+ * The parts of the browser window the recorder and replayer use to follow
+ * a recording across tabs. Implemented by Window.
+ */
+export interface TabHost {
+  readonly activeTab: Tab | null;
+  createTab(url?: string): Tab;
+  switchActiveTab(tabId: string): boolean;
+  closeTab(tabId: string): boolean;
+  // @returns A function that removes the listener
+  addTabListener(listener: TabListener): () => void;
+}
+
 export interface RecorderState {
   isRecording: boolean;
   isPaused: boolean;
   currentRecording: Recording | null;
   recordings: Recording[];
 }
+
+// Called when recording starts, stops, pauses or resumes
+export type RecorderStateListener = (state: RecorderState) => void;
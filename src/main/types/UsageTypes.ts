@@ -0,0 +1,38 @@
+// Prices are in US dollars per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Token counts and cost of a single model call (or a whole reply, summed
+// over its tool-call steps)
+export interface MessageUsage {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number | null; // null when the model has no known price
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number; // Only priced requests contribute
+  unpricedRequests: number;
+}
+
+export interface DailyUsage {
+  date: string; // Local calendar day, YYYY-MM-DD
+  totals: UsageTotals;
+}
+
+// Everything the sidebar's usage view shows
+export interface UsageSummary {
+  conversation: UsageTotals | null; // The current thread, if any
+  today: UsageTotals;
+  days: DailyUsage[]; // Most recent first
+  allTime: UsageTotals;
+}
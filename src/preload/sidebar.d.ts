@@ -16,6 +16,124 @@ interface ChatResponse {
   isComplete: boolean;
 }
 
+interface AgentStep {
+  id: string;
+  toolName: string;
+  description: string;
+  status: "running" | "done" | "error";
+  detail?: string;
+}
+
+interface AgentStepEvent {
+  messageId: string;
+  step: AgentStep;
+}
+
+interface ToolCallRecord {
+  toolCallId: string;
+  toolName: string;
+  status: "running" | "done" | "error";
+  input?: string;
+  output?: string;
+  error?: string;
+}
+
+interface ToolEvent {
+  type: "tool-call-start" | "tool-call" | "tool-result" | "tool-error";
+  toolCallId: string;
+  toolName: string;
+  input?: string;
+  output?: string;
+  error?: string;
+}
+
+interface ToolEventMessage {
+  messageId: string;
+  event: ToolEvent;
+}
+
+type ApprovalDecision = "allow" | "always" | "deny";
+
+interface ApprovalRequest {
+  id: string;
+  messageId: string;
+  toolName: string;
+  summary: string;
+  reasons: Array<{
+    type: "form-submit" | "new-origin" | "saved-session";
+    message: string;
+  }>;
+  domain: string | null; // Domain an "always allow" answer applies to
+}
+
+interface SecretPrompt {
+  id: string;
+  kind: "passphrase" | "new-passphrase" | "secret";
+  name?: string; // The secret's vault name, for kind "secret"
+  message: string;
+}
+
+interface ProviderInfo {
+  id: string;
+  label: string;
+  requiredEnvVar: string;
+  configured: boolean;
+  defaultModel: string;
+  models: string[];
+  capabilities: { toolCalling: boolean; vision: boolean };
+}
+
+interface ModelSettings {
+  provider: string;
+  model: string;
+  temperature: number;
+}
+
+interface MessageUsage {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number | null;
+}
+
+interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+  unpricedRequests: number;
+}
+
+interface UsageSummary {
+  conversation: UsageTotals | null;
+  today: UsageTotals;
+  days: Array<{ date: string; totals: UsageTotals }>;
+  allTime: UsageTotals;
+}
+
+interface AssistantProfile {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  model?: { provider: string; model: string };
+  temperature?: number;
+  enabledTools: string[] | null;
+}
+
+interface SlashCommandInfo {
+  name: string;
+  usage: string;
+  description: string;
+}
+
+interface ToolInfo {
+  name: string;
+  description: string;
+}
+
 interface TabInfo {
   id: string;
   title: string;
@@ -23,9 +141,98 @@ interface TabInfo {
   isActive: boolean;
 }
 
-interface CoreMessage {
-  role: string;
-  content: string | Array<{ type: string; text?: string }>;
+interface AnsweredBy {
+  provider: string;
+  model: string;
+  fallback: boolean;
+}
+
+interface MessageCommand {
+  input: string;
+  local: boolean;
+}
+
+interface HistoryCompaction {
+  summary: string | null;
+  createdAt: number;
+}
+
+interface ChatMessage {
+  id: string;
+  parentId: string | null;
+  role: "user" | "assistant";
+  content: string;
+  createdAt: number;
+  status?: "cancelled";
+  toolCalls?: ToolCallRecord[];
+  usage?: MessageUsage;
+  answeredBy?: AnsweredBy;
+  command?: MessageCommand;
+  compaction?: HistoryCompaction;
+  branch: {
+    index: number;
+    count: number;
+    siblingIds: string[];
+  };
+}
+
+interface Conversation {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: Array<Omit<ChatMessage, "branch">>; // Every branch
+  currentLeafId: string | null;
+}
+
+interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+  snippet?: string;
+}
+
+interface ConversationsUpdatedEvent {
+  currentId: string;
+  conversations: ConversationSummary[];
+}
+
+interface SelectorCandidateData {
+  strategy: string;
+  value: string;
+  role?: string;
+  attribute?: string;
+  matches: number;
+  score?: number;
+}
+
+interface ElementSelectorData {
+  css?: string;
+  xpath?: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  framePath?: string[];
+  shadowHosts?: string[];
+  candidates?: SelectorCandidateData[];
+  hints?: Record<string, unknown>;
+}
+
+interface RecordedActionData {
+  id: string;
+  type: string;
+  timestamp: number;
+  url: string;
+  selector?: ElementSelectorData;
+  value?: string;
+  description?: string;
+  screenshot?: string;
+  isContentField?: boolean;
+  contentPlaceholder?: string;
+  tab?: string;
+  secret?: string;
 }
 
 interface RecordingData {
@@ -34,7 +241,7 @@ interface RecordingData {
   description?: string;
   createdAt: number;
   updatedAt: number;
-  actions: unknown[];
+  actions: RecordedActionData[];
   metadata?: {
     targetSite?: string;
     duration?: number;
@@ -49,16 +256,133 @@ interface ReplayOptions {
   speed?: number;
 }
 
+interface HealedStep {
+  actionId: string;
+  step: number;
+  candidate: SelectorCandidateData;
+  strategy: "alternative" | "fuzzy";
+  selector: string;
+}
+
+interface Dataset {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+interface BatchRow {
+  row: number; // 1-based row in the dataset
+  content: Record<string, string>;
+}
+
+interface BatchRowResult {
+  row: number;
+  status: "pending" | "running" | "passed" | "failed";
+  error?: string;
+}
+
 interface SidebarAPI {
   // Chat functionality
   sendChatMessage: (request: Partial<ChatRequest>) => Promise<void>;
+  editMessage: (request: {
+    targetId: string;
+    message: string;
+    messageId: string;
+  }) => Promise<void>;
+  regenerateMessage: (request: {
+    targetId: string;
+    messageId: string;
+  }) => Promise<void>;
+  switchBranch: (
+    messageId: string,
+  ) => Promise<{ success: boolean; error?: string }>;
+  cancelChat: (
+    messageId: string,
+  ) => Promise<{ success: boolean; error?: string }>;
   clearChat: () => Promise<void>;
-  getMessages: () => Promise<CoreMessage[]>;
+  getMessages: () => Promise<ChatMessage[]>;
   onChatResponse: (callback: (data: ChatResponse) => void) => void;
-  onMessagesUpdated: (callback: (messages: CoreMessage[]) => void) => void;
+  onMessagesUpdated: (callback: (messages: ChatMessage[]) => void) => void;
   removeChatResponseListener: () => void;
   removeMessagesUpdatedListener: () => void;
 
+  // Conversation threads
+  getCurrentConversation: () => Promise<Conversation>;
+  listConversations: () => Promise<ConversationSummary[]>;
+  searchConversations: (query: string) => Promise<ConversationSummary[]>;
+  createConversation: () => Promise<Conversation>;
+  switchConversation: (
+    id: string,
+  ) => Promise<{ success: boolean; error?: string }>;
+  renameConversation: (
+    id: string,
+    title: string,
+  ) => Promise<{ success: boolean; error?: string }>;
+  deleteConversation: (
+    id: string,
+  ) => Promise<{ success: boolean; error?: string }>;
+  onConversationsUpdated: (
+    callback: (data: ConversationsUpdatedEvent) => void,
+  ) => void;
+  removeConversationsUpdatedListener: () => void;
+
+  // Model / provider selection
+  listProviders: () => Promise<ProviderInfo[]>;
+  getModelSettings: () => Promise<ModelSettings>;
+  setModelSettings: (changes: Partial<ModelSettings>) => Promise<{
+    success: boolean;
+    settings?: ModelSettings;
+    error?: string;
+  }>;
+
+  // Assistant profiles
+  listProfiles: () => Promise<{
+    profiles: AssistantProfile[];
+    activeId: string;
+  }>;
+  listTools: () => Promise<ToolInfo[]>;
+  setActiveProfile: (id: string) => Promise<{
+    success: boolean;
+    profile?: AssistantProfile;
+    settings?: ModelSettings;
+    error?: string;
+  }>;
+  saveProfile: (profile: Partial<AssistantProfile>) => Promise<{
+    success: boolean;
+    profile?: AssistantProfile;
+    error?: string;
+  }>;
+  deleteProfile: (id: string) => Promise<{ success: boolean; error?: string }>;
+
+  // Slash commands
+  listCommands: () => Promise<SlashCommandInfo[]>;
+  runCommand: (request: {
+    input: string;
+    messageId: string;
+  }) => Promise<{ success: boolean; error?: string }>;
+
+  // Token usage and cost; null when usage isn't tracked
+  getUsageSummary: () => Promise<UsageSummary | null>;
+
+  // Agent mode
+  setAgentMode: (enabled: boolean) => Promise<boolean>;
+  getAgentMode: () => Promise<boolean>;
+  onAgentStep: (callback: (data: AgentStepEvent) => void) => void;
+  removeAgentStepListener: () => void;
+  onToolEvent: (callback: (data: ToolEventMessage) => void) => void;
+  removeToolEventListener: () => void;
+  onApprovalRequest: (callback: (request: ApprovalRequest) => void) => void;
+  removeApprovalRequestListener: () => void;
+  respondToApproval: (
+    requestId: string,
+    decision: ApprovalDecision,
+  ) => Promise<{ success: boolean; error?: string }>;
+  onSecretPrompt: (callback: (prompt: SecretPrompt) => void) => void;
+  removeSecretPromptListener: () => void;
+  respondToSecretPrompt: (
+    promptId: string,
+    value: string | null, // null cancels
+  ) => Promise<{ success: boolean; error?: string }>;
+
   // Page content access
   getPageContent: () => Promise<string | null>;
   getPageText: () => Promise<string | null>;
@@ -71,14 +395,47 @@ interface SidebarAPI {
   recorderGetRecording: (
     id: string,
   ) => Promise<{ success: boolean; recording?: RecordingData; error?: string }>;
+  recorderUpdateRecording: (
+    recording: RecordingData,
+  ) => Promise<{ success: boolean; recording?: RecordingData; error?: string }>;
   recorderDeleteRecording: (
     id: string,
   ) => Promise<{ success: boolean; error?: string }>;
 
   // Replayer APIs
-  replayerStart: (
-    options: ReplayOptions,
+  replayerStart: (options: ReplayOptions) => Promise<{
+    success: boolean;
+    error?: string;
+    healedSteps?: HealedStep[];
+  }>;
+  replayerSaveHealedSelectors: (
+    recordingId: string,
+    steps: HealedStep[],
   ) => Promise<{ success: boolean; error?: string }>;
+
+  // Batch replay APIs
+  batchReplayOpenDataset: (recordingId: string) => Promise<{
+    success: boolean; // false without an error when no file was chosen
+    error?: string;
+    fileName?: string;
+    dataset?: Dataset;
+    placeholders?: string[];
+    uploads?: string[]; // Placeholders that must be mapped to file paths
+    mapping?: Record<string, string>; // Placeholder to column
+    parallel?: boolean; // false when the recording opens or switches tabs
+  }>;
+  batchReplayStart: (
+    recordingId: string,
+    rows: BatchRow[],
+    parallel: number, // Tabs to replay in at once; 1 uses the active tab
+  ) => Promise<{
+    success: boolean;
+    error?: string;
+    results?: BatchRowResult[];
+  }>;
+  batchReplayStop: () => Promise<{ success: boolean }>;
+  onBatchReplayRow: (callback: (result: BatchRowResult) => void) => void;
+  removeBatchReplayRowListener: () => void;
 }
 
 declare global {
@@ -17,12 +17,100 @@ interface ChatResponse {
   isComplete: boolean;
 }
 
+interface AgentStepEvent {
+  messageId: string;
+  step: {
+    id: string;
+    toolName: string;
+    description: string;
+    status: "running" | "done" | "error";
+    detail?: string;
+  };
+}
+
+interface ToolEvent {
+  type: "tool-call-start" | "tool-call" | "tool-result" | "tool-error";
+  toolCallId: string;
+  toolName: string;
+  input?: string;
+  output?: string;
+  error?: string;
+}
+
+interface ToolEventMessage {
+  messageId: string;
+  event: ToolEvent;
+}
+
+interface AssistantProfile {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  model?: { provider: string; model: string };
+  temperature?: number;
+  enabledTools: string[] | null;
+}
+
+interface ApprovalRequest {
+  id: string;
+  messageId: string;
+  toolName: string;
+  summary: string;
+  reasons: Array<{ type: string; message: string }>;
+  domain: string | null;
+}
+
+interface SecretPrompt {
+  id: string;
+  kind: "passphrase" | "new-passphrase" | "secret";
+  name?: string;
+  message: string;
+}
+
+interface BatchRowResult {
+  row: number;
+  status: "pending" | "running" | "passed" | "failed";
+  error?: string;
+}
+
+interface ConversationsUpdatedEvent {
+  currentId: string;
+  conversations: Array<{
+    id: string;
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    messageCount: number;
+  }>;
+}
+
+interface ModelSettings {
+  provider: string;
+  model: string;
+  temperature: number;
+}
+
 // Sidebar specific APIs
 const sidebarAPI = {
   // Chat functionality
   sendChatMessage: (request: Partial<ChatRequest>) =>
     electronAPI.ipcRenderer.invoke("sidebar-chat-message", request),
 
+  editMessage: (request: {
+    targetId: string;
+    message: string;
+    messageId: string;
+  }) => electronAPI.ipcRenderer.invoke("sidebar-edit-message", request),
+
+  regenerateMessage: (request: { targetId: string; messageId: string }) =>
+    electronAPI.ipcRenderer.invoke("sidebar-regenerate-message", request),
+
+  switchBranch: (messageId: string) =>
+    electronAPI.ipcRenderer.invoke("sidebar-switch-branch", messageId),
+
+  cancelChat: (messageId: string) =>
+    electronAPI.ipcRenderer.invoke("sidebar-cancel-chat", messageId),
+
   clearChat: () => electronAPI.ipcRenderer.invoke("sidebar-clear-chat"),
 
   getMessages: () => electronAPI.ipcRenderer.invoke("sidebar-get-messages"),
@@ -45,6 +133,128 @@ const sidebarAPI = {
     electronAPI.ipcRenderer.removeAllListeners("chat-messages-updated");
   },
 
+  // Conversation threads
+  getCurrentConversation: () =>
+    electronAPI.ipcRenderer.invoke("sidebar-get-current-conversation"),
+
+  listConversations: () =>
+    electronAPI.ipcRenderer.invoke("sidebar-list-conversations"),
+
+  searchConversations: (query: string) =>
+    electronAPI.ipcRenderer.invoke("sidebar-search-conversations", query),
+
+  createConversation: () =>
+    electronAPI.ipcRenderer.invoke("sidebar-create-conversation"),
+
+  switchConversation: (id: string) =>
+    electronAPI.ipcRenderer.invoke("sidebar-switch-conversation", id),
+
+  renameConversation: (id: string, title: string) =>
+    electronAPI.ipcRenderer.invoke("sidebar-rename-conversation", id, title),
+
+  deleteConversation: (id: string) =>
+    electronAPI.ipcRenderer.invoke("sidebar-delete-conversation", id),
+
+  onConversationsUpdated: (
+    callback: (data: ConversationsUpdatedEvent) => void,
+  ) => {
+    electronAPI.ipcRenderer.on("chat-conversations-updated", (_, data) =>
+      callback(data),
+    );
+  },
+
+  removeConversationsUpdatedListener: () => {
+    electronAPI.ipcRenderer.removeAllListeners("chat-conversations-updated");
+  },
+
+  // Model / provider selection
+  listProviders: () => electronAPI.ipcRenderer.invoke("sidebar-list-providers"),
+
+  getModelSettings: () =>
+    electronAPI.ipcRenderer.invoke("sidebar-get-model-settings"),
+
+  setModelSettings: (changes: Partial<ModelSettings>) =>
+    electronAPI.ipcRenderer.invoke("sidebar-set-model-settings", changes),
+
+  // Assistant profiles
+  listProfiles: () => electronAPI.ipcRenderer.invoke("sidebar-list-profiles"),
+
+  listTools: () => electronAPI.ipcRenderer.invoke("sidebar-list-tools"),
+
+  setActiveProfile: (id: string) =>
+    electronAPI.ipcRenderer.invoke("sidebar-set-active-profile", id),
+
+  saveProfile: (profile: Partial<AssistantProfile>) =>
+    electronAPI.ipcRenderer.invoke("sidebar-save-profile", profile),
+
+  deleteProfile: (id: string) =>
+    electronAPI.ipcRenderer.invoke("sidebar-delete-profile", id),
+
+  // Slash commands
+  listCommands: () => electronAPI.ipcRenderer.invoke("sidebar-list-commands"),
+
+  runCommand: (request: { input: string; messageId: string }) =>
+    electronAPI.ipcRenderer.invoke("sidebar-run-command", request),
+
+  // Token usage and cost
+  getUsageSummary: () =>
+    electronAPI.ipcRenderer.invoke("sidebar-get-usage-summary"),
+
+  // Agent mode
+  setAgentMode: (enabled: boolean) =>
+    electronAPI.ipcRenderer.invoke("sidebar-set-agent-mode", enabled),
+
+  getAgentMode: () => electronAPI.ipcRenderer.invoke("sidebar-get-agent-mode"),
+
+  onAgentStep: (callback: (data: AgentStepEvent) => void) => {
+    electronAPI.ipcRenderer.on("chat-agent-step", (_, data) => callback(data));
+  },
+
+  removeAgentStepListener: () => {
+    electronAPI.ipcRenderer.removeAllListeners("chat-agent-step");
+  },
+
+  onToolEvent: (callback: (data: ToolEventMessage) => void) => {
+    electronAPI.ipcRenderer.on("chat-tool-event", (_, data) => callback(data));
+  },
+
+  removeToolEventListener: () => {
+    electronAPI.ipcRenderer.removeAllListeners("chat-tool-event");
+  },
+
+  onApprovalRequest: (callback: (request: ApprovalRequest) => void) => {
+    electronAPI.ipcRenderer.on("chat-approval-request", (_, request) =>
+      callback(request),
+    );
+  },
+
+  removeApprovalRequestListener: () => {
+    electronAPI.ipcRenderer.removeAllListeners("chat-approval-request");
+  },
+
+  respondToApproval: (
+    requestId: string,
+    decision: "allow" | "always" | "deny",
+  ) =>
+    electronAPI.ipcRenderer.invoke(
+      "sidebar-approval-response",
+      requestId,
+      decision,
+    ),
+
+  onSecretPrompt: (callback: (prompt: SecretPrompt) => void) => {
+    electronAPI.ipcRenderer.on("secret-prompt-request", (_, prompt) =>
+      callback(prompt),
+    );
+  },
+
+  removeSecretPromptListener: () => {
+    electronAPI.ipcRenderer.removeAllListeners("secret-prompt-request");
+  },
+
+  respondToSecretPrompt: (promptId: string, value: string | null) =>
+    electronAPI.ipcRenderer.invoke("sidebar-secret-response", promptId, value),
+
   // Page content access
   getPageContent: () => electronAPI.ipcRenderer.invoke("get-page-content"),
   getPageText: () => electronAPI.ipcRenderer.invoke("get-page-text"),
@@ -56,12 +266,40 @@ const sidebarAPI = {
   // Recorder APIs
   recorderGetRecording: (id: string) =>
     electronAPI.ipcRenderer.invoke("recorder-get-recording", id),
+  recorderUpdateRecording: (recording: unknown) =>
+    electronAPI.ipcRenderer.invoke("recorder-update-recording", recording),
   recorderDeleteRecording: (id: string) =>
     electronAPI.ipcRenderer.invoke("recorder-delete-recording", id),
 
   // Replayer APIs
   replayerStart: (options: unknown) =>
     electronAPI.ipcRenderer.invoke("replayer-start", options),
+  replayerSaveHealedSelectors: (recordingId: string, steps: unknown[]) =>
+    electronAPI.ipcRenderer.invoke(
+      "replayer-save-healed-selectors",
+      recordingId,
+      steps,
+    ),
+
+  // Batch replay APIs
+  batchReplayOpenDataset: (recordingId: string) =>
+    electronAPI.ipcRenderer.invoke("batch-replay-open-dataset", recordingId),
+  batchReplayStart: (recordingId: string, rows: unknown[], parallel: number) =>
+    electronAPI.ipcRenderer.invoke(
+      "batch-replay-start",
+      recordingId,
+      rows,
+      parallel,
+    ),
+  batchReplayStop: () => electronAPI.ipcRenderer.invoke("batch-replay-stop"),
+  onBatchReplayRow: (callback: (result: BatchRowResult) => void) => {
+    electronAPI.ipcRenderer.on("batch-replay-row", (_, result) =>
+      callback(result),
+    );
+  },
+  removeBatchReplayRowListener: () => {
+    electronAPI.ipcRenderer.removeAllListeners("batch-replay-row");
+  },
 };
 
 // Use `contextBridge` APIs to expose Electron APIs to
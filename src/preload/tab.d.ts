@@ -1,11 +1,23 @@
 import { ElectronAPI } from "@electron-toolkit/preload";
 
+interface SelectorCandidate {
+  strategy: "testId" | "role" | "label" | "placeholder" | "id" | "css";
+  value: string;
+  role?: string;
+  attribute?: string;
+  matches: number;
+  score?: number;
+}
+
 interface ElementSelector {
   css?: string;
   xpath?: string;
   text?: string;
   id?: string;
   name?: string;
+  framePath?: string[];
+  shadowHosts?: string[];
+  candidates?: SelectorCandidate[];
 }
 
 interface TabAPI {
@@ -17,6 +29,10 @@ interface TabAPI {
     isContentField?: boolean,
     contentPlaceholder?: string,
   ) => Promise<{ success: boolean; error?: string }>;
+  pickAssertTarget: (
+    selector: ElementSelector,
+    element: { text: string; value: string | null },
+  ) => Promise<{ success: boolean; error?: string }>;
 }
 
 declare global {
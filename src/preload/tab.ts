@@ -6,7 +6,7 @@ const tabAPI = {
   // Recorder - called by injected recorder script in web pages
   recordAction: (
     type: string,
-    selector: Record<string, string | undefined>,
+    selector: Record<string, unknown>,
     value?: string,
     isContentField?: boolean,
     contentPlaceholder?: string,
@@ -19,6 +19,13 @@ const tabAPI = {
       isContentField,
       contentPlaceholder,
     ),
+
+  // Called by the recorder script when an element is clicked in assert mode
+  pickAssertTarget: (
+    selector: Record<string, unknown>,
+    element: { text: string; value: string | null },
+  ) =>
+    electronAPI.ipcRenderer.invoke("recorder-assert-target", selector, element),
 };
 
 // Use `contextBridge` APIs to expose Electron APIs to
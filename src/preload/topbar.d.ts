@@ -13,9 +13,26 @@ type ActionType =
   | "input"
   | "select"
   | "navigate"
+  | "popup"
+  | "new_tab"
+  | "switch_tab"
+  | "close_tab"
   | "scroll"
   | "wait"
-  | "manual_step";
+  | "keypress"
+  | "dblclick"
+  | "rightclick"
+  | "hover"
+  | "check"
+  | "uncheck"
+  | "drag"
+  | "upload"
+  | "manual_step"
+  | "assert_visible"
+  | "assert_text"
+  | "assert_value"
+  | "assert_url"
+  | "assert_title";
 
 interface ElementSelector {
   css?: string;
@@ -36,6 +53,8 @@ interface RecordedAction {
   screenshot?: string;
   isContentField?: boolean;
   contentPlaceholder?: string;
+  tab?: string;
+  secret?: string;
 }
 
 interface Recording {
@@ -120,11 +139,13 @@ interface TopBarAPI {
   recorderAddManualStep: (
     description: string,
   ) => Promise<{ success: boolean; error?: string }>;
-  recorderGetState: () => Promise<{
-    success: boolean;
-    state?: RecorderState;
-    error?: string;
-  }>;
+  recorderPickAssertTarget: () => Promise<{ success: boolean; error?: string }>;
+  recorderGetState: () => Promise<RecorderState>;
+  // Sent whenever recording starts, stops, pauses or resumes
+  onRecorderStateChanged: (
+    callback: (state: Pick<RecorderState, "isRecording" | "isPaused">) => void,
+  ) => void;
+  removeRecorderStateListener: () => void;
   recorderGetRecordings: () => Promise<{
     success: boolean;
     recordings?: Recording[];
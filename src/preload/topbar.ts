@@ -41,7 +41,19 @@ const topBarAPI = {
   recorderResume: () => electronAPI.ipcRenderer.invoke("recorder-resume"),
   recorderAddManualStep: (description: string) =>
     electronAPI.ipcRenderer.invoke("recorder-add-manual-step", description),
+  recorderPickAssertTarget: () =>
+    electronAPI.ipcRenderer.invoke("recorder-pick-assert-target"),
   recorderGetState: () => electronAPI.ipcRenderer.invoke("recorder-get-state"),
+  onRecorderStateChanged: (
+    callback: (state: { isRecording: boolean; isPaused: boolean }) => void,
+  ) => {
+    electronAPI.ipcRenderer.on("recorder-state-changed", (_, state) =>
+      callback(state),
+    );
+  },
+  removeRecorderStateListener: () => {
+    electronAPI.ipcRenderer.removeAllListeners("recorder-state-changed");
+  },
   recorderGetRecordings: () =>
     electronAPI.ipcRenderer.invoke("recorder-get-recordings"),
   recorderGetRecording: (id: string) =>
@@ -0,0 +1,338 @@
+import React, { useEffect, useState } from "react";
+import { Check, FileSpreadsheet, Loader2, Play, Square, X } from "lucide-react";
+import { cn } from "@common/lib/utils";
+import { Button } from "@common/components/Button";
+
+interface Dataset {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+interface BatchRow {
+  row: number;
+  content: Record<string, string>;
+}
+
+interface BatchRowResult {
+  row: number;
+  status: "pending" | "running" | "passed" | "failed";
+  error?: string;
+}
+
+// Matches the main process's cap on tabs replaying at once
+const MAX_PARALLEL_TABS = 5;
+
+const rowContent = (
+  row: Record<string, string>,
+  mapping: Record<string, string>,
+): Record<string, string> => {
+  const content: Record<string, string> = {};
+  for (const [placeholder, column] of Object.entries(mapping)) {
+    if (column && column in row) content[placeholder] = row[column];
+  }
+  return content;
+};
+
+const StatusIcon: React.FC<{ status?: BatchRowResult["status"] }> = ({
+  status,
+}) => {
+  switch (status) {
+    case "running":
+      return <Loader2 className="size-4 animate-spin text-muted-foreground" />;
+    case "passed":
+      return <Check className="size-4 text-green-600" />;
+    case "failed":
+      return <X className="size-4 text-destructive" />;
+    default:
+      return <span className="size-4" />;
+  }
+};
+
+/**
+ * Replays a recording once per row of a CSV/JSON file, with the row's
+ * columns filling the recording's `{{name}}` placeholders
+ */
+export const BatchReplayPanel: React.FC<{
+  recordingId: string;
+  recordingName: string;
+  onClose: () => void;
+}> = ({ recordingId, recordingName, onClose }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [dataset, setDataset] = useState<Dataset | null>(null);
+  const [placeholders, setPlaceholders] = useState<string[]>([]);
+  const [uploads, setUploads] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [parallel, setParallel] = useState(1);
+  const [canRunParallel, setCanRunParallel] = useState(true);
+  const [results, setResults] = useState<Record<number, BatchRowResult>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.sidebarAPI.onBatchReplayRow((result) => {
+      setResults((prev) => ({ ...prev, [result.row]: result }));
+    });
+    return () => {
+      window.sidebarAPI.removeBatchReplayRowListener();
+    };
+  }, []);
+
+  const openDataset = async (): Promise<void> => {
+    setError(null);
+    try {
+      const result =
+        await window.sidebarAPI.batchReplayOpenDataset(recordingId);
+      if (result.success && result.dataset) {
+        setFileName(result.fileName ?? null);
+        setDataset(result.dataset);
+        setPlaceholders(result.placeholders ?? []);
+        setUploads(result.uploads ?? []);
+        setMapping(result.mapping ?? {});
+        setCanRunParallel(result.parallel ?? true);
+        if (result.parallel === false) setParallel(1);
+        setResults({});
+      } else if (result.error) {
+        setError(result.error);
+      }
+    } catch (err) {
+      console.error("Failed to open dataset:", err);
+      setError("Failed to open dataset");
+    }
+  };
+
+  // Replay the given 1-based rows
+  const run = async (rowNumbers: number[]): Promise<void> => {
+    if (!dataset || rowNumbers.length === 0) return;
+    const rows: BatchRow[] = rowNumbers.map((row) => ({
+      row,
+      content: rowContent(dataset.rows[row - 1], mapping),
+    }));
+    setIsRunning(true);
+    setError(null);
+    setResults((prev) => {
+      const next = { ...prev };
+      for (const row of rowNumbers) next[row] = { row, status: "pending" };
+      return next;
+    });
+    try {
+      const result = await window.sidebarAPI.batchReplayStart(
+        recordingId,
+        rows,
+        parallel,
+      );
+      if (result.success && result.results) {
+        setResults((prev) => {
+          const next = { ...prev };
+          for (const row of result.results ?? []) next[row.row] = row;
+          return next;
+        });
+      } else {
+        setError(result.error ?? "Batch replay failed");
+      }
+    } catch (err) {
+      console.error("Batch replay failed:", err);
+      setError("Batch replay failed");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const stop = (): void => {
+    window.sidebarAPI.batchReplayStop();
+  };
+
+  const close = (): void => {
+    if (isRunning) {
+      if (!confirm("Stop the batch replay?")) return;
+      stop();
+    }
+    onClose();
+  };
+
+  const rowNumbers = dataset ? dataset.rows.map((_, i) => i + 1) : [];
+  const failedRows = rowNumbers.filter(
+    (row) => results[row]?.status === "failed",
+  );
+  const passedCount = rowNumbers.filter(
+    (row) => results[row]?.status === "passed",
+  ).length;
+  // Replay would ask for these files in a dialog on every row
+  const unmappedUploads = uploads.filter((upload) => !mapping[upload]);
+
+  return (
+    <div className="h-full px-4 py-6 flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <h2 className="text-2xl font-bold text-foreground">Batch Replay</h2>
+          <p className="text-sm text-muted-foreground truncate">
+            {recordingName}
+          </p>
+        </div>
+        <Button onClick={close} variant="ghost">
+          Close
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button
+          onClick={openDataset}
+          disabled={isRunning}
+          variant="outline"
+          size="sm"
+        >
+          <FileSpreadsheet className="size-4" />
+          {dataset ? "Change file" : "Choose CSV or JSON"}
+        </Button>
+        {dataset && (
+          <span className="text-sm text-muted-foreground truncate">
+            {fileName} • {dataset.rows.length} rows
+          </span>
+        )}
+      </div>
+
+      {error && <div className="text-sm text-destructive">{error}</div>}
+
+      {dataset && (
+        <>
+          {placeholders.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              This recording has no content placeholders, so every row replays
+              it as recorded.
+            </p>
+          ) : (
+            <div className="flex flex-col gap-1.5">
+              <h3 className="text-sm font-semibold text-foreground">Columns</h3>
+              {placeholders.map((placeholder) => (
+                <label
+                  key={placeholder}
+                  className="flex items-center justify-between gap-2 text-sm"
+                >
+                  <code className="truncate">{`{{${placeholder}}}`}</code>
+                  <select
+                    value={mapping[placeholder] ?? ""}
+                    onChange={(e) =>
+                      setMapping({ ...mapping, [placeholder]: e.target.value })
+                    }
+                    disabled={isRunning}
+                    className="bg-background border border-border rounded-lg px-2 py-1 text-sm outline-none"
+                  >
+                    <option value="">Not mapped</option>
+                    {dataset.columns.map((column) => (
+                      <option key={column} value={column}>
+                        {column}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {unmappedUploads.length > 0 && (
+            <p className="text-sm text-destructive">
+              Map {unmappedUploads.map((upload) => `{{${upload}}}`).join(", ")}{" "}
+              to a column of file paths to upload.
+            </p>
+          )}
+
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1.5 text-sm text-muted-foreground">
+              Tabs
+              <input
+                type="number"
+                min={1}
+                max={MAX_PARALLEL_TABS}
+                value={parallel}
+                onChange={(e) =>
+                  setParallel(
+                    Math.min(
+                      Math.max(1, Number(e.target.value) || 1),
+                      MAX_PARALLEL_TABS,
+                    ),
+                  )
+                }
+                disabled={isRunning || !canRunParallel}
+                title={
+                  canRunParallel
+                    ? "1 replays each row in turn in the active tab"
+                    : "This recording opens or switches tabs, so rows replay one at a time"
+                }
+                className="w-14 bg-background border border-border rounded-lg px-2 py-1 text-sm outline-none"
+              />
+            </label>
+            <div className="flex-1" />
+            {isRunning ? (
+              <Button onClick={stop} variant="destructive" size="sm">
+                <Square className="size-4" />
+                Stop
+              </Button>
+            ) : (
+              <>
+                {failedRows.length > 0 && (
+                  <Button
+                    onClick={() => run(failedRows)}
+                    disabled={unmappedUploads.length > 0}
+                    variant="outline"
+                    size="sm"
+                  >
+                    Retry failed ({failedRows.length})
+                  </Button>
+                )}
+                <Button
+                  onClick={() => run(rowNumbers)}
+                  disabled={
+                    rowNumbers.length === 0 || unmappedUploads.length > 0
+                  }
+                  size="sm"
+                >
+                  <Play className="size-4" />
+                  Run all
+                </Button>
+              </>
+            )}
+          </div>
+
+          {Object.keys(results).length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {passedCount} passed • {failedRows.length} failed •{" "}
+              {rowNumbers.length} rows
+            </p>
+          )}
+
+          <ol className="flex flex-col gap-1.5">
+            {dataset.rows.map((row, index) => {
+              const result = results[index + 1];
+              const values = Object.values(rowContent(row, mapping));
+              return (
+                <li
+                  key={index}
+                  className={cn(
+                    "border border-border rounded-lg px-3 py-2 text-sm",
+                    result?.status === "failed" && "border-destructive/50",
+                  )}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="w-6 shrink-0 text-xs text-muted-foreground">
+                      {index + 1}
+                    </span>
+                    <span className="min-w-0 flex-1 truncate text-foreground">
+                      {values.length > 0
+                        ? values.join(", ")
+                        : Object.values(row).join(", ")}
+                    </span>
+                    <StatusIcon status={result?.status} />
+                  </div>
+                  {result?.error && (
+                    <p className="mt-1 pl-8 text-xs text-destructive break-words">
+                      {result.error}
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+};
@@ -2,10 +2,32 @@ import React, { useState, useRef, useEffect, useLayoutEffect } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import remarkBreaks from "remark-breaks";
-import { ArrowUp, Plus } from "lucide-react";
+import {
+  ArrowUp,
+  Plus,
+  Bot,
+  Check,
+  CircleAlert,
+  KeyRound,
+  Loader2,
+  ShieldAlert,
+  Square,
+  ChevronLeft,
+  ChevronRight,
+  Pencil,
+  RefreshCw,
+  Wrench,
+  ChevronDown,
+} from "lucide-react";
 import { useChat } from "../contexts/ChatContext";
 import { cn } from "@common/lib/utils";
 import { Button } from "@common/components/Button";
+import { ThreadPicker } from "./ThreadPicker";
+import { ModelPicker } from "./ModelPicker";
+import { ProfilePicker } from "./ProfilePicker";
+import { MessageUsageFooter, UsagePanel } from "./UsagePanel";
+import { RecordingEditor } from "./RecordingEditor";
+import { BatchReplayPanel } from "./BatchReplayPanel";
 
 interface Message {
   id: string;
@@ -13,6 +35,83 @@ interface Message {
   content: string;
   timestamp: number;
   isStreaming?: boolean;
+  status?: "cancelled";
+  branch?: MessageBranch;
+  toolCalls?: ToolCallRecord[];
+  usage?: MessageUsage;
+  answeredBy?: AnsweredBy;
+  command?: MessageCommand;
+  compaction?: HistoryCompaction;
+}
+
+interface AnsweredBy {
+  provider: string;
+  model: string;
+  fallback: boolean;
+}
+
+interface MessageCommand {
+  input: string;
+  local: boolean;
+}
+
+interface SlashCommandInfo {
+  name: string;
+  usage: string;
+  description: string;
+}
+
+interface HistoryCompaction {
+  summary: string | null;
+  createdAt: number;
+}
+
+interface MessageUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number | null;
+}
+
+interface ToolCallRecord {
+  toolCallId: string;
+  toolName: string;
+  status: "running" | "done" | "error";
+  input?: string;
+  output?: string;
+  error?: string;
+}
+
+interface MessageBranch {
+  index: number;
+  count: number;
+  siblingIds: string[];
+}
+
+interface AgentStep {
+  id: string;
+  toolName: string;
+  description: string;
+  status: "running" | "done" | "error";
+  detail?: string;
+}
+
+interface ApprovalRequest {
+  id: string;
+  toolName: string;
+  summary: string;
+  reasons: Array<{ type: string; message: string }>;
+  domain: string | null;
+}
+
+type ApprovalDecision = "allow" | "always" | "deny";
+
+interface SecretPrompt {
+  id: string;
+  kind: "passphrase" | "new-passphrase" | "secret";
+  name?: string;
+  message: string;
 }
 
 // Auto-scroll hook
@@ -37,23 +136,140 @@ const useAutoScroll = (
   return scrollRef;
 };
 
+// Branch Switcher - arrows to move between sibling versions of a message
+const BranchSwitcher: React.FC<{
+  branch?: MessageBranch;
+  onSwitch: (messageId: string) => void;
+}> = ({ branch, onSwitch }) => {
+  if (!branch || branch.count < 2) return null;
+  return (
+    <div className="flex items-center gap-0.5 text-xs text-muted-foreground">
+      <Button
+        size="icon-xs"
+        variant="ghost"
+        title="Previous version"
+        disabled={branch.index === 0}
+        onClick={() => onSwitch(branch.siblingIds[branch.index - 1])}
+      >
+        <ChevronLeft className="size-3.5" />
+      </Button>
+      <span>
+        {branch.index + 1}/{branch.count}
+      </span>
+      <Button
+        size="icon-xs"
+        variant="ghost"
+        title="Next version"
+        disabled={branch.index === branch.count - 1}
+        onClick={() => onSwitch(branch.siblingIds[branch.index + 1])}
+      >
+        <ChevronRight className="size-3.5" />
+      </Button>
+    </div>
+  );
+};
+
 // User Message Component - appears on the right
-const UserMessage: React.FC<{ content: string; messageId?: string }> = ({
+const UserMessage: React.FC<{
+  content: string;
+  command?: MessageCommand;
+  messageId?: string;
+  branch?: MessageBranch;
+  disabled?: boolean;
+  onEdit?: (content: string) => void;
+  onSwitchBranch?: (messageId: string) => void;
+}> = ({
   content,
+  command,
   messageId,
-}) => (
-  <div
-    className="relative max-w-[85%] ml-auto animate-fade-in"
-    data-message-role="user"
-    data-message-id={messageId}
-  >
-    <div className="bg-muted dark:bg-muted/50 rounded-3xl px-6 py-4">
-      <div className="text-foreground" style={{ whiteSpace: "pre-wrap" }}>
-        {content}
+  branch,
+  disabled,
+  onEdit,
+  onSwitchBranch,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(content);
+
+  const submitEdit = (): void => {
+    setIsEditing(false);
+    if (draft.trim() && draft.trim() !== content) {
+      onEdit?.(draft.trim());
+    }
+  };
+
+  return (
+    <div
+      className="group relative max-w-[85%] ml-auto animate-fade-in"
+      data-message-role="user"
+      data-message-id={messageId}
+    >
+      <div className="bg-muted dark:bg-muted/50 rounded-3xl px-6 py-4">
+        {isEditing ? (
+          <textarea
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                submitEdit();
+              }
+              if (e.key === "Escape") setIsEditing(false);
+            }}
+            className="w-full min-w-[240px] resize-none outline-none bg-transparent text-foreground"
+            rows={3}
+          />
+        ) : command ? (
+          // Show what was typed, not the prompt it expanded to
+          <div className="text-foreground font-mono text-sm" data-command>
+            {command.input}
+          </div>
+        ) : (
+          <div className="text-foreground" style={{ whiteSpace: "pre-wrap" }}>
+            {content}
+          </div>
+        )}
+      </div>
+      <div className="flex items-center justify-end gap-1 mt-1">
+        {isEditing ? (
+          <>
+            <Button
+              size="xs"
+              variant="ghost"
+              onClick={() => setIsEditing(false)}
+            >
+              Cancel
+            </Button>
+            <Button size="xs" onClick={submitEdit} disabled={disabled}>
+              Send
+            </Button>
+          </>
+        ) : (
+          <>
+            {onSwitchBranch && (
+              <BranchSwitcher branch={branch} onSwitch={onSwitchBranch} />
+            )}
+            {onEdit && (
+              <Button
+                size="icon-xs"
+                variant="ghost"
+                title="Edit message"
+                disabled={disabled}
+                className="opacity-0 group-hover:opacity-100"
+                onClick={() => {
+                  setDraft(content);
+                  setIsEditing(true);
+                }}
+              >
+                <Pencil className="size-3" />
+              </Button>
+            )}
+          </>
+        )}
       </div>
     </div>
-  </div>
-);
+  );
+};
 
 // Streaming Text Component
 const StreamingText: React.FC<{ content: string }> = ({ content }) => {
@@ -131,17 +347,136 @@ const Markdown: React.FC<{ content: string }> = ({ content }) => (
   </div>
 );
 
+// Tool Card - collapsible view of one tool call, its arguments and result
+const ToolCard: React.FC<{ call: ToolCallRecord }> = ({ call }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  return (
+    <div
+      className="border border-border rounded-xl text-sm"
+      data-tool-call={call.toolName}
+    >
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left"
+        aria-expanded={isOpen}
+      >
+        {call.status === "running" && (
+          <Loader2 className="size-3.5 shrink-0 animate-spin text-muted-foreground" />
+        )}
+        {call.status === "done" && (
+          <Wrench className="size-3.5 shrink-0 text-muted-foreground" />
+        )}
+        {call.status === "error" && (
+          <CircleAlert className="size-3.5 shrink-0 text-destructive" />
+        )}
+        <span className="flex-1 truncate font-mono text-xs">
+          {call.toolName}
+        </span>
+        <ChevronDown
+          className={cn(
+            "size-3.5 shrink-0 text-muted-foreground transition-transform",
+            isOpen && "rotate-180",
+          )}
+        />
+      </button>
+      {isOpen && (
+        <div className="border-t border-border px-3 py-2 flex flex-col gap-2 text-xs">
+          {call.input && (
+            <div>
+              <div className="text-muted-foreground mb-1">Arguments</div>
+              <pre className="whitespace-pre-wrap break-words">
+                {call.input}
+              </pre>
+            </div>
+          )}
+          {call.output && (
+            <div>
+              <div className="text-muted-foreground mb-1">Result</div>
+              <pre className="whitespace-pre-wrap break-words max-h-48 overflow-y-auto">
+                {call.output}
+              </pre>
+            </div>
+          )}
+          {call.error && (
+            <div className="text-destructive break-words">{call.error}</div>
+          )}
+          {call.status === "running" && !call.input && (
+            <div className="text-muted-foreground">Running…</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ToolCallList: React.FC<{ calls: ToolCallRecord[] }> = ({ calls }) => (
+  <div className="flex flex-col gap-1.5 mb-2" data-tool-calls>
+    {calls.map((call) => (
+      <ToolCard key={call.toolCallId} call={call} />
+    ))}
+  </div>
+);
+
+// Compaction Notice - marks where older history stops being sent verbatim
+const CompactionNotice: React.FC<{ compaction: HistoryCompaction }> = ({
+  compaction,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  return (
+    <div className="text-xs text-muted-foreground" data-compaction>
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={!compaction.summary}
+        className="w-full flex items-center gap-2"
+        aria-expanded={isOpen}
+      >
+        <span className="flex-1 border-t border-border" />
+        {compaction.summary
+          ? "Earlier messages summarised to fit the context window"
+          : "Earlier messages are no longer sent to the model"}
+        <span className="flex-1 border-t border-border" />
+      </button>
+      {isOpen && compaction.summary && (
+        <div className="mt-2 px-4 py-3 bg-muted/50 rounded-2xl whitespace-pre-wrap">
+          {compaction.summary}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Assistant Message Component - appears on the left
 const AssistantMessage: React.FC<{
   content: string;
   isStreaming?: boolean;
+  isCancelled?: boolean;
   messageId?: string;
-}> = ({ content, isStreaming, messageId }) => (
+  branch?: MessageBranch;
+  toolCalls?: ToolCallRecord[];
+  usage?: MessageUsage;
+  answeredBy?: AnsweredBy;
+  disabled?: boolean;
+  onRegenerate?: () => void;
+  onSwitchBranch?: (messageId: string) => void;
+}> = ({
+  content,
+  isStreaming,
+  isCancelled,
+  messageId,
+  branch,
+  toolCalls,
+  usage,
+  answeredBy,
+  disabled,
+  onRegenerate,
+  onSwitchBranch,
+}) => (
   <div
-    className="relative w-full animate-fade-in"
+    className="group relative w-full animate-fade-in"
     data-message-role="assistant"
     data-message-id={messageId}
   >
+    {toolCalls && toolCalls.length > 0 && <ToolCallList calls={toolCalls} />}
     <div className="py-1">
       {isStreaming ? (
         <StreamingText content={content} />
@@ -149,6 +484,38 @@ const AssistantMessage: React.FC<{
         <Markdown content={content} />
       )}
     </div>
+    <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
+      {isCancelled && <span data-message-cancelled>Stopped</span>}
+      {answeredBy && (
+        <span
+          title={
+            answeredBy.fallback
+              ? "The selected model was unavailable, so a fallback answered"
+              : undefined
+          }
+          data-message-model
+        >
+          {answeredBy.model}
+          {answeredBy.fallback && " (fallback)"}
+        </span>
+      )}
+      {usage && <MessageUsageFooter usage={usage} />}
+      {onSwitchBranch && (
+        <BranchSwitcher branch={branch} onSwitch={onSwitchBranch} />
+      )}
+      {onRegenerate && (
+        <Button
+          size="icon-xs"
+          variant="ghost"
+          title="Regenerate reply"
+          disabled={disabled}
+          className="opacity-0 group-hover:opacity-100"
+          onClick={onRegenerate}
+        >
+          <RefreshCw className="size-3" />
+        </Button>
+      )}
+    </div>
   </div>
 );
 
@@ -172,15 +539,199 @@ const LoadingIndicator: React.FC = () => {
   );
 };
 
+// Agent Step Log - live list of browser actions taken by the agent
+const AgentStepLog: React.FC<{ steps: AgentStep[] }> = ({ steps }) => (
+  <div
+    className="mt-6 border border-border rounded-2xl px-4 py-3 text-sm animate-fade-in"
+    data-agent-step-log
+  >
+    <div className="text-xs font-medium text-muted-foreground mb-2">
+      Agent steps
+    </div>
+    <ol className="flex flex-col gap-1.5">
+      {steps.map((step) => (
+        <li key={step.id} className="flex items-start gap-2">
+          {step.status === "running" && (
+            <Loader2 className="size-4 mt-0.5 shrink-0 animate-spin text-muted-foreground" />
+          )}
+          {step.status === "done" && (
+            <Check className="size-4 mt-0.5 shrink-0 text-green-600" />
+          )}
+          {step.status === "error" && (
+            <CircleAlert className="size-4 mt-0.5 shrink-0 text-destructive" />
+          )}
+          <div className="min-w-0">
+            <div className="text-foreground break-words">
+              {step.description}
+            </div>
+            {step.detail && (
+              <div
+                className={cn(
+                  "text-xs break-words",
+                  step.status === "error"
+                    ? "text-destructive"
+                    : "text-muted-foreground",
+                )}
+              >
+                {step.detail}
+              </div>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
+// Approval Card - asks the user before the agent runs a risky step
+const ApprovalCard: React.FC<{
+  request: ApprovalRequest;
+  onRespond: (requestId: string, decision: ApprovalDecision) => void;
+}> = ({ request, onRespond }) => (
+  <div
+    className="mt-4 border border-amber-500/50 bg-amber-500/5 rounded-2xl px-4 py-3 text-sm animate-fade-in"
+    data-approval-request={request.id}
+  >
+    <div className="flex items-start gap-2">
+      <ShieldAlert className="size-4 mt-0.5 shrink-0 text-amber-600" />
+      <div className="min-w-0 flex-1">
+        <div className="font-medium text-foreground break-words">
+          Approve: {request.summary}
+        </div>
+        <ul className="mt-1 text-xs text-muted-foreground">
+          {request.reasons.map((reason) => (
+            <li key={reason.type}>{reason.message}</li>
+          ))}
+        </ul>
+        <div className="mt-3 flex flex-wrap gap-2">
+          <Button size="xs" onClick={() => onRespond(request.id, "allow")}>
+            Allow
+          </Button>
+          {request.domain && (
+            <Button
+              size="xs"
+              variant="outline"
+              onClick={() => onRespond(request.id, "always")}
+            >
+              Always allow this on {request.domain}
+            </Button>
+          )}
+          <Button
+            size="xs"
+            variant="destructive"
+            onClick={() => onRespond(request.id, "deny")}
+          >
+            Deny
+          </Button>
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+// Secret Prompt Card - asks for the secrets vault's passphrase, or for a
+// secret a replay needs. Kept out of the chat input so it isn't saved in
+// the conversation.
+const SecretPromptCard: React.FC<{
+  prompt: SecretPrompt;
+  onRespond: (promptId: string, value: string | null) => void;
+}> = ({ prompt, onRespond }) => {
+  const [value, setValue] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const confirming = prompt.kind === "new-passphrase";
+  const mismatch = confirming && confirmation !== "" && confirmation !== value;
+  const canSubmit = value !== "" && (!confirming || confirmation === value);
+
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault();
+    if (canSubmit) onRespond(prompt.id, value);
+  };
+
+  return (
+    <form
+      className="mt-4 border border-amber-500/50 bg-amber-500/5 rounded-2xl px-4 py-3 text-sm animate-fade-in"
+      data-secret-prompt={prompt.id}
+      onSubmit={handleSubmit}
+    >
+      <div className="flex items-start gap-2">
+        <KeyRound className="size-4 mt-0.5 shrink-0 text-amber-600" />
+        <div className="min-w-0 flex-1 flex flex-col gap-2">
+          <div className="text-foreground break-words">{prompt.message}</div>
+          <input
+            type="password"
+            autoFocus
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={prompt.kind === "secret" ? prompt.name : "Passphrase"}
+            className="bg-background border border-border rounded-lg px-2 py-1 outline-none"
+          />
+          {confirming && (
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder="Repeat passphrase"
+              className="bg-background border border-border rounded-lg px-2 py-1 outline-none"
+            />
+          )}
+          {mismatch && (
+            <div className="text-xs text-destructive">
+              The passphrases don&apos;t match
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button size="xs" type="submit" disabled={!canSubmit}>
+              {prompt.kind === "secret" ? "Save" : "Unlock"}
+            </Button>
+            <Button
+              size="xs"
+              variant="outline"
+              type="button"
+              onClick={() => onRespond(prompt.id, null)}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </div>
+    </form>
+  );
+};
+
 // Chat Input Component with pill design
 const ChatInput: React.FC<{
   onSend: (message: string) => void;
+  onStop: () => void;
   disabled: boolean;
-}> = ({ onSend, disabled }) => {
+  agentMode: boolean;
+  onToggleAgentMode: () => void;
+}> = ({ onSend, onStop, disabled, agentMode, onToggleAgentMode }) => {
+  const { commands } = useChat();
   const [value, setValue] = useState("");
   const [isFocused, setIsFocused] = useState(false);
+  const [commandIndex, setCommandIndex] = useState(0);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  // Suggest commands while a command name is being typed
+  const commandQuery = /^\/\S*$/.test(value)
+    ? value.slice(1).toLowerCase()
+    : null;
+  const suggestions =
+    commandQuery === null || !isFocused
+      ? []
+      : commands.filter((c) => c.name.startsWith(commandQuery));
+  const selectedCommand = suggestions[commandIndex] ?? suggestions[0];
+
+  useEffect(() => {
+    setCommandIndex(0);
+  }, [commandQuery]);
+
+  const completeCommand = (command: SlashCommandInfo): void => {
+    const takesArgs = command.usage !== `/${command.name}`;
+    setValue(`/${command.name}${takesArgs ? " " : ""}`);
+    textareaRef.current?.focus();
+  };
+
   // Auto-resize textarea
   useEffect(() => {
     if (textareaRef.current) {
@@ -203,6 +754,22 @@ const ChatInput: React.FC<{
   };
 
   const handleKeyDown = (e: React.KeyboardEvent): void => {
+    if (selectedCommand) {
+      const count = suggestions.length;
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : count - 1;
+        setCommandIndex((index) => (index + step) % count);
+        return;
+      }
+      // Enter runs a complete command that takes no arguments
+      const complete = selectedCommand.usage === value;
+      if (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey && !complete)) {
+        e.preventDefault();
+        completeCommand(selectedCommand);
+        return;
+      }
+    }
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSubmit();
@@ -212,13 +779,43 @@ const ChatInput: React.FC<{
   return (
     <div
       className={cn(
-        "w-full border p-3 rounded-3xl bg-background dark:bg-secondary",
+        "relative w-full border p-3 rounded-3xl bg-background dark:bg-secondary",
         "shadow-chat animate-spring-scale outline-none transition-all duration-200",
         isFocused
           ? "border-primary/20 dark:border-primary/30"
           : "border-border",
       )}
     >
+      {/* Slash command suggestions */}
+      {suggestions.length > 0 && (
+        <div
+          className="absolute left-0 right-0 bottom-full mb-2 z-20 bg-background border border-border rounded-xl shadow-lg p-1.5 animate-fade-in"
+          role="listbox"
+        >
+          {suggestions.map((command) => (
+            <button
+              key={command.name}
+              role="option"
+              aria-selected={command === selectedCommand}
+              // Keep focus in the textarea
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => completeCommand(command)}
+              className={cn(
+                "w-full flex flex-col items-start rounded-lg px-2 py-1 text-left",
+                command === selectedCommand ? "bg-muted" : "hover:bg-muted",
+              )}
+            >
+              <span className="font-mono text-sm text-foreground">
+                {command.usage}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {command.description}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Input Area */}
       <div className="w-full px-3 py-2">
         <div className="w-full flex items-start gap-3">
@@ -230,7 +827,11 @@ const ChatInput: React.FC<{
               onFocus={() => setIsFocused(true)}
               onBlur={() => setIsFocused(false)}
               onKeyDown={handleKeyDown}
-              placeholder="Send a message..."
+              placeholder={
+                agentMode
+                  ? "Describe a task for the agent..."
+                  : "Send a message or type / for commands..."
+              }
               className="w-full resize-none outline-none bg-transparent 
                                      text-foreground placeholder:text-muted-foreground
                                      min-h-[24px] max-h-[200px]"
@@ -241,21 +842,53 @@ const ChatInput: React.FC<{
         </div>
       </div>
 
-      {/* Send Button */}
+      {/* Agent Toggle, Model Picker and Send Button */}
       <div className="w-full flex items-center gap-1.5 px-1 mt-2 mb-1">
-        <div className="flex-1" />
-        <button
-          onClick={handleSubmit}
-          disabled={disabled || !value.trim()}
-          className={cn(
-            "size-9 rounded-full flex items-center justify-center",
-            "transition-all duration-200",
-            "bg-primary text-primary-foreground",
-            "hover:opacity-80 disabled:opacity-50",
-          )}
+        <Button
+          onClick={onToggleAgentMode}
+          variant={agentMode ? "secondary" : "ghost"}
+          size="xs"
+          title={
+            agentMode
+              ? "Agent mode: the assistant can act in your tabs"
+              : "Enable agent mode to let the assistant act in your tabs"
+          }
+          aria-pressed={agentMode}
         >
-          <ArrowUp className="size-5" />
-        </button>
+          <Bot className="size-4" />
+          Agent
+        </Button>
+        <ProfilePicker />
+        <ModelPicker />
+        <div className="flex-1" />
+        {disabled ? (
+          // Response in progress - offer to stop it
+          <button
+            onClick={onStop}
+            title="Stop response"
+            className={cn(
+              "size-9 rounded-full flex items-center justify-center",
+              "transition-all duration-200",
+              "bg-primary text-primary-foreground",
+              "hover:opacity-80",
+            )}
+          >
+            <Square className="size-3.5 fill-current" />
+          </button>
+        ) : (
+          <button
+            onClick={handleSubmit}
+            disabled={!value.trim()}
+            className={cn(
+              "size-9 rounded-full flex items-center justify-center",
+              "transition-all duration-200",
+              "bg-primary text-primary-foreground",
+              "hover:opacity-80 disabled:opacity-50",
+            )}
+          >
+            <ArrowUp className="size-5" />
+          </button>
+        )}
       </div>
     </div>
   );
@@ -270,18 +903,52 @@ interface ConversationTurn {
 const ConversationTurnComponent: React.FC<{
   turn: ConversationTurn;
   isLoading?: boolean;
-}> = ({ turn, isLoading }) => (
+  disabled?: boolean;
+  onEdit: (messageId: string, content: string) => void;
+  onRegenerate: (messageId: string) => void;
+  onSwitchBranch: (messageId: string) => void;
+}> = ({ turn, isLoading, disabled, onEdit, onRegenerate, onSwitchBranch }) => (
   <div className="pt-12 flex flex-col gap-8">
     {turn.user && (
-      <UserMessage content={turn.user.content} messageId={turn.user.id} />
+      <UserMessage
+        content={turn.user.content}
+        command={turn.user.command}
+        messageId={turn.user.id}
+        branch={turn.user.branch}
+        disabled={disabled}
+        onEdit={
+          turn.user.command
+            ? undefined
+            : (content) => onEdit(turn.user!.id, content)
+        }
+        onSwitchBranch={onSwitchBranch}
+      />
     )}
     {turn.assistant && (
       <AssistantMessage
         content={turn.assistant.content}
         isStreaming={turn.assistant.isStreaming}
+        isCancelled={turn.assistant.status === "cancelled"}
         messageId={turn.assistant.id}
+        branch={turn.assistant.branch}
+        toolCalls={turn.assistant.toolCalls}
+        usage={turn.assistant.usage}
+        answeredBy={turn.assistant.answeredBy}
+        disabled={disabled}
+        onRegenerate={
+          turn.assistant.command?.local
+            ? undefined
+            : () => onRegenerate(turn.assistant!.id)
+        }
+        onSwitchBranch={onSwitchBranch}
       />
     )}
+    {turn.user?.compaction && (
+      <CompactionNotice compaction={turn.user.compaction} />
+    )}
+    {turn.assistant?.compaction && (
+      <CompactionNotice compaction={turn.assistant.compaction} />
+    )}
     {isLoading && (
       <div className="flex justify-start">
         <LoadingIndicator />
@@ -296,12 +963,30 @@ export const Chat: React.FC = () => {
     messages,
     isLoading,
     sendMessage,
-    clearChat,
+    runCommand,
+    cancelMessage,
+    editMessage,
+    regenerateMessage,
+    switchBranch,
+    createConversation,
     recordings,
     showRecordings,
+    editingRecordingId,
+    batchRecordingId,
     closeRecordingsList,
+    editRecording,
+    batchReplay,
+    recordingUpdated,
     replayRecording,
     deleteRecording,
+    agentMode,
+    agentSteps,
+    liveToolCalls,
+    setAgentMode,
+    pendingApprovals,
+    respondToApproval,
+    pendingSecretPrompts,
+    respondToSecretPrompt,
   } = useChat();
   const scrollRef = useAutoScroll(messages);
 
@@ -349,7 +1034,23 @@ export const Chat: React.FC = () => {
     <div className="flex flex-col h-full bg-background">
       {/* Messages Area or Recordings List */}
       <div className="flex-1 overflow-y-auto">
-        {showRecordings ? (
+        {showRecordings && editingRecordingId ? (
+          <RecordingEditor
+            key={editingRecordingId}
+            recordingId={editingRecordingId}
+            onClose={() => editRecording(null)}
+            onSaved={recordingUpdated}
+          />
+        ) : showRecordings && batchRecordingId ? (
+          <BatchReplayPanel
+            key={batchRecordingId}
+            recordingId={batchRecordingId}
+            recordingName={
+              recordings.find((r) => r.id === batchRecordingId)?.name ?? ""
+            }
+            onClose={() => batchReplay(null)}
+          />
+        ) : showRecordings ? (
           // Recordings List View
           <div className="h-full px-4 py-6">
             <div className="flex items-center justify-between mb-6">
@@ -395,6 +1096,20 @@ export const Chat: React.FC = () => {
                       >
                         Replay
                       </Button>
+                      <Button
+                        onClick={() => editRecording(recording.id)}
+                        variant="outline"
+                        size="sm"
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        onClick={() => batchReplay(recording.id)}
+                        variant="outline"
+                        size="sm"
+                      >
+                        Batch
+                      </Button>
                       <Button
                         onClick={() => deleteRecording(recording.id)}
                         variant="destructive"
@@ -411,18 +1126,22 @@ export const Chat: React.FC = () => {
         ) : (
           // Normal Chat View
           <>
-            <div className="h-8 max-w-3xl mx-auto px-4">
-              {/* New Chat Button - Floating */}
-              {messages.length > 0 && (
-                <Button
-                  onClick={clearChat}
-                  title="Start new chat"
-                  variant="ghost"
-                >
-                  <Plus className="size-4" />
-                  New Chat
-                </Button>
-              )}
+            <div className="h-8 max-w-3xl mx-auto px-4 flex items-center justify-between gap-2">
+              <ThreadPicker />
+              <div className="flex items-center gap-1">
+                <UsagePanel />
+                {/* New Chat Button - starts a new thread */}
+                {messages.length > 0 && (
+                  <Button
+                    onClick={createConversation}
+                    title="Start new chat"
+                    variant="ghost"
+                  >
+                    <Plus className="size-4" />
+                    New Chat
+                  </Button>
+                )}
+              </div>
             </div>
 
             <div className="pb-4 relative max-w-3xl mx-auto px-4">
@@ -443,6 +1162,10 @@ export const Chat: React.FC = () => {
                     <ConversationTurnComponent
                       key={`turn-${index}`}
                       turn={turn}
+                      disabled={isLoading}
+                      onEdit={editMessage}
+                      onRegenerate={regenerateMessage}
+                      onSwitchBranch={switchBranch}
                       isLoading={
                         showLoadingAfterLastTurn &&
                         index === conversationTurns.length - 1
@@ -452,6 +1175,25 @@ export const Chat: React.FC = () => {
                 </>
               )}
 
+              {/* Tools the in-flight reply is running */}
+              {liveToolCalls.length > 0 && (
+                <div className="mt-6">
+                  <ToolCallList calls={liveToolCalls} />
+                </div>
+              )}
+
+              {/* Live agent step log */}
+              {agentSteps.length > 0 && <AgentStepLog steps={agentSteps} />}
+
+              {/* Risky agent steps waiting for approval */}
+              {pendingApprovals.map((request) => (
+                <ApprovalCard
+                  key={request.id}
+                  request={request}
+                  onRespond={respondToApproval}
+                />
+              ))}
+
               {/* Scroll anchor */}
               <div ref={scrollRef} />
             </div>
@@ -459,10 +1201,32 @@ export const Chat: React.FC = () => {
         )}
       </div>
 
+      {/* Secrets vault prompts, in either view since recording and replay
+          both need them */}
+      {pendingSecretPrompts.length > 0 && (
+        <div className="max-w-3xl w-full mx-auto px-4">
+          {pendingSecretPrompts.map((prompt) => (
+            <SecretPromptCard
+              key={prompt.id}
+              prompt={prompt}
+              onRespond={respondToSecretPrompt}
+            />
+          ))}
+        </div>
+      )}
+
       {/* Input Area - only show for normal chat */}
       {!showRecordings && (
         <div className="p-4">
-          <ChatInput onSend={sendMessage} disabled={isLoading} />
+          <ChatInput
+            onSend={(text) =>
+              /^\/[a-z]/i.test(text) ? runCommand(text) : sendMessage(text)
+            }
+            onStop={cancelMessage}
+            disabled={isLoading}
+            agentMode={agentMode}
+            onToggleAgentMode={() => setAgentMode(!agentMode)}
+          />
         </div>
       )}
     </div>
@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Check, ChevronDown } from "lucide-react";
+import { useChat } from "../contexts/ChatContext";
+import { cn } from "@common/lib/utils";
+import { Button } from "@common/components/Button";
+
+// Model Picker - switch provider, model and temperature mid-conversation
+export const ModelPicker: React.FC = () => {
+  const { providers, modelSettings, setModelSettings } = useChat();
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [temperature, setTemperature] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (modelSettings) setTemperature(modelSettings.temperature);
+  }, [modelSettings]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent): void => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  if (!modelSettings) return null;
+
+  const apply = async (
+    changes: Parameters<typeof setModelSettings>[0],
+  ): Promise<void> => {
+    setError(await setModelSettings(changes));
+  };
+
+  return (
+    <div ref={containerRef} className="relative min-w-0">
+      <Button
+        variant="ghost"
+        size="xs"
+        onClick={() => setIsOpen((open) => !open)}
+        title="Model"
+        className="max-w-[160px]"
+      >
+        <span className="truncate">{modelSettings.model}</span>
+        <ChevronDown className="size-3 shrink-0" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute left-0 bottom-full mb-2 z-20 w-72 max-h-96 overflow-y-auto bg-background border border-border rounded-xl shadow-lg p-1.5 animate-fade-in">
+          {providers.map((provider) => (
+            <div key={provider.id} className="py-1">
+              <div className="px-2 py-1 text-xs font-medium text-muted-foreground">
+                {provider.label}
+                {!provider.configured && ` · set ${provider.requiredEnvVar}`}
+              </div>
+              {provider.models.map((model) => {
+                const isCurrent =
+                  provider.id === modelSettings.provider &&
+                  model === modelSettings.model;
+                return (
+                  <button
+                    key={model}
+                    disabled={!provider.configured}
+                    onClick={() => apply({ provider: provider.id, model })}
+                    className={cn(
+                      "w-full flex items-center gap-2 rounded-lg px-2 py-1 text-sm text-left",
+                      "hover:bg-muted disabled:opacity-50 disabled:hover:bg-transparent",
+                    )}
+                  >
+                    <span className="flex-1 truncate">{model}</span>
+                    {isCurrent && <Check className="size-3.5" />}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+
+          <div className="border-t border-border mt-1 px-2 pt-2 pb-1">
+            <label className="flex items-center justify-between text-xs text-muted-foreground">
+              Temperature
+              <span className="text-foreground">{temperature.toFixed(1)}</span>
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.1}
+              value={temperature}
+              onChange={(e) => setTemperature(Number(e.target.value))}
+              onPointerUp={() => apply({ temperature })}
+              onKeyUp={() => apply({ temperature })}
+              className="w-full"
+            />
+          </div>
+
+          {error && (
+            <div className="px-2 pb-1 text-xs text-destructive">{error}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
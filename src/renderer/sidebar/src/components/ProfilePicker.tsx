@@ -0,0 +1,286 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Check, ChevronDown, Pencil, Plus, Trash2 } from "lucide-react";
+import { useChat } from "../contexts/ChatContext";
+import { Button } from "@common/components/Button";
+
+interface AssistantProfile {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  model?: { provider: string; model: string };
+  temperature?: number;
+  enabledTools: string[] | null;
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+
+// Profile Editor - name, instructions, model, temperature and tools
+const ProfileEditor: React.FC<{
+  profile: Partial<AssistantProfile>;
+  onSave: (profile: Partial<AssistantProfile>) => void;
+  onCancel: () => void;
+}> = ({ profile, onSave, onCancel }) => {
+  const { tools, modelSettings } = useChat();
+  const [draft, setDraft] = useState<Partial<AssistantProfile>>(profile);
+  const enabledTools = draft.enabledTools ?? null;
+
+  const update = (changes: Partial<AssistantProfile>): void =>
+    setDraft((prev) => ({ ...prev, ...changes }));
+
+  const toggleTool = (name: string): void => {
+    const current = enabledTools ?? tools.map((t) => t.name);
+    update({
+      enabledTools: current.includes(name)
+        ? current.filter((n) => n !== name)
+        : [...current, name],
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 p-1.5 text-sm">
+      <input
+        autoFocus
+        value={draft.name ?? ""}
+        onChange={(e) => update({ name: e.target.value })}
+        placeholder="Profile name"
+        className="bg-background border border-border rounded-lg px-2 py-1 outline-none"
+      />
+      <textarea
+        value={draft.systemPrompt ?? ""}
+        onChange={(e) => update({ systemPrompt: e.target.value })}
+        placeholder="Custom instructions (system prompt)"
+        rows={6}
+        className="bg-background border border-border rounded-lg px-2 py-1 outline-none resize-none"
+      />
+
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        <input
+          type="checkbox"
+          checked={Boolean(draft.model)}
+          disabled={!draft.model && !modelSettings}
+          onChange={(e) =>
+            update({
+              model:
+                e.target.checked && modelSettings
+                  ? {
+                      provider: modelSettings.provider,
+                      model: modelSettings.model,
+                    }
+                  : undefined,
+            })
+          }
+        />
+        <span className="truncate">
+          Switch to{" "}
+          {draft.model?.model ?? modelSettings?.model ?? "the current model"}
+        </span>
+      </label>
+
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <input
+          type="checkbox"
+          checked={draft.temperature !== undefined}
+          onChange={(e) =>
+            update({
+              temperature: e.target.checked
+                ? (modelSettings?.temperature ?? DEFAULT_TEMPERATURE)
+                : undefined,
+            })
+          }
+        />
+        Temperature
+        {draft.temperature !== undefined && (
+          <>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.1}
+              value={draft.temperature}
+              onChange={(e) => update({ temperature: Number(e.target.value) })}
+              className="flex-1"
+            />
+            <span className="text-foreground">
+              {draft.temperature.toFixed(1)}
+            </span>
+          </>
+        )}
+      </div>
+
+      <div className="text-xs">
+        <label className="flex items-center gap-2 font-medium text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={enabledTools === null}
+            onChange={(e) =>
+              update({
+                enabledTools: e.target.checked
+                  ? null
+                  : tools.map((t) => t.name),
+              })
+            }
+          />
+          All tools
+        </label>
+        <div className="flex flex-col gap-0.5 mt-1 pl-5">
+          {tools.map((t) => (
+            <label
+              key={t.name}
+              title={t.description}
+              className="flex items-center gap-2"
+            >
+              <input
+                type="checkbox"
+                checked={enabledTools === null || enabledTools.includes(t.name)}
+                disabled={enabledTools === null}
+                onChange={() => toggleTool(t.name)}
+              />
+              <span className="font-mono truncate">{t.name}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-1">
+        <Button size="xs" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="xs" onClick={() => onSave(draft)}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Profile Picker - switch between assistant profiles and edit them
+export const ProfilePicker: React.FC = () => {
+  const {
+    profiles,
+    activeProfileId,
+    setActiveProfile,
+    saveProfile,
+    deleteProfile,
+  } = useChat();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<Partial<AssistantProfile> | null>(
+    null,
+  );
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent): void => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+        setEditing(null);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const activeProfile = profiles.find((p) => p.id === activeProfileId);
+  if (!activeProfile) return null;
+
+  const run = async (action: Promise<string | null>): Promise<boolean> => {
+    const actionError = await action;
+    setError(actionError);
+    return actionError === null;
+  };
+
+  return (
+    <div ref={containerRef} className="relative min-w-0">
+      <Button
+        variant="ghost"
+        size="xs"
+        onClick={() => setIsOpen((open) => !open)}
+        title="Assistant profile"
+        className="max-w-[120px]"
+      >
+        <span className="truncate">{activeProfile.name}</span>
+        <ChevronDown className="size-3 shrink-0" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute left-0 bottom-full mb-2 z-20 w-80 max-h-[28rem] overflow-y-auto bg-background border border-border rounded-xl shadow-lg p-1.5 animate-fade-in">
+          {editing ? (
+            <ProfileEditor
+              profile={editing}
+              onCancel={() => setEditing(null)}
+              onSave={async (profile) => {
+                if (await run(saveProfile(profile))) setEditing(null);
+              }}
+            />
+          ) : (
+            <>
+              <ul>
+                {profiles.map((profile) => (
+                  <li
+                    key={profile.id}
+                    className="group flex items-center gap-1 rounded-lg hover:bg-muted"
+                    data-profile-id={profile.id}
+                  >
+                    <button
+                      onClick={async () => {
+                        if (await run(setActiveProfile(profile.id))) {
+                          setIsOpen(false);
+                        }
+                      }}
+                      className="flex-1 min-w-0 flex items-center gap-2 px-2 py-1 text-sm text-left"
+                    >
+                      <span className="flex-1 truncate">{profile.name}</span>
+                      {profile.id === activeProfileId && (
+                        <Check className="size-3.5" />
+                      )}
+                    </button>
+                    <div className="flex gap-0.5 pr-1 opacity-0 group-hover:opacity-100">
+                      <Button
+                        size="icon-xs"
+                        variant="ghost"
+                        title="Edit profile"
+                        onClick={() => setEditing(profile)}
+                      >
+                        <Pencil className="size-3" />
+                      </Button>
+                      <Button
+                        size="icon-xs"
+                        variant="ghost"
+                        title="Delete profile"
+                        disabled={profiles.length <= 1}
+                        onClick={() => run(deleteProfile(profile.id))}
+                      >
+                        <Trash2 className="size-3" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <div className="border-t border-border mt-1 pt-1">
+                <button
+                  onClick={() =>
+                    setEditing({
+                      name: "",
+                      systemPrompt: "",
+                      enabledTools: null,
+                    })
+                  }
+                  className="w-full flex items-center gap-2 rounded-lg px-2 py-1 text-sm hover:bg-muted"
+                >
+                  <Plus className="size-3.5" />
+                  New profile
+                </button>
+              </div>
+            </>
+          )}
+
+          {error && (
+            <div className="px-2 pb-1 text-xs text-destructive">{error}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
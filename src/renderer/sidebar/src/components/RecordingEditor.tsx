@@ -0,0 +1,681 @@
+import React, { useEffect, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  Loader2,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { cn } from "@common/lib/utils";
+import { Button } from "@common/components/Button";
+
+interface SelectorCandidate {
+  strategy: string;
+  value: string;
+  role?: string;
+  attribute?: string;
+  matches: number;
+  score?: number;
+}
+
+interface ElementSelector {
+  css?: string;
+  xpath?: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  framePath?: string[];
+  shadowHosts?: string[];
+  candidates?: SelectorCandidate[];
+  hints?: Record<string, unknown>;
+}
+
+interface RecordedAction {
+  id: string;
+  type: string;
+  timestamp: number;
+  url: string;
+  selector?: ElementSelector;
+  value?: string;
+  description?: string;
+  screenshot?: string;
+  isContentField?: boolean;
+  contentPlaceholder?: string;
+  tab?: string;
+  secret?: string;
+}
+
+interface Recording {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: number;
+  updatedAt: number;
+  actions: RecordedAction[];
+  metadata?: {
+    targetSite?: string;
+    manualSteps?: number;
+  };
+}
+
+const STEP_LABELS: Record<string, string> = {
+  click: "Click",
+  input: "Type",
+  select: "Select",
+  navigate: "Navigate",
+  popup: "Popup",
+  new_tab: "New tab",
+  switch_tab: "Switch tab",
+  close_tab: "Close tab",
+  scroll: "Scroll",
+  wait: "Wait",
+  keypress: "Press key",
+  dblclick: "Double-click",
+  rightclick: "Right-click",
+  hover: "Hover",
+  check: "Check",
+  uncheck: "Uncheck",
+  drag: "Drag",
+  upload: "Upload",
+  manual_step: "Manual step",
+  assert_visible: "Is visible",
+  assert_text: "Has text",
+  assert_value: "Has value",
+  assert_url: "URL matches",
+  assert_title: "Title matches",
+};
+
+// Steps that can be added between recorded ones
+const INSERTABLE_STEPS = [
+  "wait",
+  "manual_step",
+  "assert_visible",
+  "assert_text",
+  "assert_value",
+  "assert_url",
+  "assert_title",
+];
+
+// Steps whose `value` is edited as plain text
+const TEXT_VALUE_STEPS = [
+  "input",
+  "select",
+  "assert_text",
+  "assert_value",
+  "assert_url",
+  "assert_title",
+];
+
+// Steps that act on or check an element
+const ELEMENT_STEPS = [
+  "click",
+  "input",
+  "select",
+  "dblclick",
+  "rightclick",
+  "hover",
+  "check",
+  "uncheck",
+  "drag",
+  "upload",
+  "assert_visible",
+  "assert_text",
+  "assert_value",
+];
+
+// Steps that give a tab its page variable, which has to stay unique
+const OPENS_TAB = ["popup", "new_tab"];
+
+const inputClassName =
+  "w-full bg-background border border-border rounded-lg px-2 py-1 text-sm outline-none";
+
+// Readable form of the selector the script will use
+const describeSelector = (selector?: ElementSelector): string => {
+  const best = selector?.candidates?.[0];
+  let description: string;
+  if (!best) {
+    description = selector?.id
+      ? `#${selector.id}`
+      : selector?.css || selector?.xpath || "body";
+  } else if (best.strategy === "role") {
+    description = `${best.role} "${best.value}"`;
+  } else if (best.strategy === "id") {
+    description = `#${best.value}`;
+  } else if (best.strategy === "css") {
+    description = best.value;
+  } else {
+    description = `${best.strategy} "${best.value}"`;
+  }
+  const outer = [
+    ...(selector?.framePath ?? []),
+    ...(selector?.shadowHosts ?? []),
+  ];
+  return [...outer, description].join(" › ");
+};
+
+// The selector with `css` as its first choice and the rest as fallbacks
+const withCss = (
+  selector: ElementSelector | undefined,
+  css: string,
+): ElementSelector => ({
+  ...selector,
+  css,
+  candidates: [
+    { strategy: "css", value: css, matches: 1 },
+    ...(selector?.candidates ?? []).filter(
+      (c) => !(c.strategy === "css" && c.value === css),
+    ),
+  ],
+});
+
+// Placeholder names end up in `{{name}}`
+const placeholderName = (name: string): string => name.replace(/[^\w-]/g, "_");
+
+const keyOf = (action: RecordedAction): string => {
+  try {
+    return JSON.parse(action.value || "{}").key || "Enter";
+  } catch {
+    return "Enter";
+  }
+};
+
+const stepSummary = (action: RecordedAction): string => {
+  if (action.secret) return `secret ${action.secret}`;
+  if (action.isContentField && action.contentPlaceholder) {
+    return `{{${action.contentPlaceholder}}}`;
+  }
+  switch (action.type) {
+    case "navigate":
+      return action.value === "goto" || action.value === "wait"
+        ? action.url
+        : action.value || "";
+    case "keypress":
+      return keyOf(action);
+    case "wait":
+      return `${action.value || "1000"} ms`;
+    case "manual_step":
+      return action.description || "";
+    case "popup":
+    case "new_tab":
+      return action.value || "";
+    default:
+      return ELEMENT_STEPS.includes(action.type)
+        ? `${describeSelector(action.selector)}${action.value && TEXT_VALUE_STEPS.includes(action.type) ? ` = "${action.value}"` : ""}`
+        : action.value || "";
+  }
+};
+
+// A new step after `anchor`, in its tab and at its URL
+const newStep = (
+  type: string,
+  anchor: RecordedAction | undefined,
+  targetSite?: string,
+): RecordedAction => {
+  const step: RecordedAction = {
+    id: crypto.randomUUID(),
+    type,
+    timestamp: Date.now(),
+    url: anchor?.url ?? targetSite ?? "",
+    tab: anchor?.tab ?? "page",
+  };
+  switch (type) {
+    case "wait":
+      step.value = "1000";
+      break;
+    case "manual_step":
+      step.description = "";
+      break;
+    case "assert_url":
+      step.value = step.url;
+      break;
+    case "assert_title":
+      step.value = "";
+      break;
+    default:
+      step.selector = anchor?.selector ?? { css: "body" };
+      step.value = "";
+  }
+  return step;
+};
+
+// The editable fields of one step
+const StepFields: React.FC<{
+  action: RecordedAction;
+  onChange: (action: RecordedAction) => void;
+}> = ({ action, onChange }) => {
+  const [css, setCss] = useState(action.selector?.css ?? "");
+
+  const commitCss = (): void => {
+    const value = css.trim();
+    if (value && value !== action.selector?.css) {
+      onChange({ ...action, selector: withCss(action.selector, value) });
+    }
+  };
+
+  return (
+    <div className="mt-2 flex flex-col gap-2 text-xs">
+      {TEXT_VALUE_STEPS.includes(action.type) && !action.secret && (
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">
+            {action.type.startsWith("assert_")
+              ? "Expected"
+              : action.isContentField
+                ? "Value, when the replay gives no content"
+                : "Value"}
+            {(action.type === "assert_url" || action.type === "assert_title") &&
+              " (/pattern/flags for a regex)"}
+          </span>
+          <input
+            value={action.value ?? ""}
+            onChange={(e) => onChange({ ...action, value: e.target.value })}
+            className={inputClassName}
+          />
+        </label>
+      )}
+
+      {action.type === "navigate" &&
+        (action.value === "goto" || action.value === "wait") && (
+          <label className="flex flex-col gap-1">
+            <span className="text-muted-foreground">URL</span>
+            <input
+              value={action.url}
+              onChange={(e) => onChange({ ...action, url: e.target.value })}
+              className={inputClassName}
+            />
+          </label>
+        )}
+
+      {action.type === "keypress" && (
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">Key</span>
+          <input
+            value={keyOf(action)}
+            onChange={(e) =>
+              onChange({
+                ...action,
+                value: JSON.stringify({ key: e.target.value }),
+              })
+            }
+            className={inputClassName}
+          />
+        </label>
+      )}
+
+      {action.type === "wait" && (
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">Milliseconds</span>
+          <input
+            type="number"
+            min={0}
+            step={100}
+            value={action.value ?? "1000"}
+            onChange={(e) =>
+              onChange({
+                ...action,
+                value: String(Math.max(0, parseInt(e.target.value) || 0)),
+              })
+            }
+            className={inputClassName}
+          />
+        </label>
+      )}
+
+      {action.type === "manual_step" && (
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">Instructions</span>
+          <textarea
+            value={action.description ?? ""}
+            onChange={(e) =>
+              onChange({ ...action, description: e.target.value })
+            }
+            rows={2}
+            className={cn(inputClassName, "resize-none")}
+          />
+        </label>
+      )}
+
+      {ELEMENT_STEPS.includes(action.type) && (
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">
+            CSS selector (uses {describeSelector(action.selector)} now)
+          </span>
+          <input
+            value={css}
+            onChange={(e) => setCss(e.target.value)}
+            onBlur={commitCss}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitCss();
+            }}
+            className={cn(inputClassName, "font-mono")}
+          />
+        </label>
+      )}
+
+      {action.type === "input" && !action.secret && (
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={!!action.isContentField}
+            onChange={(e) =>
+              onChange({
+                ...action,
+                isContentField: e.target.checked,
+                contentPlaceholder:
+                  action.contentPlaceholder ||
+                  placeholderName(action.selector?.name || "content"),
+              })
+            }
+          />
+          <span>Content placeholder, filled in at replay</span>
+        </label>
+      )}
+
+      {(action.type === "upload" ||
+        (action.type === "input" && action.isContentField)) && (
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">Placeholder name</span>
+          <input
+            value={action.contentPlaceholder ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...action,
+                contentPlaceholder: placeholderName(e.target.value),
+              })
+            }
+            className={cn(inputClassName, "font-mono")}
+          />
+        </label>
+      )}
+
+      {action.screenshot && (
+        <img
+          src={action.screenshot}
+          alt=""
+          className="rounded border border-border max-h-48 object-contain"
+        />
+      )}
+    </div>
+  );
+};
+
+const StepRow: React.FC<{
+  action: RecordedAction;
+  index: number;
+  count: number;
+  expanded: boolean;
+  onToggle: () => void;
+  onChange: (action: RecordedAction) => void;
+  onMove: (delta: number) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}> = ({
+  action,
+  index,
+  count,
+  expanded,
+  onToggle,
+  onChange,
+  onMove,
+  onDuplicate,
+  onDelete,
+}) => (
+  <li
+    className={cn(
+      "group border border-border rounded-lg px-2 py-1.5",
+      expanded ? "bg-muted/40" : "hover:bg-muted/40",
+    )}
+  >
+    <div className="flex items-center gap-2">
+      <button
+        onClick={onToggle}
+        className="flex min-w-0 flex-1 items-center gap-2 text-left text-sm"
+      >
+        {expanded ? (
+          <ChevronDown className="size-3.5 shrink-0" />
+        ) : (
+          <ChevronRight className="size-3.5 shrink-0" />
+        )}
+        <span className="w-5 shrink-0 text-xs text-muted-foreground">
+          {index + 1}
+        </span>
+        <span className="shrink-0 font-medium">
+          {STEP_LABELS[action.type] ?? action.type}
+        </span>
+        <span className="truncate text-xs text-muted-foreground">
+          {stepSummary(action)}
+        </span>
+        {action.tab && action.tab !== "page" && (
+          <span className="shrink-0 rounded bg-muted px-1 text-xs">
+            {action.tab}
+          </span>
+        )}
+      </button>
+      {action.screenshot && !expanded && (
+        <img
+          src={action.screenshot}
+          alt=""
+          className="h-6 w-10 shrink-0 rounded border border-border object-cover"
+        />
+      )}
+      <div className="flex shrink-0 items-center opacity-0 group-hover:opacity-100">
+        <Button
+          onClick={() => onMove(-1)}
+          disabled={index === 0}
+          size="icon-xs"
+          variant="ghost"
+          title="Move up"
+        >
+          <ArrowUp className="size-3.5" />
+        </Button>
+        <Button
+          onClick={() => onMove(1)}
+          disabled={index === count - 1}
+          size="icon-xs"
+          variant="ghost"
+          title="Move down"
+        >
+          <ArrowDown className="size-3.5" />
+        </Button>
+        <Button
+          onClick={onDuplicate}
+          disabled={OPENS_TAB.includes(action.type)}
+          size="icon-xs"
+          variant="ghost"
+          title="Duplicate"
+        >
+          <Copy className="size-3.5" />
+        </Button>
+        <Button
+          onClick={onDelete}
+          size="icon-xs"
+          variant="ghost"
+          title="Delete"
+        >
+          <Trash2 className="size-3.5 text-destructive" />
+        </Button>
+      </div>
+    </div>
+    {expanded && <StepFields action={action} onChange={onChange} />}
+  </li>
+);
+
+/**
+ * Edit a saved recording's steps. Saving regenerates its Playwright script.
+ */
+export const RecordingEditor: React.FC<{
+  recordingId: string;
+  onClose: () => void;
+  onSaved: (recording: Recording) => void;
+}> = ({ recordingId, onClose, onSaved }) => {
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [name, setName] = useState("");
+  const [actions, setActions] = useState<RecordedAction[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [insertType, setInsertType] = useState(INSERTABLE_STEPS[0]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.sidebarAPI
+      .recorderGetRecording(recordingId)
+      .then((result) => {
+        if (cancelled) return;
+        if (result.success && result.recording) {
+          setRecording(result.recording);
+          setName(result.recording.name);
+          setActions(result.recording.actions);
+        } else {
+          setError(result.error ?? "Recording not found");
+        }
+      })
+      .catch((err) => {
+        console.error("Failed to load recording:", err);
+        if (!cancelled) setError("Failed to load recording");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [recordingId]);
+
+  const update = (next: RecordedAction[]): void => {
+    setActions(next);
+    setIsDirty(true);
+  };
+
+  const changeStep = (index: number, action: RecordedAction): void =>
+    update(actions.map((a, i) => (i === index ? action : a)));
+
+  const moveStep = (index: number, delta: number): void => {
+    const next = [...actions];
+    const [step] = next.splice(index, 1);
+    next.splice(index + delta, 0, step);
+    update(next);
+  };
+
+  const duplicateStep = (index: number): void => {
+    const copy = { ...actions[index], id: crypto.randomUUID() };
+    update([...actions.slice(0, index + 1), copy, ...actions.slice(index + 1)]);
+  };
+
+  const deleteStep = (index: number): void =>
+    update(actions.filter((_, i) => i !== index));
+
+  // After the open step, or at the end
+  const insertStep = (): void => {
+    const expandedIndex = actions.findIndex((a) => a.id === expandedId);
+    const at = expandedIndex === -1 ? actions.length : expandedIndex + 1;
+    const step = newStep(
+      insertType,
+      actions[at - 1],
+      recording?.metadata?.targetSite,
+    );
+    update([...actions.slice(0, at), step, ...actions.slice(at)]);
+    setExpandedId(step.id);
+  };
+
+  const save = async (): Promise<void> => {
+    if (!recording) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await window.sidebarAPI.recorderUpdateRecording({
+        ...recording,
+        name,
+        actions,
+      });
+      if (result.success && result.recording) {
+        setRecording(result.recording);
+        setActions(result.recording.actions);
+        setIsDirty(false);
+        onSaved(result.recording);
+      } else {
+        setError(result.error ?? "Failed to save recording");
+      }
+    } catch (err) {
+      console.error("Failed to save recording:", err);
+      setError("Failed to save recording");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const close = (): void => {
+    if (isDirty && !confirm("Discard your changes to this recording?")) {
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <div className="h-full px-4 py-6 flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-2">
+        <input
+          value={name}
+          onChange={(e) => {
+            setName(e.target.value);
+            setIsDirty(true);
+          }}
+          disabled={!recording}
+          className="min-w-0 flex-1 bg-transparent text-2xl font-bold text-foreground outline-none"
+        />
+        <div className="flex shrink-0 gap-2">
+          <Button onClick={close} variant="ghost">
+            {isDirty ? "Cancel" : "Close"}
+          </Button>
+          <Button onClick={save} disabled={!isDirty || isSaving}>
+            {isSaving && <Loader2 className="size-4 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-destructive">{error}</div>}
+
+      {recording && (
+        <>
+          <ol className="flex flex-col gap-1.5">
+            {actions.map((action, index) => (
+              <StepRow
+                key={action.id}
+                action={action}
+                index={index}
+                count={actions.length}
+                expanded={expandedId === action.id}
+                onToggle={() =>
+                  setExpandedId(expandedId === action.id ? null : action.id)
+                }
+                onChange={(next) => changeStep(index, next)}
+                onMove={(delta) => moveStep(index, delta)}
+                onDuplicate={() => duplicateStep(index)}
+                onDelete={() => deleteStep(index)}
+              />
+            ))}
+          </ol>
+
+          <div className="flex items-center gap-2">
+            <select
+              value={insertType}
+              onChange={(e) => setInsertType(e.target.value)}
+              className="bg-background border border-border rounded-lg px-2 py-1 text-sm outline-none"
+            >
+              {INSERTABLE_STEPS.map((type) => (
+                <option key={type} value={type}>
+                  {STEP_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            <Button onClick={insertStep} size="sm" variant="outline">
+              <Plus className="size-4" />
+              {expandedId ? "Add after open step" : "Add step"}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
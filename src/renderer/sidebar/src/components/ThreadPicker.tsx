@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ChevronDown, Pencil, Search, Trash2 } from "lucide-react";
+import { useChat } from "../contexts/ChatContext";
+import { cn } from "@common/lib/utils";
+import { Button } from "@common/components/Button";
+
+interface ConversationSummary {
+  id: string;
+  title: string;
+  updatedAt: number;
+  messageCount: number;
+  snippet?: string;
+}
+
+const formatUpdatedAt = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString();
+};
+
+// Single row in the thread list, with inline rename
+const ThreadRow: React.FC<{
+  conversation: ConversationSummary;
+  isCurrent: boolean;
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onDelete: () => void;
+}> = ({ conversation, isCurrent, onSelect, onRename, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState(conversation.title);
+
+  const commitRename = (): void => {
+    setIsEditing(false);
+    if (title.trim() && title !== conversation.title) {
+      onRename(title);
+    } else {
+      setTitle(conversation.title);
+    }
+  };
+
+  return (
+    <li
+      className={cn(
+        "group flex items-start gap-2 rounded-lg px-2 py-1.5",
+        isCurrent ? "bg-muted" : "hover:bg-muted/60",
+      )}
+      data-conversation-id={conversation.id}
+    >
+      {isEditing ? (
+        <input
+          autoFocus
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitRename();
+            if (e.key === "Escape") {
+              setTitle(conversation.title);
+              setIsEditing(false);
+            }
+          }}
+          className="flex-1 min-w-0 bg-background border border-border rounded px-1.5 text-sm outline-none"
+        />
+      ) : (
+        <button onClick={onSelect} className="flex-1 min-w-0 text-left">
+          <div className="text-sm text-foreground truncate">
+            {conversation.title}
+          </div>
+          <div className="text-xs text-muted-foreground truncate">
+            {conversation.snippet ??
+              `${conversation.messageCount} messages · ${formatUpdatedAt(conversation.updatedAt)}`}
+          </div>
+        </button>
+      )}
+      <div className="flex gap-0.5 opacity-0 group-hover:opacity-100">
+        <Button
+          size="icon-xs"
+          variant="ghost"
+          title="Rename"
+          onClick={() => setIsEditing(true)}
+        >
+          <Pencil className="size-3" />
+        </Button>
+        <Button
+          size="icon-xs"
+          variant="ghost"
+          title="Delete"
+          onClick={onDelete}
+        >
+          <Trash2 className="size-3" />
+        </Button>
+      </div>
+    </li>
+  );
+};
+
+// Thread Picker - dropdown to search, switch, rename and delete threads
+export const ThreadPicker: React.FC = () => {
+  const {
+    conversations,
+    currentConversationId,
+    switchConversation,
+    renameConversation,
+    deleteConversation,
+    searchConversations,
+  } = useChat();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ConversationSummary[] | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const current = conversations.find((c) => c.id === currentConversationId);
+
+  // Search in main process; an empty query shows the full list
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    let cancelled = false;
+    searchConversations(query).then((found) => {
+      if (!cancelled) setResults(found);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [query, searchConversations, conversations]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent): void => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const visible = results ?? conversations;
+
+  return (
+    <div ref={containerRef} className="relative min-w-0">
+      <Button
+        variant="ghost"
+        onClick={() => setIsOpen((open) => !open)}
+        className="max-w-[220px]"
+        title="Conversations"
+      >
+        <span className="truncate">{current?.title ?? "New chat"}</span>
+        <ChevronDown className="size-4 shrink-0" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 z-20 w-80 max-h-96 flex flex-col bg-background border border-border rounded-xl shadow-lg animate-fade-in">
+          <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+            <Search className="size-4 text-muted-foreground" />
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search conversations"
+              className="flex-1 bg-transparent text-sm outline-none"
+            />
+          </div>
+          <ul className="flex-1 overflow-y-auto p-1.5">
+            {visible.length === 0 && (
+              <li className="px-2 py-3 text-sm text-muted-foreground text-center">
+                {query.trim() ? "No matches" : "No saved conversations"}
+              </li>
+            )}
+            {visible.map((conversation) => (
+              <ThreadRow
+                key={conversation.id}
+                conversation={conversation}
+                isCurrent={conversation.id === currentConversationId}
+                onSelect={() => {
+                  switchConversation(conversation.id);
+                  setIsOpen(false);
+                }}
+                onRename={(title) => renameConversation(conversation.id, title)}
+                onDelete={() => deleteConversation(conversation.id)}
+              />
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
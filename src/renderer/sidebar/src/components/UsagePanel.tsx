@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Coins } from "lucide-react";
+import { useChat } from "../contexts/ChatContext";
+import { Button } from "@common/components/Button";
+
+interface MessageUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number | null;
+}
+
+interface UsageTotals {
+  requests: number;
+  totalTokens: number;
+  cost: number;
+  unpricedRequests: number;
+}
+
+interface UsageSummary {
+  conversation: UsageTotals | null;
+  today: UsageTotals;
+  days: Array<{ date: string; totals: UsageTotals }>;
+  allTime: UsageTotals;
+}
+
+const formatTokens = (tokens: number): string =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+// Sub-cent amounts need more digits to be meaningful
+const formatCost = (cost: number): string =>
+  cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+
+const formatDay = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString([], {
+    weekday: "short",
+    day: "numeric",
+  });
+
+// Per-message footer: tokens in/out and cost of generating the reply
+export const MessageUsageFooter: React.FC<{ usage: MessageUsage }> = ({
+  usage,
+}) => (
+  <span
+    title={`${usage.model}: ${usage.inputTokens} input, ${usage.outputTokens} output tokens`}
+    data-message-usage
+  >
+    {formatTokens(usage.totalTokens)} tokens
+    {usage.cost !== null && ` · ${formatCost(usage.cost)}`}
+  </span>
+);
+
+const TotalsRow: React.FC<{ label: string; totals: UsageTotals }> = ({
+  label,
+  totals,
+}) => (
+  <div className="flex items-center justify-between gap-2 px-2 py-1 text-sm">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="text-foreground tabular-nums">
+      {formatTokens(totals.totalTokens)} · {formatCost(totals.cost)}
+      {totals.unpricedRequests > 0 && "*"}
+    </span>
+  </div>
+);
+
+// Usage Panel - token and cost totals for this chat, today and the week
+export const UsagePanel: React.FC = () => {
+  const { getUsageSummary } = useChat();
+  const [isOpen, setIsOpen] = useState(false);
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Refresh each time the panel opens
+  useEffect(() => {
+    if (isOpen) getUsageSummary().then(setSummary);
+  }, [isOpen, getUsageSummary]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent): void => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const hasUnpriced =
+    summary !== null &&
+    [summary.conversation, summary.allTime].some(
+      (totals) => (totals?.unpricedRequests ?? 0) > 0,
+    );
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        size="icon-xs"
+        variant="ghost"
+        title="Token usage"
+        onClick={() => setIsOpen((open) => !open)}
+      >
+        <Coins className="size-3.5" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-20 w-64 bg-background border border-border rounded-xl shadow-lg p-1.5 animate-fade-in">
+          {!summary ? (
+            <div className="px-2 py-1 text-sm text-muted-foreground">
+              Usage is not tracked
+            </div>
+          ) : (
+            <>
+              {summary.conversation && (
+                <TotalsRow label="This chat" totals={summary.conversation} />
+              )}
+              <TotalsRow label="Today" totals={summary.today} />
+              <TotalsRow label="All time" totals={summary.allTime} />
+
+              <div className="border-t border-border mt-1 pt-1">
+                <div className="px-2 py-1 text-xs font-medium text-muted-foreground">
+                  Last 7 days
+                </div>
+                {summary.days.map((day) => (
+                  <TotalsRow
+                    key={day.date}
+                    label={formatDay(day.date)}
+                    totals={day.totals}
+                  />
+                ))}
+              </div>
+
+              {hasUnpriced && (
+                <div className="px-2 pt-1 text-xs text-muted-foreground">
+                  * Includes models without a price; set modelPrices in
+                  settings.json
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
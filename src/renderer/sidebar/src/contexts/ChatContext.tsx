@@ -4,16 +4,96 @@ import React, {
   useEffect,
   useState,
   useCallback,
+  useRef,
 } from "react";
 
-interface CoreMessagePart {
-  type: string;
-  text?: string;
+interface MessageBranch {
+  index: number;
+  count: number;
+  siblingIds: string[];
 }
 
-interface CoreMessage {
-  role: string;
-  content: string | CoreMessagePart[];
+interface ToolCallRecord {
+  toolCallId: string;
+  toolName: string;
+  status: "running" | "done" | "error";
+  input?: string;
+  output?: string;
+  error?: string;
+}
+
+interface ToolEvent {
+  type: "tool-call-start" | "tool-call" | "tool-result" | "tool-error";
+  toolCallId: string;
+  toolName: string;
+  input?: string;
+  output?: string;
+  error?: string;
+}
+
+interface MessageUsage {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number | null;
+}
+
+interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+  unpricedRequests: number;
+}
+
+interface UsageSummary {
+  conversation: UsageTotals | null;
+  today: UsageTotals;
+  days: Array<{ date: string; totals: UsageTotals }>;
+  allTime: UsageTotals;
+}
+
+interface AnsweredBy {
+  provider: string;
+  model: string;
+  fallback: boolean;
+}
+
+interface MessageCommand {
+  input: string;
+  local: boolean;
+}
+
+interface HistoryCompaction {
+  summary: string | null;
+  createdAt: number;
+}
+
+interface ChatMessage {
+  id: string;
+  parentId: string | null;
+  role: "user" | "assistant";
+  content: string;
+  createdAt: number;
+  status?: "cancelled";
+  toolCalls?: ToolCallRecord[];
+  usage?: MessageUsage;
+  answeredBy?: AnsweredBy;
+  command?: MessageCommand;
+  compaction?: HistoryCompaction;
+  branch: MessageBranch;
+}
+
+interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+  snippet?: string;
 }
 
 interface Message {
@@ -22,6 +102,75 @@ interface Message {
   content: string;
   timestamp: number;
   isStreaming?: boolean;
+  status?: "cancelled";
+  branch?: MessageBranch;
+  toolCalls?: ToolCallRecord[];
+  usage?: MessageUsage;
+  answeredBy?: AnsweredBy;
+  command?: MessageCommand;
+  compaction?: HistoryCompaction;
+}
+
+interface AgentStep {
+  id: string;
+  toolName: string;
+  description: string;
+  status: "running" | "done" | "error";
+  detail?: string;
+}
+
+interface ProviderInfo {
+  id: string;
+  label: string;
+  requiredEnvVar: string;
+  configured: boolean;
+  defaultModel: string;
+  models: string[];
+  capabilities: { toolCalling: boolean; vision: boolean };
+}
+
+interface ModelSettings {
+  provider: string;
+  model: string;
+  temperature: number;
+}
+
+interface AssistantProfile {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  model?: { provider: string; model: string };
+  temperature?: number;
+  enabledTools: string[] | null;
+}
+
+interface SlashCommandInfo {
+  name: string;
+  usage: string;
+  description: string;
+}
+
+interface ToolInfo {
+  name: string;
+  description: string;
+}
+
+type ApprovalDecision = "allow" | "always" | "deny";
+
+interface ApprovalRequest {
+  id: string;
+  messageId: string;
+  toolName: string;
+  summary: string;
+  reasons: Array<{ type: string; message: string }>;
+  domain: string | null;
+}
+
+interface SecretPrompt {
+  id: string;
+  kind: "passphrase" | "new-passphrase" | "secret";
+  name?: string;
+  message: string;
 }
 
 interface Recording {
@@ -41,15 +190,64 @@ interface Recording {
 interface ChatContextType {
   messages: Message[];
   isLoading: boolean;
+  conversations: ConversationSummary[];
+  currentConversationId: string | null;
   recordings: Recording[];
   showRecordings: boolean;
+  editingRecordingId: string | null; // Open in the step editor
+  batchRecordingId: string | null; // Open in the batch replay panel
+  agentMode: boolean;
+  agentSteps: AgentStep[];
+  liveToolCalls: ToolCallRecord[];
+  pendingApprovals: ApprovalRequest[];
+  pendingSecretPrompts: SecretPrompt[];
+  providers: ProviderInfo[];
+  modelSettings: ModelSettings | null;
+  profiles: AssistantProfile[];
+  activeProfileId: string | null;
+  tools: ToolInfo[];
+  commands: SlashCommandInfo[];
 
   // Chat actions
   sendMessage: (content: string) => Promise<void>;
+  runCommand: (input: string) => Promise<void>;
+  cancelMessage: () => Promise<void>;
+  editMessage: (messageId: string, content: string) => Promise<void>;
+  regenerateMessage: (messageId: string) => Promise<void>;
+  switchBranch: (messageId: string) => Promise<void>;
   clearChat: () => void;
+  setAgentMode: (enabled: boolean) => Promise<void>;
+
+  // Model actions; resolves to an error message if the switch failed
+  setModelSettings: (changes: Partial<ModelSettings>) => Promise<string | null>;
+  getUsageSummary: () => Promise<UsageSummary | null>;
+
+  // Profile actions; resolve to an error message on failure
+  setActiveProfile: (id: string) => Promise<string | null>;
+  saveProfile: (profile: Partial<AssistantProfile>) => Promise<string | null>;
+  deleteProfile: (id: string) => Promise<string | null>;
+
+  // Thread actions
+  createConversation: () => Promise<void>;
+  switchConversation: (id: string) => Promise<void>;
+  renameConversation: (id: string, title: string) => Promise<void>;
+  deleteConversation: (id: string) => Promise<void>;
+  searchConversations: (query: string) => Promise<ConversationSummary[]>;
+  respondToApproval: (
+    requestId: string,
+    decision: ApprovalDecision,
+  ) => Promise<void>;
+  // value null cancels the prompt
+  respondToSecretPrompt: (
+    promptId: string,
+    value: string | null,
+  ) => Promise<void>;
 
   // Recordings actions
   closeRecordingsList: () => void;
+  editRecording: (recordingId: string | null) => void; // null closes the editor
+  batchReplay: (recordingId: string | null) => void; // null closes the panel
+  recordingUpdated: (recording: Recording) => void;
   replayRecording: (recordingId: string) => Promise<void>;
   deleteRecording: (recordingId: string) => Promise<void>;
 
@@ -61,6 +259,50 @@ interface ChatContextType {
 
 const ChatContext = createContext<ChatContextType | null>(null);
 
+const toMessage = (msg: ChatMessage): Message => ({
+  id: msg.id,
+  role: msg.role,
+  content: msg.content,
+  timestamp: msg.createdAt,
+  isStreaming: false,
+  status: msg.status,
+  branch: msg.branch,
+  toolCalls: msg.toolCalls,
+  usage: msg.usage,
+  answeredBy: msg.answeredBy,
+  command: msg.command,
+  compaction: msg.compaction,
+});
+
+// Fold a streamed tool event into the tool calls of the in-flight reply
+const applyToolEvent = (
+  records: ToolCallRecord[],
+  event: ToolEvent,
+): ToolCallRecord[] => {
+  const index = records.findIndex((r) => r.toolCallId === event.toolCallId);
+  const record: ToolCallRecord =
+    index === -1
+      ? {
+          toolCallId: event.toolCallId,
+          toolName: event.toolName,
+          status: "running",
+        }
+      : records[index];
+  const updated: ToolCallRecord = {
+    ...record,
+    ...(event.type === "tool-call" && { input: event.input }),
+    ...(event.type === "tool-result" && {
+      status: "done",
+      output: event.output,
+    }),
+    ...(event.type === "tool-error" && { status: "error", error: event.error }),
+  };
+  if (index === -1) return [...records, updated];
+  const next = [...records];
+  next[index] = updated;
+  return next;
+};
+
 // eslint-disable-next-line react-refresh/only-export-components
 export const useChat = (): ChatContextType => {
   const context = useContext(ChatContext);
@@ -75,56 +317,191 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
 }): React.ReactElement => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const inFlightMessageId = useRef<string | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [currentConversationId, setCurrentConversationId] = useState<
+    string | null
+  >(null);
   const [recordings, setRecordings] = useState<Recording[]>([]);
   const [showRecordings, setShowRecordings] = useState(false);
+  const [editingRecordingId, setEditingRecordingId] = useState<string | null>(
+    null,
+  );
+  const [batchRecordingId, setBatchRecordingId] = useState<string | null>(null);
+  const [agentMode, setAgentModeState] = useState(false);
+  const [agentSteps, setAgentSteps] = useState<AgentStep[]>([]);
+  const [liveToolCalls, setLiveToolCalls] = useState<ToolCallRecord[]>([]);
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [modelSettings, setModelSettingsState] = useState<ModelSettings | null>(
+    null,
+  );
+  const [pendingApprovals, setPendingApprovals] = useState<ApprovalRequest[]>(
+    [],
+  );
+  const [pendingSecretPrompts, setPendingSecretPrompts] = useState<
+    SecretPrompt[]
+  >([]);
+  const [profiles, setProfiles] = useState<AssistantProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [tools, setTools] = useState<ToolInfo[]>([]);
+  const [commands, setCommands] = useState<SlashCommandInfo[]>([]);
+
+  // Load agent mode from main process
+  useEffect(() => {
+    window.sidebarAPI
+      .getAgentMode()
+      .then(setAgentModeState)
+      .catch((error) => console.error("Failed to load agent mode:", error));
+  }, []);
+
+  // Load providers and the active model from main process
+  useEffect(() => {
+    Promise.all([
+      window.sidebarAPI.listProviders(),
+      window.sidebarAPI.getModelSettings(),
+    ])
+      .then(([providerList, settings]) => {
+        setProviders(providerList);
+        setModelSettingsState(settings);
+      })
+      .catch((error) => console.error("Failed to load model settings:", error));
+  }, []);
+
+  // Load slash commands for the composer's autocomplete
+  useEffect(() => {
+    window.sidebarAPI
+      .listCommands()
+      .then(setCommands)
+      .catch((error) => console.error("Failed to load commands:", error));
+  }, []);
+
+  // Load assistant profiles and the tools they can enable
+  const loadProfiles = useCallback(async () => {
+    try {
+      const [profileList, toolList] = await Promise.all([
+        window.sidebarAPI.listProfiles(),
+        window.sidebarAPI.listTools(),
+      ]);
+      setProfiles(profileList.profiles);
+      setActiveProfileId(profileList.activeId);
+      setTools(toolList);
+    } catch (error) {
+      console.error("Failed to load profiles:", error);
+    }
+  }, []);
 
-  // Load initial messages from main process
   useEffect(() => {
-    const loadMessages = async (): Promise<void> => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  // Load the selected thread and the thread list from main process
+  useEffect(() => {
+    const loadConversation = async (): Promise<void> => {
       try {
-        const storedMessages = await window.sidebarAPI.getMessages();
-        if (storedMessages && storedMessages.length > 0) {
-          // Convert CoreMessage format to our frontend Message format
-          const convertedMessages = storedMessages.map(
-            (msg: CoreMessage, index: number) => ({
-              id: `msg-${index}`,
-              role: msg.role as "user" | "assistant",
-              content:
-                typeof msg.content === "string"
-                  ? msg.content
-                  : (msg.content as CoreMessagePart[]).find(
-                      (p) => p.type === "text",
-                    )?.text || "",
-              timestamp: Date.now(),
-              isStreaming: false,
-            }),
-          );
-          setMessages(convertedMessages);
-        }
+        const [conversation, branchMessages, list] = await Promise.all([
+          window.sidebarAPI.getCurrentConversation(),
+          window.sidebarAPI.getMessages(),
+          window.sidebarAPI.listConversations(),
+        ]);
+        setCurrentConversationId(conversation.id);
+        setMessages(branchMessages.map(toMessage));
+        setConversations(list);
       } catch (error) {
-        console.error("Failed to load messages:", error);
+        console.error("Failed to load conversation:", error);
       }
     };
-    loadMessages();
+    loadConversation();
   }, []);
 
-  const sendMessage = useCallback(async (content: string) => {
-    setIsLoading(true);
+  // Runs a request that streams a reply; `messageId` identifies the stream
+  // so it can be cancelled
+  const runChatRequest = useCallback(
+    async (send: (messageId: string) => Promise<void>) => {
+      setIsLoading(true);
+      setAgentSteps([]);
+      setLiveToolCalls([]);
 
-    try {
-      const messageId = Date.now().toString();
+      try {
+        const messageId = Date.now().toString();
+        inFlightMessageId.current = messageId;
+        await send(messageId);
 
-      // Send message to main process (which will handle context)
-      await window.sidebarAPI.sendChatMessage({
-        message: content,
-        messageId: messageId,
+        // Messages will be updated via the chat-messages-updated event
+      } catch (error) {
+        console.error("Failed to send message:", error);
+      } finally {
+        inFlightMessageId.current = null;
+        setIsLoading(false);
+        // The saved reply carries its tool calls from here on
+        setLiveToolCalls([]);
+      }
+    },
+    [],
+  );
+
+  const sendMessage = useCallback(
+    (content: string) =>
+      runChatRequest((messageId) =>
+        // Send message to main process (which will handle context)
+        window.sidebarAPI.sendChatMessage({ message: content, messageId }),
+      ),
+    [runChatRequest],
+  );
+
+  const runCommand = useCallback(
+    async (input: string) => {
+      await runChatRequest(async (messageId) => {
+        const result = await window.sidebarAPI.runCommand({ input, messageId });
+        if (!result.success) console.error("Command failed:", result.error);
       });
+      // /model switches the model from the main process
+      try {
+        setModelSettingsState(await window.sidebarAPI.getModelSettings());
+      } catch (error) {
+        console.error("Failed to load model settings:", error);
+      }
+    },
+    [runChatRequest],
+  );
+
+  const editMessage = useCallback(
+    (targetId: string, content: string) =>
+      runChatRequest((messageId) =>
+        window.sidebarAPI.editMessage({
+          targetId,
+          message: content,
+          messageId,
+        }),
+      ),
+    [runChatRequest],
+  );
+
+  const regenerateMessage = useCallback(
+    (targetId: string) =>
+      runChatRequest((messageId) =>
+        window.sidebarAPI.regenerateMessage({ targetId, messageId }),
+      ),
+    [runChatRequest],
+  );
+
+  const switchBranch = useCallback(async (messageId: string) => {
+    try {
+      const result = await window.sidebarAPI.switchBranch(messageId);
+      if (!result.success) {
+        console.error("Failed to switch branch:", result.error);
+      }
+    } catch (error) {
+      console.error("Failed to switch branch:", error);
+    }
+  }, []);
 
-      // Messages will be updated via the chat-messages-updated event
+  const cancelMessage = useCallback(async () => {
+    const messageId = inFlightMessageId.current;
+    if (!messageId) return;
+    try {
+      await window.sidebarAPI.cancelChat(messageId);
     } catch (error) {
-      console.error("Failed to send message:", error);
-    } finally {
-      setIsLoading(false);
+      console.error("Failed to cancel message:", error);
     }
   }, []);
 
@@ -132,11 +509,189 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
     try {
       await window.sidebarAPI.clearChat();
       setMessages([]);
+      setAgentSteps([]);
     } catch (error) {
       console.error("Failed to clear chat:", error);
     }
   }, []);
 
+  const setAgentMode = useCallback(async (enabled: boolean) => {
+    try {
+      setAgentModeState(await window.sidebarAPI.setAgentMode(enabled));
+    } catch (error) {
+      console.error("Failed to set agent mode:", error);
+    }
+  }, []);
+
+  const respondToApproval = useCallback(
+    async (requestId: string, decision: ApprovalDecision) => {
+      setPendingApprovals((prev) => prev.filter((r) => r.id !== requestId));
+      try {
+        const result = await window.sidebarAPI.respondToApproval(
+          requestId,
+          decision,
+        );
+        if (!result.success) {
+          console.error("Failed to answer approval:", result.error);
+        }
+      } catch (error) {
+        console.error("Failed to answer approval:", error);
+      }
+    },
+    [],
+  );
+
+  const respondToSecretPrompt = useCallback(
+    async (promptId: string, value: string | null) => {
+      setPendingSecretPrompts((prev) => prev.filter((p) => p.id !== promptId));
+      try {
+        const result = await window.sidebarAPI.respondToSecretPrompt(
+          promptId,
+          value,
+        );
+        if (!result.success) {
+          console.error("Failed to answer secret prompt:", result.error);
+        }
+      } catch (error) {
+        console.error("Failed to answer secret prompt:", error);
+      }
+    },
+    [],
+  );
+
+  const setModelSettings = useCallback(
+    async (changes: Partial<ModelSettings>) => {
+      try {
+        const result = await window.sidebarAPI.setModelSettings(changes);
+        if (result.success && result.settings) {
+          setModelSettingsState(result.settings);
+          return null;
+        }
+        return result.error ?? "Failed to switch model";
+      } catch (error) {
+        console.error("Failed to set model settings:", error);
+        return "Failed to switch model";
+      }
+    },
+    [],
+  );
+
+  const setActiveProfile = useCallback(async (id: string) => {
+    try {
+      const result = await window.sidebarAPI.setActiveProfile(id);
+      if (!result.success) return result.error ?? "Failed to switch profile";
+      setActiveProfileId(id);
+      // The profile may have switched model or temperature
+      if (result.settings) setModelSettingsState(result.settings);
+      return null;
+    } catch (error) {
+      console.error("Failed to set profile:", error);
+      return "Failed to switch profile";
+    }
+  }, []);
+
+  const saveProfile = useCallback(
+    async (profile: Partial<AssistantProfile>) => {
+      try {
+        const result = await window.sidebarAPI.saveProfile(profile);
+        if (!result.success) return result.error ?? "Failed to save profile";
+        await loadProfiles();
+        return null;
+      } catch (error) {
+        console.error("Failed to save profile:", error);
+        return "Failed to save profile";
+      }
+    },
+    [loadProfiles],
+  );
+
+  const deleteProfile = useCallback(
+    async (id: string) => {
+      if (!confirm("Delete this profile?")) {
+        return null;
+      }
+
+      try {
+        const result = await window.sidebarAPI.deleteProfile(id);
+        if (!result.success) return result.error ?? "Failed to delete profile";
+        await loadProfiles();
+        return null;
+      } catch (error) {
+        console.error("Failed to delete profile:", error);
+        return "Failed to delete profile";
+      }
+    },
+    [loadProfiles],
+  );
+
+  const getUsageSummary = useCallback(async () => {
+    try {
+      return await window.sidebarAPI.getUsageSummary();
+    } catch (error) {
+      console.error("Failed to load usage:", error);
+      return null;
+    }
+  }, []);
+
+  // Thread changes are pushed back via chat-conversations-updated and
+  // chat-messages-updated, so these only need to ask main process
+  const createConversation = useCallback(async () => {
+    try {
+      await window.sidebarAPI.createConversation();
+      setAgentSteps([]);
+    } catch (error) {
+      console.error("Failed to create conversation:", error);
+    }
+  }, []);
+
+  const switchConversation = useCallback(async (id: string) => {
+    try {
+      const result = await window.sidebarAPI.switchConversation(id);
+      if (result.success) {
+        setAgentSteps([]);
+      } else {
+        console.error("Failed to switch conversation:", result.error);
+      }
+    } catch (error) {
+      console.error("Failed to switch conversation:", error);
+    }
+  }, []);
+
+  const renameConversation = useCallback(async (id: string, title: string) => {
+    try {
+      const result = await window.sidebarAPI.renameConversation(id, title);
+      if (!result.success) {
+        console.error("Failed to rename conversation:", result.error);
+      }
+    } catch (error) {
+      console.error("Failed to rename conversation:", error);
+    }
+  }, []);
+
+  const deleteConversation = useCallback(async (id: string) => {
+    if (!confirm("Delete this conversation?")) {
+      return;
+    }
+
+    try {
+      const result = await window.sidebarAPI.deleteConversation(id);
+      if (!result.success) {
+        console.error("Failed to delete conversation:", result.error);
+      }
+    } catch (error) {
+      console.error("Failed to delete conversation:", error);
+    }
+  }, []);
+
+  const searchConversations = useCallback(async (query: string) => {
+    try {
+      return await window.sidebarAPI.searchConversations(query);
+    } catch (error) {
+      console.error("Failed to search conversations:", error);
+      return [];
+    }
+  }, []);
+
   const getPageContent = useCallback(async () => {
     try {
       return await window.sidebarAPI.getPageContent();
@@ -166,6 +721,22 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
 
   const closeRecordingsList = useCallback(() => {
     setShowRecordings(false);
+    setEditingRecordingId(null);
+    setBatchRecordingId(null);
+  }, []);
+
+  const editRecording = useCallback((recordingId: string | null) => {
+    setEditingRecordingId(recordingId);
+  }, []);
+
+  const batchReplay = useCallback((recordingId: string | null) => {
+    setBatchRecordingId(recordingId);
+  }, []);
+
+  const recordingUpdated = useCallback((recording: Recording) => {
+    setRecordings((prev) =>
+      prev.map((r) => (r.id === recording.id ? recording : r)),
+    );
   }, []);
 
   const replayRecording = useCallback(async (recordingId: string) => {
@@ -187,8 +758,27 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
       if (replayResult.success) {
         setShowRecordings(false);
         console.log("Replay started successfully");
+
+        const healedSteps = replayResult.healedSteps ?? [];
+        if (
+          healedSteps.length > 0 &&
+          confirm(
+            `${healedSteps.length} step(s) no longer matched their selector and were found another way:\n\n${healedSteps
+              .map((step) => `Step ${step.step}: ${step.selector}`)
+              .join("\n")}\n\nSave these selectors to the recording?`,
+          )
+        ) {
+          const saveResult =
+            await window.sidebarAPI.replayerSaveHealedSelectors(
+              recording.id,
+              healedSteps,
+            );
+          if (!saveResult.success) {
+            alert(`Failed to save selectors: ${saveResult.error}`);
+          }
+        }
       } else {
-        alert(`Failed to start replay: ${replayResult.error}`);
+        alert(`Replay failed: ${replayResult.error}`);
       }
     } catch (error) {
       console.error("Failed to replay recording:", error);
@@ -228,34 +818,29 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
       if (data.isComplete) {
         console.log("[CHAT] Response complete, setting isLoading=false");
         setIsLoading(false);
+        // Approvals for a finished (or cancelled) response can't be answered
+        setPendingApprovals((prev) =>
+          prev.filter((r) => r.messageId !== data.messageId),
+        );
       }
     };
 
     // Listen for message updates from main process
-    const handleMessagesUpdated = (updatedMessages: CoreMessage[]): void => {
+    const handleMessagesUpdated = (updatedMessages: ChatMessage[]): void => {
       console.log(
         "[CHAT] handleMessagesUpdated - received messages:",
         updatedMessages.length,
       );
-      console.log("[CHAT] Messages:", updatedMessages);
-      // Convert CoreMessage format to our frontend Message format
-      const convertedMessages = updatedMessages.map(
-        (msg: CoreMessage, index: number) => ({
-          id: `msg-${index}`,
-          role: msg.role as "user" | "assistant",
-          content:
-            typeof msg.content === "string"
-              ? msg.content
-              : (msg.content as CoreMessagePart[]).find(
-                  (p) => p.type === "text",
-                )?.text || "",
-          timestamp: Date.now(),
-          isStreaming: false,
-        }),
-      );
-      console.log("[CHAT] Converted messages:", convertedMessages);
-      setMessages(convertedMessages);
-      console.log("[CHAT] Messages state updated");
+      setMessages(updatedMessages.map(toMessage));
+    };
+
+    // Listen for thread list / current thread changes
+    const handleConversationsUpdated = (data: {
+      currentId: string;
+      conversations: ConversationSummary[];
+    }): void => {
+      setCurrentConversationId(data.currentId);
+      setConversations(data.conversations);
     };
 
     // Listen for recordings list
@@ -265,8 +850,30 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
       setShowRecordings(true);
     };
 
+    // Listen for agent steps (live log of browser actions)
+    const handleAgentStep = (data: { step: AgentStep }): void => {
+      setAgentSteps((prev) => {
+        const index = prev.findIndex((s) => s.id === data.step.id);
+        if (index === -1) return [...prev, data.step];
+        const next = [...prev];
+        next[index] = data.step;
+        return next;
+      });
+    };
+
     window.sidebarAPI.onChatResponse(handleChatResponse);
     window.sidebarAPI.onMessagesUpdated(handleMessagesUpdated);
+    window.sidebarAPI.onConversationsUpdated(handleConversationsUpdated);
+    window.sidebarAPI.onAgentStep(handleAgentStep);
+    window.sidebarAPI.onToolEvent((data: { event: ToolEvent }) =>
+      setLiveToolCalls((prev) => applyToolEvent(prev, data.event)),
+    );
+    window.sidebarAPI.onApprovalRequest((request) =>
+      setPendingApprovals((prev) => [...prev, request]),
+    );
+    window.sidebarAPI.onSecretPrompt((prompt) =>
+      setPendingSecretPrompts((prev) => [...prev, prompt]),
+    );
     window.electron.ipcRenderer.on(
       "show-recordings",
       (_event, recordingsList) => {
@@ -277,6 +884,11 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
     return () => {
       window.sidebarAPI.removeChatResponseListener();
       window.sidebarAPI.removeMessagesUpdatedListener();
+      window.sidebarAPI.removeConversationsUpdatedListener();
+      window.sidebarAPI.removeAgentStepListener();
+      window.sidebarAPI.removeToolEventListener();
+      window.sidebarAPI.removeApprovalRequestListener();
+      window.sidebarAPI.removeSecretPromptListener();
       window.electron.ipcRenderer.removeAllListeners("show-recordings");
     };
   }, []);
@@ -284,11 +896,47 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
   const value: ChatContextType = {
     messages,
     isLoading,
+    conversations,
+    currentConversationId,
     recordings,
     showRecordings,
+    editingRecordingId,
+    batchRecordingId,
+    agentMode,
+    agentSteps,
+    liveToolCalls,
+    pendingApprovals,
+    pendingSecretPrompts,
+    providers,
+    modelSettings,
     sendMessage,
+    cancelMessage,
+    editMessage,
+    regenerateMessage,
+    switchBranch,
     clearChat,
+    setAgentMode,
+    respondToApproval,
+    respondToSecretPrompt,
+    setModelSettings,
+    getUsageSummary,
+    profiles,
+    activeProfileId,
+    tools,
+    commands,
+    runCommand,
+    setActiveProfile,
+    saveProfile,
+    deleteProfile,
+    createConversation,
+    switchConversation,
+    renameConversation,
+    deleteConversation,
+    searchConversations,
     closeRecordingsList,
+    editRecording,
+    batchReplay,
+    recordingUpdated,
     replayRecording,
     deleteRecording,
     getPageContent,
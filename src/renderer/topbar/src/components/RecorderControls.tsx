@@ -1,11 +1,39 @@
-import React, { useState } from "react";
-import { Circle, Square, Pause, Play, List, Clock } from "lucide-react";
+import React, { useEffect, useState } from "react";
+import {
+  Circle,
+  Square,
+  Pause,
+  Play,
+  List,
+  Clock,
+  ListChecks,
+} from "lucide-react";
 import { ToolBarButton } from "./ToolBarButton";
 
 export const RecorderControls: React.FC = () => {
   const [isRecording, setIsRecording] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
 
+  // Recording can also be started and stopped from the sidebar (/record),
+  // so follow the recorder rather than this component's own clicks
+  useEffect(() => {
+    const apply = (state: {
+      isRecording: boolean;
+      isPaused: boolean;
+    }): void => {
+      setIsRecording(state.isRecording);
+      setIsPaused(state.isPaused);
+    };
+    window.topBarAPI.onRecorderStateChanged(apply);
+    window.topBarAPI
+      .recorderGetState()
+      .then(apply)
+      .catch((error) => console.error("Failed to get recorder state:", error));
+    return () => {
+      window.topBarAPI.removeRecorderStateListener();
+    };
+  }, []);
+
   const handleStartRecording = async (): Promise<void> => {
     try {
       const timestamp = new Date()
@@ -15,10 +43,7 @@ export const RecorderControls: React.FC = () => {
       const name = `Recording-${timestamp}`;
       const result = await window.topBarAPI.recorderStart(name, undefined);
 
-      if (result.success) {
-        setIsRecording(true);
-        setIsPaused(false);
-      } else {
+      if (!result.success) {
         alert(`Failed to start recording: ${result.error}`);
       }
     } catch (error) {
@@ -32,8 +57,6 @@ export const RecorderControls: React.FC = () => {
       const result = await window.topBarAPI.recorderStop();
 
       if (result.success) {
-        setIsRecording(false);
-        setIsPaused(false);
         alert("Recording saved successfully!");
       } else {
         alert(`Failed to stop recording: ${result.error}`);
@@ -47,15 +70,9 @@ export const RecorderControls: React.FC = () => {
   const handlePauseResume = async (): Promise<void> => {
     try {
       if (isPaused) {
-        const result = await window.topBarAPI.recorderResume();
-        if (result.success) {
-          setIsPaused(false);
-        }
+        await window.topBarAPI.recorderResume();
       } else {
-        const result = await window.topBarAPI.recorderPause();
-        if (result.success) {
-          setIsPaused(true);
-        }
+        await window.topBarAPI.recorderPause();
       }
     } catch (error) {
       console.error("Failed to pause/resume recording:", error);
@@ -74,6 +91,19 @@ export const RecorderControls: React.FC = () => {
     }
   };
 
+  // The next click in the tab picks an element; the main process then asks
+  // which check to record for it
+  const handleAddAssertion = async (): Promise<void> => {
+    try {
+      const result = await window.topBarAPI.recorderPickAssertTarget();
+      if (!result.success) {
+        alert(`Failed to add assertion: ${result.error}`);
+      }
+    } catch (error) {
+      console.error("Failed to add assertion:", error);
+    }
+  };
+
   const handleShowRecordings = async (): Promise<void> => {
     try {
       // Send event to sidebar to show recordings
@@ -97,6 +127,7 @@ export const RecorderControls: React.FC = () => {
             onClick={handlePauseResume}
           />
           <ToolBarButton Icon={Clock} onClick={handleAddManualStep} />
+          <ToolBarButton Icon={ListChecks} onClick={handleAddAssertion} />
           <ToolBarButton
             Icon={Square}
             onClick={handleStopRecording}